@@ -14,6 +14,7 @@ export {
   readJsonFile,
   writeJsonFile,
   updateJsonFile,
+  writeFileAtomic,
   fileExists
 } from './shared/config-utils.js';
 
@@ -25,8 +26,80 @@ export {
 // Installation utilities
 export { InstallationResolver } from './shared/installation-utils.js';
 
+// Version pinning and update utilities
+export {
+  parsePackageSpec,
+  detectPackageReference,
+  findPinnedVersion,
+  pinPackageVersion,
+  compareVersions,
+  fetchLatestVersion,
+  fetchChangelogSummary,
+  satisfiesVersionRange,
+  isVersionRange,
+  fetchPackageVersions,
+  resolveVersionRange,
+  fetchImageDigest
+} from './shared/version-utils.js';
+export type { PackageReference, VersionedPackageType } from './shared/version-utils.js';
+
+// Project manifest (mcpl.json) and lockfile (mcpl.lock)
+export {
+  MANIFEST_FILE,
+  LOCK_FILE,
+  validateProjectManifest,
+  findProjectManifest,
+  readProjectManifest,
+  readProjectLock,
+  writeProjectLock,
+  serializeProjectLock,
+  isValidManifestVersion
+} from './shared/manifest-utils.js';
+
+// Encrypted secret store and secret:// references
+export {
+  SECRET_REF_PREFIX,
+  SECRET_LAUNCHER_COMMAND,
+  SecretVault,
+  getSecretsPath,
+  isValidSecretName,
+  createSecretRef,
+  parseSecretRef,
+  findSecretRefs,
+  wrapWithSecretLauncher,
+  readSecretPassphrase
+} from './shared/secret-utils.js';
+export type { SecretSummary } from './shared/secret-utils.js';
+
+// Recorded MCP sessions (cassettes) and replay
+export {
+  REPLAY_MISS_ERROR_CODE,
+  REDACTED_VALUE,
+  validateCassette,
+  readCassette,
+  writeCassette,
+  CassettePlayer,
+  ReplayTransport
+} from './shared/cassette-utils.js';
+
+// .mcplookup.yaml parsing and validation
+export {
+  MCPLOOKUP_YAML_FILES,
+  MCP_CATEGORIES,
+  parseMCPLookupYAML,
+  fixMCPLookupYAML,
+  hasYAMLComments
+} from './yaml/parser.js';
+export type {
+  MCPLookupConfig,
+  MCPCategory,
+  MCPLookupValidationResult,
+  MCPLookupValidationIssue,
+  MCPLookupFixResult
+} from './types/mcplookup-yaml.js';
+
 // Installation types (export from generated.ts)
-export type { InstallationContext, ResolvedPackage } from './types/generated.js';
+export type { InstallationContext, ResolvedPackage, EnvironmentVariable } from './types/generated.js';
 
 // Direct export of needed function for GitHub parser
 export { buildMCPServerFromGitHubRepo } from './shared/github-builder.js';
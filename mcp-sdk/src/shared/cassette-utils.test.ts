@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import type { Cassette, JsonRpcMessage } from '../types.js';
+import { CassettePlayer, REDACTED_VALUE, REPLAY_MISS_ERROR_CODE, ReplayTransport, validateCassette } from './cassette-utils.js';
+
+const call = (id: number, args: Record<string, unknown>, meta?: Record<string, unknown>): JsonRpcMessage => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'tools/call',
+  params: { name: 'search', arguments: args, ...(meta && { _meta: meta }) }
+});
+
+const text = (id: number, value: string): JsonRpcMessage => ({
+  jsonrpc: '2.0',
+  id,
+  result: { content: [{ type: 'text', text: value }] }
+});
+
+function createCassette(...messages: Array<['client' | 'server', JsonRpcMessage]>): Cassette {
+  return {
+    version: 1,
+    server: 'search',
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    messages: messages.map(([from, message], index) => ({ from, offsetMs: index, message }))
+  };
+}
+
+const cassette = createCassette(
+  ['client', { jsonrpc: '2.0', id: 0, method: 'initialize', params: { clientInfo: { name: 'recorder' } } }],
+  ['server', { jsonrpc: '2.0', id: 0, result: { serverInfo: { name: 'search' } } }],
+  ['client', call(1, { query: 'mcp', page: 1 })],
+  ['server', text(1, 'first page')],
+  ['client', call(2, { query: 'mcp', page: 2 })],
+  ['server', text(2, 'second page')],
+  ['client', call(3, { query: 'mcp', page: 1 })],
+  ['server', text(3, 'first page again')]
+);
+
+const resultText = (replies: JsonRpcMessage[]) =>
+  (replies[replies.length - 1].result as { content: Array<{ text: string }> } | undefined)?.content[0].text;
+
+describe('cassette-utils', () => {
+  describe('validateCassette', () => {
+    it('should accept a recorded cassette and list the problems of others', () => {
+      expect(validateCassette(cassette)).toEqual([]);
+      expect(validateCassette([])).toEqual(['Cassette must be a JSON object']);
+      expect(validateCassette({ version: 2, server: 1, messages: [{ from: 'proxy' }, { from: 'client', message: {} }] })).toEqual([
+        'version must be 1',
+        'server must be a string',
+        'messages[0].from must be "client" or "server"',
+        'messages[1].message is not a JSON-RPC 2.0 message'
+      ]);
+    });
+  });
+
+  describe('CassettePlayer', () => {
+    it('should answer with the response recorded for the same params, under the new id', () => {
+      const player = new CassettePlayer(cassette);
+
+      const replies = player.handle(call(42, { query: 'mcp', page: 2 }));
+      expect(replies).toEqual([{ ...text(2, 'second page'), id: 42 }]);
+    });
+
+    it('should replay identical requests in recorded order, then repeat the last', () => {
+      const player = new CassettePlayer(cassette);
+
+      expect(resultText(player.handle(call(1, { query: 'mcp', page: 1 })))).toBe('first page');
+      expect(resultText(player.handle(call(2, { query: 'mcp', page: 1 })))).toBe('first page again');
+      expect(resultText(player.handle(call(3, { query: 'mcp', page: 1 })))).toBe('first page again');
+      expect(player.unplayed().map(request => request.id)).toEqual([0, 2]);
+    });
+
+    it('should fail once every match was replayed when repeat is off', () => {
+      const player = new CassettePlayer(cassette, { repeat: false });
+      player.handle(call(1, { query: 'mcp', page: 2 }));
+
+      const [reply] = player.handle(call(2, { query: 'mcp', page: 2 }));
+      expect(reply.error?.code).toBe(REPLAY_MISS_ERROR_CODE);
+      expect(player.misses).toHaveLength(1);
+    });
+
+    it('should match lifecycle requests by method only', () => {
+      const player = new CassettePlayer(cassette);
+      const [reply] = player.handle({ jsonrpc: '2.0', id: 9, method: 'initialize', params: { clientInfo: { name: 'test' } } });
+      expect(reply.result).toEqual({ serverInfo: { name: 'search' } });
+    });
+
+    it('should report requests that match nothing', () => {
+      const player = new CassettePlayer(cassette);
+      const [reply] = player.handle(call(7, { query: 'other' }));
+
+      expect(reply).toMatchObject({ id: 7, error: { code: REPLAY_MISS_ERROR_CODE } });
+      expect(reply.error?.message).toContain('No recorded tools/call request matches');
+      expect(player.misses).toEqual([call(7, { query: 'other' })]);
+    });
+
+    it('should leave out arguments or ignored paths when asked', () => {
+      expect(resultText(new CassettePlayer(cassette, { arguments: 'ignore' }).handle(call(1, { query: 'anything' }))))
+        .toBe('first page');
+      expect(resultText(new CassettePlayer(cassette, { ignore: ['arguments.page'] }).handle(call(1, { query: 'mcp', page: 9 }))))
+        .toBe('first page');
+      expect(new CassettePlayer(cassette, { ignore: ['arguments.page'] }).handle(call(1, { query: 'x', page: 1 }))[0].error)
+        .toBeDefined();
+    });
+
+    it('should use a custom matcher instead of comparing params', () => {
+      const player = new CassettePlayer(cassette, {
+        matcher: (recorded, incoming) => (recorded.params?.arguments as { page: number }).page === (incoming.params?.arguments as { page: number }).page
+      });
+      expect(resultText(player.handle(call(1, { page: 2 })))).toBe('second page');
+    });
+
+    it('should match redacted values against any value', () => {
+      const player = new CassettePlayer(createCassette(
+        ['client', call(1, { query: 'mcp', apiKey: REDACTED_VALUE })],
+        ['server', text(1, 'authorised')]
+      ));
+
+      expect(resultText(player.handle(call(5, { query: 'mcp', apiKey: 'sk-live' })))).toBe('authorised');
+      expect(player.handle(call(6, { query: 'mcp' }))[0].error).toBeDefined();
+    });
+
+    it('should replay progress under the new progress token', () => {
+      const player = new CassettePlayer(createCassette(
+        ['client', call(1, { query: 'slow' }, { progressToken: 'recorded' })],
+        ['server', { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'recorded', progress: 1 } }],
+        ['server', text(1, 'done')]
+      ));
+
+      expect(player.handle(call(8, { query: 'slow' }, { progressToken: 'live' }))).toEqual([
+        { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'live', progress: 1 } },
+        { ...text(1, 'done'), id: 8 }
+      ]);
+    });
+
+    it('should answer with an error when the recording ended before the response', () => {
+      const player = new CassettePlayer(createCassette(['client', call(1, { query: 'cut' })]));
+      const [reply] = player.handle(call(2, { query: 'cut' }));
+      expect(reply.error?.message).toContain('The recording ended before the server answered tools/call');
+    });
+  });
+
+  describe('ReplayTransport', () => {
+    it('should deliver replies asynchronously and refuse to send once closed', async () => {
+      const transport = new ReplayTransport(cassette);
+      const received: JsonRpcMessage[] = [];
+      let closed = false;
+      transport.onmessage = message => received.push(message);
+      transport.onclose = () => {
+        closed = true;
+      };
+
+      await transport.start();
+      await transport.send(call(11, { query: 'mcp', page: 2 }));
+      expect(received).toEqual([]);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(received).toEqual([{ ...text(2, 'second page'), id: 11 }]);
+
+      await transport.close();
+      expect(closed).toBe(true);
+      await expect(transport.send(call(12, {}))).rejects.toThrow('Replay transport is closed');
+    });
+  });
+});
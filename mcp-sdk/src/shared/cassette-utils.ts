@@ -0,0 +1,270 @@
+// Recorded MCP sessions (cassettes) and deterministic replay for tests
+
+import type { Cassette, CassetteMatchOptions, JsonRpcMessage } from '../types.js';
+import { readJsonFile, writeFileAtomic } from './config-utils.js';
+
+/**
+ * JSON-RPC error code returned when no recorded request matches
+ */
+export const REPLAY_MISS_ERROR_CODE = -32099;
+
+/**
+ * Stands in for a secret removed while recording; matches any value on replay
+ */
+export const REDACTED_VALUE = '[REDACTED]';
+
+// Lifecycle requests carry client details that differ between runs
+const METHOD_ONLY_MATCHES = new Set(['initialize', 'ping']);
+
+/**
+ * Validate a parsed cassette. Returns a list of problems (empty when valid).
+ */
+export function validateCassette(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['Cassette must be a JSON object'];
+  }
+
+  const cassette = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (cassette.version !== 1) {
+    errors.push('version must be 1');
+  }
+  if (typeof cassette.server !== 'string') {
+    errors.push('server must be a string');
+  }
+  if (!Array.isArray(cassette.messages)) {
+    errors.push('messages must be an array');
+    return errors;
+  }
+
+  cassette.messages.forEach((entry: unknown, index: number) => {
+    if (!isRecord(entry) || (entry.from !== 'client' && entry.from !== 'server')) {
+      errors.push(`messages[${index}].from must be "client" or "server"`);
+    } else if (!isRecord(entry.message) || entry.message.jsonrpc !== '2.0') {
+      errors.push(`messages[${index}].message is not a JSON-RPC 2.0 message`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Read and validate a cassette file
+ */
+export async function readCassette(filePath: string): Promise<Cassette> {
+  const cassette = await readJsonFile<Cassette>(filePath);
+  const errors = validateCassette(cassette);
+  if (errors.length > 0) {
+    throw new Error(`Invalid cassette ${filePath}:\n  ${errors.join('\n  ')}`);
+  }
+  return cassette;
+}
+
+/**
+ * Write a cassette file
+ */
+export async function writeCassette(filePath: string, cassette: Cassette): Promise<void> {
+  await writeFileAtomic(filePath, `${JSON.stringify(cassette, null, 2)}\n`);
+}
+
+interface RecordedExchange {
+  request: JsonRpcMessage;
+  replies: JsonRpcMessage[]; // notifications sent while the request was pending, then its response
+  played: boolean;
+}
+
+/**
+ * Answers JSON-RPC requests with the responses recorded in a cassette. Each
+ * recorded request is replayed once, in order; requests from the server
+ * (sampling, roots) and notifications sent outside a request are not replayed.
+ */
+export class CassettePlayer {
+  private exchanges: RecordedExchange[] = [];
+  private options: CassetteMatchOptions;
+  private missed: JsonRpcMessage[] = [];
+
+  constructor(cassette: Cassette, options: CassetteMatchOptions = {}) {
+    this.options = options;
+
+    const pending = new Map<string | number, RecordedExchange>();
+    for (const { from, message } of cassette.messages) {
+      if (from === 'client') {
+        if (message.method !== undefined && message.id !== undefined) {
+          const exchange = { request: message, replies: [], played: false };
+          this.exchanges.push(exchange);
+          pending.set(message.id, exchange);
+        }
+        continue;
+      }
+
+      if (message.method === undefined) {
+        const exchange = message.id !== undefined ? pending.get(message.id) : undefined;
+        if (exchange) {
+          exchange.replies.push(message);
+          pending.delete(message.id!);
+        }
+      } else if (message.id === undefined) {
+        this.findNotificationTarget(message, pending)?.replies.push(message);
+      }
+    }
+  }
+
+  /**
+   * Requests that did not match any recorded request
+   */
+  get misses(): JsonRpcMessage[] {
+    return [...this.missed];
+  }
+
+  /**
+   * Recorded requests that have not been replayed yet
+   */
+  unplayed(): JsonRpcMessage[] {
+    return this.exchanges.filter(exchange => !exchange.played).map(exchange => exchange.request);
+  }
+
+  /**
+   * Get the messages to send back for a message from the client
+   */
+  handle(message: JsonRpcMessage): JsonRpcMessage[] {
+    if (message.method === undefined || message.id === undefined) {
+      return [];
+    }
+
+    const candidates = this.exchanges.filter(exchange => exchange.request.method === message.method && this.matches(exchange.request, message));
+    const exchange = candidates.find(candidate => !candidate.played)
+      ?? (this.options.repeat !== false ? candidates[candidates.length - 1] : undefined);
+
+    if (!exchange) {
+      this.missed.push(message);
+      return [this.createError(message, `No recorded ${message.method} request matches ${this.describe(message)}`)];
+    }
+
+    exchange.played = true;
+    const progressToken = (message.params?._meta as Record<string, unknown> | undefined)?.progressToken;
+    const replies = exchange.replies.map(reply => {
+      if (reply.method === undefined) {
+        return { ...reply, id: message.id };
+      }
+      return reply.params?.progressToken !== undefined && progressToken !== undefined
+        ? { ...reply, params: { ...reply.params, progressToken } }
+        : reply;
+    });
+
+    if (!replies.some(reply => reply.method === undefined)) {
+      replies.push(this.createError(message, `The recording ended before the server answered ${message.method}`));
+    }
+    return replies;
+  }
+
+  private matches(recorded: JsonRpcMessage, incoming: JsonRpcMessage): boolean {
+    if (METHOD_ONLY_MATCHES.has(incoming.method!)) {
+      return true;
+    }
+    if (this.options.matcher) {
+      return this.options.matcher(recorded, incoming);
+    }
+    return matchesRecorded(this.comparableParams(recorded), this.comparableParams(incoming));
+  }
+
+  private comparableParams(message: JsonRpcMessage): Record<string, unknown> {
+    const params: Record<string, unknown> = JSON.parse(JSON.stringify(message.params || {}));
+    delete params._meta;
+    if (this.options.arguments === 'ignore') {
+      delete params.arguments;
+    }
+
+    for (const path of this.options.ignore || []) {
+      const keys = path.split('.');
+      const parent = keys.slice(0, -1).reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), params);
+      if (isRecord(parent)) {
+        delete parent[keys[keys.length - 1]];
+      }
+    }
+    return params;
+  }
+
+  /**
+   * Progress notifications belong to the request with the same progress token;
+   * anything else to the most recent request still waiting for its response
+   */
+  private findNotificationTarget(message: JsonRpcMessage, pending: Map<string | number, RecordedExchange>): RecordedExchange | undefined {
+    const token = message.params?.progressToken;
+    const exchanges = [...pending.values()];
+    if (token !== undefined) {
+      return exchanges.find(exchange => (exchange.request.params?._meta as Record<string, unknown> | undefined)?.progressToken === token);
+    }
+    return exchanges[exchanges.length - 1];
+  }
+
+  private describe(message: JsonRpcMessage): string {
+    const params = JSON.stringify(message.params || {});
+    return params.length > 200 ? `${params.slice(0, 200)}...` : params;
+  }
+
+  private createError(request: JsonRpcMessage, message: string): JsonRpcMessage {
+    return { jsonrpc: '2.0', id: request.id, error: { code: REPLAY_MISS_ERROR_CODE, message } };
+  }
+}
+
+/**
+ * In-memory MCP transport that answers from a cassette. Connect an MCP SDK
+ * Client to it to test agents without the recorded server:
+ *
+ *   await client.connect(new ReplayTransport(await readCassette('github.cassette.json')));
+ */
+export class ReplayTransport {
+  readonly player: CassettePlayer;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JsonRpcMessage) => void;
+  private closed = false;
+
+  constructor(cassette: Cassette, options: CassetteMatchOptions = {}) {
+    this.player = new CassettePlayer(cassette, options);
+  }
+
+  async start(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Replay transport is closed');
+    }
+
+    // Deliver replies asynchronously, like a real transport
+    for (const reply of this.player.handle(message)) {
+      setImmediate(() => this.onmessage?.(reply));
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.onclose?.();
+  }
+}
+
+/**
+ * Deep equality, except that a redacted recorded value matches anything
+ */
+function matchesRecorded(recorded: unknown, incoming: unknown): boolean {
+  if (recorded === incoming || recorded === REDACTED_VALUE) {
+    return true;
+  }
+  if (!isRecord(recorded) || !isRecord(incoming) || Array.isArray(recorded) !== Array.isArray(incoming)) {
+    return false;
+  }
+
+  const recordedKeys = Object.keys(recorded);
+  return recordedKeys.length === Object.keys(incoming).length
+    && recordedKeys.every(key => Object.prototype.hasOwnProperty.call(incoming, key) && matchesRecorded(recorded[key], incoming[key]));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
@@ -1,6 +1,6 @@
 // Shared configuration utilities to eliminate file I/O duplication
 
-import { readFile, writeFile, mkdir, access } from 'node:fs/promises';
+import { readFile, writeFile, mkdir, access, rename } from 'node:fs/promises';
 import { dirname } from 'node:path';
 
 /**
@@ -35,6 +35,21 @@ export async function writeJsonFile(filePath: string, data: any, pretty: boolean
   }
 }
 
+/**
+ * Write file atomically (temp file + rename) with directory creation
+ */
+export async function writeFileAtomic(filePath: string, content: string, mode?: number): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  try {
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(tempPath, content, { encoding: 'utf-8', ...(mode !== undefined && { mode }) });
+    await rename(tempPath, filePath);
+  } catch (error) {
+    throw new Error(`Failed to write file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Check if file exists
  */
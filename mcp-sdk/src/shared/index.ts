@@ -3,5 +3,9 @@ export * from './response-utils.js';
 export * from './config-utils.js';
 export * from './validation-utils.js';
 export * from './installation-utils.js';
+export * from './version-utils.js';
+export * from './manifest-utils.js';
+export * from './secret-utils.js';
+export * from './cassette-utils.js';
 export * from './claude-config-utils.js';
 export * from './github-builder.js';
@@ -3,6 +3,7 @@
 
 import { MCPLookupAPIClient } from '../generated/api-client.js';
 import type { 
+  EnvironmentVariable,
   InstallationMethod, 
   InstallationContext, 
   ResolvedPackage 
@@ -65,6 +66,7 @@ export class InstallationResolver {
     command: string;
     args: string[];
     env_vars: Record<string, string>;
+    environment_variables: EnvironmentVariable[]; // variables the server expects, from the registry
     post_install_notes: string[];
   }> {
     try {
@@ -81,6 +83,7 @@ export class InstallationResolver {
         command: instructions.claude_config?.command || this.getDefaultCommand(resolvedPackage, context),
         args: instructions.claude_config?.args || this.getDefaultArgs(resolvedPackage, context),
         env_vars: instructions.claude_config?.env_vars || {},
+        environment_variables: instructions.environment_setup?.filter(variable => !!variable.name) || [],
         post_install_notes: []
       };
     } catch (error) {
@@ -292,6 +295,7 @@ export class InstallationResolver {
       command,
       args,
       env_vars: {},
+      environment_variables: [],
       post_install_notes: context.mode === 'direct' ? ['Restart Claude Desktop to use the server'] : []
     };
   }
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ProjectLock } from '../types.js';
+import {
+  findProjectManifest,
+  readProjectLock,
+  readProjectManifest,
+  validateProjectManifest,
+  writeProjectLock
+} from './manifest-utils.js';
+
+const locked = (version: string) => ({ package: `@mcp/${version}`, type: 'npm' as const, range: '^1.0.0', version, mode: 'bridge' as const });
+
+describe('manifest-utils', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mcpl-manifest-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('validateProjectManifest', () => {
+    it('should accept a manifest with direct and bridge servers', () => {
+      expect(validateProjectManifest({
+        version: 1,
+        servers: {
+          filesystem: { package: '@modelcontextprotocol/server-filesystem', version: '^0.6.0', args: ['.'], clients: ['cursor'] },
+          github: { package: 'ghcr.io/github/github-mcp-server', type: 'docker', mode: 'bridge', env: ['GITHUB_TOKEN'] }
+        }
+      })).toEqual([]);
+    });
+
+    it('should list every problem', () => {
+      expect(validateProjectManifest({ version: 2, servers: [] })).toEqual([
+        'version must be 1',
+        'servers must be an object keyed by server name'
+      ]);
+      expect(validateProjectManifest({
+        version: 1,
+        servers: {
+          'my server': { package: '' },
+          notes: { package: 'notes', type: 'cargo', mode: 'bridge', clients: ['zed'], args: [1], env: ['1BAD'], pin: true }
+        }
+      })).toEqual([
+        'my server: server names may only contain letters, digits, "-" and "_"',
+        'my server.package must be a non-empty string',
+        'notes.type must be "npm", "python" or "docker"',
+        'notes.clients only applies to direct mode',
+        'notes.args must be an array of strings',
+        'notes.args only applies to direct mode',
+        'notes.env must be an array of environment variable names',
+        'notes: unknown fields pin'
+      ]);
+    });
+  });
+
+  describe('findProjectManifest', () => {
+    it('should find the nearest manifest in a parent directory', async () => {
+      const nested = join(root, 'packages', 'app');
+      await mkdir(nested, { recursive: true });
+      await writeFile(join(root, 'mcpl.json'), '{}');
+
+      expect(await findProjectManifest(nested)).toBe(join(root, 'mcpl.json'));
+      expect(await findProjectManifest(tmpdir())).toBeUndefined();
+    });
+  });
+
+  describe('readProjectManifest', () => {
+    it('should throw with every problem of an invalid manifest', async () => {
+      const path = join(root, 'mcpl.json');
+      await writeFile(path, JSON.stringify({ version: 1, servers: { notes: {} } }));
+      await expect(readProjectManifest(path)).rejects.toThrow(`Invalid manifest ${path}:\n  - notes.package must be a non-empty string`);
+
+      await writeFile(path, '{ "version": 1,');
+      await expect(readProjectManifest(path)).rejects.toThrow(`Failed to read manifest ${path}`);
+    });
+  });
+
+  describe('lockfiles', () => {
+    it('should write servers sorted by name and read them back', async () => {
+      const path = join(root, 'mcpl.lock');
+      const lock: ProjectLock = { lockfileVersion: 1, servers: { zed: locked('1.0.0'), alpha: locked('1.1.0') } };
+
+      await writeProjectLock(path, lock);
+
+      expect(Object.keys(JSON.parse(await readFile(path, 'utf-8')).servers)).toEqual(['alpha', 'zed']);
+      expect(await readProjectLock(path)).toEqual(lock);
+    });
+
+    it('should refuse lockfiles it cannot read', async () => {
+      const path = join(root, 'mcpl.lock');
+      expect(await readProjectLock(path)).toBeNull();
+
+      await writeFile(path, JSON.stringify({ lockfileVersion: 2, servers: {} }));
+      await expect(readProjectLock(path)).rejects.toThrow('delete it and run mcpl sync again');
+    });
+  });
+});
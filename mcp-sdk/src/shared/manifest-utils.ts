@@ -0,0 +1,170 @@
+// Project manifest (mcpl.json) and lockfile (mcpl.lock) utilities
+
+import { readFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import type { LockedServer, ProjectLock, ProjectManifest } from '../types.js';
+import { fileExists, writeFileAtomic } from './config-utils.js';
+import { isVersionRange } from './version-utils.js';
+
+export const MANIFEST_FILE = 'mcpl.json';
+export const LOCK_FILE = 'mcpl.lock';
+
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Validate a parsed manifest. Returns a list of problems (empty when valid).
+ */
+export function validateProjectManifest(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['Manifest must be a JSON object'];
+  }
+
+  const manifest = value as Record<string, any>;
+  const errors: string[] = [];
+
+  if (manifest.version !== 1) {
+    errors.push('version must be 1');
+  }
+  if (!manifest.servers || typeof manifest.servers !== 'object' || Array.isArray(manifest.servers)) {
+    errors.push('servers must be an object keyed by server name');
+    return errors;
+  }
+
+  for (const [name, server] of Object.entries<any>(manifest.servers)) {
+    if (!SERVER_NAME_PATTERN.test(name)) {
+      errors.push(`${name}: server names may only contain letters, digits, "-" and "_"`);
+    }
+    if (!server || typeof server !== 'object' || Array.isArray(server)) {
+      errors.push(`${name}: must be an object`);
+      continue;
+    }
+
+    if (typeof server.package !== 'string' || !server.package.trim()) {
+      errors.push(`${name}.package must be a non-empty string`);
+    }
+    if (server.version !== undefined && (typeof server.version !== 'string' || !server.version.trim())) {
+      errors.push(`${name}.version must be a non-empty string`);
+    }
+    if (server.type !== undefined && !['npm', 'python', 'docker'].includes(server.type)) {
+      errors.push(`${name}.type must be "npm", "python" or "docker"`);
+    }
+    if (server.mode !== undefined && server.mode !== 'direct' && server.mode !== 'bridge') {
+      errors.push(`${name}.mode must be "direct" or "bridge"`);
+    }
+    if (server.clients !== undefined && (!isStringArray(server.clients) || server.clients.length === 0)) {
+      errors.push(`${name}.clients must be a non-empty array of client ids`);
+    }
+    if (server.clients !== undefined && server.mode === 'bridge') {
+      errors.push(`${name}.clients only applies to direct mode`);
+    }
+    if (server.args !== undefined && !isStringArray(server.args)) {
+      errors.push(`${name}.args must be an array of strings`);
+    }
+    if (server.args !== undefined && server.mode === 'bridge') {
+      errors.push(`${name}.args only applies to direct mode`);
+    }
+    if (server.env !== undefined && (!isStringArray(server.env) || server.env.some((env: string) => !ENV_NAME_PATTERN.test(env)))) {
+      errors.push(`${name}.env must be an array of environment variable names`);
+    }
+
+    const unknown = Object.keys(server).filter(key => !['package', 'type', 'version', 'mode', 'clients', 'args', 'env'].includes(key));
+    if (unknown.length > 0) {
+      errors.push(`${name}: unknown fields ${unknown.join(', ')}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Find the nearest mcpl.json in the directory or one of its parents
+ */
+export async function findProjectManifest(cwd: string = process.cwd()): Promise<string | undefined> {
+  let directory = resolve(cwd);
+
+  while (true) {
+    const candidate = join(directory, MANIFEST_FILE);
+    if (await fileExists(candidate)) {
+      return candidate;
+    }
+
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Read and validate a manifest, throwing with every problem found
+ */
+export async function readProjectManifest(path: string): Promise<ProjectManifest> {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read manifest ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const errors = validateProjectManifest(manifest);
+  if (errors.length > 0) {
+    throw new Error(`Invalid manifest ${path}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return manifest as ProjectManifest;
+}
+
+/**
+ * Read a lockfile; returns null when there is none yet
+ */
+export async function readProjectLock(path: string): Promise<ProjectLock | null> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let lock: ProjectLock;
+  try {
+    lock = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse lockfile ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (lock?.lockfileVersion !== 1 || !lock.servers || typeof lock.servers !== 'object') {
+    throw new Error(`Unsupported lockfile ${path}: delete it and run mcpl sync again`);
+  }
+  return lock;
+}
+
+/**
+ * Write a lockfile with servers sorted by name so diffs stay stable
+ */
+export async function writeProjectLock(path: string, lock: ProjectLock): Promise<void> {
+  await writeFileAtomic(path, serializeProjectLock(lock));
+}
+
+/**
+ * Serialize a lockfile the way writeProjectLock stores it
+ */
+export function serializeProjectLock(lock: ProjectLock): string {
+  const servers: Record<string, LockedServer> = {};
+  for (const name of Object.keys(lock.servers).sort()) {
+    servers[name] = lock.servers[name];
+  }
+  return JSON.stringify({ lockfileVersion: 1, servers }, null, 2) + '\n';
+}
+
+/**
+ * Check whether a manifest version is something resolveVersionRange can handle
+ * for the given package type (Docker also accepts plain tags)
+ */
+export function isValidManifestVersion(version: string, type: LockedServer['type']): boolean {
+  return type === 'docker' || isVersionRange(version);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  SecretVault,
+  findSecretRefs,
+  isValidSecretName,
+  parseSecretRef,
+  readSecretPassphrase,
+  wrapWithSecretLauncher
+} from './secret-utils.js';
+
+describe('secret-utils', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mcpl-secrets-'));
+    path = join(dir, 'secrets.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('references', () => {
+    it('should parse whole values and Docker -e arguments', () => {
+      expect(parseSecretRef('secret://github-token')).toBe('github-token');
+      expect(parseSecretRef('GITHUB_TOKEN=secret://github-token')).toBe('github-token');
+      expect(parseSecretRef('prefix secret://github-token')).toBeUndefined();
+      expect(parseSecretRef('secret://-bad')).toBeUndefined();
+    });
+
+    it('should list each referenced secret once', () => {
+      expect(findSecretRefs({
+        args: ['-e', 'TOKEN=secret://token', 'image'],
+        env: { TOKEN: 'secret://token', KEY: 'secret://key', PLAIN: 'value' }
+      })).toEqual(['token', 'key']);
+    });
+
+    it('should only wrap configs that reference secrets', () => {
+      const plain = { command: 'npx', args: ['-y', 'pkg'] };
+      expect(wrapWithSecretLauncher(plain)).toBe(plain);
+
+      const wrapped = wrapWithSecretLauncher({ command: 'npx', args: ['-y', 'pkg'], env: { TOKEN: 'secret://token' } });
+      expect(wrapped).toEqual({ command: 'mcpl-launch', args: ['npx', '-y', 'pkg'], env: { TOKEN: 'secret://token' } });
+      expect(wrapWithSecretLauncher(wrapped)).toBe(wrapped);
+    });
+
+    it('should validate secret names', () => {
+      expect(isValidSecretName('github.token_2')).toBe(true);
+      expect(isValidSecretName('.hidden')).toBe(false);
+      expect(isValidSecretName('a/b')).toBe(false);
+    });
+  });
+
+  describe('readSecretPassphrase', () => {
+    it('should prefer the environment, then the passphrase file', async () => {
+      const file = join(dir, 'passphrase');
+      await writeFile(file, 'from-file\n');
+
+      expect(await readSecretPassphrase({ MCPL_SECRETS_PASSPHRASE: 'from-env', MCPL_SECRETS_PASSPHRASE_FILE: file })).toBe('from-env');
+      expect(await readSecretPassphrase({ MCPL_SECRETS_PASSPHRASE_FILE: file })).toBe('from-file');
+      expect(await readSecretPassphrase({ MCPL_SECRETS_PASSPHRASE_FILE: join(dir, 'missing') })).toBeUndefined();
+    });
+  });
+
+  describe('SecretVault', () => {
+    it('should store encrypted values in a private file', async () => {
+      const vault = new SecretVault({ path, passphrase: 'correct horse' });
+      await vault.set('github-token', 'ghp_secret');
+
+      const content = await readFile(path, 'utf-8');
+      expect(content).not.toContain('ghp_secret');
+      expect((await stat(path)).mode & 0o777).toBe(0o600);
+
+      const reopened = new SecretVault({ path, passphrase: 'correct horse' });
+      expect(await reopened.get('github-token')).toBe('ghp_secret');
+      expect(await reopened.get('missing')).toBeUndefined();
+      expect((await reopened.list()).map(secret => secret.name)).toEqual(['github-token']);
+    });
+
+    it('should list without a passphrase but refuse to decrypt', async () => {
+      await new SecretVault({ path, passphrase: 'correct horse' }).set('token', 'value');
+
+      const locked = new SecretVault({ path });
+      expect(await locked.has('token')).toBe(true);
+      await expect(locked.get('token')).rejects.toThrow('locked');
+      await expect(new SecretVault({ path, passphrase: 'wrong' }).get('token')).rejects.toThrow('Wrong passphrase');
+    });
+
+    it('should bind each ciphertext to its secret name', async () => {
+      const vault = new SecretVault({ path, passphrase: 'correct horse' });
+      await vault.set('a', 'value-a');
+      await vault.set('b', 'value-b');
+
+      const file = JSON.parse(await readFile(path, 'utf-8'));
+      file.secrets.a = { ...file.secrets.b };
+      await writeFile(path, JSON.stringify(file));
+
+      await expect(new SecretVault({ path, passphrase: 'correct horse' }).get('a')).rejects.toThrow('could not be decrypted');
+    });
+
+    it('should resolve references and report every missing secret', async () => {
+      const vault = new SecretVault({ path, passphrase: 'correct horse' });
+      await vault.set('token', 'abc');
+
+      expect(await vault.resolve({ args: ['-e', 'TOKEN=secret://token'], env: { TOKEN: 'secret://token', MODE: 'x' } }))
+        .toEqual({ args: ['-e', 'TOKEN=abc'], env: { TOKEN: 'abc', MODE: 'x' } });
+      await expect(vault.resolve({ env: { A: 'secret://one', B: 'secret://two' } })).rejects.toThrow('Missing secrets: one, two');
+    });
+
+    it('should remove secrets and reject invalid names', async () => {
+      const vault = new SecretVault({ path, passphrase: 'correct horse' });
+      await vault.set('token', 'abc');
+
+      expect(await vault.remove('token')).toBe(true);
+      expect(await vault.remove('token')).toBe(false);
+      await expect(vault.set('bad/name', 'x')).rejects.toThrow('Invalid secret name');
+    });
+  });
+});
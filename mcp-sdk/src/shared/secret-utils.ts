@@ -0,0 +1,292 @@
+// Encrypted local secret store and secret:// references in server configs
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { EncryptedSecret, SecretVaultFile } from '../types.js';
+import { writeFileAtomic } from './config-utils.js';
+
+export const SECRET_REF_PREFIX = 'secret://';
+
+/**
+ * Command installed with mcpl that resolves secret:// references before
+ * starting a direct-mode server
+ */
+export const SECRET_LAUNCHER_COMMAND = 'mcpl-launch';
+
+const SECRET_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]*$/;
+// A whole value ("secret://name") or a Docker -e argument ("KEY=secret://name")
+const SECRET_REF_PATTERN = /^((?:[A-Za-z_][A-Za-z0-9_]*=)?)secret:\/\/([a-zA-Z0-9][a-zA-Z0-9._-]*)$/;
+const VERIFIER_TEXT = 'mcpl-secrets';
+const KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+export interface SecretSummary {
+  name: string;
+  updatedAt: string;
+}
+
+/**
+ * Get the default secret store path
+ */
+export function getSecretsPath(): string {
+  return join(homedir(), '.mcpl', 'secrets.json');
+}
+
+/**
+ * Check whether a secret name is valid
+ */
+export function isValidSecretName(name: string): boolean {
+  return SECRET_NAME_PATTERN.test(name);
+}
+
+/**
+ * Build a reference to a stored secret, e.g. secret://github-token
+ */
+export function createSecretRef(name: string): string {
+  return `${SECRET_REF_PREFIX}${name}`;
+}
+
+/**
+ * Get the secret a value refers to, if it is a reference
+ */
+export function parseSecretRef(value: string): string | undefined {
+  return SECRET_REF_PATTERN.exec(value)?.[2];
+}
+
+/**
+ * List the secrets referenced by a server's args and env values
+ */
+export function findSecretRefs(config: { args?: string[]; env?: Record<string, string> }): string[] {
+  const values = [...(config.args || []), ...Object.values(config.env || {})];
+  return [...new Set(values.map(parseSecretRef).filter((name): name is string => !!name))];
+}
+
+/**
+ * Route a direct-mode server through the launcher when its config references secrets,
+ * so the client config never holds the values themselves
+ */
+export function wrapWithSecretLauncher<T extends { command: string; args?: string[]; env?: Record<string, string> }>(config: T): T {
+  if (config.command === SECRET_LAUNCHER_COMMAND || findSecretRefs(config).length === 0) {
+    return config;
+  }
+  return { ...config, command: SECRET_LAUNCHER_COMMAND, args: [config.command, ...(config.args || [])] };
+}
+
+/**
+ * Read the vault passphrase for non-interactive use: MCPL_SECRETS_PASSPHRASE,
+ * then the file named by MCPL_SECRETS_PASSPHRASE_FILE, then ~/.mcpl/secrets.passphrase
+ */
+export async function readSecretPassphrase(env: NodeJS.ProcessEnv = process.env): Promise<string | undefined> {
+  if (env.MCPL_SECRETS_PASSPHRASE) {
+    return env.MCPL_SECRETS_PASSPHRASE;
+  }
+
+  const path = env.MCPL_SECRETS_PASSPHRASE_FILE || join(homedir(), '.mcpl', 'secrets.passphrase');
+  try {
+    return (await readFile(path, 'utf-8')).replace(/\r?\n$/, '') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export class SecretVault {
+  private path: string;
+  private passphrase?: string;
+  private key?: Buffer;
+
+  constructor(options: { path?: string; passphrase?: string } = {}) {
+    this.path = options.path || getSecretsPath();
+    this.passphrase = options.passphrase;
+  }
+
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * List stored secret names (no passphrase needed)
+   */
+  async list(): Promise<SecretSummary[]> {
+    const vault = await this.load();
+    return Object.entries(vault?.secrets || {})
+      .map(([name, secret]) => ({ name, updatedAt: secret.updatedAt }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async has(name: string): Promise<boolean> {
+    const vault = await this.load();
+    return !!vault?.secrets[name];
+  }
+
+  /**
+   * Decrypt one secret; undefined when it is not stored
+   */
+  async get(name: string): Promise<string | undefined> {
+    const vault = await this.load();
+    const secret = vault?.secrets[name];
+    if (!vault || !secret) {
+      return undefined;
+    }
+
+    const key = await this.unlock(vault);
+    try {
+      return decrypt(key, secret, name);
+    } catch {
+      throw new Error(`Secret ${name} could not be decrypted; the secret store may be corrupt`);
+    }
+  }
+
+  /**
+   * Encrypt and store a secret, creating the store on first use
+   */
+  async set(name: string, value: string): Promise<void> {
+    if (!isValidSecretName(name)) {
+      throw new Error(`Invalid secret name "${name}": use letters, digits, ".", "-" and "_"`);
+    }
+
+    const vault = await this.load() || await this.create();
+    const key = await this.unlock(vault);
+    vault.secrets[name] = { ...encrypt(key, value, name), updatedAt: new Date().toISOString() };
+    await this.save(vault);
+  }
+
+  /**
+   * Delete a secret; returns false when it was not stored
+   */
+  async remove(name: string): Promise<boolean> {
+    const vault = await this.load();
+    if (!vault?.secrets[name]) {
+      return false;
+    }
+
+    delete vault.secrets[name];
+    await this.save(vault);
+    return true;
+  }
+
+  /**
+   * Replace secret:// references in a server's args and env with their values,
+   * failing with every secret that is missing
+   */
+  async resolve<T extends { args?: string[]; env?: Record<string, string> }>(config: T): Promise<T> {
+    const names = findSecretRefs(config);
+    if (names.length === 0) {
+      return config;
+    }
+
+    const values = new Map<string, string>();
+    const missing: string[] = [];
+    for (const name of names) {
+      const value = await this.get(name);
+      if (value === undefined) {
+        missing.push(name);
+      } else {
+        values.set(name, value);
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new Error(`Missing secrets: ${missing.join(', ')}. Add them with "mcpl secrets set <name>"`);
+    }
+
+    const replace = (value: string) => value.replace(SECRET_REF_PATTERN, (_, prefix: string, name: string) => prefix + values.get(name));
+    return {
+      ...config,
+      ...(config.args && { args: config.args.map(replace) }),
+      ...(config.env && { env: Object.fromEntries(Object.entries(config.env).map(([key, value]) => [key, replace(value)])) })
+    };
+  }
+
+  private async load(): Promise<SecretVaultFile | null> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    let vault: SecretVaultFile;
+    try {
+      vault = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to parse secret store ${this.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (vault?.version !== 1 || vault.kdf?.name !== 'scrypt' || !vault.verifier || typeof vault.secrets !== 'object') {
+      throw new Error(`Unsupported secret store ${this.path}`);
+    }
+    return vault;
+  }
+
+  private async create(): Promise<SecretVaultFile> {
+    const kdf = { name: 'scrypt' as const, salt: randomBytes(16).toString('base64'), ...KDF_PARAMS };
+    const key = await this.deriveKey(kdf);
+    this.key = key;
+    return { version: 1, kdf, verifier: encrypt(key, VERIFIER_TEXT, 'verifier'), secrets: {} };
+  }
+
+  private async save(vault: SecretVaultFile): Promise<void> {
+    await writeFileAtomic(this.path, JSON.stringify(vault, null, 2) + '\n', 0o600);
+  }
+
+  /**
+   * Derive the key and check it against the stored verifier
+   */
+  private async unlock(vault: SecretVaultFile): Promise<Buffer> {
+    if (this.key) {
+      return this.key;
+    }
+
+    const key = await this.deriveKey(vault.kdf);
+    let verified = false;
+    try {
+      const text = Buffer.from(decrypt(key, vault.verifier, 'verifier'));
+      verified = text.length === VERIFIER_TEXT.length && timingSafeEqual(text, Buffer.from(VERIFIER_TEXT));
+    } catch {
+      verified = false;
+    }
+
+    if (!verified) {
+      throw new Error('Wrong passphrase for the secret store');
+    }
+    this.key = key;
+    return key;
+  }
+
+  private deriveKey(kdf: SecretVaultFile['kdf']): Promise<Buffer> {
+    if (!this.passphrase) {
+      throw new Error('The secret store is locked: set MCPL_SECRETS_PASSPHRASE or create ~/.mcpl/secrets.passphrase');
+    }
+
+    const passphrase = this.passphrase;
+    return new Promise((resolve, reject) => {
+      scrypt(passphrase, Buffer.from(kdf.salt, 'base64'), 32, {
+        N: kdf.N,
+        r: kdf.r,
+        p: kdf.p,
+        maxmem: 128 * kdf.N * kdf.r * 2
+      }, (error, key) => error ? reject(error) : resolve(key));
+    });
+  }
+}
+
+function encrypt(key: Buffer, plaintext: string, name: string): EncryptedSecret {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(name));
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+function decrypt(key: Buffer, secret: EncryptedSecret, name: string): string {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(secret.iv, 'base64'));
+  decipher.setAAD(Buffer.from(name));
+  decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(secret.data, 'base64')), decipher.final()]).toString('utf-8');
+}
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  compareVersions,
+  detectPackageReference,
+  fetchLatestVersion,
+  findPinnedVersion,
+  isVersionRange,
+  parsePackageSpec,
+  pinPackageVersion,
+  resolveVersionRange,
+  satisfiesVersionRange
+} from './version-utils.js';
+
+describe('version-utils', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('parsePackageSpec', () => {
+    it('should split scoped npm specs on the last @', () => {
+      expect(parsePackageSpec('@scope/pkg@1.2.3', 'npm')).toEqual({ type: 'npm', packageName: '@scope/pkg', version: '1.2.3' });
+      expect(parsePackageSpec('@scope/pkg', 'npm')).toEqual({ type: 'npm', packageName: '@scope/pkg' });
+    });
+
+    it('should split Python and Docker specs', () => {
+      expect(parsePackageSpec('mcp-server-git==0.6.2', 'python')).toEqual({ type: 'python', packageName: 'mcp-server-git', version: '0.6.2' });
+      expect(parsePackageSpec('registry:5000/org/image:1.0', 'docker')).toEqual({ type: 'docker', packageName: 'registry:5000/org/image', version: '1.0' });
+      expect(parsePackageSpec('registry:5000/org/image', 'docker')).toEqual({ type: 'docker', packageName: 'registry:5000/org/image' });
+    });
+  });
+
+  describe('detectPackageReference', () => {
+    it('should find the package npx and uvx run', () => {
+      expect(detectPackageReference('npx', ['-y', '@scope/pkg@1.0.0'])).toEqual({ type: 'npm', packageName: '@scope/pkg', version: '1.0.0' });
+      expect(detectPackageReference('/usr/bin/uvx', ['mcp-server-git'])).toEqual({ type: 'python', packageName: 'mcp-server-git' });
+    });
+
+    it('should skip docker flags and their values', () => {
+      expect(detectPackageReference('docker', ['run', '-i', '--rm', '-e', 'TOKEN', '--name', 'x', 'org/image:2.1', '--flag']))
+        .toEqual({ type: 'docker', packageName: 'org/image', version: '2.1' });
+    });
+
+    it('should return null for other commands', () => {
+      expect(detectPackageReference('node', ['server.js'])).toBeNull();
+      expect(detectPackageReference('docker', ['ps'])).toBeNull();
+    });
+  });
+
+  describe('pinning', () => {
+    const ref = { type: 'npm' as const, packageName: '@scope/pkg' };
+
+    it('should find the pinned version', () => {
+      expect(findPinnedVersion(['npx', '-y', '@scope/pkg@1.0.0'], ref)).toBe('1.0.0');
+      expect(findPinnedVersion(['npx', '-y', '@scope/pkg'], ref)).toBeUndefined();
+      expect(findPinnedVersion(['npx', '-y', '@scope/pkg-extra@2.0.0'], ref)).toBeUndefined();
+    });
+
+    it('should rewrite every occurrence to the new version', () => {
+      expect(pinPackageVersion(['npx', '-y', '@scope/pkg', 'sh -c "npx @scope/pkg@1.0.0"'], ref, '2.0.0'))
+        .toEqual(['npx', '-y', '@scope/pkg@2.0.0', 'sh -c "npx @scope/pkg@2.0.0"']);
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should compare numerically with missing components as 0', () => {
+      expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+      expect(compareVersions('v1.2', '1.2.0')).toBe(0);
+    });
+
+    it('should follow semver prerelease precedence', () => {
+      const ordered = [
+        '1.0.0-alpha',
+        '1.0.0-alpha.1',
+        '1.0.0-alpha.beta',
+        '1.0.0-beta',
+        '1.0.0-beta.2',
+        '1.0.0-beta.11',
+        '1.0.0-rc.1',
+        '1.0.0'
+      ];
+      expect([...ordered].reverse().sort(compareVersions)).toEqual(ordered);
+      expect(compareVersions('1.0.0-beta.2', '1.0.0-beta.10')).toBeLessThan(0);
+    });
+
+    it('should ignore build metadata', () => {
+      expect(compareVersions('1.0.0+build-1', '1.0.0')).toBe(0);
+      expect(compareVersions('1.0.0+build-1', '1.0.0-rc.1')).toBeGreaterThan(0);
+    });
+  });
+
+  describe('satisfiesVersionRange', () => {
+    it('should support caret, tilde and x-ranges', () => {
+      expect(satisfiesVersionRange('1.4.2', '^1.2.0')).toBe(true);
+      expect(satisfiesVersionRange('2.0.0', '^1.2.0')).toBe(false);
+      expect(satisfiesVersionRange('0.2.5', '^0.2.1')).toBe(true);
+      expect(satisfiesVersionRange('0.3.0', '^0.2.1')).toBe(false);
+      expect(satisfiesVersionRange('1.2.9', '~1.2.3')).toBe(true);
+      expect(satisfiesVersionRange('1.3.0', '~1.2.3')).toBe(false);
+      expect(satisfiesVersionRange('1.7.0', '1.x')).toBe(true);
+    });
+
+    it('should support comparators, conjunctions and alternatives', () => {
+      expect(satisfiesVersionRange('1.5.0', '>=1.2.0 <2.0.0')).toBe(true);
+      expect(satisfiesVersionRange('3.1.0', '^1.0.0 || ^3.0.0')).toBe(true);
+      expect(satisfiesVersionRange('2.1.0', '^1.0.0 || ^3.0.0')).toBe(false);
+    });
+
+    it('should only match prereleases when the comparator names one', () => {
+      expect(satisfiesVersionRange('2.0.0-beta.1', '*')).toBe(false);
+      expect(satisfiesVersionRange('2.0.0-beta.1', '^1.0.0')).toBe(false);
+      expect(satisfiesVersionRange('1.0.0-beta.10', '>=1.0.0-beta.2')).toBe(true);
+    });
+
+    it('should tell ranges from other strings', () => {
+      expect(isVersionRange('^1.2 || >=3')).toBe(true);
+      expect(isVersionRange('latest')).toBe(true);
+      expect(isVersionRange('stable')).toBe(false);
+    });
+  });
+
+  describe('registry lookups', () => {
+    it('should encode the whole scoped package name', async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ version: '1.2.3' })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await fetchLatestVersion({ type: 'npm', packageName: '@scope/pkg' })).toBe('1.2.3');
+      expect(fetchMock).toHaveBeenCalledWith('https://registry.npmjs.org/%40scope%2Fpkg/latest');
+    });
+
+    it('should resolve a range to the newest matching release', async () => {
+      const versions = ['1.0.0', '1.2.0', '1.10.0', '2.0.0', '1.11.0-beta.1'];
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+        versions: Object.fromEntries(versions.map(version => [version, {}]))
+      }))));
+
+      expect(await resolveVersionRange({ type: 'npm', packageName: 'pkg' }, '^1.0.0')).toBe('1.10.0');
+      expect(await resolveVersionRange({ type: 'npm', packageName: 'pkg' }, '^3.0.0')).toBeNull();
+    });
+
+    it('should keep Docker tags that are not ranges', async () => {
+      expect(await resolveVersionRange({ type: 'docker', packageName: 'org/image' }, 'stable')).toBe('stable');
+    });
+  });
+});
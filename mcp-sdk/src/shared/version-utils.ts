@@ -0,0 +1,443 @@
+// Version utilities for installed MCP server packages
+// Detects, pins and compares package versions across npm, PyPI and Docker
+
+import { MCPLookupAPIClient } from '../generated/api-client.js';
+
+export type VersionedPackageType = 'npm' | 'python' | 'docker';
+
+/**
+ * Package referenced by a server command, with its pinned version (if any)
+ */
+export interface PackageReference {
+  type: VersionedPackageType;
+  packageName: string;
+  version?: string;
+}
+
+// Docker flags that consume the following argument
+const DOCKER_FLAGS_WITH_VALUE = new Set([
+  '-e', '--env', '--name', '-v', '--volume', '-p', '--publish', '--memory', '--cpus',
+  '--pids-limit', '--security-opt', '--network', '--user', '-u', '--tmpfs', '--cap-drop',
+  '--cap-add', '--mount', '--workdir', '-w', '--entrypoint', '--label', '-l', '--env-file'
+]);
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a regex matching a package spec (with optional version) inside a command part
+ */
+function packageSpecPattern(ref: Pick<PackageReference, 'type' | 'packageName'>): RegExp {
+  const name = escapeRegExp(ref.packageName);
+  const versionPart = ref.type === 'npm' ? '@([^\\s\'"@]+)' : ref.type === 'python' ? '==([^\\s\'"]+)' : ':([^\\s\'"]+)';
+  return new RegExp(`(^|[\\s'"])${name}(?:${versionPart})?(?=$|[\\s'"])`, 'g');
+}
+
+/**
+ * Split a package spec like "@scope/pkg@1.2.3", "pkg==1.0" or "org/image:tag"
+ */
+export function parsePackageSpec(spec: string, type: VersionedPackageType): PackageReference {
+  if (type === 'npm') {
+    const at = spec.lastIndexOf('@');
+    return at > 0
+      ? { type, packageName: spec.slice(0, at), version: spec.slice(at + 1) }
+      : { type, packageName: spec };
+  }
+
+  if (type === 'python') {
+    const [packageName, version] = spec.split('==');
+    return { type, packageName, ...(version && { version }) };
+  }
+
+  // Docker: a colon after the last slash separates the tag (registry ports come before it)
+  const colon = spec.lastIndexOf(':');
+  return colon > spec.lastIndexOf('/')
+    ? { type, packageName: spec.slice(0, colon), version: spec.slice(colon + 1) }
+    : { type, packageName: spec };
+}
+
+/**
+ * Detect which package a client config command (e.g. `npx -y pkg@1.0`) runs
+ */
+export function detectPackageReference(command: string, args: string[] = []): PackageReference | null {
+  const executable = command.split(/[\\/]/).pop() || command;
+
+  if (executable === 'npx' || executable === 'uvx') {
+    const spec = args.find(arg => !arg.startsWith('-'));
+    return spec ? parsePackageSpec(spec, executable === 'npx' ? 'npm' : 'python') : null;
+  }
+
+  if (executable === 'docker') {
+    const runIndex = args.indexOf('run');
+    if (runIndex === -1) {
+      return null;
+    }
+
+    for (let i = runIndex + 1; i < args.length; i++) {
+      const arg = args[i];
+      if (DOCKER_FLAGS_WITH_VALUE.has(arg)) {
+        i++;
+        continue;
+      }
+      if (!arg.startsWith('-')) {
+        return parsePackageSpec(arg, 'docker');
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the version a package is pinned to anywhere in a command
+ */
+export function findPinnedVersion(parts: string[], ref: Pick<PackageReference, 'type' | 'packageName'>): string | undefined {
+  for (const part of parts) {
+    for (const match of part.matchAll(packageSpecPattern(ref))) {
+      if (match[2]) {
+        return match[2];
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Rewrite every occurrence of a package in a command to the given version
+ */
+export function pinPackageVersion(
+  parts: string[],
+  ref: Pick<PackageReference, 'type' | 'packageName'>,
+  version: string
+): string[] {
+  const separator = ref.type === 'npm' ? '@' : ref.type === 'python' ? '==' : ':';
+  const pinned = `${ref.packageName}${separator}${version}`;
+
+  return parts.map(part => part.replace(packageSpecPattern(ref), (_match, prefix: string) => `${prefix}${pinned}`));
+}
+
+/**
+ * Compare two version strings by semver precedence (missing components count
+ * as 0, build metadata is ignored). Returns <0, 0 or >0.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = splitVersion(a);
+  const right = splitVersion(b);
+
+  for (let i = 0; i < Math.max(left.core.length, right.core.length); i++) {
+    const diff = (left.core[i] || 0) - (right.core[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+
+  // A release sorts after its prereleases
+  if (!left.prerelease.length || !right.prerelease.length) {
+    return right.prerelease.length - left.prerelease.length;
+  }
+
+  // Identifiers compare one by one: numbers numerically and below text, text in
+  // ASCII order; a longer list wins when one is a prefix of the other
+  for (let i = 0; i < Math.max(left.prerelease.length, right.prerelease.length); i++) {
+    const l = left.prerelease[i];
+    const r = right.prerelease[i];
+    if (l === undefined || r === undefined) {
+      return l === undefined ? -1 : 1;
+    }
+
+    const lNumeric = /^\d+$/.test(l);
+    const rNumeric = /^\d+$/.test(r);
+    if (lNumeric && rNumeric) {
+      const diff = Number(l) - Number(r);
+      if (diff !== 0) {
+        return diff;
+      }
+    } else if (lNumeric !== rNumeric) {
+      return lNumeric ? -1 : 1;
+    } else if (l !== r) {
+      return l < r ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Split "v1.2.3-beta.2+build" into numeric core components and prerelease identifiers
+ */
+function splitVersion(version: string): { core: number[]; prerelease: string[] } {
+  const withoutBuild = version.replace(/^v/, '').split('+')[0];
+  const dash = withoutBuild.indexOf('-');
+  const core = dash === -1 ? withoutBuild : withoutBuild.slice(0, dash);
+
+  return {
+    core: core.split('.').map(part => parseInt(part, 10) || 0),
+    prerelease: dash === -1 ? [] : withoutBuild.slice(dash + 1).split('.')
+  };
+}
+
+function isPrerelease(version: string): boolean {
+  return splitVersion(version).prerelease.length > 0;
+}
+
+/**
+ * Check whether a version satisfies an npm-style range. Supports exact versions,
+ * x-ranges (1.x, 1.2), ^, ~, comparison operators, space-separated conjunctions
+ * and || alternatives. Prereleases only match comparators that name one.
+ */
+export function satisfiesVersionRange(version: string, range: string): boolean {
+  const trimmed = range.trim();
+  if (!trimmed || trimmed === '*' || trimmed === 'latest') {
+    return !isPrerelease(version);
+  }
+
+  return trimmed.split('||').some(set =>
+    set.trim().split(/\s+/).filter(Boolean).every(comparator => satisfiesComparator(version, comparator))
+  );
+}
+
+/**
+ * Check whether a string is a version range satisfiesVersionRange understands
+ */
+export function isVersionRange(range: string): boolean {
+  const trimmed = range.trim();
+  return !trimmed || trimmed === '*' || trimmed === 'latest' || trimmed.split('||').every(set =>
+    set.trim().split(/\s+/).filter(Boolean).every(comparator => COMPARATOR_PATTERN.test(comparator))
+  );
+}
+
+const COMPARATOR_PATTERN = /^(\^|~|>=|<=|>|<|=)?v?(\d+|x|\*)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?(-[0-9A-Za-z.-]+)?$/i;
+
+function satisfiesComparator(version: string, comparator: string): boolean {
+  const match = COMPARATOR_PATTERN.exec(comparator);
+  if (!match) {
+    return false;
+  }
+
+  const [, operator = '', ...rest] = match;
+  const parts = rest.slice(0, 3);
+  const prerelease = rest[3] || '';
+  const isWildcard = (part?: string) => part === undefined || /^[x*]$/i.test(part);
+
+  // Index of the first omitted or wildcard component (-1 for a full version)
+  const wildcardIndex = parts.findIndex(isWildcard);
+  if (wildcardIndex === 0) {
+    return !isPrerelease(version);
+  }
+
+  const base = parts.map(part => isWildcard(part) ? 0 : parseInt(part!, 10));
+  const lower = `${base.join('.')}${prerelease}`;
+  const bump = (index: number) => base.map((part, i) => i < index ? part : i === index ? part + 1 : 0).join('.');
+
+  if (isPrerelease(version) && !prerelease) {
+    return false;
+  }
+
+  const atLeastLower = compareVersions(version, lower) >= 0;
+  switch (operator) {
+    case '^': {
+      const index = wildcardIndex === 1 || base[0] > 0 ? 0 : wildcardIndex === 2 || base[1] > 0 ? 1 : 2;
+      return atLeastLower && compareVersions(version, bump(index)) < 0;
+    }
+    case '~':
+      return atLeastLower && compareVersions(version, bump(wildcardIndex === 1 ? 0 : 1)) < 0;
+    case '>=':
+      return atLeastLower;
+    case '>':
+      return wildcardIndex === -1 ? compareVersions(version, lower) > 0 : compareVersions(version, bump(wildcardIndex - 1)) >= 0;
+    case '<':
+      return compareVersions(version, lower) < 0;
+    case '<=':
+      return wildcardIndex === -1 ? compareVersions(version, lower) <= 0 : compareVersions(version, bump(wildcardIndex - 1)) < 0;
+    default:
+      return wildcardIndex === -1
+        ? compareVersions(version, lower) === 0 && version.replace(/^v/, '') === lower
+        : atLeastLower && compareVersions(version, bump(wildcardIndex - 1)) < 0;
+  }
+}
+
+/**
+ * List the published versions of a package (Docker: numeric Hub tags)
+ */
+export async function fetchPackageVersions(ref: Pick<PackageReference, 'type' | 'packageName'>): Promise<string[]> {
+  try {
+    switch (ref.type) {
+      case 'npm': {
+        const response = await fetch(`https://registry.npmjs.org/${encodeURIComponent(ref.packageName)}`, {
+          headers: { Accept: 'application/vnd.npm.install-v1+json' }
+        });
+        if (!response.ok) return [];
+        const data = await response.json() as { versions?: Record<string, unknown> };
+        return Object.keys(data.versions || {});
+      }
+      case 'python': {
+        const response = await fetch(`https://pypi.org/pypi/${encodeURIComponent(ref.packageName)}/json`);
+        if (!response.ok) return [];
+        const data = await response.json() as { releases?: Record<string, unknown> };
+        return Object.keys(data.releases || {});
+      }
+      case 'docker': {
+        const repository = getDockerHubRepository(ref.packageName);
+        if (!repository) return [];
+        const response = await fetch(`https://hub.docker.com/v2/repositories/${repository}/tags?page_size=100&ordering=last_updated`);
+        if (!response.ok) return [];
+        const data = await response.json() as { results?: Array<{ name: string }> };
+        return (data.results || []).map(tag => tag.name).filter(name => /^v?\d+(\.\d+)*$/.test(name));
+      }
+    }
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolve a version range to the newest published version that satisfies it.
+ * Docker tags that are not ranges (e.g. "latest", "stable") are returned as-is.
+ */
+export async function resolveVersionRange(
+  ref: Pick<PackageReference, 'type' | 'packageName'>,
+  range: string = 'latest'
+): Promise<string | null> {
+  if (ref.type === 'docker' && (range === 'latest' || !isVersionRange(range))) {
+    return range;
+  }
+
+  const versions = (await fetchPackageVersions(ref))
+    .filter(version => satisfiesVersionRange(version, range))
+    .sort(compareVersions);
+
+  return versions.length > 0 ? versions[versions.length - 1] : null;
+}
+
+/**
+ * Look up the content digest of a Docker Hub image ("name:tag").
+ * Returns null for other registries or when the registry cannot be reached.
+ */
+export async function fetchImageDigest(image: string): Promise<string | null> {
+  const pinned = image.split('@')[1];
+  if (pinned?.startsWith('sha256:')) {
+    return pinned;
+  }
+
+  const ref = parsePackageSpec(image, 'docker');
+  const repository = getDockerHubRepository(ref.packageName);
+  if (!repository) {
+    return null;
+  }
+
+  try {
+    const tokenResponse = await fetch(`https://auth.docker.io/token?service=registry.docker.io&scope=repository:${repository}:pull`);
+    if (!tokenResponse.ok) return null;
+    const { token } = await tokenResponse.json() as { token?: string };
+
+    const response = await fetch(`https://registry-1.docker.io/v2/${repository}/manifests/${ref.version || 'latest'}`, {
+      method: 'HEAD',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: [
+          'application/vnd.oci.image.index.v1+json',
+          'application/vnd.docker.distribution.manifest.list.v2+json',
+          'application/vnd.docker.distribution.manifest.v2+json',
+          'application/vnd.oci.image.manifest.v1+json'
+        ].join(', ')
+      }
+    });
+    if (!response.ok) return null;
+    return response.headers.get('docker-content-digest');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map an image name to its Docker Hub repository; null for other registries
+ */
+function getDockerHubRepository(packageName: string): string | null {
+  const repository = packageName.includes('/') ? packageName : `library/${packageName}`;
+  return repository.split('/').length > 2 ? null : repository;
+}
+
+/**
+ * Look up the latest published version of a package in its registry
+ */
+export async function fetchLatestVersion(ref: Pick<PackageReference, 'type' | 'packageName'>): Promise<string | null> {
+  try {
+    switch (ref.type) {
+      case 'npm': {
+        const response = await fetch(`https://registry.npmjs.org/${encodeURIComponent(ref.packageName)}/latest`);
+        if (!response.ok) return null;
+        const data = await response.json() as { version?: string };
+        return data.version || null;
+      }
+      case 'python': {
+        const response = await fetch(`https://pypi.org/pypi/${encodeURIComponent(ref.packageName)}/json`);
+        if (!response.ok) return null;
+        const data = await response.json() as { info?: { version?: string } };
+        return data.info?.version || null;
+      }
+      case 'docker': {
+        // Only Docker Hub images can be queried without credentials
+        const repository = getDockerHubRepository(ref.packageName);
+        if (!repository) return null;
+        const response = await fetch(`https://hub.docker.com/v2/repositories/${repository}/tags?page_size=100&ordering=last_updated`);
+        if (!response.ok) return null;
+        const data = await response.json() as { results?: Array<{ name: string }> };
+        const versions = (data.results || [])
+          .map(tag => tag.name)
+          .filter(name => /^v?\d+(\.\d+)*$/.test(name))
+          .sort(compareVersions);
+        return versions.length > 0 ? versions[versions.length - 1] : null;
+      }
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Summarize the changelog the mcplookup.org registry holds for a package
+ * between the installed and the latest version.
+ */
+export async function fetchChangelogSummary(
+  ref: Pick<PackageReference, 'type' | 'packageName'>,
+  fromVersion: string | undefined,
+  toVersion: string,
+  options: { client?: MCPLookupAPIClient; maxLines?: number } = {}
+): Promise<string[]> {
+  const client = options.client || new MCPLookupAPIClient();
+  const maxLines = options.maxLines ?? 10;
+
+  try {
+    const result = await client.searchServers({ q: ref.packageName, limit: 5 });
+    const server = result?.servers?.find(candidate =>
+      candidate.packages?.some(pkg => pkg.name === ref.packageName)
+    );
+    const changelog = server?.files?.find(file => /changelog|changes|history/i.test(file.path));
+
+    if (!changelog) {
+      return [];
+    }
+
+    // Keep the sections for versions newer than the installed one
+    const lines: string[] = [];
+    let include = false;
+    for (const line of changelog.content.split('\n')) {
+      const heading = line.match(/^#{1,3}\s*\[?v?(\d+(?:\.\d+)+[^\]\s]*)/);
+      if (heading) {
+        include = compareVersions(heading[1], toVersion) <= 0 &&
+          (!fromVersion || compareVersions(heading[1], fromVersion) > 0);
+      }
+      if (include && line.trim()) {
+        lines.push(line.trim());
+      }
+      if (lines.length >= maxLines) {
+        break;
+      }
+    }
+
+    return lines;
+  } catch {
+    return [];
+  }
+}
@@ -2,13 +2,302 @@
 
 export interface ManagedServer {
   name: string;
-  type: 'docker' | 'npm';
+  type: 'docker' | 'npm' | 'python' | 'remote';
   mode: 'bridge' | 'direct';
   command: string[];
   client?: any; // MCP Client
   endpoint?: string;
   tools: string[];
   status: 'installing' | 'running' | 'stopped' | 'error';
+  env?: Record<string, string>;
+  source?: ManagedServerSource;
+  desiredState?: 'running' | 'stopped';
+  transport?: ManagedServerTransport; // defaults to 'stdio'
+  headers?: Record<string, string>; // remote transports only
+  bearerToken?: string; // remote transports only
+  sandbox?: ServerSandbox; // Docker-isolated servers only
+  restartPolicy?: RestartPolicy; // defaults to 'on-failure'
+  supervision?: ServerSupervision; // kept by the bridge's supervisor
+}
+
+export type ManagedServerTransport = 'stdio' | 'http' | 'sse';
+
+/**
+ * When the supervisor restarts a server whose process exited or whose
+ * connection dropped: never, only after failures (not a clean exit 0), or always
+ */
+export type RestartPolicy = 'never' | 'on-failure' | 'always';
+
+/**
+ * Supervisor bookkeeping for a bridge server
+ */
+export interface ServerSupervision {
+  state: 'supervised' | 'backoff' | 'crash-loop' | 'exited'; // exited: not restarted by policy
+  lastExit?: ServerExit;
+  nextRestartAt?: string; // while in backoff
+  failures: string[]; // times of recent failures inside the crash-loop window
+  restarts: ServerRestart[]; // most recent last
+}
+
+export interface ServerExit {
+  at: string;
+  code?: number | null; // stdio servers only
+  signal?: string | null;
+  reason: string;
+}
+
+export interface ServerRestart {
+  at: string;
+  attempt: number; // failures inside the window when the restart was scheduled
+  delayMs: number;
+  reason: string; // why the server went down
+  succeeded: boolean;
+  error?: string;
+}
+
+export interface ManagedServerSource {
+  query?: string;
+  packageName: string;
+  type: 'npm' | 'python' | 'docker' | 'git';
+  version?: string;
+}
+
+export interface PersistedServerRecord {
+  name: string;
+  type: ManagedServer['type'];
+  mode: ManagedServer['mode'];
+  command: string[];
+  endpoint?: string;
+  env?: Record<string, string>;
+  source?: ManagedServerSource;
+  transport?: ManagedServerTransport;
+  headers?: Record<string, string>;
+  bearerToken?: string;
+  sandbox?: ServerSandbox;
+  restartPolicy?: RestartPolicy;
+  supervision?: ServerSupervision; // last state saved by the bridge, shown by `mcpl status`
+  desiredState: 'running' | 'stopped';
+  installedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Sandbox profile selected for a server, with the per-server values the profile needs
+ */
+export interface ServerSandbox {
+  profile: string;
+  workspace?: string; // host directory substituted for ${workspace} in mounts
+  allowedHosts?: string[]; // hostnames that resolve with network "allowlist"
+}
+
+/**
+ * Named set of Docker isolation settings applied when a server's container starts
+ */
+export interface SandboxProfile {
+  description?: string;
+  network: 'none' | 'bridge' | 'allowlist'; // allowlist: bridge network, only allowedHosts resolve (raw IPs stay reachable)
+  allowedHosts?: string[];
+  mounts?: SandboxMount[];
+  readOnlyRootfs?: boolean;
+  tmpfs?: string[]; // container paths, e.g. /tmp
+  memory?: string; // docker --memory value
+  cpus?: string; // docker --cpus value
+  pidsLimit?: number;
+  capDrop?: string[];
+  capAdd?: string[];
+  seccomp?: string; // path to a seccomp profile; Docker's default profile when unset
+  noNewPrivileges?: boolean;
+}
+
+export interface SandboxMount {
+  source: string; // host path; may use ${workspace} and ~
+  target: string; // container path
+  readOnly?: boolean;
+}
+
+/**
+ * Per-server tool policy. Tool names are matched with glob patterns (`*`, `?`);
+ * deny rules win over allow rules and an empty allowlist allows every tool.
+ */
+export interface ToolPolicy {
+  version: 1;
+  allow?: string[];
+  deny?: string[];
+  requireConfirmation?: string[];
+  constraints?: ToolArgumentConstraint[];
+  sampling?: SamplingPolicy; // default: sampling denied
+}
+
+/**
+ * Whether a server may ask the client's model for completions
+ * (sampling/createMessage) while one of its tools runs, and how many tokens
+ */
+export interface SamplingPolicy {
+  allow: boolean;
+  maxTokensPerRequest?: number; // larger maxTokens requests are lowered to this
+  maxTokensPerCall?: number; // maxTokens granted across all requests of one tool call
+}
+
+export interface ToolArgumentConstraint {
+  tool: string; // glob pattern
+  argument: string;
+  pathPrefixes?: string[]; // absolute or ~ paths; the value's real path must be inside one of them
+  baseDirectory?: string; // absolute or ~ path relative values resolve against; without it they are refused
+  pattern?: string; // value must match this regular expression
+}
+
+export interface ToolPolicyDecision {
+  allowed: boolean;
+  requiresConfirmation: boolean;
+  reason?: string;
+}
+
+export interface SamplingPolicyDecision {
+  allowed: boolean;
+  maxTokens: number; // maxTokens to forward to the client
+  reason?: string;
+}
+
+/**
+ * One line of the bridge's tool-call audit log (~/.mcpl/logs/tool-calls.jsonl)
+ */
+export interface ToolCallAuditEntry {
+  timestamp: string;
+  client?: string; // name reported by the connected MCP client
+  server: string; // managed server name, or endpoint URL for invoke_tool
+  tool: string;
+  arguments: unknown; // redacted
+  durationMs: number;
+  resultSize: number; // bytes of serialized result content
+  isError: boolean;
+  error?: string;
+}
+
+export interface ToolCallAuditFilter {
+  server?: string;
+  tool?: string;
+  since?: Date;
+  until?: Date;
+  errorsOnly?: boolean;
+  limit?: number;
+}
+
+/**
+ * One line of a managed server's log (~/.mcpl/logs/servers/<server>.log):
+ * its stderr output or a lifecycle event recorded by the bridge
+ */
+export interface ServerLogEntry {
+  timestamp: string;
+  stream: 'stderr' | 'bridge';
+  message: string;
+}
+
+export interface ServerLogFilter {
+  since?: Date;
+  until?: Date;
+  grep?: string | RegExp; // a string matches lines containing it
+  limit?: number; // most recent matching lines
+}
+
+/**
+ * Project manifest (mcpl.json): the servers a project needs, checked in so
+ * every teammate can reproduce the same setup with `mcpl sync`.
+ */
+export interface ProjectManifest {
+  version: 1;
+  servers: Record<string, ManifestServer>;
+}
+
+export interface ManifestServer {
+  package: string; // npm or PyPI package, or Docker image, without a version
+  type?: 'npm' | 'python' | 'docker'; // skips detecting the package type from its name
+  version?: string; // semver range, exact version or Docker tag (default: latest)
+  mode?: 'direct' | 'bridge'; // default: the configured default mode
+  clients?: string[]; // direct-mode targets (default: the configured default client)
+  args?: string[]; // extra arguments for the server command (direct mode)
+  env?: string[]; // environment variables that must be set when syncing
+}
+
+/**
+ * Lockfile (mcpl.lock) written by `mcpl sync` with the exact resolved versions
+ */
+export interface ProjectLock {
+  lockfileVersion: 1;
+  servers: Record<string, LockedServer>;
+}
+
+export interface LockedServer {
+  package: string;
+  type: 'npm' | 'python' | 'docker';
+  range: string; // version range from the manifest the version was resolved from
+  version: string;
+  mode: 'direct' | 'bridge';
+  clients?: string[]; // direct-mode clients the server was written to
+  image?: string; // Docker image the server runs in ("name:tag")
+  imageDigest?: string;
+}
+
+/**
+ * Encrypted secret store (~/.mcpl/secrets.json). Values are encrypted with
+ * AES-256-GCM under a key derived from the user's passphrase with scrypt.
+ */
+export interface SecretVaultFile {
+  version: 1;
+  kdf: {
+    name: 'scrypt';
+    salt: string; // base64
+    N: number;
+    r: number;
+    p: number;
+  };
+  verifier: EncryptedSecret; // known plaintext, used to detect a wrong passphrase
+  secrets: Record<string, EncryptedSecret & { updatedAt: string }>;
+}
+
+export interface EncryptedSecret {
+  iv: string; // base64
+  tag: string; // base64
+  data: string; // base64
+}
+
+/**
+ * Recorded MCP session (cassette): every JSON-RPC message exchanged with a
+ * downstream server, in the order it was sent
+ */
+export interface Cassette {
+  version: 1;
+  server: string;
+  recordedAt: string;
+  messages: CassetteMessage[];
+}
+
+export interface CassetteMessage {
+  from: 'client' | 'server';
+  offsetMs: number; // since recording started
+  message: JsonRpcMessage;
+}
+
+/**
+ * A JSON-RPC 2.0 request, notification or response
+ */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * How replay matches incoming requests against recorded ones. The method must
+ * always match; initialize and ping match on the method alone.
+ */
+export interface CassetteMatchOptions {
+  arguments?: 'exact' | 'ignore'; // compare params.arguments of tools/call and prompts/get (default: exact)
+  ignore?: string[]; // dotted params paths left out of the comparison, e.g. "arguments.timestamp"
+  repeat?: boolean; // answer with the last match again once every match was replayed (default: true)
+  matcher?: (recorded: JsonRpcMessage, incoming: JsonRpcMessage) => boolean; // replaces the params comparison
 }
 
 export interface ClaudeConfig {
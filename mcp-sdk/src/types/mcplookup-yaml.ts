@@ -121,9 +121,26 @@ export interface MCPLookupValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
+  issues: MCPLookupValidationIssue[]; // errors and warnings with their source positions
   config?: MCPLookupConfig;
 }
 
+export interface MCPLookupValidationIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  path: string; // e.g. installation.methods[0].command ("" for the document)
+  line: number; // 1-based
+  column: number; // 1-based
+  fixable: boolean; // handled by fixMCPLookupYAML
+}
+
+export interface MCPLookupFixResult {
+  content: string; // normalised YAML
+  fixes: string[]; // descriptions of the changes made
+  result: MCPLookupValidationResult; // validation of the fixed content
+  removesComments: boolean; // the source has comments the rewrite drops
+}
+
 export interface MCPServerFromYAML {
   // Converted MCPServer object from YAML config
   id: string;
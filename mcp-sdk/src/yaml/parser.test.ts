@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import yaml from 'js-yaml';
+import { fixMCPLookupYAML, hasYAMLComments, parseMCPLookupYAML } from './parser.js';
+
+const VALID = `version: "1.0"
+mcp:
+  name: Weather
+  description: Forecasts for any city
+  category: data
+  keywords: [weather]
+installation:
+  recommended: npm
+  methods:
+    - type: npm
+      command: npm install -g weather-mcp
+configuration:
+  transport: stdio
+capabilities:
+  tools:
+    - name: forecast
+      description: Get a forecast
+`;
+
+describe('yaml parser', () => {
+  describe('parseMCPLookupYAML', () => {
+    it('should accept a valid file', () => {
+      const result = parseMCPLookupYAML(VALID);
+      expect(result.valid).toBe(true);
+      expect(result.issues).toEqual([]);
+      expect(result.config?.mcp.name).toBe('Weather');
+    });
+
+    it('should report issues at the line and column of their field', () => {
+      const source = VALID
+        .replace('category: data', 'category: weather')
+        .replace('      command: npm install -g weather-mcp', '      command: pip install weather-mcp');
+      const result = parseMCPLookupYAML(source);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues.map(({ line, column, path }) => ({ line, column, path }))).toEqual([
+        { line: 5, column: 3, path: 'mcp.category' },
+        { line: 11, column: 7, path: 'installation.methods[0].command' }
+      ]);
+      expect(result.errors[1]).toBe('11:7 Install command "pip install weather-mcp" is a python command but the method type is npm');
+    });
+
+    it('should skip comments and blank lines before a field', () => {
+      const source = VALID.replace('mcp:\n  name: Weather', 'mcp:\n  # display name\n\n  name: 42');
+      expect(parseMCPLookupYAML(source).issues).toMatchObject([
+        { path: 'mcp.name', line: 5, column: 3, message: 'name must be a string' }
+      ]);
+    });
+
+    it('should point missing fields at their parent', () => {
+      const source = VALID.replace('  description: Forecasts for any city\n', '');
+      expect(parseMCPLookupYAML(source).issues).toMatchObject([
+        { path: 'mcp', line: 2, column: 1, message: 'Missing required field "description" in mcp' }
+      ]);
+    });
+
+    it('should report sequence items by index', () => {
+      const source = VALID.replace('    - name: forecast\n      description: Get a forecast\n',
+        '    - name: forecast\n      description: Get a forecast\n    - name: forecast\n      description: Again\n');
+      expect(parseMCPLookupYAML(source).issues).toMatchObject([
+        { path: 'capabilities.tools[1].name', line: 18, column: 7, severity: 'warning' }
+      ]);
+    });
+
+    it('should report the position of YAML syntax errors', () => {
+      const result = parseMCPLookupYAML('version: "1.0"\nmcp:\n  name: [unclosed\n');
+      expect(result.valid).toBe(false);
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0].message).toMatch(/^Invalid YAML/);
+      expect(result.issues[0].line).toBeGreaterThanOrEqual(3);
+    });
+  });
+
+  describe('fixMCPLookupYAML', () => {
+    it('should apply the fixable changes and validate the result', () => {
+      const source = `version: 1
+mcp:
+  name: Weather
+  description: Forecasts
+  category: " Data "
+installation:
+  methods:
+    - type: NPM
+      command: npx weather-mcp
+      environment_variables:
+        PORT:
+          description: Port
+          required: false
+          default: 8080
+`;
+      const fixed = fixMCPLookupYAML(source);
+
+      expect(fixed.fixes).toEqual([
+        'Set version to "1.0"',
+        'Normalised category " Data " to "data"',
+        'Added empty mcp.subcategories',
+        'Added empty mcp.keywords',
+        'Normalised installation.methods[0].type "NPM" to "npm"',
+        'Quoted PORT default',
+        'Set installation.recommended to "npm"',
+        'Added configuration section (transport: stdio)',
+        'Added empty capabilities section',
+        'Added empty testing section'
+      ]);
+      expect(fixed.result.valid).toBe(true);
+      expect(fixed.removesComments).toBe(false);
+
+      const document = yaml.load(fixed.content) as Record<string, any>;
+      expect(Object.keys(document)).toEqual(['version', 'mcp', 'installation', 'configuration', 'capabilities', 'testing']);
+      expect(document.installation.methods[0].environment_variables.PORT.default).toBe('8080');
+    });
+
+    it('should only normalise formatting of a file without fixable issues', () => {
+      const fixed = fixMCPLookupYAML(VALID.replace('keywords: [weather]', 'keywords: [weather]\n  subcategories: []') + 'testing:\n  test_commands: []\n');
+      expect(fixed.fixes).toEqual(['Normalised formatting and field order']);
+      expect(fixMCPLookupYAML(fixed.content).fixes).toEqual([]);
+    });
+
+    it('should say when the rewrite drops comments', () => {
+      expect(fixMCPLookupYAML(`# Weather server\n${VALID}`).removesComments).toBe(true);
+      expect(fixMCPLookupYAML(VALID.replace('name: Weather', 'name: Weather # shown in search')).removesComments).toBe(true);
+    });
+
+    it('should leave invalid YAML unchanged', () => {
+      const fixed = fixMCPLookupYAML('mcp: [unclosed');
+      expect(fixed.content).toBe('mcp: [unclosed');
+      expect(fixed.fixes).toEqual([]);
+      expect(fixed.result.valid).toBe(false);
+    });
+  });
+
+  describe('hasYAMLComments', () => {
+    it('should find whole-line and trailing comments', () => {
+      expect(hasYAMLComments('# header\nkey: value')).toBe(true);
+      expect(hasYAMLComments('key: value\n  # indented')).toBe(true);
+      expect(hasYAMLComments('key: value # note')).toBe(true);
+      expect(hasYAMLComments('key: "quoted" # note')).toBe(true);
+    });
+
+    it('should ignore # inside values', () => {
+      expect(hasYAMLComments('key: value#1')).toBe(false);
+      expect(hasYAMLComments('key: "a # b"')).toBe(false);
+      expect(hasYAMLComments("key: 'it''s # not'")).toBe(false);
+      expect(hasYAMLComments('url: https://example.com/#anchor')).toBe(false);
+    });
+  });
+});
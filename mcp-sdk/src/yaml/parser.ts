@@ -0,0 +1,718 @@
+// Parsing, validation and normalisation of .mcplookup.yaml files
+
+import yaml from 'js-yaml';
+import {
+  MCPCategory,
+  MCPLookupConfig,
+  MCPLookupFixResult,
+  MCPLookupValidationIssue,
+  MCPLookupValidationResult,
+  InstallationType
+} from '../types/mcplookup-yaml.js';
+
+export const MCPLOOKUP_YAML_FILES = ['.mcplookup.yaml', '.mcplookup.yml', 'mcplookup.yaml', 'mcplookup.yml'];
+
+export const MCP_CATEGORIES: MCPCategory[] = [
+  'communication', 'productivity', 'development', 'finance', 'social',
+  'storage', 'ai', 'data', 'monitoring', 'other'
+];
+
+const INSTALLATION_TYPES: InstallationType[] = ['npm', 'python', 'docker', 'git', 'binary'];
+const TRANSPORTS = ['stdio', 'sse', 'websocket', 'http'];
+
+// Programs an install command of each type is expected to start with
+const INSTALL_PROGRAMS: Record<Exclude<InstallationType, 'binary'>, string[]> = {
+  npm: ['npm', 'npx', 'pnpm', 'yarn', 'bun', 'bunx'],
+  python: ['pip', 'pip3', 'pipx', 'uv', 'uvx', 'python', 'python3', 'poetry', 'conda'],
+  docker: ['docker', 'podman'],
+  git: ['git']
+};
+
+// Known fields of each object in the schema, in canonical order
+const FIELDS: Record<string, string[]> = {
+  root: ['version', 'mcp', 'installation', 'configuration', 'capabilities', 'testing'],
+  mcp: ['name', 'description', 'category', 'subcategories', 'keywords', 'author', 'license', 'homepage', 'repository', 'documentation'],
+  author: ['name', 'email', 'url'],
+  installation: ['recommended', 'methods'],
+  method: ['type', 'command', 'requirements', 'environment_variables', 'post_install'],
+  requirements: ['node_version', 'python_version', 'docker_version', 'system'],
+  environmentVariable: ['description', 'required', 'default', 'example'],
+  configuration: ['transport', 'command', 'args', 'claude_desktop'],
+  claudeDesktop: ['command', 'args', 'env'],
+  capabilities: ['tools', 'resources', 'prompts'],
+  tool: ['name', 'description', 'parameters'],
+  resource: ['name', 'description', 'uri_template'],
+  prompt: ['name', 'description'],
+  testing: ['test_commands', 'health_check'],
+  healthCheck: ['endpoint', 'expected_response']
+};
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+interface ParseNode {
+  start: number;
+  kind?: string;
+  result?: unknown;
+  children: ParseNode[];
+}
+
+type PlainObject = Record<string, any>;
+
+const isObject = (value: unknown): value is PlainObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parse and validate the contents of a .mcplookup.yaml file against the schema
+ * in spec/mcplookup-yaml-schema.yaml. Problems are reported with the line and
+ * column of the field they concern (or of its parent when the field is missing).
+ */
+export function parseMCPLookupYAML(source: string): MCPLookupValidationResult {
+  let document: unknown;
+  const root: ParseNode = { start: 0, children: [] };
+  const stack: ParseNode[] = [root];
+
+  try {
+    document = yaml.load(source, {
+      listener(event, state) {
+        if (event === 'open') {
+          const node: ParseNode = { start: state.position, children: [] };
+          stack[stack.length - 1].children.push(node);
+          stack.push(node);
+        } else if (stack.length > 1) {
+          const node = stack.pop()!;
+          node.kind = state.kind;
+          node.result = state.result;
+        }
+      }
+    });
+  } catch (error) {
+    const mark = error instanceof yaml.YAMLException ? error.mark : undefined;
+    const issue: MCPLookupValidationIssue = {
+      severity: 'error',
+      message: `Invalid YAML: ${error instanceof yaml.YAMLException ? error.reason : String(error)}`,
+      path: '',
+      line: (mark?.line ?? 0) + 1,
+      column: (mark?.column ?? 0) + 1,
+      fixable: false
+    };
+    return toResult([issue]);
+  }
+
+  const positions = indexPositions(source, root.children[0]);
+  const validator = new ConfigValidator(positions);
+  validator.validate(document);
+  return toResult(validator.issues, validator.issues.some(issue => issue.severity === 'error') ? undefined : document as MCPLookupConfig);
+}
+
+/**
+ * Apply the safe automatic fixes, add missing optional sections and rewrite the
+ * file with canonical key order and formatting. Comments are not preserved;
+ * removesComments tells callers when the rewrite would lose some.
+ * Content that is not valid YAML is returned unchanged.
+ */
+export function fixMCPLookupYAML(source: string): MCPLookupFixResult {
+  let document: unknown;
+  try {
+    document = yaml.load(source);
+  } catch {
+    document = undefined;
+  }
+  if (!isObject(document)) {
+    return { content: source, fixes: [], result: parseMCPLookupYAML(source), removesComments: false };
+  }
+
+  const fixes: string[] = [];
+  applyFixes(document, fixes);
+
+  const content = yaml.dump(orderFields(document, 'root'), {
+    indent: 2,
+    lineWidth: -1,
+    noRefs: true,
+    quotingType: '"'
+  });
+  if (content !== source && fixes.length === 0) {
+    fixes.push('Normalised formatting and field order');
+  }
+
+  return {
+    content,
+    fixes,
+    result: parseMCPLookupYAML(content),
+    removesComments: content !== source && hasYAMLComments(source)
+  };
+}
+
+/**
+ * Check whether YAML source has comments, whole-line or trailing ones like
+ * `key: value # note`. A # inside a quoted scalar or a word is not a comment.
+ * Block scalar lines starting with # count too, erring on the side of caution.
+ */
+export function hasYAMLComments(source: string): boolean {
+  for (const line of source.split('\n')) {
+    let quote: string | undefined;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quote) {
+        if (quote === "'" && char === "'" && line[i + 1] === "'") {
+          i++; // '' is an escaped quote
+        } else if (char === quote && !(quote === '"' && line[i - 1] === '\\')) {
+          quote = undefined;
+        }
+      } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+        return true;
+      } else if ((char === '"' || char === "'") && (i === 0 || /[\s:,[{-]/.test(line[i - 1]))) {
+        quote = char;
+      }
+    }
+  }
+  return false;
+}
+
+function toResult(issues: MCPLookupValidationIssue[], config?: MCPLookupConfig): MCPLookupValidationResult {
+  const sorted = [...issues].sort((a, b) => a.line - b.line || a.column - b.column);
+  const format = (issue: MCPLookupValidationIssue) => `${issue.line}:${issue.column} ${issue.message}`;
+
+  return {
+    valid: !sorted.some(issue => issue.severity === 'error'),
+    errors: sorted.filter(issue => issue.severity === 'error').map(format),
+    warnings: sorted.filter(issue => issue.severity === 'warning').map(format),
+    issues: sorted,
+    ...(config && { config })
+  };
+}
+
+/**
+ * Map each field path in the document to the position of its key (or, for
+ * sequence items, of the item), using the parse events js-yaml emits
+ */
+function indexPositions(source: string, document: ParseNode | undefined): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const toPosition = (offset: number): Position => {
+    // Nodes open before the whitespace and comments that precede their content
+    while (offset < source.length) {
+      if (source[offset] === '#') {
+        while (offset < source.length && source[offset] !== '\n') offset++;
+      } else if (/\s/.test(source[offset])) {
+        offset++;
+      } else {
+        break;
+      }
+    }
+
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+      line++;
+    }
+    return { line: line + 1, column: offset - lineStarts[line] + 1 };
+  };
+
+  const visit = (node: ParseNode, path: string) => {
+    positions.set(path, toPosition(node.start));
+
+    if (node.kind === 'sequence') {
+      node.children.forEach((child, index) => visit(child, `${path}[${index}]`));
+    } else if (node.kind === 'mapping' && isObject(node.result)) {
+      // Children alternate key, value; match keys by name to stay aligned
+      let index = 0;
+      for (const key of Object.keys(node.result)) {
+        while (index < node.children.length && String(node.children[index].result) !== key) {
+          index++;
+        }
+        if (index >= node.children.length) {
+          break;
+        }
+
+        const childPath = path ? `${path}.${key}` : key;
+        const value = node.children[index + 1];
+        if (value) {
+          visit(value, childPath);
+        }
+        positions.set(childPath, toPosition(node.children[index].start));
+        index += 2;
+      }
+    }
+  };
+
+  if (document) {
+    visit(document, '');
+  }
+  return positions;
+}
+
+class ConfigValidator {
+  issues: MCPLookupValidationIssue[] = [];
+
+  constructor(private positions: Map<string, Position>) {}
+
+  validate(document: unknown): void {
+    if (!isObject(document)) {
+      this.error('', 'The file must contain a YAML mapping with version, mcp and installation sections');
+      return;
+    }
+
+    this.checkFields(document, '', FIELDS.root);
+
+    if (document.version === undefined) {
+      this.error('', 'Missing required field "version" (use "1.0")', true);
+    } else if (document.version !== '1.0') {
+      const fixable = document.version === 1 || document.version === '1';
+      this.error('version', `Unsupported version ${JSON.stringify(document.version)}; use the string "1.0"`, fixable);
+    }
+
+    this.validateMetadata(document.mcp);
+    this.validateInstallation(document.installation);
+    this.validateConfiguration(document.configuration);
+    this.validateCapabilities(document.capabilities);
+    this.validateTesting(document.testing);
+  }
+
+  private validateMetadata(mcp: unknown): void {
+    if (!this.requireObject(mcp, 'mcp', '')) {
+      return;
+    }
+
+    this.checkFields(mcp, 'mcp', FIELDS.mcp);
+    this.requireString(mcp, 'mcp', 'name');
+    this.requireString(mcp, 'mcp', 'description');
+
+    if (this.requireString(mcp, 'mcp', 'category')) {
+      const category = mcp.category as string;
+      if (!MCP_CATEGORIES.includes(category as MCPCategory)) {
+        const fixable = MCP_CATEGORIES.includes(category.trim().toLowerCase() as MCPCategory);
+        this.error('mcp.category', `Unknown category "${category}". Use one of: ${MCP_CATEGORIES.join(', ')}`, fixable);
+      }
+    }
+
+    this.optionalStringArray(mcp, 'mcp', 'subcategories');
+    if (mcp.keywords === undefined) {
+      this.warning('mcp', 'No keywords; add some so the server can be found by search', true);
+    } else {
+      this.optionalStringArray(mcp, 'mcp', 'keywords');
+    }
+
+    if (mcp.author !== undefined && this.requireObject(mcp.author, 'mcp.author', 'mcp')) {
+      this.checkFields(mcp.author, 'mcp.author', FIELDS.author);
+      this.optionalString(mcp.author, 'mcp.author', 'name');
+      if (this.optionalString(mcp.author, 'mcp.author', 'email') && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(mcp.author.email)) {
+        this.warning('mcp.author.email', `"${mcp.author.email}" is not a valid email address`);
+      }
+      this.optionalUrl(mcp.author, 'mcp.author', 'url');
+    }
+
+    this.optionalString(mcp, 'mcp', 'license');
+    for (const field of ['homepage', 'repository', 'documentation']) {
+      this.optionalUrl(mcp, 'mcp', field);
+    }
+  }
+
+  private validateInstallation(installation: unknown): void {
+    if (!this.requireObject(installation, 'installation', '')) {
+      return;
+    }
+
+    this.checkFields(installation, 'installation', FIELDS.installation);
+
+    const methods: PlainObject[] = [];
+    if (!Array.isArray(installation.methods) || installation.methods.length === 0) {
+      this.error(installation.methods === undefined ? 'installation' : 'installation.methods', 'installation.methods must list at least one installation method');
+    } else {
+      installation.methods.forEach((method: unknown, index: number) => {
+        const path = `installation.methods[${index}]`;
+        if (this.requireObject(method, path, 'installation.methods')) {
+          this.validateMethod(method, path);
+          methods.push(method);
+        }
+      });
+
+      const types = methods.map(method => method.type).filter(type => typeof type === 'string');
+      types.forEach((type, index) => {
+        if (types.indexOf(type) !== index) {
+          this.warning(`installation.methods[${index}].type`, `More than one "${type}" installation method`);
+        }
+      });
+    }
+
+    if (installation.recommended === undefined) {
+      this.warning('installation', 'No recommended installation method', methods.length > 0);
+    } else if (!INSTALLATION_TYPES.includes(installation.recommended)) {
+      this.error('installation.recommended', `Unknown installation type "${installation.recommended}". Use one of: ${INSTALLATION_TYPES.join(', ')}`);
+    } else if (methods.length > 0 && !methods.some(method => method.type === installation.recommended)) {
+      this.error('installation.recommended', `Recommended method "${installation.recommended}" is not one of the listed installation methods`);
+    }
+  }
+
+  private validateMethod(method: PlainObject, path: string): void {
+    this.checkFields(method, path, FIELDS.method);
+
+    let type: InstallationType | undefined;
+    if (this.requireString(method, path, 'type')) {
+      if (INSTALLATION_TYPES.includes(method.type)) {
+        type = method.type;
+      } else {
+        const fixable = INSTALLATION_TYPES.includes(method.type.trim().toLowerCase());
+        this.error(`${path}.type`, `Unknown installation type "${method.type}". Use one of: ${INSTALLATION_TYPES.join(', ')}`, fixable);
+      }
+    }
+
+    if (this.requireString(method, path, 'command') && type && type !== 'binary') {
+      const program = method.command.trim().replace(/^sudo\s+/, '').split(/\s+/)[0];
+      if (!INSTALL_PROGRAMS[type].includes(program)) {
+        const actual = (Object.keys(INSTALL_PROGRAMS) as Array<keyof typeof INSTALL_PROGRAMS>)
+          .find(candidate => INSTALL_PROGRAMS[candidate].includes(program));
+        this.error(`${path}.command`, actual
+          ? `Install command "${method.command}" is a ${actual} command but the method type is ${type}`
+          : `Install command "${method.command}" does not look like a ${type} command (expected ${INSTALL_PROGRAMS[type].join(', ')})`);
+      }
+    }
+
+    if (method.requirements !== undefined && this.requireObject(method.requirements, `${path}.requirements`, path)) {
+      const requirementsPath = `${path}.requirements`;
+      this.checkFields(method.requirements, requirementsPath, FIELDS.requirements);
+      for (const field of ['node_version', 'python_version', 'docker_version']) {
+        this.optionalString(method.requirements, requirementsPath, field);
+      }
+      this.optionalStringArray(method.requirements, requirementsPath, 'system');
+    }
+
+    if (method.environment_variables !== undefined) {
+      const variablesPath = `${path}.environment_variables`;
+      if (this.requireObject(method.environment_variables, variablesPath, path)) {
+        for (const [name, variable] of Object.entries(method.environment_variables)) {
+          this.validateEnvironmentVariable(name, variable, `${variablesPath}.${name}`);
+        }
+      }
+    }
+
+    this.optionalStringArray(method, path, 'post_install');
+  }
+
+  private validateEnvironmentVariable(name: string, variable: unknown, path: string): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      this.error(path, `"${name}" is not a valid environment variable name`);
+    } else if (name !== name.toUpperCase()) {
+      this.warning(path, `Environment variable ${name} is not upper case`);
+    }
+
+    if (!isObject(variable)) {
+      this.error(path, `Environment variable ${name} must be a mapping with at least a description`);
+      return;
+    }
+
+    this.checkFields(variable, path, FIELDS.environmentVariable);
+    if (typeof variable.description !== 'string' || !variable.description.trim()) {
+      this.error(variable.description === undefined ? path : `${path}.description`, `Environment variable ${name} is missing a description`);
+    }
+    if (variable.required !== undefined && typeof variable.required !== 'boolean') {
+      this.error(`${path}.required`, 'required must be true or false');
+    }
+    for (const field of ['default', 'example']) {
+      if (variable[field] !== undefined && typeof variable[field] !== 'string') {
+        this.error(`${path}.${field}`, `${field} must be a string (quote numbers and booleans)`, ['number', 'boolean'].includes(typeof variable[field]));
+      }
+    }
+    if (variable.required !== false && variable.default !== undefined) {
+      this.warning(path, `Environment variable ${name} has a default but is not marked required: false`);
+    }
+  }
+
+  private validateConfiguration(configuration: unknown): void {
+    if (configuration === undefined) {
+      this.warning('', 'No configuration section; clients will have to guess how to start the server', true);
+      return;
+    }
+    if (!this.requireObject(configuration, 'configuration', '')) {
+      return;
+    }
+
+    this.checkFields(configuration, 'configuration', FIELDS.configuration);
+    if (configuration.transport !== undefined && !TRANSPORTS.includes(configuration.transport)) {
+      this.error('configuration.transport', `Unknown transport "${configuration.transport}". Use one of: ${TRANSPORTS.join(', ')}`);
+    }
+    this.optionalString(configuration, 'configuration', 'command');
+    this.optionalStringArray(configuration, 'configuration', 'args');
+
+    const desktop = configuration.claude_desktop;
+    if (desktop !== undefined && this.requireObject(desktop, 'configuration.claude_desktop', 'configuration')) {
+      const path = 'configuration.claude_desktop';
+      this.checkFields(desktop, path, FIELDS.claudeDesktop);
+      this.optionalString(desktop, path, 'command');
+      this.optionalStringArray(desktop, path, 'args');
+      if (desktop.env !== undefined && this.requireObject(desktop.env, `${path}.env`, path)) {
+        for (const [key, value] of Object.entries(desktop.env)) {
+          if (typeof value !== 'string') {
+            this.error(`${path}.env.${key}`, `${key} must be a string (quote numbers and booleans)`, ['number', 'boolean'].includes(typeof value));
+          }
+        }
+      }
+    }
+  }
+
+  private validateCapabilities(capabilities: unknown): void {
+    if (capabilities === undefined) {
+      this.warning('', 'No capabilities section; list the server\'s tools so users know what it does', true);
+      return;
+    }
+    if (!this.requireObject(capabilities, 'capabilities', '')) {
+      return;
+    }
+
+    this.checkFields(capabilities, 'capabilities', FIELDS.capabilities);
+    const lists = { tools: FIELDS.tool, resources: FIELDS.resource, prompts: FIELDS.prompt };
+
+    for (const [list, fields] of Object.entries(lists)) {
+      const path = `capabilities.${list}`;
+      const items = capabilities[list];
+      if (items === undefined) {
+        continue;
+      }
+      if (!Array.isArray(items)) {
+        this.error(path, `${path} must be a list`);
+        continue;
+      }
+
+      const names = new Set<string>();
+      items.forEach((item: unknown, index: number) => {
+        const itemPath = `${path}[${index}]`;
+        if (!this.requireObject(item, itemPath, path)) {
+          return;
+        }
+        this.checkFields(item, itemPath, fields);
+        if (this.requireString(item, itemPath, 'name')) {
+          if (names.has(item.name)) {
+            this.warning(`${itemPath}.name`, `Duplicate ${list.slice(0, -1)} name "${item.name}"`);
+          }
+          names.add(item.name);
+        }
+        this.requireString(item, itemPath, 'description');
+        if (item.parameters !== undefined) {
+          this.requireObject(item.parameters, `${itemPath}.parameters`, itemPath);
+        }
+        this.optionalString(item, itemPath, 'uri_template');
+      });
+    }
+  }
+
+  private validateTesting(testing: unknown): void {
+    if (testing === undefined || !this.requireObject(testing, 'testing', '')) {
+      return;
+    }
+
+    this.checkFields(testing, 'testing', FIELDS.testing);
+    this.optionalStringArray(testing, 'testing', 'test_commands');
+
+    if (testing.health_check !== undefined && this.requireObject(testing.health_check, 'testing.health_check', 'testing')) {
+      this.checkFields(testing.health_check, 'testing.health_check', FIELDS.healthCheck);
+      this.optionalUrl(testing.health_check, 'testing.health_check', 'endpoint');
+      this.optionalString(testing.health_check, 'testing.health_check', 'expected_response');
+    }
+  }
+
+  // Field helpers; each reports its own problem and returns whether the value is usable
+
+  private checkFields(value: PlainObject, path: string, fields: string[]): void {
+    for (const key of Object.keys(value)) {
+      if (!fields.includes(key)) {
+        this.warning(path ? `${path}.${key}` : key, `Unknown field "${key}"${path ? ` in ${path}` : ''}`);
+      }
+    }
+  }
+
+  private requireObject(value: unknown, path: string, parent: string): value is PlainObject {
+    if (value === undefined) {
+      this.error(parent, `Missing required section "${path.split('.').pop()}"`);
+      return false;
+    }
+    if (!isObject(value)) {
+      this.error(path, `${path} must be a mapping`);
+      return false;
+    }
+    return true;
+  }
+
+  private requireString(value: PlainObject, path: string, field: string): boolean {
+    if (value[field] === undefined || value[field] === null || value[field] === '') {
+      this.error(path, `Missing required field "${field}"${path ? ` in ${path}` : ''}`);
+      return false;
+    }
+    if (typeof value[field] !== 'string') {
+      this.error(`${path}.${field}`, `${field} must be a string`);
+      return false;
+    }
+    return true;
+  }
+
+  private optionalString(value: PlainObject, path: string, field: string): boolean {
+    if (value[field] === undefined) {
+      return false;
+    }
+    if (typeof value[field] !== 'string') {
+      this.error(`${path}.${field}`, `${field} must be a string`);
+      return false;
+    }
+    return true;
+  }
+
+  private optionalStringArray(value: PlainObject, path: string, field: string): void {
+    const list = value[field];
+    if (list !== undefined && (!Array.isArray(list) || !list.every(item => typeof item === 'string'))) {
+      this.error(`${path}.${field}`, `${field} must be a list of strings`);
+    }
+  }
+
+  private optionalUrl(value: PlainObject, path: string, field: string): void {
+    if (this.optionalString(value, path, field) && !/^https?:\/\/\S+$/.test(value[field])) {
+      this.warning(`${path}.${field}`, `${field} "${value[field]}" is not an http(s) URL`);
+    }
+  }
+
+  private error(path: string, message: string, fixable = false): void {
+    this.add('error', path, message, fixable);
+  }
+
+  private warning(path: string, message: string, fixable = false): void {
+    this.add('warning', path, message, fixable);
+  }
+
+  private add(severity: MCPLookupValidationIssue['severity'], path: string, message: string, fixable: boolean): void {
+    // Fall back to the closest ancestor that appears in the file
+    let lookup = path;
+    while (lookup && !this.positions.has(lookup)) {
+      const parent = lookup.replace(/(^|\.)[^.[\]]+$|\[\d+\]$/, '');
+      lookup = parent === lookup ? '' : parent;
+    }
+    const position = this.positions.get(lookup) || { line: 1, column: 1 };
+
+    this.issues.push({ severity, message, path, ...position, fixable });
+  }
+}
+
+/**
+ * Apply the fixes reported as fixable by the validator
+ */
+function applyFixes(document: PlainObject, fixes: string[]): void {
+  if (document.version !== '1.0' && (document.version === undefined || document.version === 1 || document.version === '1')) {
+    document.version = '1.0';
+    fixes.push('Set version to "1.0"');
+  }
+
+  const mcp = document.mcp;
+  if (isObject(mcp)) {
+    if (typeof mcp.category === 'string' && !MCP_CATEGORIES.includes(mcp.category as MCPCategory)) {
+      const category = mcp.category.trim().toLowerCase();
+      if (MCP_CATEGORIES.includes(category as MCPCategory)) {
+        fixes.push(`Normalised category "${mcp.category}" to "${category}"`);
+        mcp.category = category;
+      }
+    }
+    for (const field of ['subcategories', 'keywords']) {
+      if (mcp[field] === undefined) {
+        mcp[field] = [];
+        fixes.push(`Added empty mcp.${field}`);
+      }
+    }
+  }
+
+  const installation = document.installation;
+  if (isObject(installation) && Array.isArray(installation.methods)) {
+    installation.methods.forEach((method: unknown, index: number) => {
+      if (!isObject(method)) {
+        return;
+      }
+      if (typeof method.type === 'string' && !INSTALLATION_TYPES.includes(method.type as InstallationType)) {
+        const type = method.type.trim().toLowerCase();
+        if (INSTALLATION_TYPES.includes(type as InstallationType)) {
+          fixes.push(`Normalised installation.methods[${index}].type "${method.type}" to "${type}"`);
+          method.type = type;
+        }
+      }
+      if (isObject(method.environment_variables)) {
+        for (const [name, variable] of Object.entries(method.environment_variables)) {
+          if (isObject(variable)) {
+            stringifyScalars(variable, ['default', 'example'], `Quoted ${name}`, fixes);
+          }
+        }
+      }
+    });
+
+    const firstType = installation.methods.find(isObject)?.type;
+    if (installation.recommended === undefined && INSTALLATION_TYPES.includes(firstType)) {
+      installation.recommended = firstType;
+      fixes.push(`Set installation.recommended to "${firstType}"`);
+    }
+  }
+
+  if (document.configuration === undefined) {
+    document.configuration = { transport: 'stdio' };
+    fixes.push('Added configuration section (transport: stdio)');
+  } else if (isObject(document.configuration) && isObject(document.configuration.claude_desktop?.env)) {
+    const env = document.configuration.claude_desktop.env;
+    stringifyScalars(env, Object.keys(env), 'Quoted claude_desktop env', fixes);
+  }
+
+  if (document.capabilities === undefined) {
+    document.capabilities = { tools: [], resources: [], prompts: [] };
+    fixes.push('Added empty capabilities section');
+  }
+  if (document.testing === undefined) {
+    document.testing = { test_commands: [] };
+    fixes.push('Added empty testing section');
+  }
+}
+
+function stringifyScalars(value: PlainObject, fields: string[], description: string, fixes: string[]): void {
+  for (const field of fields) {
+    if (typeof value[field] === 'number' || typeof value[field] === 'boolean') {
+      value[field] = String(value[field]);
+      fixes.push(`${description} ${field}`);
+    }
+  }
+}
+
+/**
+ * Copy a document with its known fields in schema order (unknown fields last)
+ */
+function orderFields(value: unknown, kind?: string): unknown {
+  if (Array.isArray(value)) {
+    const itemKinds: Record<string, string> = { methods: 'method', tools: 'tool', resources: 'resource', prompts: 'prompt' };
+    return value.map(item => orderFields(item, kind && itemKinds[kind]));
+  }
+  if (!isObject(value) || !kind || !FIELDS[kind]) {
+    return value;
+  }
+
+  // Nested objects whose fields are known, keyed by the parent field name
+  const childKinds: Record<string, string> = {
+    mcp: 'mcp',
+    author: 'author',
+    installation: 'installation',
+    requirements: 'requirements',
+    configuration: 'configuration',
+    claude_desktop: 'claudeDesktop',
+    capabilities: 'capabilities',
+    testing: 'testing',
+    health_check: 'healthCheck'
+  };
+
+  const ordered: PlainObject = {};
+  const keys = [...FIELDS[kind].filter(key => key in value), ...Object.keys(value).filter(key => !FIELDS[kind].includes(key))];
+  for (const key of keys) {
+    if (key === 'environment_variables' && isObject(value[key])) {
+      ordered[key] = Object.fromEntries(Object.entries(value[key]).map(([name, variable]) => [name, orderFields(variable, 'environmentVariable')]));
+    } else if (['methods', 'tools', 'resources', 'prompts'].includes(key)) {
+      ordered[key] = orderFields(value[key], key);
+    } else {
+      ordered[key] = orderFields(value[key], childKinds[key]);
+    }
+  }
+  return ordered;
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readdir, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ToolCallAuditLog, isSensitiveKey, redactArguments } from './tool-call-audit-log.js';
+
+describe('tool-call-audit-log', () => {
+  describe('isSensitiveKey', () => {
+    it('should match whole words of snake, kebab and camel case keys', () => {
+      for (const key of ['password', 'PASSWORD', 'db_pass', 'apiKey', 'api_key', 'x-api-key', 'APIKey', 'X-Auth-Token',
+        'accessToken', 'client_secret', 'sessionId', 'privateKey', 'aws.access_key_id', 'Cookie', 'credentials']) {
+        expect(isSensitiveKey(key), key).toBe(true);
+      }
+    });
+
+    it('should not match words that merely contain a sensitive one', () => {
+      for (const key of ['author', 'bypass', 'passage', 'compass', 'tokenizer', 'keyboard', 'apiVersion', 'sessions_count']) {
+        expect(isSensitiveKey(key), key).toBe(false);
+      }
+    });
+  });
+
+  describe('redactArguments', () => {
+    it('should replace values under sensitive keys at any depth', () => {
+      expect(redactArguments({
+        query: 'weather',
+        apiKey: 'sk-123',
+        headers: { Authorization: 'Bearer abc', accept: 'json' },
+        accounts: [{ name: 'a', password: 'hunter2' }],
+        client_secret: 's',
+        sessionId: 'x'
+      })).toEqual({
+        query: 'weather',
+        apiKey: '[REDACTED]',
+        headers: { Authorization: '[REDACTED]', accept: 'json' },
+        accounts: [{ name: 'a', password: '[REDACTED]' }],
+        client_secret: '[REDACTED]',
+        sessionId: '[REDACTED]'
+      });
+    });
+
+    it('should keep keys that only contain a sensitive word', () => {
+      expect(redactArguments({ author: 'ann', bypass: false, passage: 'p', compass: 'n', authority: 'x' })).toEqual({
+        author: 'ann', bypass: false, passage: 'p', compass: 'n', authority: 'x'
+      });
+    });
+
+    it('should truncate long strings', () => {
+      const redacted = redactArguments({ content: 'x'.repeat(5000) }) as { content: string };
+      expect(redacted.content).toHaveLength(1024 + '… (5000 chars)'.length);
+      expect(redacted.content.endsWith('… (5000 chars)')).toBe(true);
+    });
+
+    it('should stop at deeply nested values', () => {
+      let nested: unknown = 'leaf';
+      for (let i = 0; i < 15; i++) {
+        nested = { next: nested };
+      }
+      expect(JSON.stringify(redactArguments(nested))).toContain('[Truncated]');
+    });
+
+    it('should pass other values through', () => {
+      expect(redactArguments(null)).toBeNull();
+      expect(redactArguments(42)).toBe(42);
+      expect(redactArguments([true, 'a'])).toEqual([true, 'a']);
+    });
+  });
+
+  describe('ToolCallAuditLog', () => {
+    let logDir: string;
+
+    beforeEach(async () => {
+      logDir = await mkdtemp(join(tmpdir(), 'mcpl-audit-'));
+    });
+
+    afterEach(async () => {
+      await rm(logDir, { recursive: true, force: true });
+    });
+
+    const entry = (tool: string, isError = false) => ({
+      server: 'github',
+      tool,
+      client: 'test',
+      arguments: { token: 't', repo: 'a/b' },
+      durationMs: 5,
+      resultSize: 10,
+      isError
+    });
+
+    it('should write redacted entries to a private file and filter them', async () => {
+      const log = new ToolCallAuditLog({ logDir });
+      await log.record(entry('get_issue'));
+      await log.record(entry('create_issue', true));
+
+      expect((await stat(log.getPath())).mode & 0o777).toBe(0o600);
+
+      const entries = await log.read();
+      expect(entries.map(item => item.tool)).toEqual(['get_issue', 'create_issue']);
+      expect(entries[0].arguments).toEqual({ token: '[REDACTED]', repo: 'a/b' });
+      expect((await log.read({ errorsOnly: true })).map(item => item.tool)).toEqual(['create_issue']);
+      expect((await log.read({ limit: 1 })).map(item => item.tool)).toEqual(['create_issue']);
+    });
+
+    it('should rotate and read across rotated files', async () => {
+      const log = new ToolCallAuditLog({ logDir, maxFileSize: 200, maxFiles: 2 });
+      for (let i = 0; i < 5; i++) {
+        await log.record(entry(`tool_${i}`));
+      }
+
+      expect((await readdir(logDir)).sort()).toEqual(['tool-calls.1.jsonl', 'tool-calls.2.jsonl', 'tool-calls.jsonl']);
+      expect((await log.read()).map(item => item.tool)).toEqual(['tool_2', 'tool_3', 'tool_4']);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+// Append-only audit log of tool calls forwarded by the bridge
+
+import { appendFile, mkdir, readdir, readFile, rename, rm, stat } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { ToolCallAuditEntry, ToolCallAuditFilter } from '@mcplookup-org/mcp-sdk';
+
+export interface ToolCallAuditLogOptions {
+  logDir?: string;
+  maxFileSize?: number; // bytes before the active file is rotated
+  maxFiles?: number; // rotated files kept besides the active one
+}
+
+const LOG_FILE_PATTERN = /^tool-calls(?:\.(\d+))?\.jsonl$/;
+const SENSITIVE_SEGMENTS = new Set([
+  'pass', 'passwd', 'password', 'passphrase', 'pwd', 'secret', 'secrets', 'token', 'tokens', 'auth',
+  'authorization', 'bearer', 'credential', 'credentials', 'cookie', 'cookies', 'session', 'apikey', 'privatekey'
+]);
+const SENSITIVE_PAIRS = new Set(['api key', 'private key', 'access key']);
+const MAX_STRING_LENGTH = 1024;
+
+/**
+ * Check whether a key names a secret. Keys are split into words on `_`, `-`,
+ * `.` and camelCase, and whole words are matched: apiKey, client_secret and
+ * X-Auth-Token are sensitive, author and passage are not.
+ */
+export function isSensitiveKey(key: string): boolean {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[\s_.-]+/)
+    .filter(Boolean);
+
+  return words.some((word, index) =>
+    SENSITIVE_SEGMENTS.has(word) || SENSITIVE_PAIRS.has(`${word} ${words[index + 1]}`)
+  );
+}
+
+/**
+ * Redact secrets from tool arguments before they are written to disk.
+ * Values under sensitive-looking keys are replaced and long strings truncated.
+ */
+export function redactArguments(value: unknown, depth = 0): unknown {
+  if (depth > 10) {
+    return '[Truncated]';
+  }
+
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+      : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactArguments(item, depth + 1));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      isSensitiveKey(key) ? '[REDACTED]' : redactArguments(item, depth + 1)
+    ]));
+  }
+
+  return value;
+}
+
+export class ToolCallAuditLog {
+  private logDir: string;
+  private maxFileSize: number;
+  private maxFiles: number;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: ToolCallAuditLogOptions = {}) {
+    this.logDir = options.logDir || join(homedir(), '.mcpl', 'logs');
+    this.maxFileSize = options.maxFileSize ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  /**
+   * Get the path of the active log file
+   */
+  getPath(): string {
+    return join(this.logDir, 'tool-calls.jsonl');
+  }
+
+  /**
+   * Append an entry. Failures are reported but never break the tool call.
+   */
+  async record(entry: Omit<ToolCallAuditEntry, 'timestamp' | 'arguments'> & { arguments?: unknown }): Promise<void> {
+    const line = JSON.stringify({
+      timestamp: new Date().toISOString(),
+      ...entry,
+      arguments: redactArguments(entry.arguments ?? {})
+    } satisfies ToolCallAuditEntry) + '\n';
+
+    // Serialize writes so rotation never races an append from this process
+    this.writes = this.writes.then(async () => {
+      try {
+        await mkdir(this.logDir, { recursive: true });
+        await this.rotateIfNeeded(Buffer.byteLength(line));
+        await appendFile(this.getPath(), line, { encoding: 'utf-8', mode: 0o600 });
+      } catch (error) {
+        console.error('Failed to write tool call audit log:', error instanceof Error ? error.message : String(error));
+      }
+    });
+
+    return this.writes;
+  }
+
+  /**
+   * Read entries (oldest first) across rotated files, applying a filter.
+   * With a limit, the most recent matching entries are returned.
+   */
+  async read(filter: ToolCallAuditFilter = {}): Promise<ToolCallAuditEntry[]> {
+    const entries: ToolCallAuditEntry[] = [];
+
+    for (const file of await this.getLogFiles()) {
+      const content = await readFile(join(this.logDir, file), 'utf-8').catch(() => '');
+
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+
+        let entry: ToolCallAuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue; // partially written line
+        }
+
+        if (this.matches(entry, filter)) {
+          entries.push(entry);
+        }
+      }
+    }
+
+    return filter.limit ? entries.slice(-filter.limit) : entries;
+  }
+
+  private matches(entry: ToolCallAuditEntry, filter: ToolCallAuditFilter): boolean {
+    const time = new Date(entry.timestamp).getTime();
+
+    return (!filter.server || entry.server === filter.server)
+      && (!filter.tool || entry.tool === filter.tool)
+      && (!filter.since || time >= filter.since.getTime())
+      && (!filter.until || time <= filter.until.getTime())
+      && (!filter.errorsOnly || entry.isError);
+  }
+
+  /**
+   * List log files from oldest rotation to the active file
+   */
+  private async getLogFiles(): Promise<string[]> {
+    const files = await readdir(this.logDir).catch(() => [] as string[]);
+
+    return files
+      .map(file => ({ file, match: LOG_FILE_PATTERN.exec(file) }))
+      .filter(({ match }) => match)
+      .sort((a, b) => parseInt(b.match![1] || '0', 10) - parseInt(a.match![1] || '0', 10))
+      .map(({ file }) => file);
+  }
+
+  private async rotateIfNeeded(incomingBytes: number): Promise<void> {
+    const size = await stat(this.getPath()).then(stats => stats.size).catch(() => 0);
+    if (size === 0 || size + incomingBytes <= this.maxFileSize) {
+      return;
+    }
+
+    const rotated = (index: number) => join(this.logDir, `tool-calls.${index}.jsonl`);
+
+    await rm(rotated(this.maxFiles), { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      await rename(rotated(index), rotated(index + 1)).catch(() => undefined);
+    }
+    await rename(this.getPath(), rotated(1));
+  }
+}
@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { auth } from '@modelcontextprotocol/sdk/client/auth.js';
+import { LoopbackOAuthProvider, authorizeServer } from './oauth-client.js';
+import { OAuthCredentialStore } from './oauth-credential-store.js';
+
+interface FakeAuthorizationServer {
+  url: string;
+  server: Server;
+  challenges: Map<string, string>; // code -> code_challenge
+  requests: string[];
+  refreshes: number;
+}
+
+/**
+ * Minimal authorization server with metadata discovery, dynamic registration
+ * and a token endpoint that checks PKCE. Authorization itself happens in the
+ * tests, which send the browser redirect to the loopback listener.
+ */
+async function startAuthorizationServer(): Promise<FakeAuthorizationServer> {
+  const fake: FakeAuthorizationServer = { url: '', server: createServer(), challenges: new Map(), requests: [], refreshes: 0 };
+
+  fake.server.on('request', async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', fake.url);
+    fake.requests.push(`${req.method} ${url.pathname}`);
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    const json = (status: number, value: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(value));
+    };
+
+    if (url.pathname === '/.well-known/oauth-authorization-server') {
+      json(200, {
+        issuer: fake.url,
+        authorization_endpoint: `${fake.url}/authorize`,
+        token_endpoint: `${fake.url}/token`,
+        registration_endpoint: `${fake.url}/register`,
+        response_types_supported: ['code'],
+        grant_types_supported: ['authorization_code', 'refresh_token'],
+        code_challenge_methods_supported: ['S256']
+      });
+    } else if (url.pathname === '/register' && req.method === 'POST') {
+      json(201, { ...JSON.parse(body), client_id: 'client-1' });
+    } else if (url.pathname === '/token' && req.method === 'POST') {
+      const params = new URLSearchParams(body);
+      if (params.get('grant_type') === 'authorization_code') {
+        const challenge = fake.challenges.get(params.get('code') || '');
+        const verifier = params.get('code_verifier') || '';
+        if (!challenge || createHash('sha256').update(verifier).digest('base64url') !== challenge) {
+          json(400, { error: 'invalid_grant' });
+          return;
+        }
+        json(200, { access_token: 'access-1', refresh_token: 'refresh-1', token_type: 'Bearer', expires_in: 3600 });
+      } else if (params.get('grant_type') === 'refresh_token' && params.get('refresh_token') === 'refresh-1') {
+        fake.refreshes++;
+        // Keep the refresh token, as many servers do
+        json(200, { access_token: `access-${fake.refreshes + 1}`, token_type: 'Bearer', expires_in: 3600 });
+      } else {
+        json(400, { error: 'invalid_grant' });
+      }
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>(resolve => fake.server.listen(0, '127.0.0.1', resolve));
+  fake.url = `http://127.0.0.1:${(fake.server.address() as AddressInfo).port}`;
+  return fake;
+}
+
+async function getFreePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+/**
+ * Play the browser: follow the redirect to the loopback listener, retrying
+ * until it is listening
+ */
+async function sendRedirect(url: string): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetch(url);
+    } catch (error) {
+      if (attempt >= 20) throw error;
+      await new Promise(resolve => setTimeout(resolve, 25));
+    }
+  }
+}
+
+describe('oauth-client', () => {
+  let dir: string;
+  let store: OAuthCredentialStore;
+  let fake: FakeAuthorizationServer;
+  let redirectPort: number;
+  let serverUrl: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mcpl-oauth-'));
+    store = new OAuthCredentialStore(join(dir, 'oauth.json'));
+    fake = await startAuthorizationServer();
+    redirectPort = await getFreePort();
+    serverUrl = `${fake.url}/mcp`;
+    // The fake server has no protected resource metadata, which the SDK reports
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise(resolve => fake.server.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Approve the authorization request: issue a code bound to its PKCE
+   * challenge and send it back with the given state (default: the request's)
+   */
+  const approve = (state?: string, responses: Response[] = []) => async (authorizationUrl: URL) => {
+    const challenge = authorizationUrl.searchParams.get('code_challenge')!;
+    expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    fake.challenges.set('code-1', challenge);
+
+    const redirect = new URL(authorizationUrl.searchParams.get('redirect_uri')!);
+    redirect.searchParams.set('code', 'code-1');
+    redirect.searchParams.set('state', state ?? authorizationUrl.searchParams.get('state')!);
+    // The listener answers after the flow continues, so do not wait here
+    void sendRedirect(redirect.href).then(response => responses.push(response));
+  };
+
+  it('should register, authorize with PKCE and store the tokens privately', async () => {
+    const tokens = await authorizeServer(serverUrl, { store, redirectPort, onAuthorizationUrl: approve() });
+
+    expect(tokens).toMatchObject({ access_token: 'access-1', refresh_token: 'refresh-1' });
+    expect(fake.requests).toContain('POST /register');
+
+    const credentials = await store.get(serverUrl);
+    expect(credentials?.client).toMatchObject({ client_id: 'client-1', redirect_uris: [`http://127.0.0.1:${redirectPort}/callback`] });
+    expect(credentials?.expiresAt).toBeDefined();
+    expect((await stat(store.getPath())).mode & 0o777).toBe(0o600);
+  });
+
+  it('should reuse the stored registration on the next authorization', async () => {
+    await authorizeServer(serverUrl, { store, redirectPort, onAuthorizationUrl: approve() });
+    fake.requests = [];
+
+    await authorizeServer(serverUrl, { store, redirectPort, onAuthorizationUrl: approve() });
+    expect(fake.requests).not.toContain('POST /register');
+  });
+
+  it('should register again when the redirect port changed', async () => {
+    await authorizeServer(serverUrl, { store, redirectPort, onAuthorizationUrl: approve() });
+
+    const provider = new LoopbackOAuthProvider(serverUrl, { store, redirectPort: redirectPort + 1 });
+    expect(await provider.clientInformation()).toBeUndefined();
+  });
+
+  it('should reject a redirect with the wrong state', async () => {
+    const responses: Response[] = [];
+    await expect(authorizeServer(serverUrl, { store, redirectPort, onAuthorizationUrl: approve('forged', responses) }))
+      .rejects.toThrow('state mismatch');
+
+    await vi.waitFor(() => expect(responses[0]?.status).toBe(400));
+    expect(await store.get(serverUrl).then(credentials => credentials?.tokens)).toBeUndefined();
+  });
+
+  it('should reject a code exchanged without its verifier', async () => {
+    const onAuthorizationUrl = async (authorizationUrl: URL) => {
+      // A challenge the client's verifier does not match
+      await approve()(authorizationUrl);
+      fake.challenges.set('code-1', createHash('sha256').update('another verifier').digest('base64url'));
+    };
+
+    await expect(authorizeServer(serverUrl, { store, redirectPort, onAuthorizationUrl })).rejects.toThrow('Token exchange failed');
+  });
+
+  it('should refresh tokens and keep the refresh token the server did not resend', async () => {
+    await authorizeServer(serverUrl, { store, redirectPort, onAuthorizationUrl: approve() });
+
+    const onAuthorizationUrl = vi.fn();
+    const provider = new LoopbackOAuthProvider(serverUrl, { store, redirectPort, onAuthorizationUrl });
+    expect(await auth(provider, { serverUrl })).toBe('AUTHORIZED');
+
+    expect(onAuthorizationUrl).not.toHaveBeenCalled();
+    expect(fake.refreshes).toBe(1);
+    expect(await provider.tokens()).toMatchObject({ access_token: 'access-2', refresh_token: 'refresh-1' });
+  });
+
+  it('should keep the previous refresh token when saving tokens without one', async () => {
+    const provider = new LoopbackOAuthProvider(serverUrl, { store, redirectPort });
+    await provider.saveTokens({ access_token: 'a', token_type: 'Bearer', refresh_token: 'r' });
+    await provider.saveTokens({ access_token: 'b', token_type: 'Bearer' });
+
+    expect(await provider.tokens()).toEqual({ access_token: 'b', token_type: 'Bearer', refresh_token: 'r' });
+  });
+});
+
+describe('OAuthCredentialStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mcpl-oauth-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should serialize concurrent updates', async () => {
+    const store = new OAuthCredentialStore(join(dir, 'oauth.json'));
+    await Promise.all(Array.from({ length: 5 }, (_, i) => store.update(`https://server-${i}.example/mcp`, { expiresAt: `${i}` })));
+
+    expect(await store.list()).toHaveLength(5);
+    expect((await stat(store.getPath())).mode & 0o777).toBe(0o600);
+  });
+
+  it('should forget tokens but keep the registration unless asked', async () => {
+    const store = new OAuthCredentialStore(join(dir, 'oauth.json'));
+    const serverUrl = 'https://server.example/mcp#fragment';
+    await store.update(serverUrl, {
+      client: { client_id: 'c', redirect_uris: ['http://127.0.0.1/callback'] },
+      tokens: { access_token: 'a', token_type: 'Bearer' }
+    });
+
+    expect(await store.remove('https://server.example/mcp')).toBe(true);
+    expect(await store.get(serverUrl)).toMatchObject({ client: { client_id: 'c' } });
+    expect((await store.get(serverUrl))?.tokens).toBeUndefined();
+
+    expect(await store.remove(serverUrl, { all: true })).toBe(true);
+    expect(await store.get(serverUrl)).toBeUndefined();
+  });
+});
@@ -0,0 +1,280 @@
+// OAuth 2.1 client for remote MCP servers: discovery, dynamic client
+// registration and PKCE come from the MCP SDK, with a loopback redirect
+
+import { createServer, Server as HttpServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { spawn } from 'node:child_process';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { OAuthClientProvider, UnauthorizedError, auth } from '@modelcontextprotocol/sdk/client/auth.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import { OAuthCredentialStore } from './oauth-credential-store.js';
+
+export const DEFAULT_OAUTH_REDIRECT_PORT = 33418;
+
+export interface OAuthFlowOptions {
+  store?: OAuthCredentialStore;
+  redirectPort?: number; // loopback port (default: MCPL_OAUTH_REDIRECT_PORT or 33418)
+  scope?: string;
+  clientName?: string;
+  timeoutMs?: number; // how long to wait for the browser to come back (default: 5 minutes)
+  onAuthorizationUrl?: (url: URL) => void | Promise<void>; // default: open the system browser
+}
+
+/**
+ * OAuthClientProvider that keeps credentials in an OAuthCredentialStore and
+ * receives the authorization code on a loopback HTTP server. The fixed port
+ * keeps the redirect URI stable, so a dynamic registration can be reused.
+ */
+export class LoopbackOAuthProvider implements OAuthClientProvider {
+  readonly serverUrl: string;
+  private store: OAuthCredentialStore;
+  private options: OAuthFlowOptions;
+  private port: number;
+  private expectedState?: string;
+  private verifier?: string;
+  private callbackServer?: HttpServer;
+  private pendingCode?: Promise<string>;
+
+  constructor(serverUrl: string, options: OAuthFlowOptions = {}) {
+    this.serverUrl = serverUrl;
+    this.options = options;
+    this.store = options.store || new OAuthCredentialStore();
+    this.port = options.redirectPort
+      ?? (parseInt(process.env.MCPL_OAUTH_REDIRECT_PORT || '', 10) || DEFAULT_OAUTH_REDIRECT_PORT);
+  }
+
+  get redirectUrl(): string {
+    return `http://127.0.0.1:${this.port}/callback`;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: this.options.clientName || 'mcpl',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+      ...(this.options.scope && { scope: this.options.scope })
+    };
+  }
+
+  /**
+   * Check whether the user was sent to the authorization server and the code
+   * has not been exchanged yet
+   */
+  get authorizationPending(): boolean {
+    return this.pendingCode !== undefined;
+  }
+
+  state(): string {
+    this.expectedState = randomBytes(16).toString('base64url');
+    return this.expectedState;
+  }
+
+  async clientInformation(): Promise<OAuthClientInformationFull | undefined> {
+    const client = (await this.store.get(this.serverUrl))?.client;
+
+    // Registrations made for another redirect port are no longer usable
+    return client?.redirect_uris?.includes(this.redirectUrl) ? client : undefined;
+  }
+
+  async saveClientInformation(client: OAuthClientInformationFull): Promise<void> {
+    await this.store.update(this.serverUrl, { client });
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    return (await this.store.get(this.serverUrl))?.tokens;
+  }
+
+  async saveTokens(tokens: OAuthTokens): Promise<void> {
+    // Refresh responses may omit the refresh token when it stays valid
+    const previous = await this.tokens();
+    await this.store.update(this.serverUrl, {
+      tokens: { ...tokens, refresh_token: tokens.refresh_token || previous?.refresh_token },
+      expiresAt: tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000).toISOString() : undefined
+    });
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this.verifier = codeVerifier;
+  }
+
+  codeVerifier(): string {
+    if (!this.verifier) {
+      throw new Error('No authorization in progress');
+    }
+    return this.verifier;
+  }
+
+  /**
+   * Start listening for the redirect, then send the user to the authorization server
+   */
+  async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    this.pendingCode = this.listenForCode();
+    // Avoid an unhandled rejection before anyone waits for the code
+    this.pendingCode.catch(() => undefined);
+
+    await (this.options.onAuthorizationUrl || openAuthorizationUrl)(authorizationUrl);
+  }
+
+  /**
+   * Wait for the browser to return to the loopback redirect and exchange the
+   * code for tokens
+   */
+  async finishAuthorization(): Promise<void> {
+    if (!this.pendingCode) {
+      throw new Error('No authorization in progress');
+    }
+
+    try {
+      const authorizationCode = await this.pendingCode;
+      const result = await auth(this, { serverUrl: this.serverUrl, authorizationCode });
+      if (result !== 'AUTHORIZED') {
+        throw new UnauthorizedError('Failed to authorize');
+      }
+    } finally {
+      this.pendingCode = undefined;
+      this.verifier = undefined;
+    }
+  }
+
+  /**
+   * Stop listening for a redirect that never came
+   */
+  close(): void {
+    this.callbackServer?.close();
+    this.callbackServer = undefined;
+  }
+
+  private listenForCode(): Promise<string> {
+    this.close();
+
+    return new Promise<string>((resolve, reject) => {
+      const server = createServer((req, res) => {
+        const url = new URL(req.url || '/', this.redirectUrl);
+        if (url.pathname !== '/callback') {
+          res.writeHead(404).end();
+          return;
+        }
+
+        const error = url.searchParams.get('error');
+        const code = url.searchParams.get('code');
+        const stateMatches = !this.expectedState || url.searchParams.get('state') === this.expectedState;
+        const message = error
+          ? `Authorization failed: ${url.searchParams.get('error_description') || error}`
+          : !code ? 'Authorization failed: no code was returned'
+          : !stateMatches ? 'Authorization failed: state mismatch'
+          : undefined;
+
+        // Close the connection so a later login never reaches this listener through keep-alive
+        res.writeHead(message ? 400 : 200, { 'Content-Type': 'text/html; charset=utf-8', Connection: 'close' });
+        res.end(`<!doctype html><p>${message || 'Authorization complete. You can close this window and return to the terminal.'}</p>`);
+
+        finish(message ? new Error(message) : undefined, code || undefined);
+      });
+
+      const timer = setTimeout(
+        () => finish(new Error('Timed out waiting for authorization in the browser')),
+        this.options.timeoutMs ?? 5 * 60 * 1000
+      );
+      timer.unref();
+
+      const finish = (error?: Error, code?: string) => {
+        clearTimeout(timer);
+        server.close();
+        if (this.callbackServer === server) {
+          this.callbackServer = undefined;
+        }
+        error ? reject(error) : resolve(code!);
+      };
+
+      server.once('error', (error: NodeJS.ErrnoException) => finish(error.code === 'EADDRINUSE'
+        ? new Error(`Port ${this.port} for the OAuth redirect is in use (set MCPL_OAUTH_REDIRECT_PORT to use another)`)
+        : error));
+      server.listen(this.port, '127.0.0.1');
+      this.callbackServer = server;
+    });
+  }
+}
+
+/**
+ * Run the authorization flow for a server interactively: reuse or register a
+ * client, send the user to the browser and store the tokens. Existing tokens
+ * are replaced.
+ */
+export async function authorizeServer(serverUrl: string, options: OAuthFlowOptions = {}): Promise<OAuthTokens> {
+  const store = options.store || new OAuthCredentialStore();
+  const provider = new LoopbackOAuthProvider(serverUrl, { ...options, store });
+
+  // Without stored tokens auth() goes straight to the browser instead of refreshing
+  await store.remove(serverUrl);
+
+  try {
+    if (await auth(provider, { serverUrl, scope: options.scope }) === 'REDIRECT') {
+      await provider.finishAuthorization();
+    }
+  } finally {
+    provider.close();
+  }
+
+  const tokens = await provider.tokens();
+  if (!tokens) {
+    throw new Error(`Authorization with ${serverUrl} returned no tokens`);
+  }
+  return tokens;
+}
+
+/**
+ * Connect a client, completing the authorization flow when the server answers
+ * 401 and no stored token can be refreshed. createTransport is called again
+ * for the authorized connection.
+ */
+export async function connectWithAuthorization(
+  client: Client,
+  createTransport: () => Transport | Promise<Transport>,
+  provider?: LoopbackOAuthProvider
+): Promise<Transport> {
+  const transport = await createTransport();
+
+  try {
+    await client.connect(transport);
+    return transport;
+  } catch (error) {
+    if (!provider || !(error instanceof UnauthorizedError) || !provider.authorizationPending) {
+      throw error;
+    }
+  }
+
+  console.error(`🔐 ${provider.serverUrl} requires authorization, waiting for the browser...`);
+  try {
+    await provider.finishAuthorization();
+  } finally {
+    provider.close();
+  }
+
+  const authorized = await createTransport();
+  await client.connect(authorized);
+  return authorized;
+}
+
+/**
+ * Default authorization handler: print the URL and try the system browser
+ */
+function openAuthorizationUrl(url: URL): void {
+  console.error(`🔐 Open this URL to authorize access:\n${url.href}`);
+
+  const command = process.platform === 'darwin' ? 'open' : process.platform === 'win32' ? 'cmd' : 'xdg-open';
+  const args = process.platform === 'win32' ? ['/c', 'start', '', url.href] : [url.href];
+  try {
+    const child = spawn(command, args, { stdio: 'ignore', detached: true });
+    child.on('error', () => undefined);
+    child.unref();
+  } catch {
+    // The URL is printed above
+  }
+}
@@ -0,0 +1,117 @@
+// Persistent OAuth client registrations and tokens for remote MCP servers
+
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { OAuthClientInformationFull, OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { readJsonFile, writeFileAtomic } from '@mcplookup-org/mcp-sdk';
+
+export interface OAuthServerCredentials {
+  serverUrl: string;
+  client?: OAuthClientInformationFull; // from dynamic client registration
+  tokens?: OAuthTokens;
+  expiresAt?: string; // when the access token expires, if the server said
+  updatedAt: string;
+}
+
+interface OAuthCredentialsFile {
+  version: 1;
+  servers: Record<string, OAuthServerCredentials>;
+}
+
+/**
+ * OAuth credentials of remote servers (~/.mcpl/oauth.json), keyed by server
+ * URL. The file holds refresh tokens, so it is only readable by the user.
+ */
+export class OAuthCredentialStore {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || join(homedir(), '.mcpl', 'oauth.json');
+  }
+
+  /**
+   * Get the path of the credentials file
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+
+  async get(serverUrl: string): Promise<OAuthServerCredentials | undefined> {
+    const state = await this.load();
+    return state.servers[toKey(serverUrl)];
+  }
+
+  async list(): Promise<OAuthServerCredentials[]> {
+    return Object.values((await this.load()).servers);
+  }
+
+  /**
+   * Merge changes into a server's credentials
+   */
+  async update(serverUrl: string, changes: Partial<Omit<OAuthServerCredentials, 'serverUrl' | 'updatedAt'>>): Promise<void> {
+    await this.write(state => {
+      const key = toKey(serverUrl);
+      state.servers[key] = {
+        ...state.servers[key],
+        ...changes,
+        serverUrl: key,
+        updatedAt: new Date().toISOString()
+      };
+    });
+  }
+
+  /**
+   * Forget a server's tokens, keeping its client registration unless all is set
+   */
+  async remove(serverUrl: string, options: { all?: boolean } = {}): Promise<boolean> {
+    let removed = false;
+
+    await this.write(state => {
+      const key = toKey(serverUrl);
+      const credentials = state.servers[key];
+      if (!credentials) {
+        return;
+      }
+
+      removed = !!credentials.tokens || !!options.all;
+      if (options.all || !credentials.client) {
+        delete state.servers[key];
+      } else {
+        state.servers[key] = { serverUrl: key, client: credentials.client, updatedAt: new Date().toISOString() };
+      }
+    });
+
+    return removed;
+  }
+
+  private async load(): Promise<OAuthCredentialsFile> {
+    const state = await readJsonFile<OAuthCredentialsFile>(this.filePath, { version: 1, servers: {} });
+    return { version: 1, servers: state.servers || {} };
+  }
+
+  /**
+   * Read-modify-write the file. Writes are serialized so concurrent token
+   * refreshes never drop each other's changes.
+   */
+  private async write(change: (state: OAuthCredentialsFile) => void): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const state = await this.load();
+      change(state);
+      await writeFileAtomic(this.filePath, JSON.stringify(state, null, 2), 0o600);
+    });
+
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Credentials belong to the server URL, without any fragment
+ */
+function toKey(serverUrl: string): string {
+  const url = new URL(serverUrl);
+  url.hash = '';
+  return url.href;
+}
@@ -2,19 +2,47 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
 import { MCPLookupAPIClient } from '@mcplookup-org/mcp-sdk';
+import { HttpSessionHost } from './transport/http-session-host.js';
 
 // Core components
 import { CoreTools } from './tools/core-tools.js';
 import { ServerManagementTools } from './tools/server-management-tools.js';
-import { DynamicToolRegistry } from './tools/dynamic-tool-registry.js';
+import { DynamicToolRegistry, ToolDisclosureOptions } from './tools/dynamic-tool-registry.js';
+import { DynamicCapabilityRegistry } from './tools/dynamic-capability-registry.js';
 import { ToolInvoker } from './tools/tool-invoker.js';
 
 // Server management components
 import { ServerRegistry } from './server-management/server-registry.js';
+import { SupervisorOptions } from './server-management/server-supervisor.js';
 import { ClaudeConfigManager } from './server-management/claude-config-manager.js';
-import { DockerManager } from './server-management/docker-manager.js';
+import { ClientConfigRegistry } from './server-management/client-config-registry.js';
+import { DockerManager, DockerManagerOptions } from './server-management/docker-manager.js';
+import { ServerStateStore } from './server-management/server-state-store.js';
+import { SandboxProfileStore } from './sandbox/sandbox-profiles.js';
+
+// Policy components
+import { ToolPolicyStore } from './policy/tool-policy-store.js';
+import { ToolCallAuditLog } from './audit/tool-call-audit-log.js';
+import { ServerLogStore } from './server-management/server-log-store.js';
+import { supportsElicitation } from './tools/notification-relay.js';
+
+export interface BridgeOptions {
+  docker?: DockerManagerOptions;
+  tools?: ToolDisclosureOptions; // defaults to MCPL_TOOL_DISCLOSURE / MCPL_PINNED_TOOLS, else eager
+  supervisor?: SupervisorOptions; // restart backoff and crash-loop thresholds
+}
+
+export interface BridgeHttpOptions {
+  host?: string; // interface to bind, defaults to localhost
+  bearerToken?: string; // accepted as "Authorization: Bearer <token>"
+  apiKey?: string; // accepted in the API key header
+  apiKeyHeader?: string; // defaults to x-api-key
+  allowedHosts?: string[]; // Host header names accepted besides localhost and the bound host
+  corsOrigins?: string[] | '*';
+}
 
 /**
  * Refactored MCP Bridge with clean separation of concerns
@@ -23,9 +51,17 @@ import { DockerManager } from './server-management/docker-manager.js';
  * - CoreTools: Handles mcplookup.org API integration
  * - ServerManagementTools: Handles server installation and lifecycle
  * - DynamicToolRegistry: Manages dynamic tool registration from bridge servers
+ * - DynamicCapabilityRegistry: Proxies resources and prompts from bridge servers
  * - ServerRegistry: Manages bridge-mode server state
+ * - ServerSupervisor: Restarts crashed bridge servers per their restart policy
+ * - ServerStateStore: Persists bridge-mode servers across restarts
+ * - ToolPolicyStore: Per-server tool allow/deny policies enforced on bridged calls
+ * - ToolCallAuditLog: Append-only JSONL record of every forwarded tool call
+ * - ServerLogStore: Rotating per-server logs of bridge server stderr
  * - ClaudeConfigManager: Manages direct-mode Claude Desktop configuration
+ * - ClientConfigRegistry: Config adapters for every supported MCP client (direct mode)
  * - DockerManager: Handles Docker container operations
+ * - SandboxProfileStore: Named Docker isolation profiles applied to bridge servers
  * - ToolInvoker: Handles dynamic tool invocation on remote servers
  */
 export class MCPLookupBridge {
@@ -36,14 +72,25 @@ export class MCPLookupBridge {
   private coreTools: CoreTools;
   private serverManagementTools: ServerManagementTools;
   private dynamicToolRegistry: DynamicToolRegistry;
+  private dynamicCapabilityRegistry: DynamicCapabilityRegistry;
   private toolInvoker: ToolInvoker;
   
   // Server management components
   private serverRegistry: ServerRegistry;
   private claudeConfigManager: ClaudeConfigManager;
+  private clientConfigRegistry: ClientConfigRegistry;
   private dockerManager: DockerManager;
-
-  constructor(apiKey?: string, baseUrl?: string) {
+  private stateStore: ServerStateStore;
+  private sandboxProfiles: SandboxProfileStore;
+  private policyStore: ToolPolicyStore;
+  private auditLog: ToolCallAuditLog;
+  private serverLogs: ServerLogStore;
+  private httpHost?: HttpSessionHost<McpServer>;
+  private restoredServers?: Promise<string[]>;
+  private restoredServersStarted = false;
+  private capabilityUpgrade: Promise<void> = Promise.resolve();
+
+  constructor(apiKey?: string, baseUrl?: string, options: BridgeOptions = {}) {
     // Initialize MCP server
     this.server = new McpServer({
       name: 'mcplookup-bridge',
@@ -57,21 +104,54 @@ export class MCPLookupBridge {
     );
 
     // Initialize server management components
-    this.serverRegistry = new ServerRegistry();
+    this.stateStore = new ServerStateStore();
+    this.dockerManager = new DockerManager(options.docker);
+    this.sandboxProfiles = new SandboxProfileStore();
+    this.serverLogs = new ServerLogStore();
+    this.serverRegistry = new ServerRegistry(
+      this.stateStore,
+      this.dockerManager,
+      this.sandboxProfiles,
+      options.supervisor,
+      this.serverLogs
+    );
     this.claudeConfigManager = new ClaudeConfigManager();
-    this.dockerManager = new DockerManager();
+    this.clientConfigRegistry = new ClientConfigRegistry(this.claudeConfigManager);
+    this.policyStore = new ToolPolicyStore();
+    this.auditLog = new ToolCallAuditLog();
 
     // Initialize tool components
-    this.dynamicToolRegistry = new DynamicToolRegistry(this.server);
-    this.toolInvoker = new ToolInvoker();
-    this.coreTools = new CoreTools(this.apiClient);
+    this.dynamicToolRegistry = new DynamicToolRegistry(
+      this.server,
+      this.policyStore,
+      this.auditLog,
+      options.tools || getToolDisclosureFromEnv()
+    );
+    this.dynamicCapabilityRegistry = new DynamicCapabilityRegistry(this.server);
+    this.toolInvoker = new ToolInvoker(this.auditLog, () => this.server.server.getClientVersion()?.name);
+    this.coreTools = new CoreTools(this.apiClient, this.toolInvoker, this.serverRegistry);
     this.serverManagementTools = new ServerManagementTools(
       this.serverRegistry,
-      this.claudeConfigManager,
+      this.clientConfigRegistry,
       this.dockerManager,
-      this.dynamicToolRegistry
+      this.dynamicToolRegistry,
+      this.dynamicCapabilityRegistry,
+      this.sandboxProfiles
     );
 
+    // Sampling and elicitation requests of managed servers go to the client
+    // whose tool call they are running
+    this.serverRegistry.setRequestRelay(this.dynamicToolRegistry);
+
+    // A restarted process may expose other tools, and notification handlers
+    // live on the client, so re-register both after a reconnect
+    this.serverRegistry.onServerReconnected(async (server) => {
+      await this.dynamicToolRegistry.addServerTools(server.name, server);
+      if (this.dynamicCapabilityRegistry.hasServer(server.name)) {
+        await this.dynamicCapabilityRegistry.addServerCapabilities(server.name, server);
+      }
+    });
+
     this.setupTools();
   }
 
@@ -82,17 +162,64 @@ export class MCPLookupBridge {
     // Register core tools (8 tools)
     this.coreTools.registerTools(this.server);
     
-    // Register server management tools (5 tools)
+    // Register server management tools (6 tools)
     this.serverManagementTools.registerTools(this.server);
     
     // Dynamic tools are registered automatically when servers are installed
   }
 
+  /**
+   * Load persisted bridge servers. When startServers is set, servers that were
+   * running when the bridge last exited are re-spawned and their tools re-registered.
+   */
+  async initialize(options: { startServers?: boolean } = {}): Promise<void> {
+    if (!this.restoredServers) {
+      this.restoredServers = this.serverRegistry.restore()
+        .then(servers => servers.map(server => server.name));
+    }
+
+    const toStart = await this.restoredServers;
+
+    if (options.startServers && !this.restoredServersStarted) {
+      this.restoredServersStarted = true;
+      await this.startRestoredServers(toStart);
+
+      // Servers that failed to start are retried by the supervisor too
+      this.serverRegistry.supervisor.start();
+    }
+  }
+
+  /**
+   * Re-spawn restored servers and register their tools
+   */
+  private async startRestoredServers(names: string[]): Promise<void> {
+    for (const name of names) {
+      try {
+        await this.serverRegistry.startServer(name);
+        await this.dynamicToolRegistry.addServerTools(name, this.serverRegistry.getServer(name)!);
+        await this.dynamicCapabilityRegistry.addServerCapabilities(name, this.serverRegistry.getServer(name)!);
+        console.log(`♻️ Restored server '${name}'`);
+      } catch (error) {
+        console.error(`Failed to restore server '${name}':`, error);
+      }
+    }
+  }
+
   /**
    * Run the bridge on stdio (for Claude Desktop integration)
    */
   async run(): Promise<void> {
     try {
+      await this.initialize();
+
+      // Start the managed servers once the client has initialized, so they
+      // are offered the sampling and elicitation support it declared
+      this.server.server.oninitialized = () => {
+        this.initialize({ startServers: true }).catch(error =>
+          console.error('❌ Failed to restore servers:', error)
+        );
+      };
+
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
 
@@ -105,19 +232,47 @@ export class MCPLookupBridge {
   }
 
   /**
-   * Run the bridge as an HTTP server
+   * Run the bridge as an HTTP server. Every client session gets its own MCP
+   * server instance sharing the same managed servers and dynamic tools.
    */
-  async runHTTP(port: number = 3000): Promise<void> {
+  async runHTTP(port: number = 3000, options: BridgeHttpOptions = {}): Promise<void> {
+    if (this.httpHost) {
+      throw new Error('HTTP bridge is already running');
+    }
+
     try {
-      const transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: () => `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      await this.initialize({ startServers: true });
+
+      const apiKeyHeader = (options.apiKeyHeader || 'x-api-key').toLowerCase();
+      const host = new HttpSessionHost<McpServer>({
+        port,
+        host: options.host || 'localhost',
+        createServer: () => this.createSessionServer(),
+        onSessionClosed: (server) => {
+          this.dynamicToolRegistry.detachServer(server);
+          this.dynamicCapabilityRegistry.detachServer(server);
+        },
+        routes: {
+          '/health': (req, res, context) => this.handleHealthRequest(req, res, context.authenticated)
+        },
+        authenticate: options.bearerToken || options.apiKey
+          ? (req) => this.isAuthorized(req, options, apiKeyHeader)
+          : undefined,
+        allowedHosts: options.allowedHosts,
+        corsOrigins: options.corsOrigins,
+        corsAllowedHeaders: options.apiKey ? [apiKeyHeader] : []
       });
 
-      await this.server.connect(transport);
+      await host.listen();
+      this.httpHost = host;
 
+      const mcpUrl = host.getUrl();
       this.logStartupInfo();
-      console.log(`🔗 MCP endpoint: http://localhost:${port}/mcp`);
-      console.log(`🏥 Health check: http://localhost:${port}/health`);
+      console.log(`🔗 MCP endpoint: ${mcpUrl}`);
+      console.log(`🏥 Health check: ${new URL('/health', mcpUrl)}`);
+      if (!options.bearerToken && !options.apiKey) {
+        console.log('⚠️ Authentication disabled: anyone who can reach this port can use the bridge');
+      }
 
     } catch (error) {
       console.error('❌ Failed to start HTTP bridge server:', error);
@@ -125,14 +280,93 @@ export class MCPLookupBridge {
     }
   }
 
+  /**
+   * Build the MCP server for one HTTP session
+   */
+  private createSessionServer(): McpServer {
+    const server = new McpServer({
+      name: 'mcplookup-bridge',
+      version: '1.0.0',
+    });
+
+    this.dynamicCapabilityRegistry.attachServer(server);
+    this.coreTools.registerTools(server);
+    this.serverManagementTools.registerTools(server);
+    this.dynamicToolRegistry.attachServer(server);
+    server.server.oninitialized = () => {
+      void this.upgradeServerCapabilities();
+    };
+
+    return server;
+  }
+
+  /**
+   * Reconnect running servers that were connected without sampling or
+   * elicitation before a client supporting them joined, so they see it
+   */
+  private upgradeServerCapabilities(): Promise<void> {
+    this.capabilityUpgrade = this.capabilityUpgrade.then(async () => {
+      const offered = this.dynamicToolRegistry.getCapabilities();
+
+      for (const server of this.serverRegistry.getServersByStatus('running')) {
+        const declared = this.serverRegistry.getClientCapabilities(server.name) || {};
+        if ((offered.sampling && !declared.sampling) || (offered.elicitation && !supportsElicitation(declared))) {
+          await this.serverRegistry.reconnectServer(server.name).catch(error =>
+            console.error(`Failed to reconnect '${server.name}' with new client capabilities:`, error)
+          );
+        }
+      }
+    });
+    return this.capabilityUpgrade;
+  }
+
+  /**
+   * Check the bearer token or API key of an HTTP request
+   */
+  private isAuthorized(req: IncomingMessage, options: BridgeHttpOptions, apiKeyHeader: string): boolean {
+    const authorization = req.headers.authorization;
+    if (options.bearerToken && authorization?.startsWith('Bearer ')
+      && safeEqual(authorization.slice('Bearer '.length), options.bearerToken)) {
+      return true;
+    }
+
+    const apiKey = req.headers[apiKeyHeader];
+    return !!options.apiKey && typeof apiKey === 'string' && safeEqual(apiKey, options.apiKey);
+  }
+
+  /**
+   * Serve /health; details about managed servers are only shown to authenticated callers
+   */
+  private async handleHealthRequest(req: IncomingMessage, res: ServerResponse, authenticated: boolean): Promise<void> {
+    if (req.method !== 'GET') {
+      res.writeHead(405, { Allow: 'GET, OPTIONS' }).end();
+      return;
+    }
+
+    const health = await this.healthCheck();
+    const status = Array.from(health.servers.values()).every(server => server.healthy) ? 'ok' : 'degraded';
+
+    const body = authenticated
+      ? {
+        status,
+        ...health,
+        servers: Object.fromEntries(health.servers),
+        sessions: this.httpHost?.getSessionCount() ?? 0,
+        dynamicTools: this.dynamicToolRegistry.getStats().totalTools
+      }
+      : { status };
+
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }).end(JSON.stringify(body));
+  }
+
   /**
    * Log startup information
    */
   private logStartupInfo(): void {
     console.log('🌉 Starting MCPLookup Bridge v1.0.0');
-    console.log('🔧 Available tools: 13+ (8 core + 5 management + dynamic tools)');
+    console.log('🔧 Available tools: 14+ (8 core + 6 management + dynamic tools)');
     console.log('📡 API endpoint: https://mcplookup.org/api/v1');
-    console.log('🔌 Listening on stdio...');
+    console.log(this.httpHost ? '🔌 Listening on HTTP...' : '🔌 Listening on stdio...');
     console.log('✅ MCPLookup Bridge started successfully');
     
     console.log('🎯 Core Tools available:');
@@ -149,6 +383,7 @@ export class MCPLookupBridge {
     console.log('  • install_mcp_server - Install MCP server (bridge or direct mode)');
     console.log('  • list_managed_servers - List bridge-managed servers');
     console.log('  • control_mcp_server - Start/stop/restart bridge servers');
+    console.log('  • get_server_logs - Read a bridge server\'s stderr log');
     console.log('  • list_claude_servers - List Claude Desktop config servers');
     console.log('  • remove_claude_server - Remove server from Claude config');
 
@@ -163,7 +398,8 @@ export class MCPLookupBridge {
     // Show dynamic tools stats
     const toolStats = this.dynamicToolRegistry.getStats();
     if (toolStats.totalTools > 0) {
-      console.log(`⚡ Dynamic Tools (${toolStats.totalTools}):`);
+      const lazy = this.dynamicToolRegistry.getDisclosure().mode === 'lazy';
+      console.log(`⚡ Dynamic Tools (${toolStats.totalTools}${lazy ? ', lazy: use search_tools and call_tool' : ''}):`);
       for (const [serverName, count] of Object.entries(toolStats.serverToolCounts)) {
         console.log(`  • ${serverName}: ${count} tools`);
       }
@@ -183,7 +419,7 @@ export class MCPLookupBridge {
   } {
     return {
       coreTools: 8,
-      managementTools: 5,
+      managementTools: 6,
       dynamicTools: this.dynamicToolRegistry.getStats().totalTools,
       managedServers: this.serverRegistry.listServers().length,
       serverRegistry: this.serverRegistry.getStats(),
@@ -247,6 +483,12 @@ export class MCPLookupBridge {
       // Close server registry (stops all managed servers)
       await this.serverRegistry.close();
 
+      // Stop accepting HTTP sessions
+      if (this.httpHost) {
+        await this.httpHost.close();
+        this.httpHost = undefined;
+      }
+
       // Clear dynamic tool registry
       this.dynamicToolRegistry.clearAll();
 
@@ -311,8 +553,15 @@ export class MCPLookupBridge {
     return {
       serverRegistry: this.serverRegistry,
       claudeConfigManager: this.claudeConfigManager,
+      clientConfigRegistry: this.clientConfigRegistry,
       dockerManager: this.dockerManager,
+      stateStore: this.stateStore,
+      sandboxProfiles: this.sandboxProfiles,
+      policyStore: this.policyStore,
+      auditLog: this.auditLog,
+      serverLogs: this.serverLogs,
       dynamicToolRegistry: this.dynamicToolRegistry,
+      dynamicCapabilityRegistry: this.dynamicCapabilityRegistry,
       toolInvoker: this.toolInvoker,
       coreTools: this.coreTools,
       serverManagementTools: this.serverManagementTools
@@ -365,6 +614,14 @@ export class MCPLookupBridge {
         return await serverManagementTools.listClaudeServers();
       },
 
+      async listClientServers(client?: string) {
+        return await serverManagementTools.listClientServers(client);
+      },
+
+      async removeClientServer(name: string, client?: string) {
+        return await serverManagementTools.removeClientServer(name, client);
+      },
+
       async getServerHealth(serverName: string) {
         return await serverRegistry.getServerHealth(serverName);
       }
@@ -372,6 +629,26 @@ export class MCPLookupBridge {
   }
 }
 
+/**
+ * Compare secrets in constant time
+ */
+function safeEqual(actual: string, expected: string): boolean {
+  const actualBuffer = Buffer.from(actual);
+  const expectedBuffer = Buffer.from(expected);
+  return actualBuffer.length === expectedBuffer.length && timingSafeEqual(actualBuffer, expectedBuffer);
+}
+
+/**
+ * Read the tool disclosure mode from MCPL_TOOL_DISCLOSURE (eager|lazy) and
+ * the comma-separated MCPL_PINNED_TOOLS
+ */
+function getToolDisclosureFromEnv(env: NodeJS.ProcessEnv = process.env): ToolDisclosureOptions {
+  return {
+    mode: env.MCPL_TOOL_DISCLOSURE === 'lazy' ? 'lazy' : 'eager',
+    pinned: env.MCPL_PINNED_TOOLS?.split(',').map(pattern => pattern.trim()).filter(Boolean)
+  };
+}
+
 // Legacy exports for backwards compatibility
 export const MCPHttpBridge = MCPLookupBridge;
 export const EnhancedMCPBridge = MCPLookupBridge;
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+// mcp-bridge - Run the bridge on stdio (default) or as an HTTP server with --http.
+// Every HTTP flag falls back to an MCPL_BRIDGE_* environment variable, which
+// keeps credentials out of the process list.
+
+import { parseArgs } from 'node:util';
+import { BridgeHttpOptions, MCPLookupBridge } from './bridge.js';
+
+const USAGE = `Usage: mcp-bridge [--http] [options]
+
+Runs on stdio unless --http is given.
+
+HTTP options:
+  --port <port>            Port to listen on (MCPL_BRIDGE_PORT, default: 3000)
+  --host <host>            Interface to bind (MCPL_BRIDGE_HOST, default: localhost)
+  --bearer-token <token>   Require "Authorization: Bearer <token>" (MCPL_BRIDGE_BEARER_TOKEN)
+  --api-key <key>          Require this key in the API key header (MCPL_BRIDGE_API_KEY)
+  --api-key-header <name>  Header carrying the API key (MCPL_BRIDGE_API_KEY_HEADER, default: x-api-key)
+  --allowed-host <name>    Host header name to accept besides localhost and --host, repeatable
+                           (MCPL_BRIDGE_ALLOWED_HOSTS, comma-separated)
+  --cors-origin <origin>   Browser origin allowed to call the bridge, repeatable or "*"
+                           (MCPL_BRIDGE_CORS_ORIGINS, comma-separated)
+
+MCPLOOKUP_API_KEY authenticates the bridge with mcplookup.org.`;
+
+interface BridgeArgs {
+  http: boolean;
+  port: number;
+  options: BridgeHttpOptions;
+}
+
+function parseBridgeArgs(argv: string[], env: NodeJS.ProcessEnv): BridgeArgs | undefined {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      http: { type: 'boolean' },
+      port: { type: 'string' },
+      host: { type: 'string' },
+      'bearer-token': { type: 'string' },
+      'api-key': { type: 'string' },
+      'api-key-header': { type: 'string' },
+      'allowed-host': { type: 'string', multiple: true },
+      'cors-origin': { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    return undefined;
+  }
+
+  const rawPort = values.port || env.MCPL_BRIDGE_PORT || '3000';
+  const port = Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${rawPort}`);
+  }
+
+  const splitList = (value?: string) => value?.split(',').map(item => item.trim()).filter(Boolean);
+  const origins = values['cors-origin'] || splitList(env.MCPL_BRIDGE_CORS_ORIGINS);
+
+  return {
+    http: values.http || false,
+    port,
+    options: {
+      host: values.host || env.MCPL_BRIDGE_HOST,
+      bearerToken: values['bearer-token'] || env.MCPL_BRIDGE_BEARER_TOKEN,
+      apiKey: values['api-key'] || env.MCPL_BRIDGE_API_KEY,
+      apiKeyHeader: values['api-key-header'] || env.MCPL_BRIDGE_API_KEY_HEADER,
+      allowedHosts: values['allowed-host'] || splitList(env.MCPL_BRIDGE_ALLOWED_HOSTS),
+      corsOrigins: origins?.includes('*') ? '*' : origins?.length ? origins : undefined
+    }
+  };
+}
+
+async function main(): Promise<void> {
+  let args: BridgeArgs | undefined;
+  try {
+    args = parseBridgeArgs(process.argv.slice(2), process.env);
+  } catch (error) {
+    console.error(`mcp-bridge: ${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  if (!args) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (!args.http) {
+    // stdout belongs to the MCP protocol; status output goes to stderr
+    console.log = console.error;
+  }
+
+  const bridge = new MCPLookupBridge();
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      bridge.close().then(() => process.exit(0), () => process.exit(1));
+    });
+  }
+
+  try {
+    if (args.http) {
+      await bridge.runHTTP(args.port, args.options);
+    } else {
+      await bridge.run();
+    }
+  } catch {
+    // The bridge has reported the failure
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListPromptsRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MCPLookupConfig } from '@mcplookup-org/mcp-sdk';
+import { ConformanceReport, ConformanceTarget, ConformanceRunner, formatJUnitReport } from './conformance-runner.js';
+
+/**
+ * A target served in memory: one valid tool, one with a broken schema and a prompt
+ */
+function createTarget(): ConformanceTarget {
+  return {
+    name: 'search',
+    transport: 'stdio',
+    connect: async (client) => {
+      const server = new Server({ name: 'search-server', version: '1.2.0' }, { capabilities: { tools: {}, prompts: {} } });
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: [
+          { name: 'search', inputSchema: { type: 'object', properties: { query: { type: 'string' } } } },
+          { name: 'broken', inputSchema: { type: 'object', properties: { query: { type: 'text' } } } }
+        ]
+      }));
+      server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: [{ name: 'summarize' }] }));
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+      return clientTransport;
+    }
+  };
+}
+
+const config = {
+  capabilities: {
+    tools: [{ name: 'search', description: 'Search' }, { name: 'fetch', description: 'Fetch a page' }],
+    prompts: [{ name: 'summarize', description: 'Summarize' }]
+  },
+  testing: {
+    test_commands: ['node -e "process.exit(0)"', 'node -e "console.error(\'boom\'); process.exit(3)"']
+  }
+} as MCPLookupConfig;
+
+const summarize = (report: ConformanceReport) => report.checks.map(({ suite, name, status }) => `${suite} ${name}: ${status}`);
+
+describe('ConformanceRunner', () => {
+  it('should compare what the server advertises with its declarations', async () => {
+    const report = await new ConformanceRunner({ target: createTarget(), config }).run();
+
+    expect(report.serverInfo).toEqual({ name: 'search-server', version: '1.2.0' });
+    expect(summarize(report)).toEqual([
+      'handshake initialize: passed',
+      'tools tools/list: passed',
+      'prompts prompts/list: passed',
+      'tools tool search is advertised: passed',
+      'tools tool fetch is advertised: failed',
+      'tools tool broken is declared: failed',
+      'resources declared resources: skipped',
+      'prompts prompt summarize is advertised: passed',
+      'schemas search inputSchema: passed',
+      'schemas broken inputSchema: failed',
+      'health_check health check: skipped',
+      'test_commands node -e "process.exit(0)": passed',
+      'test_commands node -e "console.error(\'boom\'); process.exit(3)": failed'
+    ]);
+    expect(report.checks.at(-1)?.message).toBe('Exited with code 3:\nboom');
+    expect(report.passed).toBe(false);
+    expect(report.counts).toEqual({ passed: 7, failed: 4, skipped: 2 });
+  });
+
+  it('should skip the server checks when the handshake fails', async () => {
+    const target: ConformanceTarget = { name: 'down', transport: 'http', connect: async () => { throw new Error('Connection refused'); } };
+    const report = await new ConformanceRunner({ target }).run();
+
+    expect(report.checks[0]).toMatchObject({ suite: 'handshake', status: 'failed', message: 'Connection refused' });
+    expect(report.checks.slice(1).every(check => check.status === 'skipped')).toBe(true);
+    expect(report.passed).toBe(false);
+  });
+
+  it('should fail a step that does not answer in time', async () => {
+    const target: ConformanceTarget = { name: 'slow', transport: 'http', connect: () => new Promise(() => undefined) };
+    const report = await new ConformanceRunner({ target, timeoutMs: 50 }).run();
+
+    expect(report.checks[0].message).toBe('Handshake timed out after 50ms');
+  });
+});
+
+describe('formatJUnitReport', () => {
+  it('should write one test suite per check suite with escaped messages', () => {
+    const xml = formatJUnitReport({
+      server: 'search',
+      startedAt: '2026-01-01T00:00:00.000Z',
+      durationMs: 1500,
+      passed: false,
+      counts: { passed: 1, failed: 1, skipped: 1 },
+      checks: [
+        { suite: 'handshake', name: 'initialize', status: 'passed', durationMs: 250 },
+        { suite: 'tools', name: 'tool <fetch> is advertised', status: 'failed', message: 'Declared tool "fetch"\nis missing', durationMs: 0 },
+        { suite: 'tools', name: 'declared tools', status: 'skipped', message: 'None & \u0007done', durationMs: 0 }
+      ]
+    });
+
+    expect(xml.split('\n')).toEqual([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<testsuites name="mcpl test search" tests="3" failures="1" skipped="1" time="1.500" timestamp="2026-01-01T00:00:00.000Z">',
+      '  <testsuite name="handshake" tests="1" failures="0" skipped="0" time="0.250">',
+      '    <testcase classname="search.handshake" name="initialize" time="0.250"/>',
+      '  </testsuite>',
+      '  <testsuite name="tools" tests="2" failures="1" skipped="1" time="0.000">',
+      '    <testcase classname="search.tools" name="tool &lt;fetch&gt; is advertised" time="0.000">',
+      '      <failure message="Declared tool &quot;fetch&quot;">Declared tool &quot;fetch&quot;',
+      'is missing</failure>',
+      '    </testcase>',
+      '    <testcase classname="search.tools" name="declared tools" time="0.000">',
+      '      <skipped message="None &amp; done"/>',
+      '    </testcase>',
+      '  </testsuite>',
+      '</testsuites>',
+      ''
+    ]);
+  });
+});
@@ -0,0 +1,412 @@
+// Conformance runner: checks a server against its .mcplookup.yaml declarations
+
+import { spawn } from 'node:child_process';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import Ajv from 'ajv';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { MCPLookupConfig } from '@mcplookup-org/mcp-sdk';
+
+/**
+ * How to reach the server under test
+ */
+export interface ConformanceTarget {
+  name: string;
+  transport: 'stdio' | 'http' | 'sse';
+  command?: string; // stdio
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string; // http and sse
+  headers?: Record<string, string>;
+  connect?: (client: Client) => Promise<Transport>; // launches the server itself, overriding the fields above
+}
+
+export interface ConformanceOptions {
+  target: ConformanceTarget;
+  config?: MCPLookupConfig; // declared capabilities, test commands and health check
+  cwd?: string; // where test commands run (default: the target's cwd)
+  timeoutMs?: number; // per step (default: 30s)
+  onCheck?: (check: ConformanceCheck) => void;
+}
+
+export type ConformanceSuite = 'handshake' | 'tools' | 'resources' | 'prompts' | 'schemas' | 'test_commands' | 'health_check';
+
+export interface ConformanceCheck {
+  suite: ConformanceSuite;
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  message?: string;
+  durationMs: number;
+}
+
+export interface ConformanceReport {
+  server: string;
+  serverInfo?: { name: string; version: string };
+  startedAt: string;
+  durationMs: number;
+  passed: boolean;
+  counts: { passed: number; failed: number; skipped: number };
+  checks: ConformanceCheck[];
+}
+
+interface AdvertisedSurface {
+  tools: Array<{ name: string; inputSchema: unknown }>;
+  resources: string[]; // names of resources and resource templates
+  prompts: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const OUTPUT_TAIL_LINES = 10;
+
+/**
+ * Starts a server, performs the MCP handshake and compares what it advertises
+ * with what its .mcplookup.yaml declares, then runs the declared test commands
+ * and health check.
+ */
+export class ConformanceRunner {
+  private options: ConformanceOptions;
+  private checks: ConformanceCheck[] = [];
+
+  constructor(options: ConformanceOptions) {
+    this.options = options;
+  }
+
+  async run(): Promise<ConformanceReport> {
+    const startedAt = new Date();
+    const client = new Client({ name: 'mcpl-test', version: '1.0.0' }, { capabilities: {} });
+    let serverInfo: ConformanceReport['serverInfo'];
+
+    const connected = await this.check('handshake', 'initialize', async () => {
+      const { connect } = this.options.target;
+      await this.withTimeout<unknown>(connect ? connect(client) : client.connect(this.createTransport()), 'Handshake');
+      const version = client.getServerVersion();
+      serverInfo = version && { name: version.name, version: version.version };
+      return version ? `${version.name} ${version.version}` : undefined;
+    });
+
+    try {
+      if (connected) {
+        const surface = await this.collectSurface(client);
+        if (surface) {
+          this.compareDeclarations(surface);
+          this.validateToolSchemas(surface);
+        }
+        await this.runHealthCheck();
+      } else {
+        for (const suite of ['tools', 'resources', 'prompts', 'schemas', 'health_check'] as const) {
+          this.skip(suite, suite, 'Handshake failed');
+        }
+      }
+    } finally {
+      await client.close().catch(() => undefined);
+    }
+
+    await this.runTestCommands();
+
+    const counts = {
+      passed: this.checks.filter(check => check.status === 'passed').length,
+      failed: this.checks.filter(check => check.status === 'failed').length,
+      skipped: this.checks.filter(check => check.status === 'skipped').length
+    };
+
+    return {
+      server: this.options.target.name,
+      ...(serverInfo && { serverInfo }),
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      passed: counts.failed === 0,
+      counts,
+      checks: this.checks
+    };
+  }
+
+  private createTransport(): Transport {
+    const { target } = this.options;
+
+    if (target.transport === 'stdio') {
+      if (!target.command) {
+        throw new Error('A command is required to start a stdio server');
+      }
+      return new StdioClientTransport({
+        command: target.command,
+        args: target.args || [],
+        env: { ...getDefaultEnvironment(), ...target.env },
+        ...(target.cwd && { cwd: target.cwd })
+      });
+    }
+
+    if (!target.url) {
+      throw new Error(`A URL is required to reach a ${target.transport} server`);
+    }
+    const requestInit: RequestInit = { headers: target.headers || {} };
+    return target.transport === 'sse'
+      ? new SSEClientTransport(new URL(target.url), { requestInit })
+      : new StreamableHTTPClientTransport(new URL(target.url), { requestInit });
+  }
+
+  /**
+   * List everything the server advertises (one check per capability it supports)
+   */
+  private async collectSurface(client: Client): Promise<AdvertisedSurface | undefined> {
+    const capabilities = client.getServerCapabilities() || {};
+    const surface: AdvertisedSurface = { tools: [], resources: [], prompts: [] };
+    let complete = true;
+
+    if (capabilities.tools) {
+      complete = await this.check('tools', 'tools/list', async () => {
+        const { tools } = await this.withTimeout(client.listTools(), 'tools/list');
+        surface.tools = tools.map(tool => ({ name: tool.name, inputSchema: tool.inputSchema }));
+        return `${tools.length} tools`;
+      }) && complete;
+    }
+
+    if (capabilities.resources) {
+      complete = await this.check('resources', 'resources/list', async () => {
+        const { resources } = await this.withTimeout(client.listResources(), 'resources/list');
+        const templates: string[] = [];
+        try {
+          const { resourceTemplates } = await this.withTimeout(client.listResourceTemplates(), 'resources/templates/list');
+          templates.push(...resourceTemplates.map(template => template.name));
+        } catch {
+          // Templates are optional
+        }
+        surface.resources = [...resources.map(resource => resource.name), ...templates];
+        return `${resources.length} resources, ${templates.length} templates`;
+      }) && complete;
+    }
+
+    if (capabilities.prompts) {
+      complete = await this.check('prompts', 'prompts/list', async () => {
+        const { prompts } = await this.withTimeout(client.listPrompts(), 'prompts/list');
+        surface.prompts = prompts.map(prompt => prompt.name);
+        return `${prompts.length} prompts`;
+      }) && complete;
+    }
+
+    return complete ? surface : undefined;
+  }
+
+  /**
+   * Every declared tool, resource and prompt must be advertised, and everything
+   * advertised must be declared. Lists the config leaves out are not compared.
+   */
+  private compareDeclarations(surface: AdvertisedSurface): void {
+    const declared = this.options.config?.capabilities;
+    const lists = {
+      tools: { declared: declared?.tools, advertised: surface.tools.map(tool => tool.name) },
+      resources: { declared: declared?.resources, advertised: surface.resources },
+      prompts: { declared: declared?.prompts, advertised: surface.prompts }
+    };
+
+    for (const [suite, { declared: items, advertised }] of Object.entries(lists) as Array<[ConformanceSuite, typeof lists.tools]>) {
+      const kind = suite.slice(0, -1);
+      if (!items) {
+        this.skip(suite, `declared ${suite}`, `No ${suite} declared in capabilities`);
+        continue;
+      }
+
+      const names = items.map(item => item.name);
+      for (const name of names) {
+        this.record(suite, `${kind} ${name} is advertised`, advertised.includes(name) ? 'passed' : 'failed',
+          advertised.includes(name) ? undefined : `Declared ${kind} "${name}" is not advertised by the server`);
+      }
+      for (const name of advertised.filter(name => !names.includes(name))) {
+        this.record(suite, `${kind} ${name} is declared`, 'failed', `Server advertises ${kind} "${name}" that is not declared in capabilities.${suite}`);
+      }
+    }
+  }
+
+  /**
+   * Each tool's inputSchema must be a valid JSON Schema describing an object
+   */
+  private validateToolSchemas(surface: AdvertisedSurface): void {
+    if (surface.tools.length === 0) {
+      this.skip('schemas', 'inputSchema', 'Server advertises no tools');
+      return;
+    }
+
+    const ajv = new Ajv({ strict: false, validateSchema: true });
+    const ajv2020 = new Ajv2020({ strict: false, validateSchema: true });
+
+    for (const tool of surface.tools) {
+      const schema = tool.inputSchema as Record<string, any>;
+      const validator = typeof schema?.$schema === 'string' && schema.$schema.includes('2020-12') ? ajv2020 : ajv;
+      let message: string | undefined;
+
+      if (!schema || typeof schema !== 'object' || schema.type !== 'object') {
+        message = 'inputSchema must be a JSON Schema with type "object"';
+      } else if (!validator.validateSchema(schema)) {
+        message = validator.errorsText(validator.errors, { dataVar: 'inputSchema' });
+      } else {
+        try {
+          validator.compile(schema);
+        } catch (error) {
+          message = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      this.record('schemas', `${tool.name} inputSchema`, message ? 'failed' : 'passed', message);
+    }
+  }
+
+  private async runHealthCheck(): Promise<void> {
+    const healthCheck = this.options.config?.testing?.health_check;
+    if (!healthCheck?.endpoint) {
+      this.skip('health_check', 'health check', 'No health check declared');
+      return;
+    }
+
+    await this.check('health_check', healthCheck.endpoint, async () => {
+      const response = await fetch(healthCheck.endpoint!, { signal: AbortSignal.timeout(this.getTimeout()) });
+      const body = await response.text();
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      if (healthCheck.expected_response && !body.includes(healthCheck.expected_response)) {
+        throw new Error(`Expected the response to contain "${healthCheck.expected_response}", got "${body.slice(0, 200)}"`);
+      }
+      return `HTTP ${response.status}`;
+    });
+  }
+
+  private async runTestCommands(): Promise<void> {
+    const commands = this.options.config?.testing?.test_commands || [];
+    if (commands.length === 0) {
+      this.skip('test_commands', 'test commands', 'No test commands declared');
+      return;
+    }
+
+    for (const command of commands) {
+      await this.check('test_commands', command, async () => {
+        const { code, output } = await this.runCommand(command);
+        if (code !== 0) {
+          const tail = output.trim().split('\n').slice(-OUTPUT_TAIL_LINES).join('\n');
+          throw new Error(`Exited with code ${code}${tail ? `:\n${tail}` : ''}`);
+        }
+        return undefined;
+      });
+    }
+  }
+
+  private runCommand(command: string): Promise<{ code: number; output: string }> {
+    return new Promise((resolve) => {
+      const child = spawn(command, {
+        shell: true,
+        cwd: this.options.cwd || this.options.target.cwd,
+        env: { ...process.env, ...this.options.target.env },
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+
+      let output = '';
+      child.stdout?.on('data', data => { output += data.toString(); });
+      child.stderr?.on('data', data => { output += data.toString(); });
+
+      const timer = setTimeout(() => {
+        output += `\nTimed out after ${this.getTimeout()}ms`;
+        child.kill('SIGKILL');
+      }, this.getTimeout());
+
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        resolve({ code: code ?? 1, output });
+      });
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        resolve({ code: 127, output: error.message });
+      });
+    });
+  }
+
+  /**
+   * Run one check, recording it as passed (with the returned detail) or failed
+   */
+  private async check(suite: ConformanceSuite, name: string, run: () => Promise<string | undefined>): Promise<boolean> {
+    const startedAt = Date.now();
+    try {
+      const detail = await run();
+      this.record(suite, name, 'passed', detail, Date.now() - startedAt);
+      return true;
+    } catch (error) {
+      this.record(suite, name, 'failed', error instanceof Error ? error.message : String(error), Date.now() - startedAt);
+      return false;
+    }
+  }
+
+  private skip(suite: ConformanceSuite, name: string, message: string): void {
+    this.record(suite, name, 'skipped', message);
+  }
+
+  private record(suite: ConformanceSuite, name: string, status: ConformanceCheck['status'], message?: string, durationMs = 0): void {
+    const check: ConformanceCheck = { suite, name, status, ...(message && { message }), durationMs };
+    this.checks.push(check);
+    this.options.onCheck?.(check);
+  }
+
+  private withTimeout<T>(promise: Promise<T>, step: string): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${step} timed out after ${this.getTimeout()}ms`)), this.getTimeout());
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private getTimeout(): number {
+    return this.options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  }
+}
+
+/**
+ * Render a report as JUnit XML (one test suite per check suite)
+ */
+export function formatJUnitReport(report: ConformanceReport): string {
+  const escape = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+  const suites = new Map<ConformanceSuite, ConformanceCheck[]>();
+  for (const check of report.checks) {
+    suites.set(check.suite, [...(suites.get(check.suite) || []), check]);
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escape(`mcpl test ${report.server}`)}" tests="${report.checks.length}" failures="${report.counts.failed}" skipped="${report.counts.skipped}" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`
+  ];
+
+  for (const [suite, checks] of suites) {
+    const failures = checks.filter(check => check.status === 'failed').length;
+    const skipped = checks.filter(check => check.status === 'skipped').length;
+    const time = checks.reduce((total, check) => total + check.durationMs, 0);
+
+    lines.push(`  <testsuite name="${escape(suite)}" tests="${checks.length}" failures="${failures}" skipped="${skipped}" time="${seconds(time)}">`);
+    for (const check of checks) {
+      const open = `    <testcase classname="${escape(`${report.server}.${suite}`)}" name="${escape(check.name)}" time="${seconds(check.durationMs)}"`;
+      if (check.status === 'passed') {
+        lines.push(`${open}/>`);
+      } else if (check.status === 'skipped') {
+        lines.push(`${open}>`, `      <skipped message="${escape(check.message || '')}"/>`, '    </testcase>');
+      } else {
+        const message = check.message || 'Failed';
+        lines.push(
+          `${open}>`,
+          `      <failure message="${escape(message.split('\n')[0])}">${escape(message)}</failure>`,
+          '    </testcase>'
+        );
+      }
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>', '');
+  return lines.join('\n');
+}
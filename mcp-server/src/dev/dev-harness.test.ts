@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createRequire } from 'node:module';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { DevHarness, diffCapabilities, resolveEntryCommand } from './dev-harness.js';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * A server under development: it serves the tools listed in tools.json when it starts
+ */
+const ENTRY = `
+const { readFileSync } = require('node:fs');
+const { McpServer } = require(${JSON.stringify(require.resolve('@modelcontextprotocol/sdk/server/mcp.js'))});
+const { StdioServerTransport } = require(${JSON.stringify(require.resolve('@modelcontextprotocol/sdk/server/stdio.js'))});
+
+const server = new McpServer({ name: 'dev-entry', version: '1.0.0' });
+for (const [name, description] of Object.entries(JSON.parse(readFileSync(__dirname + '/tools.json', 'utf-8')))) {
+  server.tool(name, description, async () => ({ content: [{ type: 'text', text: name + ' ran' }] }));
+}
+server.connect(new StdioServerTransport());
+`;
+
+const surface = (tools: Record<string, string>) => ({
+  tools: new Map(Object.entries(tools)),
+  resources: new Map<string, string>(),
+  prompts: new Map<string, string>()
+});
+
+describe('dev-harness', () => {
+  describe('diffCapabilities', () => {
+    it('should list added, removed and changed capabilities', () => {
+      expect(diffCapabilities(surface({ a: '1', b: '1', c: '1' }), surface({ b: '1', c: '2', d: '1' })).tools).toEqual({
+        added: ['d'],
+        removed: ['a'],
+        changed: ['c']
+      });
+    });
+  });
+
+  describe('resolveEntryCommand', () => {
+    it('should run TypeScript through tsx and JavaScript with node', () => {
+      expect(resolveEntryCommand('server.ts')).toEqual({ command: 'npx', args: ['-y', 'tsx', 'server.ts'] });
+      expect(resolveEntryCommand('server.mjs')).toEqual({ command: process.execPath, args: ['server.mjs'] });
+    });
+  });
+
+  describe('DevHarness', () => {
+    let root: string;
+    let harness: DevHarness;
+    let client: Client;
+
+    beforeEach(async () => {
+      root = await mkdtemp(join(tmpdir(), 'mcpl-dev-'));
+      await writeFile(join(root, 'server.cjs'), ENTRY);
+      await writeFile(join(root, 'tools.json'), JSON.stringify({ greet: 'Say hello', echo: 'Echo input' }));
+      harness = new DevHarness({ entry: join(root, 'server.cjs'), port: 0, host: '127.0.0.1', hotReload: false });
+    });
+
+    afterEach(async () => {
+      await client?.close();
+      await harness.stop();
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it('should keep clients connected across reloads and tell them what changed', async () => {
+      const started = await harness.start();
+      expect([...started.surface.tools.keys()]).toEqual(['greet', 'echo']);
+      expect(started.diff.tools.added).toEqual(['greet', 'echo']);
+
+      client = new Client({ name: 'test', version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(harness.getUrl())));
+      expect(await client.callTool({ name: 'greet' })).toMatchObject({ content: [{ text: 'greet ran' }] });
+      // The build has no prompts, so the proxy answers with an empty list
+      expect(await client.listPrompts()).toEqual({ prompts: [] });
+
+      const notified = new Promise(resolve => client.setNotificationHandler(ToolListChangedNotificationSchema, resolve));
+      await writeFile(join(root, 'tools.json'), JSON.stringify({ greet: 'Say hi', search: 'Search' }));
+      const reloaded = await harness.reload('tools.json');
+
+      expect(reloaded.trigger).toBe('tools.json');
+      expect(reloaded.diff.tools).toEqual({ added: ['search'], removed: ['echo'], changed: ['greet'] });
+      await notified;
+      expect((await client.listTools()).tools.map(tool => tool.name)).toEqual(['greet', 'search']);
+    }, 30000);
+  });
+});
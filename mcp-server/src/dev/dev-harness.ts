@@ -0,0 +1,388 @@
+// Hot-reload harness for developing MCP servers locally
+
+import { spawn, ChildProcess } from 'node:child_process';
+import { watch, FSWatcher } from 'node:fs';
+import { dirname, extname, resolve } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { HttpSessionHost } from '../transport/http-session-host.js';
+
+export interface DevHarnessOptions {
+  entry: string;
+  transport?: 'stdio' | 'http';
+  /**
+   * URL the entry serves MCP on (http transport only)
+   */
+  serverUrl?: string;
+  /**
+   * Files or directories to watch (defaults to the entry's directory)
+   */
+  watch?: string[];
+  /**
+   * Restart the server when watched files change (default: true)
+   */
+  hotReload?: boolean;
+  port: number;
+  host?: string;
+  env?: Record<string, string>;
+  onReload?: (result: DevReloadResult) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Signatures of everything a server exposes, keyed by name/URI
+ */
+export interface CapabilitySurface {
+  tools: Map<string, string>;
+  resources: Map<string, string>;
+  prompts: Map<string, string>;
+}
+
+export interface CapabilityChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface CapabilityDiff {
+  tools: CapabilityChanges;
+  resources: CapabilityChanges;
+  prompts: CapabilityChanges;
+}
+
+export interface DevReloadResult {
+  trigger?: string;
+  surface: CapabilitySurface;
+  diff: CapabilityDiff;
+  durationMs: number;
+}
+
+const IGNORED_PATHS = /(^|[\\/])(node_modules|\.git)([\\/]|$)|\.log$/;
+const RELOAD_DEBOUNCE_MS = 300;
+const HTTP_CONNECT_TIMEOUT_MS = 15000;
+
+/**
+ * Resolve the command that runs an entry file
+ */
+export function resolveEntryCommand(entry: string): { command: string; args: string[] } {
+  switch (extname(entry)) {
+    case '.ts':
+    case '.mts':
+    case '.cts':
+      return { command: 'npx', args: ['-y', 'tsx', entry] };
+    case '.py':
+      return { command: process.platform === 'win32' ? 'python' : 'python3', args: [entry] };
+    default:
+      return { command: process.execPath, args: [entry] };
+  }
+}
+
+/**
+ * Compare two capability surfaces
+ */
+export function diffCapabilities(before: CapabilitySurface, after: CapabilitySurface): CapabilityDiff {
+  const diffMap = (previous: Map<string, string>, next: Map<string, string>): CapabilityChanges => ({
+    added: [...next.keys()].filter(name => !previous.has(name)),
+    removed: [...previous.keys()].filter(name => !next.has(name)),
+    changed: [...next.keys()].filter(name => previous.has(name) && previous.get(name) !== next.get(name))
+  });
+
+  return {
+    tools: diffMap(before.tools, after.tools),
+    resources: diffMap(before.resources, after.resources),
+    prompts: diffMap(before.prompts, after.prompts)
+  };
+}
+
+/**
+ * Runs an MCP server under development, restarts it whenever its sources change
+ * and serves it on a stable streamable-HTTP endpoint so clients stay connected
+ * across reloads.
+ */
+export class DevHarness {
+  private options: DevHarnessOptions;
+  private host: HttpSessionHost<Server>;
+  private client?: Client;
+  private process?: ChildProcess;
+  private watchers: FSWatcher[] = [];
+  private surface: CapabilitySurface = { tools: new Map(), resources: new Map(), prompts: new Map() };
+  private reloadQueue: Promise<void> = Promise.resolve();
+  private reloadTimer?: NodeJS.Timeout;
+  private pendingTrigger?: string;
+  private stopped = false;
+
+  constructor(options: DevHarnessOptions) {
+    this.options = { transport: 'stdio', ...options, entry: resolve(options.entry) };
+    this.host = new HttpSessionHost({
+      port: options.port,
+      host: options.host,
+      createServer: () => this.createProxyServer()
+    });
+  }
+
+  /**
+   * Launch the entry, start watching and open the HTTP endpoint
+   */
+  async start(): Promise<DevReloadResult> {
+    const result = await this.reload();
+    await this.host.listen();
+    if (this.options.hotReload !== false) {
+      this.startWatching();
+    }
+    return result;
+  }
+
+  /**
+   * Get the URL clients should connect to
+   */
+  getUrl(): string {
+    return this.host.getUrl();
+  }
+
+  /**
+   * Get the paths being watched for changes
+   */
+  getWatchPaths(): string[] {
+    return this.options.watch && this.options.watch.length > 0
+      ? this.options.watch.map(path => resolve(path))
+      : [dirname(this.options.entry)];
+  }
+
+  /**
+   * Restart the server and report how its capabilities changed.
+   * Reloads are serialized; a reload requested mid-flight runs after it.
+   */
+  reload(trigger?: string): Promise<DevReloadResult> {
+    const run = this.reloadQueue.then(() => this.performReload(trigger));
+    this.reloadQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Stop watching, close client sessions and terminate the server
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.reloadTimer);
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+
+    await this.host.close();
+    await this.disconnect();
+  }
+
+  private async performReload(trigger?: string): Promise<DevReloadResult> {
+    const startedAt = Date.now();
+
+    await this.disconnect();
+    this.client = await this.connect();
+
+    const surface = await this.collectSurface(this.client);
+    const diff = diffCapabilities(this.surface, surface);
+    this.surface = surface;
+
+    await this.notifySessions(diff);
+
+    return { trigger, surface, diff, durationMs: Date.now() - startedAt };
+  }
+
+  private async connect(): Promise<Client> {
+    const { command, args } = resolveEntryCommand(this.options.entry);
+    const env = { ...getDefaultEnvironment(), ...this.options.env };
+    const client = new Client({ name: 'mcpl-dev', version: '1.0.0' }, { capabilities: {} });
+
+    if (this.options.transport === 'stdio') {
+      await client.connect(new StdioClientTransport({
+        command,
+        args,
+        env,
+        cwd: dirname(this.options.entry)
+      }));
+      return client;
+    }
+
+    if (!this.options.serverUrl) {
+      throw new Error('A server URL is required for the http transport');
+    }
+
+    this.process = spawn(command, args, {
+      cwd: dirname(this.options.entry),
+      env,
+      stdio: 'inherit'
+    });
+
+    // Wait for the server to start accepting connections
+    const deadline = Date.now() + HTTP_CONNECT_TIMEOUT_MS;
+    while (true) {
+      if (this.process.exitCode !== null) {
+        throw new Error(`Server exited with code ${this.process.exitCode} before accepting connections`);
+      }
+
+      try {
+        await client.connect(new StreamableHTTPClientTransport(new URL(this.options.serverUrl)));
+        return client;
+      } catch (error) {
+        if (Date.now() > deadline) {
+          throw new Error(`Could not connect to ${this.options.serverUrl}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+    }
+  }
+
+  private async disconnect(): Promise<void> {
+    const client = this.client;
+    const child = this.process;
+    this.client = undefined;
+    this.process = undefined;
+
+    if (client) {
+      await client.close().catch(() => undefined);
+    }
+
+    if (child && child.exitCode === null) {
+      const exited = new Promise(resolve => child.once('exit', resolve));
+      child.kill('SIGTERM');
+      const timer = setTimeout(() => child.kill('SIGKILL'), 5000);
+      await exited;
+      clearTimeout(timer);
+    }
+  }
+
+  private async collectSurface(client: Client): Promise<CapabilitySurface> {
+    const capabilities = client.getServerCapabilities() || {};
+    const surface: CapabilitySurface = { tools: new Map(), resources: new Map(), prompts: new Map() };
+
+    if (capabilities.tools) {
+      const { tools } = await client.listTools();
+      for (const tool of tools) {
+        surface.tools.set(tool.name, JSON.stringify({ description: tool.description, inputSchema: tool.inputSchema }));
+      }
+    }
+
+    if (capabilities.resources) {
+      const { resources } = await client.listResources();
+      for (const resource of resources) {
+        surface.resources.set(resource.uri, JSON.stringify({
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType
+        }));
+      }
+    }
+
+    if (capabilities.prompts) {
+      const { prompts } = await client.listPrompts();
+      for (const prompt of prompts) {
+        surface.prompts.set(prompt.name, JSON.stringify({ description: prompt.description, arguments: prompt.arguments }));
+      }
+    }
+
+    return surface;
+  }
+
+  /**
+   * Tell connected clients which lists changed
+   */
+  private async notifySessions(diff: CapabilityDiff): Promise<void> {
+    const hasChanges = (changes: CapabilityChanges) =>
+      changes.added.length + changes.removed.length + changes.changed.length > 0;
+
+    for (const server of this.host.getSessionServers()) {
+      try {
+        if (hasChanges(diff.tools)) await server.sendToolListChanged();
+        if (hasChanges(diff.resources)) await server.sendResourceListChanged();
+        if (hasChanges(diff.prompts)) await server.sendPromptListChanged();
+      } catch (error) {
+        console.error('Failed to notify dev session:', error);
+      }
+    }
+  }
+
+  private startWatching(): void {
+    for (const path of this.getWatchPaths()) {
+      // Recursive watching needs Node 20 on Linux (see engines)
+      const watcher = watch(path, { recursive: true }, (_event, filename) => {
+        const changed = filename ? filename.toString() : path;
+        if (!IGNORED_PATHS.test(changed)) {
+          this.scheduleReload(changed);
+        }
+      });
+      watcher.on('error', error => this.options.onError?.(error));
+      this.watchers.push(watcher);
+    }
+  }
+
+  private scheduleReload(trigger: string): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.pendingTrigger = trigger;
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      const changed = this.pendingTrigger;
+      this.pendingTrigger = undefined;
+
+      this.reload(changed)
+        .then(result => this.options.onReload?.(result))
+        .catch(error => this.options.onError?.(error instanceof Error ? error : new Error(String(error))));
+    }, RELOAD_DEBOUNCE_MS);
+  }
+
+  /**
+   * Create the per-session server that forwards requests to the current dev build
+   */
+  private createProxyServer(): Server {
+    const server = new Server(
+      { name: 'mcpl-dev', version: '1.0.0' },
+      {
+        capabilities: {
+          tools: { listChanged: true },
+          resources: { listChanged: true },
+          prompts: { listChanged: true }
+        }
+      }
+    );
+
+    // The proxy advertises every capability since the dev build may gain them on
+    // reload; lists the current build does not support come back empty
+    server.setRequestHandler(ListToolsRequestSchema, request =>
+      this.supports('tools') ? this.getClient().listTools(request.params) : { tools: [] });
+    server.setRequestHandler(CallToolRequestSchema, request => this.getClient().callTool(request.params));
+    server.setRequestHandler(ListResourcesRequestSchema, request =>
+      this.supports('resources') ? this.getClient().listResources(request.params) : { resources: [] });
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, request =>
+      this.supports('resources') ? this.getClient().listResourceTemplates(request.params) : { resourceTemplates: [] });
+    server.setRequestHandler(ReadResourceRequestSchema, request => this.getClient().readResource(request.params));
+    server.setRequestHandler(ListPromptsRequestSchema, request =>
+      this.supports('prompts') ? this.getClient().listPrompts(request.params) : { prompts: [] });
+    server.setRequestHandler(GetPromptRequestSchema, request => this.getClient().getPrompt(request.params));
+
+    return server;
+  }
+
+  private supports(capability: 'tools' | 'resources' | 'prompts'): boolean {
+    return Boolean(this.getClient().getServerCapabilities()?.[capability]);
+  }
+
+  private getClient(): Client {
+    if (!this.client) {
+      throw new McpError(ErrorCode.InternalError, 'Dev server is restarting, try again shortly');
+    }
+    return this.client;
+  }
+}
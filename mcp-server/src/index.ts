@@ -1 +1,21 @@
 export * from './bridge.js';
+export * from './transport/http-session-host.js';
+export * from './transport/stdio-host.js';
+export * from './dev/dev-harness.js';
+export * from './playground/playground-server.js';
+export * from './policy/tool-policy.js';
+export * from './policy/tool-policy-store.js';
+export * from './audit/tool-call-audit-log.js';
+export * from './auth/oauth-client.js';
+export * from './auth/oauth-credential-store.js';
+export * from './server-management/server-log-store.js';
+export * from './server-management/client-config-adapters.js';
+export * from './server-management/client-config-registry.js';
+export * from './server-management/server-supervisor.js';
+export * from './tools/notification-relay.js';
+export * from './sandbox/sandbox-profiles.js';
+export * from './conformance/conformance-runner.js';
+export * from './recording/session-recorder.js';
+export * from './recording/replay-server.js';
+export type { ToolDisclosureOptions, ToolSearchResult } from './tools/dynamic-tool-registry.js';
+export type { DockerManagerOptions, PackageImage, PackageImageRef } from './server-management/docker-manager.js';
@@ -0,0 +1,371 @@
+// Single-page UI served by the playground server
+
+/**
+ * Render the playground page. The page is self-contained (no external assets)
+ * and talks to the playground JSON API on the same origin.
+ */
+export function renderPlaygroundPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>MCPL Playground</title>
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.45 system-ui, sans-serif; color: #1f2328; background: #f6f8fa; }
+  header { display: flex; gap: 8px; align-items: center; padding: 10px 16px; background: #24292f; color: #fff; }
+  header h1 { font-size: 16px; margin: 0 16px 0 0; }
+  header select, header input { padding: 5px 8px; border-radius: 4px; border: 1px solid #57606a; }
+  header input { width: 320px; }
+  #status { margin-left: auto; font-size: 12px; opacity: .85; }
+  #policy { font-size: 12px; padding: 2px 8px; border-radius: 10px; }
+  #policy.on { background: #1f883d; }
+  #policy.off { background: #bf8700; }
+  main { display: grid; grid-template-columns: 280px 1fr 340px; height: calc(100vh - 48px); }
+  aside, section { overflow: auto; padding: 12px; }
+  aside { border-right: 1px solid #d0d7de; background: #fff; }
+  #history-pane { border-left: 1px solid #d0d7de; border-right: 0; }
+  h2 { font-size: 12px; text-transform: uppercase; color: #57606a; margin: 16px 0 6px; display: flex; justify-content: space-between; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  li.item { padding: 5px 8px; border-radius: 4px; cursor: pointer; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  li.item:hover, li.item.active { background: #ddf4ff; }
+  .muted { color: #57606a; font-size: 12px; }
+  button { padding: 5px 12px; border-radius: 4px; border: 1px solid #d0d7de; background: #f6f8fa; cursor: pointer; }
+  button.primary { background: #1f883d; border-color: #1a7f37; color: #fff; }
+  label { display: block; margin: 10px 0 3px; font-weight: 600; }
+  label .req { color: #cf222e; }
+  .field input, .field select, .field textarea { width: 100%; padding: 6px 8px; border: 1px solid #d0d7de; border-radius: 4px; font: inherit; }
+  .field textarea { font-family: ui-monospace, monospace; min-height: 70px; }
+  .card { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 12px; margin-bottom: 12px; }
+  .content { margin-top: 8px; }
+  .content pre { white-space: pre-wrap; word-break: break-word; background: #f6f8fa; padding: 8px; border-radius: 4px; margin: 4px 0; }
+  .content img { max-width: 100%; border: 1px solid #d0d7de; border-radius: 4px; }
+  .error { color: #cf222e; }
+  .history-entry { font-size: 12px; border-bottom: 1px solid #d0d7de; padding: 6px 0; cursor: pointer; }
+  .history-entry .error { font-weight: 600; }
+</style>
+</head>
+<body>
+<header>
+  <h1>🎮 MCPL Playground</h1>
+  <select id="server-select"><option value="">Bridge server…</option></select>
+  <span class="muted" style="color:#d0d7de">or</span>
+  <input id="url-input" placeholder="http://localhost:8080/mcp">
+  <button id="connect-btn">Connect</button>
+  <span id="status">Not connected</span>
+  <span id="policy" hidden></span>
+</header>
+<main>
+  <aside>
+    <h2>Tools</h2><ul id="tools"></ul>
+    <h2>Resources</h2><ul id="resources"></ul>
+    <h2>Prompts</h2><ul id="prompts"></ul>
+  </aside>
+  <section id="detail"><p class="muted">Connect to a server and pick a tool, resource or prompt.</p></section>
+  <aside id="history-pane">
+    <h2>History <span><button id="clear-btn">Clear</button> <button id="export-btn">Export</button></span></h2>
+    <div id="history"></div>
+  </aside>
+</main>
+<script>
+(function () {
+  var state = { capabilities: null, history: [] };
+  var $ = function (id) { return document.getElementById(id); };
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      if (key === 'text') node.textContent = attrs[key];
+      else if (key.indexOf('on') === 0) node.addEventListener(key.slice(2), attrs[key]);
+      else node.setAttribute(key, attrs[key]);
+    });
+    (children || []).forEach(function (child) { if (child) node.appendChild(child); });
+    return node;
+  }
+
+  function api(method, path, body) {
+    var init = { method: method, headers: {} };
+    if (body !== undefined) {
+      init.headers['Content-Type'] = 'application/json';
+      init.body = JSON.stringify(body);
+    }
+    return fetch(path, init).then(function (res) {
+      return res.json().then(function (data) {
+        if (!res.ok) {
+          var error = new Error(data.error || res.statusText);
+          error.data = data;
+          throw error;
+        }
+        return data;
+      });
+    });
+  }
+
+  function setStatus(text, isError) {
+    $('status').textContent = text;
+    $('status').className = isError ? 'error' : '';
+  }
+
+  function loadServers() {
+    return api('GET', '/api/servers').then(function (data) {
+      var select = $('server-select');
+      data.servers.forEach(function (server) {
+        select.appendChild(el('option', { value: server.name, text: server.name + ' (' + server.status + ')' }));
+      });
+      if (data.connected) {
+        onConnected(data.connected);
+      }
+    });
+  }
+
+  function connect() {
+    var server = $('server-select').value;
+    var url = $('url-input').value.trim();
+    if (!server && !url) return setStatus('Pick a server or enter a URL', true);
+
+    setStatus('Connecting…');
+    api('POST', '/api/connect', url ? { url: url } : { server: server })
+      .then(function (data) { onConnected(data.connected); })
+      .catch(function (error) { setStatus(error.message, true); });
+  }
+
+  function onConnected(connected) {
+    setStatus('Connected to ' + connected.label);
+    var policy = $('policy');
+    policy.hidden = false;
+    policy.className = connected.policy ? 'on' : 'off';
+    policy.textContent = connected.policy ? 'Tool policy applies' : 'No tool policy';
+    policy.title = connected.policy
+      ? 'Tool calls are checked against this server\'s policy and written to the audit log'
+      : 'Policies belong to bridge-managed servers: tool calls to this URL are not checked';
+    state.history = [];
+    renderHistory();
+    api('GET', '/api/capabilities').then(function (capabilities) {
+      state.capabilities = capabilities;
+      renderLists();
+    }).catch(function (error) { setStatus(error.message, true); });
+  }
+
+  function renderList(id, items, label, onSelect) {
+    var list = $(id);
+    list.innerHTML = '';
+    if (items.length === 0) list.appendChild(el('li', { class: 'muted', text: 'None' }));
+    items.forEach(function (item) {
+      var node = el('li', { class: 'item', title: item.description || '', text: label(item), onclick: function () {
+        Array.prototype.forEach.call(document.querySelectorAll('li.item.active'), function (active) { active.classList.remove('active'); });
+        node.classList.add('active');
+        onSelect(item);
+      } });
+      list.appendChild(node);
+    });
+  }
+
+  function renderLists() {
+    var caps = state.capabilities;
+    renderList('tools', caps.tools, function (tool) { return tool.name; }, showTool);
+    renderList('resources', caps.resources.concat(caps.resourceTemplates), function (resource) {
+      return resource.name || resource.uri || resource.uriTemplate;
+    }, showResource);
+    renderList('prompts', caps.prompts, function (prompt) { return prompt.name; }, showPrompt);
+  }
+
+  // Build a form field for one JSON Schema property
+  function schemaField(name, schema, required) {
+    schema = schema || {};
+    var input;
+    var type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+    if (schema.enum) {
+      input = el('select', {}, [el('option', { value: '', text: '' })].concat(schema.enum.map(function (value) {
+        return el('option', { value: JSON.stringify(value), text: String(value) });
+      })));
+      input.dataset.kind = 'enum';
+    } else if (type === 'boolean') {
+      input = el('select', {}, [el('option', { value: '', text: '' }), el('option', { value: 'true', text: 'true' }), el('option', { value: 'false', text: 'false' })]);
+      input.dataset.kind = 'boolean';
+    } else if (type === 'number' || type === 'integer') {
+      input = el('input', { type: 'number', step: type === 'integer' ? '1' : 'any' });
+      input.dataset.kind = 'number';
+    } else if (type === 'object' || type === 'array' || !type) {
+      input = el('textarea', { placeholder: type === 'array' ? '[]' : type === 'object' ? '{}' : 'JSON value' });
+      input.dataset.kind = 'json';
+    } else {
+      input = schema.format === 'textarea' || (schema.maxLength || 0) > 200 ? el('textarea') : el('input', { type: 'text' });
+      input.dataset.kind = 'string';
+    }
+
+    if (schema.default !== undefined) {
+      input.value = input.dataset.kind === 'json' || input.dataset.kind === 'enum' ? JSON.stringify(schema.default) : String(schema.default);
+    }
+    input.name = name;
+
+    return el('div', { class: 'field' }, [
+      el('label', {}, [document.createTextNode(name + ' '), required ? el('span', { class: 'req', text: '*' }) : null]),
+      schema.description ? el('div', { class: 'muted', text: schema.description }) : null,
+      input
+    ]);
+  }
+
+  function readForm(form) {
+    var values = {};
+    Array.prototype.forEach.call(form.querySelectorAll('[name]'), function (input) {
+      if (input.value === '') return;
+      switch (input.dataset.kind) {
+        case 'number': values[input.name] = Number(input.value); break;
+        case 'boolean': values[input.name] = input.value === 'true'; break;
+        case 'enum': values[input.name] = JSON.parse(input.value); break;
+        case 'json':
+          try { values[input.name] = JSON.parse(input.value); }
+          catch (error) { throw new Error(input.name + ': invalid JSON'); }
+          break;
+        default: values[input.name] = input.value;
+      }
+    });
+    return values;
+  }
+
+  function showForm(title, description, fields, submitLabel, onSubmit) {
+    var output = el('div');
+    var form = el('form', {}, fields.concat([el('p', {}, [el('button', { class: 'primary', type: 'submit', text: submitLabel })])]));
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      var values;
+      try { values = readForm(form); }
+      catch (error) { output.innerHTML = ''; output.appendChild(el('p', { class: 'error', text: error.message })); return; }
+      output.innerHTML = '';
+      output.appendChild(el('p', { class: 'muted', text: 'Running…' }));
+      onSubmit(values).then(function (entry) {
+        addHistory(entry);
+        output.innerHTML = '';
+        output.appendChild(renderEntry(entry));
+      }).catch(function (error) {
+        output.innerHTML = '';
+        output.appendChild(el('p', { class: 'error', text: error.message }));
+      });
+    });
+
+    var detail = $('detail');
+    detail.innerHTML = '';
+    detail.appendChild(el('div', { class: 'card' }, [
+      el('h3', { text: title }),
+      description ? el('p', { class: 'muted', text: description }) : null,
+      form
+    ]));
+    detail.appendChild(output);
+  }
+
+  function showTool(tool) {
+    var schema = tool.inputSchema || {};
+    var required = schema.required || [];
+    var fields = Object.keys(schema.properties || {}).map(function (name) {
+      return schemaField(name, schema.properties[name], required.indexOf(name) !== -1);
+    });
+    showForm(tool.name, tool.description, fields, 'Call tool', function (values) {
+      // Tools the policy marks for confirmation run once the user agrees
+      return api('POST', '/api/tools/call', { name: tool.name, arguments: values }).catch(function (error) {
+        if (!error.data || !error.data.confirmationRequired) throw error;
+        if (!window.confirm(error.data.message)) throw new Error(tool.name + ' was not confirmed');
+        return api('POST', '/api/tools/call', { name: tool.name, arguments: values, confirm: true });
+      });
+    });
+  }
+
+  function showResource(resource) {
+    var fields = [];
+    var uriTemplate = resource.uriTemplate;
+    if (uriTemplate) {
+      (uriTemplate.match(/{[^}]+}/g) || []).forEach(function (param) {
+        fields.push(schemaField(param.replace(/[{}+#?&]/g, ''), { type: 'string' }, true));
+      });
+    }
+    showForm(resource.name || resource.uri || uriTemplate, resource.description, fields, 'Read resource', function (values) {
+      var uri = uriTemplate
+        ? uriTemplate.replace(/{[+#?&]?([^}]+)}/g, function (_match, key) { return encodeURIComponent(values[key] || ''); })
+        : resource.uri;
+      return api('POST', '/api/resources/read', { uri: uri });
+    });
+  }
+
+  function showPrompt(prompt) {
+    var fields = (prompt.arguments || []).map(function (argument) {
+      return schemaField(argument.name, { type: 'string', description: argument.description }, argument.required);
+    });
+    showForm(prompt.name, prompt.description, fields, 'Get prompt', function (values) {
+      return api('POST', '/api/prompts/get', { name: prompt.name, arguments: values });
+    });
+  }
+
+  // Render one content block (text, image, audio or embedded resource)
+  function renderContent(item) {
+    if (item.type === 'text') return el('pre', { text: item.text });
+    if (item.type === 'image') return el('img', { src: 'data:' + item.mimeType + ';base64,' + item.data });
+    if (item.type === 'audio') return el('audio', { controls: '', src: 'data:' + item.mimeType + ';base64,' + item.data });
+    if (item.type === 'resource' || item.uri) return renderResource(item.resource || item);
+    return el('pre', { text: JSON.stringify(item, null, 2) });
+  }
+
+  function renderResource(resource) {
+    var body;
+    if (resource.text !== undefined) body = el('pre', { text: resource.text });
+    else if (resource.blob && /^image\\//.test(resource.mimeType || '')) body = el('img', { src: 'data:' + resource.mimeType + ';base64,' + resource.blob });
+    else if (resource.blob) body = el('a', { href: 'data:' + (resource.mimeType || 'application/octet-stream') + ';base64,' + resource.blob, download: resource.uri.split('/').pop() || 'resource', text: 'Download ' + resource.uri });
+    return el('div', {}, [el('div', { class: 'muted', text: '📄 ' + resource.uri + (resource.mimeType ? ' (' + resource.mimeType + ')' : '') }), body]);
+  }
+
+  function renderEntry(entry) {
+    var result = entry.result || {};
+    var blocks = [];
+    if (entry.error) blocks.push(el('pre', { class: 'error', text: entry.error }));
+    if (result.isError) blocks.push(el('p', { class: 'error', text: 'Tool reported an error' }));
+    (result.content || []).forEach(function (item) { blocks.push(renderContent(item)); });
+    (result.contents || []).forEach(function (item) { blocks.push(renderResource(item)); });
+    (result.messages || []).forEach(function (message) {
+      blocks.push(el('div', { class: 'muted', text: message.role }));
+      blocks.push(renderContent(message.content));
+    });
+    if (result.structuredContent) blocks.push(el('pre', { text: JSON.stringify(result.structuredContent, null, 2) }));
+
+    return el('div', { class: 'card' }, [
+      el('div', { class: 'muted', text: entry.method + ' · ' + entry.durationMs + 'ms · ' + new Date(entry.timestamp).toLocaleTimeString() }),
+      el('div', { class: 'content' }, blocks)
+    ]);
+  }
+
+  function addHistory(entry) {
+    state.history.unshift(entry);
+    renderHistory();
+  }
+
+  function renderHistory() {
+    var container = $('history');
+    container.innerHTML = '';
+    if (state.history.length === 0) container.appendChild(el('p', { class: 'muted', text: 'No calls yet' }));
+    state.history.forEach(function (entry) {
+      var target = entry.params.name || entry.params.uri;
+      container.appendChild(el('div', { class: 'history-entry', onclick: function () {
+        var detail = $('detail');
+        detail.innerHTML = '';
+        detail.appendChild(el('div', { class: 'card' }, [el('h3', { text: target }), el('pre', { text: JSON.stringify(entry.params, null, 2) })]));
+        detail.appendChild(renderEntry(entry));
+      } }, [
+        el('div', { class: entry.error || (entry.result && entry.result.isError) ? 'error' : '', text: entry.method + ' ' + target }),
+        el('div', { class: 'muted', text: new Date(entry.timestamp).toLocaleTimeString() + ' · ' + entry.durationMs + 'ms' })
+      ]));
+    });
+  }
+
+  $('connect-btn').addEventListener('click', connect);
+  $('url-input').addEventListener('keydown', function (event) { if (event.key === 'Enter') connect(); });
+  $('export-btn').addEventListener('click', function () { window.location.href = '/api/history/export'; });
+  $('clear-btn').addEventListener('click', function () {
+    api('DELETE', '/api/history').then(function () { state.history = []; renderHistory(); });
+  });
+
+  renderHistory();
+  loadServers().catch(function (error) { setStatus(error.message, true); });
+})();
+</script>
+</body>
+</html>`;
+}
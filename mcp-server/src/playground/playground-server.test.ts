@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ToolPolicyStore } from '../policy/tool-policy-store.js';
+import { ServerRegistry } from '../server-management/server-registry.js';
+import { PlaygroundServer } from './playground-server.js';
+
+function createRegistry(status: 'running' | 'stopped') {
+  const client = {
+    callTool: vi.fn(async ({ name }: { name: string }) => ({ content: [{ type: 'text', text: `ran ${name}` }] })),
+    close: vi.fn(async () => undefined)
+  };
+  const server = { name: 'github', type: 'docker', status, client: status === 'running' ? client : undefined };
+  const registry = {
+    getServer: (name: string) => (name === 'github' ? server : undefined),
+    listServers: () => [server],
+    connectClient: vi.fn(async () => undefined)
+  } as unknown as ServerRegistry;
+
+  return { registry, client };
+}
+
+describe('PlaygroundServer', () => {
+  let policyDir: string;
+  let playground: PlaygroundServer | undefined;
+
+  beforeEach(async () => {
+    policyDir = await mkdtemp(join(tmpdir(), 'mcpl-playground-'));
+  });
+
+  afterEach(async () => {
+    await playground?.close();
+    playground = undefined;
+    await rm(policyDir, { recursive: true, force: true });
+  });
+
+  async function start(registry: ServerRegistry, record = vi.fn(async () => undefined)) {
+    const policyStore = new ToolPolicyStore(policyDir);
+    await policyStore.save('github', { version: 1, deny: ['delete_*'], requireConfirmation: ['merge_*'] });
+
+    playground = new PlaygroundServer({ port: 0, registry, policyStore, auditLog: { record } as never });
+    await playground.listen();
+    return { record };
+  }
+
+  const post = async (path: string, body: unknown) => {
+    const response = await fetch(new URL(path, playground!.getUrl()), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('should apply the server policy and audit playground tool calls', async () => {
+    const { registry, client } = createRegistry('running');
+    const { record } = await start(registry);
+
+    const connected = await post('/api/connect', { server: 'github' });
+    expect(connected.body.connected).toEqual({ label: 'github', target: { server: 'github' }, policy: true });
+
+    const allowed = await post('/api/tools/call', { name: 'list_issues', arguments: { repo: 'a' } });
+    expect(allowed.body.result.content).toEqual([{ type: 'text', text: 'ran list_issues' }]);
+
+    const denied = await post('/api/tools/call', { name: 'delete_repo', arguments: {} });
+    expect(denied.body.error).toMatch(/^Blocked by policy/);
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({
+      client: 'mcpl-playground', server: 'github', tool: 'list_issues', arguments: { repo: 'a' }, isError: false
+    }));
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({ tool: 'delete_repo', isError: true }));
+  });
+
+  it('should run tools that need confirmation only once confirmed', async () => {
+    const { registry, client } = createRegistry('running');
+    await start(registry);
+    await post('/api/connect', { server: 'github' });
+
+    const unconfirmed = await post('/api/tools/call', { name: 'merge_pr', arguments: { pr: 1 } });
+    expect(unconfirmed.status).toBe(409);
+    expect(unconfirmed.body).toMatchObject({ confirmationRequired: true, message: expect.stringContaining('merge_pr') });
+    expect(client.callTool).not.toHaveBeenCalled();
+
+    const confirmed = await post('/api/tools/call', { name: 'merge_pr', arguments: { pr: 1 }, confirm: true });
+    expect(confirmed.body.result.content).toEqual([{ type: 'text', text: 'ran merge_pr' }]);
+  });
+
+  it('should launch a stopped server under its own container name', async () => {
+    const { registry } = createRegistry('stopped');
+    await start(registry);
+
+    await post('/api/connect', { server: 'github' });
+
+    expect(registry.connectClient).toHaveBeenCalledWith('github', expect.anything(), {
+      containerName: expect.stringMatching(/^mcp-github-playground-[0-9a-f]{8}$/)
+    });
+  });
+});
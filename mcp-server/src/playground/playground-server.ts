@@ -0,0 +1,447 @@
+// Local web playground for exercising MCP servers from the browser
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { ToolPolicy } from '@mcplookup-org/mcp-sdk';
+import { ServerRegistry } from '../server-management/server-registry.js';
+import { ToolPolicyStore } from '../policy/tool-policy-store.js';
+import { evaluateToolPolicy } from '../policy/tool-policy.js';
+import { ToolCallAuditLog } from '../audit/tool-call-audit-log.js';
+import { renderPlaygroundPage } from './playground-page.js';
+
+export interface PlaygroundServerOptions {
+  port: number;
+  host?: string;
+  registry: ServerRegistry;
+  /**
+   * Tool policies of bridge-managed servers, applied to playground calls as
+   * they are to calls through the bridge
+   */
+  policyStore?: ToolPolicyStore;
+  auditLog?: ToolCallAuditLog;
+}
+
+/**
+ * What the playground is connected to: a bridge-managed server or a remote endpoint
+ */
+export type PlaygroundTarget = { server: string } | { url: string };
+
+export interface PlaygroundHistoryEntry {
+  id: string;
+  timestamp: string;
+  method: 'tools/call' | 'resources/read' | 'prompts/get';
+  params: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+interface PlaygroundConnection {
+  target: PlaygroundTarget;
+  label: string;
+  client: Client;
+  /**
+   * Whether the playground owns the client (and must close it)
+   */
+  owned: boolean;
+  /**
+   * Whether tool calls are checked against a bridge tool policy. Policies
+   * belong to managed servers, so they do not apply to URL targets.
+   */
+  policy: boolean;
+}
+
+export class PlaygroundServer {
+  private options: PlaygroundServerOptions;
+  private httpServer?: HttpServer;
+  private connection?: PlaygroundConnection;
+  private history: PlaygroundHistoryEntry[] = [];
+
+  constructor(options: PlaygroundServerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start serving the playground UI and API
+   */
+  async listen(): Promise<void> {
+    if (this.httpServer) {
+      return;
+    }
+
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host || 'localhost', () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+  }
+
+  /**
+   * Get the URL of the playground UI
+   */
+  getUrl(): string {
+    const address = this.httpServer?.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    return `http://${this.options.host || 'localhost'}:${port}/`;
+  }
+
+  /**
+   * Connect the playground to a bridge-managed server or an MCP endpoint URL
+   */
+  async connect(target: PlaygroundTarget): Promise<string> {
+    await this.disconnect();
+
+    if ('server' in target) {
+      const server = this.options.registry.getServer(target.server);
+      if (!server) {
+        throw new Error(`Server ${target.server} is not managed by the bridge`);
+      }
+
+      // Reuse a running bridge connection, otherwise launch a private copy
+      // so the bridge's persisted state is left untouched
+      const policy = Boolean(this.options.policyStore);
+      if (server.status === 'running' && server.client) {
+        this.connection = { target, label: server.name, client: server.client, owned: false, policy };
+      } else {
+        const client = this.createClient();
+        // Launch it the way the bridge does: secrets resolved, sandbox applied,
+        // OAuth for remote servers. Its own container name keeps it from
+        // clashing with the copy a bridge daemon runs.
+        await this.options.registry.connectClient(server.name, client, {
+          containerName: `mcp-${server.name}-playground-${randomUUID().slice(0, 8)}`
+        });
+        this.connection = { target, label: server.name, client, owned: true, policy };
+      }
+    } else {
+      const client = await this.connectUrl(target.url);
+      this.connection = { target, label: target.url, client, owned: true, policy: false };
+    }
+
+    this.history = [];
+    return this.connection.label;
+  }
+
+  /**
+   * Disconnect from the current target
+   */
+  async disconnect(): Promise<void> {
+    const connection = this.connection;
+    this.connection = undefined;
+
+    if (connection?.owned) {
+      await connection.client.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Stop the playground and close its connection
+   */
+  async close(): Promise<void> {
+    await this.disconnect();
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = undefined;
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!this.isSameOrigin(req)) {
+      this.sendJson(res, 403, { error: 'Forbidden: the playground only answers its own page' });
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+
+    switch (route) {
+      case 'GET /':
+      case 'GET /index.html':
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(renderPlaygroundPage());
+        return;
+
+      case 'GET /api/servers':
+        this.sendJson(res, 200, {
+          servers: this.options.registry.listServers().map(server => ({
+            name: server.name,
+            type: server.type,
+            status: server.status
+          })),
+          connected: this.connection ? this.describeConnection(this.connection) : null
+        });
+        return;
+
+      case 'POST /api/connect': {
+        const body = await this.readJsonBody(req);
+        const target: PlaygroundTarget | null = typeof body.server === 'string'
+          ? { server: body.server }
+          : typeof body.url === 'string' ? { url: body.url } : null;
+
+        if (!target) {
+          this.sendJson(res, 400, { error: 'Provide a server name or url' });
+          return;
+        }
+
+        await this.connect(target);
+        this.sendJson(res, 200, { connected: this.describeConnection(this.requireConnection()) });
+        return;
+      }
+
+      case 'POST /api/disconnect':
+        await this.disconnect();
+        this.sendJson(res, 200, { connected: null });
+        return;
+
+      case 'GET /api/capabilities':
+        this.sendJson(res, 200, await this.listCapabilities());
+        return;
+
+      case 'POST /api/tools/call': {
+        const body = await this.readJsonBody(req);
+        await this.callTool(res, String(body.name), body.arguments || {}, body.confirm === true);
+        return;
+      }
+
+      case 'POST /api/resources/read': {
+        const body = await this.readJsonBody(req);
+        await this.recordCall(res, 'resources/read', { uri: body.uri },
+          client => client.readResource({ uri: String(body.uri) }));
+        return;
+      }
+
+      case 'POST /api/prompts/get': {
+        const body = await this.readJsonBody(req);
+        await this.recordCall(res, 'prompts/get', { name: body.name, arguments: body.arguments || {} },
+          client => client.getPrompt({ name: String(body.name), arguments: body.arguments || {} }));
+        return;
+      }
+
+      case 'GET /api/history':
+        this.sendJson(res, 200, { entries: this.history });
+        return;
+
+      case 'DELETE /api/history':
+        this.history = [];
+        this.sendJson(res, 200, { entries: [] });
+        return;
+
+      case 'GET /api/history/export': {
+        const exportedAt = new Date().toISOString();
+        const transcript = {
+          format: 'mcpl-playground-transcript',
+          version: 1,
+          exportedAt,
+          target: this.connection?.target || null,
+          entries: this.history
+        };
+        res.writeHead(200, {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="mcpl-playground-${exportedAt.replace(/[:.]/g, '-')}.json"`
+        }).end(JSON.stringify(transcript, null, 2));
+        return;
+      }
+
+      default:
+        this.sendJson(res, 404, { error: `Not found: ${route}` });
+    }
+  }
+
+  /**
+   * List tools, resources and prompts of the connected server
+   */
+  private async listCapabilities(): Promise<Record<string, unknown>> {
+    const { client } = this.requireConnection();
+    const capabilities = client.getServerCapabilities() || {};
+
+    // Servers may advertise a capability without implementing every list method
+    const list = async <T>(enabled: unknown, fetch: () => Promise<T[]>): Promise<T[]> =>
+      enabled ? fetch().catch(() => []) : [];
+
+    const [tools, resources, templates, prompts] = await Promise.all([
+      list(capabilities.tools, () => client.listTools().then(result => result.tools)),
+      list(capabilities.resources, () => client.listResources().then(result => result.resources)),
+      list(capabilities.resources, () => client.listResourceTemplates().then(result => result.resourceTemplates)),
+      list(capabilities.prompts, () => client.listPrompts().then(result => result.prompts))
+    ]);
+
+    return {
+      serverInfo: client.getServerVersion() || null,
+      tools,
+      resources,
+      resourceTemplates: templates,
+      prompts
+    };
+  }
+
+  /**
+   * Call a tool the way the bridge does: the server's tool policy decides
+   * whether it runs, and the call is written to the audit log. Tools that
+   * require confirmation answer 409 until the page resends with confirm set.
+   */
+  private async callTool(res: ServerResponse, name: string, args: Record<string, unknown>, confirmed: boolean): Promise<void> {
+    const connection = this.requireConnection();
+    const server = 'server' in connection.target ? connection.target.server : connection.target.url;
+
+    let denial: string | undefined;
+    if (connection.policy) {
+      const decision = evaluateToolPolicy(await this.loadPolicy(server), name, args);
+      if (decision.allowed && decision.requiresConfirmation && !confirmed) {
+        this.sendJson(res, 409, {
+          error: `${name} requires confirmation`,
+          confirmationRequired: true,
+          message: `Allow ${server} to run ${name} with arguments ${JSON.stringify(args)}?`
+        });
+        return;
+      }
+      denial = decision.allowed ? undefined : decision.reason;
+    }
+
+    const entry = await this.recordCall(res, 'tools/call', { name, arguments: args }, async client => {
+      if (denial) {
+        throw new Error(`Blocked by policy: ${denial}`);
+      }
+      return client.callTool({ name, arguments: args });
+    });
+    const result = entry.result as { content?: unknown; isError?: boolean } | undefined;
+    await this.options.auditLog?.record({
+      client: 'mcpl-playground',
+      server,
+      tool: name,
+      arguments: args,
+      durationMs: entry.durationMs,
+      resultSize: Buffer.byteLength(JSON.stringify(result?.content ?? null)),
+      isError: Boolean(entry.error) || result?.isError === true,
+      ...(entry.error && { error: entry.error })
+    });
+  }
+
+  /**
+   * Load a server's policy; an unreadable policy file denies every tool
+   */
+  private async loadPolicy(serverName: string): Promise<ToolPolicy | null> {
+    try {
+      return await this.options.policyStore!.load(serverName);
+    } catch {
+      return { version: 1, deny: ['*'] };
+    }
+  }
+
+  /**
+   * Run a request against the connected server and keep it in the session history
+   */
+  private async recordCall(
+    res: ServerResponse,
+    method: PlaygroundHistoryEntry['method'],
+    params: Record<string, unknown>,
+    call: (client: Client) => Promise<unknown>
+  ): Promise<PlaygroundHistoryEntry> {
+    const { client } = this.requireConnection();
+    const startedAt = Date.now();
+    const entry: PlaygroundHistoryEntry = {
+      id: randomUUID(),
+      timestamp: new Date(startedAt).toISOString(),
+      method,
+      params,
+      durationMs: 0
+    };
+
+    try {
+      entry.result = await call(client);
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+
+    entry.durationMs = Date.now() - startedAt;
+    this.history.push(entry);
+    this.sendJson(res, 200, entry);
+    return entry;
+  }
+
+  private describeConnection(connection: PlaygroundConnection): Record<string, unknown> {
+    return { label: connection.label, target: connection.target, policy: connection.policy };
+  }
+
+  /**
+   * Connect to a URL over streamable HTTP, falling back to SSE for older servers
+   */
+  private async connectUrl(url: string): Promise<Client> {
+    const endpoint = new URL(url);
+
+    try {
+      const client = this.createClient();
+      await client.connect(new StreamableHTTPClientTransport(endpoint));
+      return client;
+    } catch {
+      const client = this.createClient();
+      await client.connect(new SSEClientTransport(endpoint));
+      return client;
+    }
+  }
+
+  private createClient(): Client {
+    return new Client({ name: 'mcpl-playground', version: '1.0.0' }, { capabilities: {} });
+  }
+
+  private requireConnection(): PlaygroundConnection {
+    if (!this.connection) {
+      throw new Error('Not connected to a server');
+    }
+    return this.connection;
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<Record<string, any>> {
+    // Requiring JSON forces a CORS preflight, so other sites cannot drive the API
+    if (!req.headers['content-type']?.startsWith('application/json')) {
+      throw new Error('Expected an application/json request body');
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+
+    const raw = Buffer.concat(chunks).toString('utf-8');
+    return raw ? JSON.parse(raw) : {};
+  }
+
+  /**
+   * Guard against DNS rebinding and cross-site requests: the Host header must
+   * name the playground itself, and browsers must send the same origin
+   */
+  private isSameOrigin(req: IncomingMessage): boolean {
+    const address = this.httpServer?.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    const hosts = new Set(['localhost', '127.0.0.1', '[::1]', this.options.host || 'localhost']
+      .map(host => `${host}:${port}`));
+
+    const host = req.headers.host?.toLowerCase();
+    if (!host || !hosts.has(host)) {
+      return false;
+    }
+
+    const origin = req.headers.origin;
+    return !origin || origin.toLowerCase() === `http://${host}`;
+  }
+
+  private sendJson(res: ServerResponse, status: number, data: unknown): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(data));
+  }
+}
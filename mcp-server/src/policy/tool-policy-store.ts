@@ -0,0 +1,94 @@
+// Per-server tool policy files
+
+import { readdir, rm, stat } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { ToolPolicy, fileExists, readJsonFile, writeJsonFile } from '@mcplookup-org/mcp-sdk';
+import { validateToolPolicy } from './tool-policy.js';
+
+interface CachedPolicy {
+  mtimeMs: number;
+  policy: ToolPolicy;
+}
+
+export class ToolPolicyStore {
+  private policyDir: string;
+  private cache = new Map<string, CachedPolicy>();
+
+  constructor(policyDir?: string) {
+    this.policyDir = policyDir || join(homedir(), '.mcpl', 'policies');
+  }
+
+  /**
+   * Get the policy file path for a server
+   */
+  getPath(serverName: string): string {
+    return join(this.policyDir, `${serverName}.json`);
+  }
+
+  /**
+   * Load a server's policy (null when it has none); throws on unreadable files.
+   * Files are re-read when they change, so edits apply without a bridge restart.
+   */
+  async load(serverName: string): Promise<ToolPolicy | null> {
+    const path = this.getPath(serverName);
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await stat(path)).mtimeMs;
+    } catch {
+      this.cache.delete(serverName);
+      return null;
+    }
+
+    const cached = this.cache.get(serverName);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.policy;
+    }
+
+    const policy = await readJsonFile<ToolPolicy>(path);
+    const errors = validateToolPolicy(policy);
+    if (errors.length > 0) {
+      throw new Error(`Invalid policy ${path}: ${errors.join('; ')}`);
+    }
+
+    this.cache.set(serverName, { mtimeMs, policy });
+    return policy;
+  }
+
+  /**
+   * Save a server's policy
+   */
+  async save(serverName: string, policy: ToolPolicy): Promise<void> {
+    await writeJsonFile(this.getPath(serverName), policy);
+    this.cache.delete(serverName);
+  }
+
+  /**
+   * Delete a server's policy
+   */
+  async remove(serverName: string): Promise<boolean> {
+    const path = this.getPath(serverName);
+    if (!(await fileExists(path))) {
+      return false;
+    }
+
+    await rm(path);
+    this.cache.delete(serverName);
+    return true;
+  }
+
+  /**
+   * List the servers that have a policy
+   */
+  async list(): Promise<string[]> {
+    if (!(await fileExists(this.policyDir))) {
+      return [];
+    }
+
+    return (await readdir(this.policyDir))
+      .filter(name => name.endsWith('.json'))
+      .map(name => name.slice(0, -'.json'.length))
+      .sort();
+  }
+}
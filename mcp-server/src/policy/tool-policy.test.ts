@@ -0,0 +1,180 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ToolPolicy } from '@mcplookup-org/mcp-sdk';
+import { evaluateSamplingPolicy, evaluateToolPolicy, isConfirmed, isToolAllowed, matchesToolPattern, validateToolPolicy } from './tool-policy.js';
+
+describe('tool-policy', () => {
+  describe('matchesToolPattern', () => {
+    it('should match globs against the whole name', () => {
+      expect(matchesToolPattern('write_*', 'write_file')).toBe(true);
+      expect(matchesToolPattern('write_*', 'rewrite_file')).toBe(false);
+      expect(matchesToolPattern('get_?', 'get_a')).toBe(true);
+      expect(matchesToolPattern('a.b', 'axb')).toBe(false);
+    });
+  });
+
+  describe('evaluateToolPolicy', () => {
+    it('should allow everything without a policy', () => {
+      expect(evaluateToolPolicy(null, 'anything')).toEqual({ allowed: true, requiresConfirmation: false });
+    });
+
+    it('should let deny win over allow', () => {
+      const policy: ToolPolicy = { version: 1, allow: ['*'], deny: ['delete_*'] };
+      expect(isToolAllowed(policy, 'read_file')).toBe(true);
+      expect(evaluateToolPolicy(policy, 'delete_file')).toMatchObject({ allowed: false, reason: expect.stringContaining('delete_*') });
+    });
+
+    it('should block tools outside a non-empty allowlist', () => {
+      const policy: ToolPolicy = { version: 1, allow: ['get_*'] };
+      expect(isToolAllowed(policy, 'get_issue')).toBe(true);
+      expect(isToolAllowed(policy, 'create_issue')).toBe(false);
+      expect(isToolAllowed({ version: 1, allow: [] }, 'create_issue')).toBe(true);
+    });
+
+    it('should flag tools that need confirmation', () => {
+      const policy: ToolPolicy = { version: 1, requireConfirmation: ['write_*'] };
+      expect(evaluateToolPolicy(policy, 'write_file')).toEqual({ allowed: true, requiresConfirmation: true });
+      expect(evaluateToolPolicy(policy, 'read_file')).toEqual({ allowed: true, requiresConfirmation: false });
+    });
+
+    it('should check pattern constraints on every array element', () => {
+      const policy: ToolPolicy = { version: 1, constraints: [{ tool: 'fetch', argument: 'url', pattern: '^https://' }] };
+      expect(evaluateToolPolicy(policy, 'fetch', { url: 'https://example.com' }).allowed).toBe(true);
+      expect(evaluateToolPolicy(policy, 'fetch', { url: ['https://a.example', 'http://b.example'] }).allowed).toBe(false);
+    });
+
+    it('should fail closed when a constrained argument is missing or not a string', () => {
+      const policy: ToolPolicy = { version: 1, constraints: [{ tool: '*_file', argument: 'path', pattern: '.' }] };
+      expect(evaluateToolPolicy(policy, 'read_file', {})).toMatchObject({ allowed: false, reason: expect.stringContaining('required') });
+      expect(evaluateToolPolicy(policy, 'read_file', { path: 42 })).toMatchObject({ allowed: false, reason: expect.stringContaining('string') });
+      expect(evaluateToolPolicy(policy, 'list_tools', {}).allowed).toBe(true);
+      // Without arguments only exposure is decided
+      expect(evaluateToolPolicy(policy, 'read_file').allowed).toBe(true);
+    });
+  });
+
+  describe('isConfirmed', () => {
+    it('should only accept an explicit confirm of true', () => {
+      expect(isConfirmed({ action: 'accept', content: { confirm: true } })).toBe(true);
+      expect(isConfirmed({ action: 'accept', content: { confirm: false } })).toBe(false);
+      expect(isConfirmed({ action: 'accept', content: {} })).toBe(false);
+      expect(isConfirmed({ action: 'accept' })).toBe(false);
+      expect(isConfirmed({ action: 'accept', content: { confirm: 'true' } })).toBe(false);
+      expect(isConfirmed({ action: 'decline', content: { confirm: true } })).toBe(false);
+      expect(isConfirmed({ action: 'cancel' })).toBe(false);
+    });
+  });
+
+  describe('path constraints', () => {
+    let root: string;
+    let allowed: string;
+    let outside: string;
+
+    beforeAll(() => {
+      root = mkdtempSync(join(tmpdir(), 'mcpl-policy-'));
+      allowed = join(root, 'allowed');
+      outside = join(root, 'outside');
+      mkdirSync(allowed);
+      mkdirSync(outside);
+      symlinkSync(outside, join(allowed, 'escape'));
+    });
+
+    afterAll(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    const policyFor = (constraint: Partial<NonNullable<ToolPolicy['constraints']>[number]> = {}): ToolPolicy => ({
+      version: 1,
+      constraints: [{ tool: '*', argument: 'path', pathPrefixes: [allowed], ...constraint }]
+    });
+
+    it('should allow paths inside a prefix, including ones that do not exist yet', () => {
+      expect(evaluateToolPolicy(policyFor(), 'write_file', { path: allowed }).allowed).toBe(true);
+      expect(evaluateToolPolicy(policyFor(), 'write_file', { path: join(allowed, 'new', 'file.txt') }).allowed).toBe(true);
+    });
+
+    it('should reject paths that leave the prefix through .. or a symlink', () => {
+      expect(evaluateToolPolicy(policyFor(), 'read_file', { path: join(allowed, '..', 'outside', 'a') }).allowed).toBe(false);
+      expect(evaluateToolPolicy(policyFor(), 'read_file', { path: join(allowed, 'escape', 'secret') }).allowed).toBe(false);
+      expect(evaluateToolPolicy(policyFor(), 'read_file', { path: `${allowed}-sibling/file` }).allowed).toBe(false);
+    });
+
+    it('should refuse relative paths unless a base directory is set', () => {
+      expect(evaluateToolPolicy(policyFor(), 'read_file', { path: 'file.txt' })).toMatchObject({
+        allowed: false,
+        reason: expect.stringContaining('absolute')
+      });
+
+      const based = policyFor({ baseDirectory: allowed });
+      expect(evaluateToolPolicy(based, 'read_file', { path: 'sub/file.txt' }).allowed).toBe(true);
+      expect(evaluateToolPolicy(based, 'read_file', { path: 'escape/secret' }).allowed).toBe(false);
+    });
+  });
+
+  describe('evaluateSamplingPolicy', () => {
+    it('should refuse sampling unless the policy allows it', () => {
+      expect(evaluateSamplingPolicy(null, 500)).toMatchObject({ allowed: false, maxTokens: 0 });
+      expect(evaluateSamplingPolicy({ version: 1 }, 500)).toMatchObject({ allowed: false, maxTokens: 0 });
+      expect(evaluateSamplingPolicy({ version: 1, sampling: { allow: false } }, 500)).toMatchObject({ allowed: false, maxTokens: 0 });
+    });
+
+    it('should grant what was requested when allowed without limits', () => {
+      expect(evaluateSamplingPolicy({ version: 1, sampling: { allow: true } }, 500)).toEqual({ allowed: true, maxTokens: 500 });
+    });
+
+    it('should cap each request and the tokens granted during a tool call', () => {
+      const policy: ToolPolicy = { version: 1, sampling: { allow: true, maxTokensPerRequest: 300, maxTokensPerCall: 1000 } };
+      expect(evaluateSamplingPolicy(policy, 500)).toEqual({ allowed: true, maxTokens: 300 });
+      expect(evaluateSamplingPolicy(policy, 500, 800)).toEqual({ allowed: true, maxTokens: 200 });
+      expect(evaluateSamplingPolicy(policy, 100, 1000)).toMatchObject({ allowed: false, reason: expect.stringContaining('1000 tokens') });
+    });
+  });
+
+  describe('validateToolPolicy', () => {
+    it('should accept a valid policy', () => {
+      expect(validateToolPolicy({
+        version: 1,
+        allow: ['get_*'],
+        constraints: [{ tool: '*', argument: 'path', pathPrefixes: ['~/projects'], baseDirectory: '/srv' }]
+      })).toEqual([]);
+    });
+
+    it('should report every problem', () => {
+      const errors = validateToolPolicy({
+        version: 2,
+        deny: 'delete_*',
+        constraints: [
+          { tool: '*' },
+          { tool: '*', argument: 'path', pathPrefixes: ['relative/dir'] },
+          { tool: '*', argument: 'path', baseDirectory: 'relative' },
+          { tool: '*', argument: 'q', pattern: '(' }
+        ]
+      });
+
+      expect(errors).toEqual([
+        '"version" must be 1',
+        '"deny" must be an array of tool name patterns',
+        'constraints[0] needs "tool" and "argument" strings',
+        'constraints[1].pathPrefixes must be an array of absolute or ~ paths',
+        'constraints[2].baseDirectory must be an absolute or ~ path',
+        'constraints[3].pattern is not a valid regular expression'
+      ]);
+    });
+
+    it('should check the sampling section', () => {
+      expect(validateToolPolicy({ version: 1, sampling: { allow: true, maxTokensPerRequest: 100 } })).toEqual([]);
+      expect(validateToolPolicy({ version: 1, sampling: [] })).toEqual(['"sampling" must be an object']);
+      expect(validateToolPolicy({ version: 1, sampling: { allow: 'yes', maxTokensPerRequest: 0, maxTokensPerCall: 1.5 } })).toEqual([
+        'sampling.allow must be true or false',
+        'sampling.maxTokensPerRequest must be a positive integer',
+        'sampling.maxTokensPerCall must be a positive integer'
+      ]);
+    });
+
+    it('should reject non-objects', () => {
+      expect(validateToolPolicy([])).toEqual(['Policy must be a JSON object']);
+    });
+  });
+});
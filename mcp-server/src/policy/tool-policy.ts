@@ -0,0 +1,236 @@
+// Tool policy evaluation for bridged servers
+
+import { realpathSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { basename, dirname, isAbsolute, join, resolve, sep } from 'node:path';
+import { SamplingPolicyDecision, ToolArgumentConstraint, ToolPolicy, ToolPolicyDecision } from '@mcplookup-org/mcp-sdk';
+
+/**
+ * Match a tool name against a glob pattern (`*` any run of characters, `?` one character)
+ */
+export function matchesToolPattern(pattern: string, toolName: string): boolean {
+  const source = pattern
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`).test(toolName);
+}
+
+function matchesAny(patterns: string[] | undefined, toolName: string): string | undefined {
+  return patterns?.find(pattern => matchesToolPattern(pattern, toolName));
+}
+
+/**
+ * Check whether a policy lets a tool be exposed at all (ignores arguments)
+ */
+export function isToolAllowed(policy: ToolPolicy | null, toolName: string): boolean {
+  return evaluateToolPolicy(policy, toolName).allowed;
+}
+
+/**
+ * Decide whether a tool call may be forwarded to the downstream server
+ */
+export function evaluateToolPolicy(
+  policy: ToolPolicy | null,
+  toolName: string,
+  args?: Record<string, unknown>
+): ToolPolicyDecision {
+  if (!policy) {
+    return { allowed: true, requiresConfirmation: false };
+  }
+
+  const denied = matchesAny(policy.deny, toolName);
+  if (denied) {
+    return { allowed: false, requiresConfirmation: false, reason: `${toolName} is denied by pattern "${denied}"` };
+  }
+
+  if (policy.allow && policy.allow.length > 0 && !matchesAny(policy.allow, toolName)) {
+    return { allowed: false, requiresConfirmation: false, reason: `${toolName} is not in the allowlist` };
+  }
+
+  if (args) {
+    for (const constraint of policy.constraints || []) {
+      if (!matchesToolPattern(constraint.tool, toolName)) {
+        continue;
+      }
+
+      // Fail closed: a constrained argument has to be present to be checked
+      const violation = constraint.argument in args
+        ? checkConstraint(constraint, args[constraint.argument])
+        : `Argument "${constraint.argument}" is required by the policy`;
+      if (violation) {
+        return { allowed: false, requiresConfirmation: false, reason: violation };
+      }
+    }
+  }
+
+  return {
+    allowed: true,
+    requiresConfirmation: Boolean(matchesAny(policy.requireConfirmation, toolName))
+  };
+}
+
+/**
+ * Check the user's answer to a confirmation request. Anything but an accepted
+ * answer with confirm set to true blocks the call.
+ */
+export function isConfirmed(response: { action: string; content?: Record<string, unknown> }): boolean {
+  return response.action === 'accept' && response.content?.confirm === true;
+}
+
+/**
+ * Decide whether a sampling request of a server may be forwarded to the client,
+ * given the tokens already granted during the current tool call. Sampling
+ * spends the client's model budget, so servers have to be allowed explicitly.
+ */
+export function evaluateSamplingPolicy(
+  policy: ToolPolicy | null,
+  requestedMaxTokens: number,
+  grantedTokens: number = 0
+): SamplingPolicyDecision {
+  const sampling = policy?.sampling;
+  if (!sampling?.allow) {
+    return {
+      allowed: false,
+      maxTokens: 0,
+      reason: sampling ? 'sampling is not allowed for this server' : 'sampling is off until the policy allows it'
+    };
+  }
+
+  let maxTokens = Math.min(requestedMaxTokens, sampling.maxTokensPerRequest ?? Infinity);
+  if (sampling.maxTokensPerCall !== undefined) {
+    const remaining = sampling.maxTokensPerCall - grantedTokens;
+    if (remaining <= 0) {
+      return { allowed: false, maxTokens: 0, reason: `the budget of ${sampling.maxTokensPerCall} tokens per tool call is used up` };
+    }
+    maxTokens = Math.min(maxTokens, remaining);
+  }
+
+  return { allowed: true, maxTokens };
+}
+
+/**
+ * Validate a parsed policy file, returning a list of problems (empty when valid)
+ */
+export function validateToolPolicy(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['Policy must be a JSON object'];
+  }
+
+  const policy = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const isStringArray = (field: unknown) => Array.isArray(field) && field.every(item => typeof item === 'string');
+
+  if (policy.version !== 1) {
+    errors.push('"version" must be 1');
+  }
+
+  for (const field of ['allow', 'deny', 'requireConfirmation']) {
+    if (policy[field] !== undefined && !isStringArray(policy[field])) {
+      errors.push(`"${field}" must be an array of tool name patterns`);
+    }
+  }
+
+  if (policy.constraints !== undefined) {
+    if (!Array.isArray(policy.constraints)) {
+      errors.push('"constraints" must be an array');
+    } else {
+      policy.constraints.forEach((constraint: any, index) => {
+        if (typeof constraint?.tool !== 'string' || typeof constraint?.argument !== 'string') {
+          errors.push(`constraints[${index}] needs "tool" and "argument" strings`);
+          return;
+        }
+        if (constraint.pathPrefixes !== undefined && (!isStringArray(constraint.pathPrefixes) ||
+          !constraint.pathPrefixes.every(isRootedPath))) {
+          errors.push(`constraints[${index}].pathPrefixes must be an array of absolute or ~ paths`);
+        }
+        if (constraint.baseDirectory !== undefined && (typeof constraint.baseDirectory !== 'string' ||
+          !isRootedPath(constraint.baseDirectory))) {
+          errors.push(`constraints[${index}].baseDirectory must be an absolute or ~ path`);
+        }
+        if (constraint.pattern !== undefined) {
+          try {
+            new RegExp(constraint.pattern);
+          } catch {
+            errors.push(`constraints[${index}].pattern is not a valid regular expression`);
+          }
+        }
+      });
+    }
+  }
+
+  if (policy.sampling !== undefined) {
+    const sampling = policy.sampling as Record<string, unknown> | null;
+    if (!sampling || typeof sampling !== 'object' || Array.isArray(sampling)) {
+      errors.push('"sampling" must be an object');
+    } else {
+      if (typeof sampling.allow !== 'boolean') {
+        errors.push('sampling.allow must be true or false');
+      }
+      for (const field of ['maxTokensPerRequest', 'maxTokensPerCall']) {
+        const value = sampling[field];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+          errors.push(`sampling.${field} must be a positive integer`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check one argument value (or each element of an array value) against a constraint
+ */
+function checkConstraint(constraint: ToolArgumentConstraint, value: unknown): string | undefined {
+  const values = Array.isArray(value) ? value : [value];
+
+  for (const item of values) {
+    if (typeof item !== 'string') {
+      return `Argument "${constraint.argument}" must be a string`;
+    }
+
+    if (constraint.pathPrefixes && constraint.pathPrefixes.length > 0) {
+      if (!isRootedPath(item) && !constraint.baseDirectory) {
+        return `Argument "${constraint.argument}" (${item}) must be an absolute path`;
+      }
+
+      // Compare real paths so symlinks and .. cannot point outside the prefixes
+      const path = realPath(resolve(expandHome(constraint.baseDirectory || '/'), expandHome(item)));
+      const inside = constraint.pathPrefixes.some(prefix => {
+        const root = realPath(resolve(expandHome(prefix)));
+        return path === root || path.startsWith(root.endsWith(sep) ? root : root + sep);
+      });
+      if (!inside) {
+        return `Argument "${constraint.argument}" (${item}) is outside the allowed paths: ${constraint.pathPrefixes.join(', ')}`;
+      }
+    }
+
+    if (constraint.pattern && !new RegExp(constraint.pattern).test(item)) {
+      return `Argument "${constraint.argument}" (${item}) does not match ${constraint.pattern}`;
+    }
+  }
+
+  return undefined;
+}
+
+function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? homedir() + path.slice(1) : path;
+}
+
+function isRootedPath(path: string): boolean {
+  return isAbsolute(expandHome(path));
+}
+
+/**
+ * Resolve symlinks in an absolute path. Paths that do not exist yet (e.g. a
+ * file about to be written) resolve through their closest existing ancestor.
+ */
+function realPath(path: string): string {
+  try {
+    return realpathSync.native(path);
+  } catch {
+    const parent = dirname(path);
+    return parent === path ? path : join(realPath(parent), basename(path));
+  }
+}
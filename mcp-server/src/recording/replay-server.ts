@@ -0,0 +1,49 @@
+// Fake MCP server that answers from a recorded session
+
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { Cassette, CassetteMatchOptions, CassettePlayer, JsonRpcMessage, REPLAY_MISS_ERROR_CODE } from '@mcplookup-org/mcp-sdk';
+import { ConnectableServer } from '../transport/http-session-host.js';
+
+export interface ReplayServerOptions extends CassetteMatchOptions {
+  /**
+   * Called for every request the cassette cannot answer
+   */
+  onMiss?: (request: JsonRpcMessage, reason: string) => void;
+}
+
+/**
+ * Serves a cassette to one client session. Serve it on stdio or through an
+ * HttpSessionHost, which creates one replay server (and player) per session.
+ */
+export class CassetteReplayServer implements ConnectableServer {
+  readonly player: CassettePlayer;
+  private options: ReplayServerOptions;
+  private transport?: Transport;
+
+  constructor(cassette: Cassette, options: ReplayServerOptions = {}) {
+    this.player = new CassettePlayer(cassette, options);
+    this.options = options;
+  }
+
+  async connect(transport: Transport): Promise<void> {
+    this.transport = transport;
+    transport.onmessage = (message) => {
+      this.reply(transport, message as JsonRpcMessage).catch((error) => transport.onerror?.(error));
+    };
+    await transport.start();
+  }
+
+  async close(): Promise<void> {
+    await this.transport?.close();
+  }
+
+  private async reply(transport: Transport, request: JsonRpcMessage): Promise<void> {
+    for (const reply of this.player.handle(request)) {
+      if (reply.error?.code === REPLAY_MISS_ERROR_CODE) {
+        this.options.onMiss?.(request, reply.error.message);
+      }
+      await transport.send(reply as JSONRPCMessage, { relatedRequestId: request.id });
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { CassettePlayer, REDACTED_VALUE } from '@mcplookup-org/mcp-sdk';
+import { CassetteRecorder, redactCassetteMessage } from './session-recorder.js';
+
+const request = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'tools/call',
+  params: {
+    name: 'create_issue',
+    arguments: { repo: 'a/b', token: 'ghp_secret', headers: { Authorization: 'Bearer abc', accept: 'json' } },
+    _meta: { progressToken: 'p-1' }
+  }
+} as const;
+
+describe('session-recorder', () => {
+  describe('redactCassetteMessage', () => {
+    it('should replace secret values and keep everything else', () => {
+      expect(redactCassetteMessage(request)).toEqual({
+        ...request,
+        params: {
+          ...request.params,
+          arguments: { repo: 'a/b', token: REDACTED_VALUE, headers: { Authorization: REDACTED_VALUE, accept: 'json' } }
+        }
+      });
+    });
+
+    it('should keep the shape of schemas whose properties name secrets', () => {
+      const tools = {
+        jsonrpc: '2.0' as const,
+        id: 2,
+        result: {
+          tools: [{ name: 'login', inputSchema: { type: 'object', properties: { password: { type: 'string' } }, required: ['password'] } }]
+        }
+      };
+      expect(redactCassetteMessage(tools)).toEqual(tools);
+    });
+  });
+
+  describe('CassetteRecorder', () => {
+    it('should redact recorded messages so they still replay', () => {
+      const recorder = new CassetteRecorder('github');
+      recorder.record('client', request as JSONRPCMessage);
+      recorder.record('server', { jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: 'created' }] } });
+
+      const cassette = recorder.toCassette();
+      expect(JSON.stringify(cassette)).not.toContain('ghp_secret');
+
+      const [reply] = new CassettePlayer(cassette).handle({ ...request, id: 7, params: { ...request.params } });
+      expect(reply).toMatchObject({ id: 7, result: { content: [{ text: 'created' }] } });
+    });
+
+    it('should apply a custom redaction or none', () => {
+      const custom = new CassetteRecorder('github', {
+        redact: message => ({ ...message, params: { ...message.params, arguments: {} } })
+      });
+      custom.record('client', request as JSONRPCMessage);
+      expect(custom.toCassette().messages[0].message.params?.arguments).toEqual({});
+
+      const raw = new CassetteRecorder('github', { redact: false });
+      raw.record('client', request as JSONRPCMessage);
+      expect(raw.toCassette().messages[0].message).toEqual(request);
+    });
+  });
+});
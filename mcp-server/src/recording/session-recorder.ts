@@ -0,0 +1,183 @@
+// Record the JSON-RPC traffic between the bridge (or a client) and a downstream server
+
+import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, RequestId } from '@modelcontextprotocol/sdk/types.js';
+import { Cassette, CassetteMessage, JsonRpcMessage, REDACTED_VALUE, writeCassette } from '@mcplookup-org/mcp-sdk';
+import { isSensitiveKey } from '../audit/tool-call-audit-log.js';
+import { ConnectableServer } from '../transport/http-session-host.js';
+
+export interface CassetteRecorderOptions {
+  /**
+   * Rewrite each message before it is kept (default: redactCassetteMessage);
+   * false records messages exactly as sent
+   */
+  redact?: ((message: JsonRpcMessage) => JsonRpcMessage) | false;
+}
+
+// Protocol fields whose names look sensitive but carry no secret
+const PROTOCOL_KEYS = new Set(['progressToken']);
+
+/**
+ * Replace string values under keys that name secrets (as the audit log does)
+ * with REDACTED_VALUE, which matches any value on replay. Objects under such
+ * keys are searched rather than replaced, so tool schemas keep their shape.
+ */
+export function redactCassetteMessage(message: JsonRpcMessage): JsonRpcMessage {
+  const redact = (value: unknown, key?: string): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(item => redact(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redact(item, name)]));
+    }
+    return typeof value === 'string' && key && !PROTOCOL_KEYS.has(key) && isSensitiveKey(key) ? REDACTED_VALUE : value;
+  };
+
+  return redact(message) as JsonRpcMessage;
+}
+
+/**
+ * Collects messages into a cassette
+ */
+export class CassetteRecorder {
+  private server: string;
+  private redact: (message: JsonRpcMessage) => JsonRpcMessage;
+  private messages: CassetteMessage[] = [];
+  private startedAt = Date.now();
+
+  constructor(server: string, options: CassetteRecorderOptions = {}) {
+    this.server = server;
+    this.redact = options.redact === false ? message => message : options.redact || redactCassetteMessage;
+  }
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  record(from: CassetteMessage['from'], message: JSONRPCMessage): void {
+    this.messages.push({
+      from,
+      offsetMs: Date.now() - this.startedAt,
+      message: this.redact(JSON.parse(JSON.stringify(message)) as JsonRpcMessage)
+    });
+  }
+
+  toCassette(): Cassette {
+    return {
+      version: 1,
+      server: this.server,
+      recordedAt: new Date(this.startedAt).toISOString(),
+      messages: [...this.messages]
+    };
+  }
+
+  async save(filePath: string): Promise<void> {
+    await writeCassette(filePath, this.toCassette());
+  }
+}
+
+/**
+ * Client transport wrapper that records everything sent and received
+ */
+export class RecordingTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: Transport['onmessage'];
+  private inner: Transport;
+  private recorder: CassetteRecorder;
+
+  constructor(inner: Transport, recorder: CassetteRecorder) {
+    this.inner = inner;
+    this.recorder = recorder;
+
+    inner.onmessage = (message, extra) => {
+      recorder.record('server', message);
+      this.onmessage?.(message, extra);
+    };
+    inner.onclose = () => this.onclose?.();
+    inner.onerror = (error) => this.onerror?.(error);
+  }
+
+  get sessionId(): string | undefined {
+    return this.inner.sessionId;
+  }
+
+  /**
+   * The transport whose traffic is recorded
+   */
+  get wrapped(): Transport {
+    return this.inner;
+  }
+
+  async start(): Promise<void> {
+    await this.inner.start();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    this.recorder.record('client', message);
+    await this.inner.send(message, options);
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close();
+  }
+}
+
+export interface RecordingProxyOptions {
+  /**
+   * Open the downstream connection for a new session
+   */
+  connect: () => Promise<Transport>;
+  recorder: CassetteRecorder;
+}
+
+/**
+ * Forwards an MCP session to a downstream server unchanged while recording
+ * every message. Serve it on stdio or through an HttpSessionHost.
+ */
+export class RecordingProxy implements ConnectableServer {
+  private options: RecordingProxyOptions;
+  private upstream?: Transport;
+  private downstream?: Transport;
+  private closed = false;
+
+  constructor(options: RecordingProxyOptions) {
+    this.options = options;
+  }
+
+  async connect(upstream: Transport): Promise<void> {
+    const downstream = new RecordingTransport(await this.options.connect(), this.options.recorder);
+    this.upstream = upstream;
+    this.downstream = downstream;
+
+    // Server messages go out on the stream of the request they belong to (HTTP)
+    const pending: RequestId[] = [];
+    upstream.onmessage = (message) => {
+      if ('method' in message && 'id' in message) {
+        pending.push(message.id);
+      }
+      downstream.send(message).catch((error) => upstream.onerror?.(error));
+    };
+    downstream.onmessage = (message) => {
+      const isResponse = !('method' in message) && 'id' in message;
+      const relatedRequestId = isResponse ? message.id : pending[pending.length - 1];
+      if (isResponse && pending.includes(message.id)) {
+        pending.splice(pending.indexOf(message.id), 1);
+      }
+      upstream.send(message, { relatedRequestId }).catch((error) => downstream.onerror?.(error));
+    };
+    upstream.onclose = () => this.close();
+    downstream.onclose = () => this.close();
+
+    await downstream.start();
+    await upstream.start();
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    await Promise.allSettled([this.downstream?.close(), this.upstream?.close()]);
+  }
+}
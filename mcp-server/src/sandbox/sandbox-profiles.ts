@@ -0,0 +1,191 @@
+// Sandbox profiles for Docker-isolated servers
+
+import { homedir } from 'node:os';
+import { isAbsolute, join } from 'node:path';
+import { SandboxProfile, ServerSandbox, readJsonFile } from '@mcplookup-org/mcp-sdk';
+
+interface SandboxProfileFile {
+  version: 1;
+  profiles: Record<string, SandboxProfile>;
+}
+
+// Shared by every built-in profile: nothing but the mounts is writable, no
+// capabilities, no privilege escalation
+const HARDENED: Pick<SandboxProfile, 'readOnlyRootfs' | 'tmpfs' | 'capDrop' | 'noNewPrivileges'> = {
+  readOnlyRootfs: true,
+  tmpfs: ['/tmp', '/home'],
+  capDrop: ['ALL'],
+  noNewPrivileges: true
+};
+
+export const BUILTIN_SANDBOX_PROFILES: Record<string, SandboxProfile> = {
+  offline: {
+    description: 'No network and no host files',
+    network: 'none',
+    ...HARDENED
+  },
+  'readonly-fs': {
+    description: 'No network; the workspace is mounted read-only at /workspace',
+    network: 'none',
+    mounts: [{ source: '${workspace}', target: '/workspace', readOnly: true }],
+    ...HARDENED
+  },
+  'workspace-rw': {
+    description: 'No network; the workspace is mounted read-write at /workspace',
+    network: 'none',
+    mounts: [{ source: '${workspace}', target: '/workspace' }],
+    ...HARDENED
+  }
+};
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const PROFILE_FIELDS = [
+  'description', 'network', 'allowedHosts', 'mounts', 'readOnlyRootfs', 'tmpfs',
+  'memory', 'cpus', 'pidsLimit', 'capDrop', 'capAdd', 'seccomp', 'noNewPrivileges'
+];
+
+/**
+ * Check whether a profile needs a workspace directory for its mounts
+ */
+export function usesWorkspace(profile: SandboxProfile): boolean {
+  return (profile.mounts || []).some(mount => mount.source.includes('${workspace}'));
+}
+
+/**
+ * Validate a parsed profile, returning a list of problems (empty when valid)
+ */
+export function validateSandboxProfile(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['Profile must be a JSON object'];
+  }
+
+  const profile = value as Record<string, any>;
+  const errors: string[] = [];
+  const isStringArray = (field: unknown) => Array.isArray(field) && field.every(item => typeof item === 'string');
+
+  if (!['none', 'bridge', 'allowlist'].includes(profile.network)) {
+    errors.push('network must be "none", "bridge" or "allowlist"');
+  }
+  for (const field of ['allowedHosts', 'tmpfs', 'capDrop', 'capAdd']) {
+    if (profile[field] !== undefined && !isStringArray(profile[field])) {
+      errors.push(`${field} must be an array of strings`);
+    }
+  }
+  for (const path of profile.tmpfs || []) {
+    if (typeof path === 'string' && !path.startsWith('/')) {
+      errors.push(`tmpfs path ${path} must be absolute`);
+    }
+  }
+  if (profile.mounts !== undefined) {
+    if (!Array.isArray(profile.mounts)) {
+      errors.push('mounts must be an array');
+    } else {
+      profile.mounts.forEach((mount: any, index: number) => {
+        if (typeof mount?.source !== 'string' || !mount.source) {
+          errors.push(`mounts[${index}].source must be a host path`);
+        }
+        if (typeof mount?.target !== 'string' || !mount.target.startsWith('/')) {
+          errors.push(`mounts[${index}].target must be an absolute container path`);
+        }
+        if (mount?.readOnly !== undefined && typeof mount.readOnly !== 'boolean') {
+          errors.push(`mounts[${index}].readOnly must be a boolean`);
+        }
+      });
+    }
+  }
+  if (profile.memory !== undefined && (typeof profile.memory !== 'string' || !/^\d+[bkmg]?$/i.test(profile.memory))) {
+    errors.push('memory must be a size such as 512m or 2g');
+  }
+  if (profile.cpus !== undefined && (typeof profile.cpus !== 'string' || !/^\d+(\.\d+)?$/.test(profile.cpus))) {
+    errors.push('cpus must be a number such as 0.5');
+  }
+  if (profile.pidsLimit !== undefined && (!Number.isInteger(profile.pidsLimit) || profile.pidsLimit <= 0)) {
+    errors.push('pidsLimit must be a positive integer');
+  }
+  if (profile.seccomp !== undefined && (typeof profile.seccomp !== 'string' || !isAbsolute(profile.seccomp.replace(/^~/, homedir())))) {
+    errors.push('seccomp must be an absolute path to a seccomp profile');
+  }
+  for (const field of ['readOnlyRootfs', 'noNewPrivileges']) {
+    if (profile[field] !== undefined && typeof profile[field] !== 'boolean') {
+      errors.push(`${field} must be a boolean`);
+    }
+  }
+
+  const unknown = Object.keys(profile).filter(key => !PROFILE_FIELDS.includes(key));
+  if (unknown.length > 0) {
+    errors.push(`unknown fields ${unknown.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Check a server's sandbox selection against its profile
+ */
+export function validateServerSandbox(sandbox: ServerSandbox, profile: SandboxProfile): string[] {
+  const errors: string[] = [];
+
+  if (usesWorkspace(profile) && !sandbox.workspace) {
+    errors.push(`Profile ${sandbox.profile} mounts a workspace; choose one with --workspace`);
+  }
+  if (sandbox.workspace && !isAbsolute(sandbox.workspace)) {
+    errors.push(`Workspace ${sandbox.workspace} must be an absolute path`);
+  }
+  if (profile.network === 'allowlist' && (profile.allowedHosts || []).length + (sandbox.allowedHosts || []).length === 0) {
+    errors.push(`Profile ${sandbox.profile} needs at least one allowed host; add them with --allow-host`);
+  }
+
+  return errors;
+}
+
+/**
+ * Built-in profiles plus user-defined ones from ~/.mcpl/sandbox-profiles.json
+ * (user profiles with a built-in name replace it)
+ */
+export class SandboxProfileStore {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || join(homedir(), '.mcpl', 'sandbox-profiles.json');
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Load every profile; throws on an invalid profile file
+   */
+  async list(): Promise<Record<string, SandboxProfile>> {
+    const file = await readJsonFile<SandboxProfileFile>(this.filePath, { version: 1, profiles: {} });
+    const errors: string[] = [];
+
+    for (const [name, profile] of Object.entries(file.profiles || {})) {
+      if (!PROFILE_NAME_PATTERN.test(name)) {
+        errors.push(`${name}: profile names may only contain lowercase letters, digits, "-" and "_"`);
+      }
+      errors.push(...validateSandboxProfile(profile).map(error => `${name}: ${error}`));
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid sandbox profiles in ${this.filePath}: ${errors.join('; ')}`);
+    }
+    return { ...BUILTIN_SANDBOX_PROFILES, ...file.profiles };
+  }
+
+  /**
+   * Get a profile by name
+   */
+  async get(name: string): Promise<SandboxProfile> {
+    const profiles = await this.list();
+    const profile = profiles[name];
+    if (!profile) {
+      throw new Error(`Unknown sandbox profile: ${name}. Available profiles: ${Object.keys(profiles).join(', ')}`);
+    }
+    return profile;
+  }
+
+  isBuiltin(name: string): boolean {
+    return name in BUILTIN_SANDBOX_PROFILES;
+  }
+}
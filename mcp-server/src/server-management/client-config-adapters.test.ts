@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import {
+  ClientConfigAdapter,
+  ContinueConfigAdapter,
+  CursorConfigAdapter,
+  VsCodeConfigAdapter,
+  WindsurfConfigAdapter,
+  ZedConfigAdapter
+} from './client-config-adapters.js';
+
+const STDIO = { command: 'npx', args: ['-y', '@mcp/github'], env: { GITHUB_TOKEN: 'secret://github' } };
+const REMOTE = { command: '', args: [], url: 'https://mcp.example.com/mcp' };
+
+describe('client-config-adapters', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mcpl-clients-'));
+    vi.stubEnv('HOME', root);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const readJson = async (adapter: ClientConfigAdapter) => JSON.parse(await readFile(await adapter.getConfigPath(), 'utf-8'));
+
+  const writeConfig = async (adapter: ClientConfigAdapter, content: string) => {
+    const path = await adapter.getConfigPath();
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content);
+  };
+
+  it.each([
+    ['cursor', new CursorConfigAdapter(), { mcpServers: { github: STDIO, remote: { url: REMOTE.url } } }],
+    ['continue', new ContinueConfigAdapter(), { mcpServers: { github: STDIO, remote: { url: REMOTE.url } } }],
+    ['windsurf', new WindsurfConfigAdapter(), { mcpServers: { github: STDIO, remote: { serverUrl: REMOTE.url } } }],
+    ['zed', new ZedConfigAdapter(), { context_servers: { github: { source: 'custom', ...STDIO }, remote: { url: REMOTE.url } } }]
+  ])('should write %s entries in its own schema and read them back', async (_id, adapter, written) => {
+    await adapter.addServer('github', STDIO);
+    await adapter.addServer('remote', REMOTE);
+
+    expect(await readJson(adapter)).toEqual(written);
+    expect(await adapter.listServers()).toEqual([{ name: 'github', ...STDIO }, { name: 'remote', ...REMOTE }]);
+  });
+
+  it('should write typed VS Code entries into the workspace', async () => {
+    const adapter = new VsCodeConfigAdapter(root);
+    await adapter.addServer('github', STDIO);
+    await adapter.addServer('remote', REMOTE);
+
+    expect(await adapter.getConfigPath()).toBe(join(root, '.vscode', 'mcp.json'));
+    expect(await readJson(adapter)).toEqual({
+      servers: { github: { type: 'stdio', ...STDIO }, remote: { type: 'http', url: REMOTE.url } }
+    });
+  });
+
+  it('should read config files with comments and trailing commas', () => {
+    const content = `{
+  // added by hand
+  "servers": {
+    "docs": { "type": "stdio", "command": "node", "args": ["https://example.com/a//b", "/* kept */",], },
+  },
+}`;
+    expect(new VsCodeConfigAdapter(root).parseServers(content)).toEqual({
+      docs: { command: 'node', args: ['https://example.com/a//b', '/* kept */'] }
+    });
+  });
+
+  it('should keep other settings and servers when changing one server', async () => {
+    const adapter = new ZedConfigAdapter();
+    await writeConfig(adapter, JSON.stringify({ theme: 'One Dark', context_servers: { notes: { command: 'notes', args: [] } } }));
+
+    await adapter.addServer('github', STDIO);
+    expect(await adapter.updateServer('notes', { command: 'notes', args: ['--verbose'] })).toBe(true);
+
+    expect(await readJson(adapter)).toEqual({
+      theme: 'One Dark',
+      context_servers: {
+        notes: { source: 'custom', command: 'notes', args: ['--verbose'] },
+        github: { source: 'custom', ...STDIO }
+      }
+    });
+  });
+
+  it('should read the nested command of older Zed settings', async () => {
+    const adapter = new ZedConfigAdapter();
+    await writeConfig(adapter, JSON.stringify({
+      context_servers: { notes: { command: { path: 'notes', args: ['serve'], env: { DEBUG: '1' } } } }
+    }));
+
+    expect(await adapter.getServer('notes')).toEqual({ command: 'notes', args: ['serve'], env: { DEBUG: '1' } });
+  });
+
+  it('should ignore fields of the wrong type', () => {
+    const content = JSON.stringify({
+      mcpServers: {
+        broken: { command: ['npx'], args: ['-y', 3, 'tool'], env: { PORT: 8080, HOST: 'localhost' }, url: '' },
+        empty: null
+      }
+    });
+
+    expect(new CursorConfigAdapter().parseServers(content)).toEqual({
+      broken: { command: '', args: ['-y', 'tool'], env: { HOST: 'localhost' } },
+      empty: { command: '', args: [] }
+    });
+  });
+
+  it('should report missing servers and unreadable files', async () => {
+    const adapter = new CursorConfigAdapter();
+    expect(await adapter.listServers()).toEqual([]);
+    expect(await adapter.hasServer('github')).toBe(false);
+    expect(await adapter.updateServer('github', STDIO)).toBe(false);
+    expect(await adapter.removeServer('github')).toBe(false);
+
+    await writeConfig(adapter, '{ "mcpServers": ');
+    await expect(adapter.listServers()).rejects.toThrow(`Failed to parse Cursor config ${await adapter.getConfigPath()}`);
+  });
+
+  it('should detect clients by their directories', async () => {
+    const adapter = new WindsurfConfigAdapter();
+    expect(await adapter.isDetected()).toBe(false);
+
+    await mkdir(join(root, '.codeium', 'windsurf'), { recursive: true });
+    expect(await adapter.isDetected()).toBe(true);
+  });
+});
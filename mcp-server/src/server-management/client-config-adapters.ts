@@ -0,0 +1,378 @@
+// Config file adapters for MCP clients (Claude Desktop, Cursor, VS Code, Windsurf, Zed, Continue)
+
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { fileExists, writeFileAtomic } from '@mcplookup-org/mcp-sdk';
+import { ClaudeConfigManager } from './claude-config-manager.js';
+
+/**
+ * A server entry in a client's config, normalized across client schemas
+ */
+export interface ClientServerConfig {
+  command: string; // empty for URL-based entries
+  args: string[];
+  env?: Record<string, string>;
+  url?: string;
+}
+
+/**
+ * Reads and writes the MCP server list of one client's config file
+ */
+export interface ClientConfigAdapter {
+  readonly id: string;
+  readonly displayName: string;
+
+  getConfigPath(): Promise<string>;
+  isDetected(): Promise<boolean>;
+  listServers(): Promise<Array<ClientServerConfig & { name: string }>>;
+  getServer(name: string): Promise<ClientServerConfig | null>;
+  hasServer(name: string): Promise<boolean>;
+  addServer(name: string, config: ClientServerConfig): Promise<void>;
+  updateServer(name: string, config: ClientServerConfig): Promise<boolean>;
+  removeServer(name: string): Promise<boolean>;
+  parseServers(content: string): Record<string, ClientServerConfig>;
+  createEmptyConfig(): string;
+}
+
+/**
+ * Base adapter for clients that keep servers in a JSON object under one key.
+ * Subclasses describe where the file lives and how an entry is shaped.
+ */
+abstract class JsonClientConfigAdapter implements ClientConfigAdapter {
+  abstract readonly id: string;
+  abstract readonly displayName: string;
+  protected serversKey = 'mcpServers';
+
+  abstract getConfigPath(): Promise<string>;
+
+  /**
+   * Directories whose presence means the client is installed
+   */
+  protected abstract getDetectionPaths(): string[];
+
+  async isDetected(): Promise<boolean> {
+    for (const path of [...this.getDetectionPaths(), await this.getConfigPath()]) {
+      if (await fileExists(path)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async listServers(): Promise<Array<ClientServerConfig & { name: string }>> {
+    const servers = this.getServerMap(await this.readConfig());
+    return Object.entries(servers).map(([name, entry]) => ({ name, ...this.fromClientEntry(entry) }));
+  }
+
+  async getServer(name: string): Promise<ClientServerConfig | null> {
+    const entry = this.getServerMap(await this.readConfig())[name];
+    return entry ? this.fromClientEntry(entry) : null;
+  }
+
+  async hasServer(name: string): Promise<boolean> {
+    return name in this.getServerMap(await this.readConfig());
+  }
+
+  async addServer(name: string, config: ClientServerConfig): Promise<void> {
+    const document = await this.readConfig();
+    this.getServerMap(document, true)[name] = this.toClientEntry(config);
+    await this.writeConfig(document);
+  }
+
+  async updateServer(name: string, config: ClientServerConfig): Promise<boolean> {
+    const document = await this.readConfig();
+    const servers = this.getServerMap(document);
+    if (!servers[name]) {
+      return false;
+    }
+
+    servers[name] = this.toClientEntry(config);
+    await this.writeConfig(document);
+    return true;
+  }
+
+  async removeServer(name: string): Promise<boolean> {
+    const document = await this.readConfig();
+    const servers = this.getServerMap(document);
+    if (!servers[name]) {
+      return false;
+    }
+
+    delete servers[name];
+    await this.writeConfig(document);
+    return true;
+  }
+
+  parseServers(content: string): Record<string, ClientServerConfig> {
+    const servers = this.getServerMap(this.parseConfig(content));
+    return Object.fromEntries(Object.entries(servers).map(([name, entry]) => [name, this.fromClientEntry(entry)]));
+  }
+
+  createEmptyConfig(): string {
+    return JSON.stringify({ [this.serversKey]: {} }, null, 2);
+  }
+
+  /**
+   * Parse a config file; comments and trailing commas (JSONC) are tolerated
+   * but dropped when mcpl rewrites the file
+   */
+  protected parseConfig(content: string): Record<string, any> {
+    return content.trim() ? JSON.parse(stripJsonComments(content)) : {};
+  }
+
+  protected toClientEntry(config: ClientServerConfig): Record<string, unknown> {
+    if (config.url) {
+      return { url: config.url };
+    }
+
+    return {
+      command: config.command,
+      args: config.args,
+      ...(config.env && Object.keys(config.env).length > 0 && { env: config.env })
+    };
+  }
+
+  /**
+   * Read an entry written by hand or by the client; fields of the wrong type are ignored
+   */
+  protected fromClientEntry(entry: unknown): ClientServerConfig {
+    const fields = isRecord(entry) ? entry : {};
+    const url = [fields.url, fields.serverUrl].find(value => typeof value === 'string' && value);
+    const env = isRecord(fields.env)
+      ? Object.fromEntries(Object.entries(fields.env).filter((pair): pair is [string, string] => typeof pair[1] === 'string'))
+      : undefined;
+
+    return {
+      command: typeof fields.command === 'string' ? fields.command : '',
+      args: Array.isArray(fields.args) ? fields.args.filter((arg): arg is string => typeof arg === 'string') : [],
+      ...(env && { env }),
+      ...(typeof url === 'string' && { url })
+    };
+  }
+
+  private getServerMap(document: Record<string, any>, create = false): Record<string, any> {
+    if (!document[this.serversKey] || typeof document[this.serversKey] !== 'object') {
+      if (!create) {
+        return {};
+      }
+      document[this.serversKey] = {};
+    }
+    return document[this.serversKey];
+  }
+
+  private async readConfig(): Promise<Record<string, any>> {
+    const path = await this.getConfigPath();
+
+    let content: string;
+    try {
+      content = await readFile(path, 'utf-8');
+    } catch {
+      return {};
+    }
+
+    try {
+      return this.parseConfig(content);
+    } catch (error) {
+      throw new Error(`Failed to parse ${this.displayName} config ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async writeConfig(document: Record<string, any>): Promise<void> {
+    await writeFileAtomic(await this.getConfigPath(), JSON.stringify(document, null, 2));
+  }
+}
+
+/**
+ * Claude Desktop: claude_desktop_config.json, located by ClaudeConfigManager
+ */
+export class ClaudeDesktopConfigAdapter extends JsonClientConfigAdapter {
+  readonly id = 'claude';
+  readonly displayName = 'Claude Desktop';
+
+  constructor(private claudeConfigManager: ClaudeConfigManager) {
+    super();
+  }
+
+  getConfigPath(): Promise<string> {
+    return this.claudeConfigManager.getConfigPath();
+  }
+
+  protected getDetectionPaths(): string[] {
+    const home = homedir();
+    return [
+      join(home, 'Library', 'Application Support', 'Claude'),
+      join(home, 'AppData', 'Roaming', 'Claude'),
+      join(home, '.config', 'Claude')
+    ];
+  }
+}
+
+/**
+ * Cursor: global ~/.cursor/mcp.json
+ */
+export class CursorConfigAdapter extends JsonClientConfigAdapter {
+  readonly id = 'cursor';
+  readonly displayName = 'Cursor';
+
+  async getConfigPath(): Promise<string> {
+    return join(homedir(), '.cursor', 'mcp.json');
+  }
+
+  protected getDetectionPaths(): string[] {
+    return [join(homedir(), '.cursor')];
+  }
+}
+
+/**
+ * VS Code: workspace .vscode/mcp.json with a "servers" map of typed entries
+ */
+export class VsCodeConfigAdapter extends JsonClientConfigAdapter {
+  readonly id = 'vscode';
+  readonly displayName = 'VS Code';
+  protected serversKey = 'servers';
+
+  constructor(private workspaceDir: string = process.cwd()) {
+    super();
+  }
+
+  async getConfigPath(): Promise<string> {
+    return join(this.workspaceDir, '.vscode', 'mcp.json');
+  }
+
+  protected getDetectionPaths(): string[] {
+    const home = homedir();
+    return [
+      join(this.workspaceDir, '.vscode'),
+      join(home, 'Library', 'Application Support', 'Code'),
+      join(home, 'AppData', 'Roaming', 'Code'),
+      join(home, '.config', 'Code')
+    ];
+  }
+
+  protected toClientEntry(config: ClientServerConfig): Record<string, unknown> {
+    return config.url
+      ? { type: 'http', url: config.url }
+      : { type: 'stdio', ...super.toClientEntry(config) };
+  }
+}
+
+/**
+ * Windsurf: ~/.codeium/windsurf/mcp_config.json
+ */
+export class WindsurfConfigAdapter extends JsonClientConfigAdapter {
+  readonly id = 'windsurf';
+  readonly displayName = 'Windsurf';
+
+  async getConfigPath(): Promise<string> {
+    return join(homedir(), '.codeium', 'windsurf', 'mcp_config.json');
+  }
+
+  protected getDetectionPaths(): string[] {
+    return [join(homedir(), '.codeium', 'windsurf')];
+  }
+
+  protected toClientEntry(config: ClientServerConfig): Record<string, unknown> {
+    return config.url ? { serverUrl: config.url } : super.toClientEntry(config);
+  }
+}
+
+/**
+ * Zed: "context_servers" in the editor's settings.json
+ */
+export class ZedConfigAdapter extends JsonClientConfigAdapter {
+  readonly id = 'zed';
+  readonly displayName = 'Zed';
+  protected serversKey = 'context_servers';
+
+  async getConfigPath(): Promise<string> {
+    return join(this.getConfigDir(), 'settings.json');
+  }
+
+  protected getDetectionPaths(): string[] {
+    return [this.getConfigDir()];
+  }
+
+  createEmptyConfig(): string {
+    return '{}';
+  }
+
+  protected toClientEntry(config: ClientServerConfig): Record<string, unknown> {
+    return config.url ? { url: config.url } : { source: 'custom', ...super.toClientEntry(config) };
+  }
+
+  protected fromClientEntry(entry: unknown): ClientServerConfig {
+    // Older Zed releases nest the command as { path, args, env }
+    if (isRecord(entry) && isRecord(entry.command)) {
+      return super.fromClientEntry({ ...entry.command, command: entry.command.path });
+    }
+    return super.fromClientEntry(entry);
+  }
+
+  private getConfigDir(): string {
+    return process.platform === 'win32'
+      ? join(homedir(), 'AppData', 'Roaming', 'Zed')
+      : join(homedir(), '.config', 'zed');
+  }
+}
+
+/**
+ * Continue: a Claude-format JSON file in ~/.continue/mcpServers, which Continue
+ * loads next to its own config. Servers defined in config.yaml are not managed.
+ */
+export class ContinueConfigAdapter extends JsonClientConfigAdapter {
+  readonly id = 'continue';
+  readonly displayName = 'Continue';
+
+  async getConfigPath(): Promise<string> {
+    return join(homedir(), '.continue', 'mcpServers', 'mcpl.json');
+  }
+
+  protected getDetectionPaths(): string[] {
+    return [join(homedir(), '.continue')];
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Remove // and /* *\/ comments and trailing commas outside of strings
+ */
+function stripJsonComments(content: string): string {
+  let result = '';
+  let inString = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    const next = content[index + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        index++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && next === '/') {
+      while (index < content.length && content[index] !== '\n') index++;
+      result += '\n';
+    } else if (char === '/' && next === '*') {
+      index = content.indexOf('*/', index + 2);
+      if (index === -1) break;
+      index++;
+    } else if (char === ',' && /^\s*[}\]]/.test(content.slice(index + 1).replace(/^(\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/, ''))) {
+      // Trailing comma (possibly followed by comments) before a closing bracket
+      continue;
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ClaudeConfigManager } from './claude-config-manager.js';
+import { ClientConfigRegistry } from './client-config-registry.js';
+
+describe('ClientConfigRegistry', () => {
+  let root: string;
+  let registry: ClientConfigRegistry;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mcpl-client-registry-'));
+    vi.stubEnv('HOME', root);
+    vi.spyOn(process, 'cwd').mockReturnValue(root);
+    const claudeConfigManager = { getConfigPath: async () => join(root, 'claude_desktop_config.json') };
+    registry = new ClientConfigRegistry(claudeConfigManager as unknown as ClaudeConfigManager);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should look clients up by id or alias', () => {
+    expect(registry.getIds()).toEqual(['claude', 'cursor', 'vscode', 'windsurf', 'zed', 'continue']);
+    expect(registry.get('Claude-Desktop').id).toBe('claude');
+    expect(registry.get('code').displayName).toBe('VS Code');
+    expect(registry.has('continue-dev')).toBe(true);
+    expect(() => registry.get('emacs')).toThrow('Unknown client "emacs". Supported clients: claude, cursor, vscode');
+  });
+
+  it('should only list clients installed on this machine', async () => {
+    expect(await registry.getDetected()).toEqual([]);
+
+    await mkdir(join(root, '.cursor'));
+    await mkdir(join(root, '.config', 'zed'), { recursive: true });
+    expect((await registry.getDetected()).map(adapter => adapter.id)).toEqual(['cursor', 'zed']);
+  });
+});
@@ -0,0 +1,80 @@
+// Registry of supported MCP client config adapters
+
+import { ClaudeConfigManager } from './claude-config-manager.js';
+import {
+  ClaudeDesktopConfigAdapter,
+  ClientConfigAdapter,
+  ContinueConfigAdapter,
+  CursorConfigAdapter,
+  VsCodeConfigAdapter,
+  WindsurfConfigAdapter,
+  ZedConfigAdapter
+} from './client-config-adapters.js';
+
+// Alternative names accepted for --client
+const CLIENT_ALIASES: Record<string, string> = {
+  'claude-desktop': 'claude',
+  'code': 'vscode',
+  'vs-code': 'vscode',
+  'continue-dev': 'continue'
+};
+
+export class ClientConfigRegistry {
+  private adapters = new Map<string, ClientConfigAdapter>();
+
+  constructor(claudeConfigManager: ClaudeConfigManager) {
+    for (const adapter of [
+      new ClaudeDesktopConfigAdapter(claudeConfigManager),
+      new CursorConfigAdapter(),
+      new VsCodeConfigAdapter(),
+      new WindsurfConfigAdapter(),
+      new ZedConfigAdapter(),
+      new ContinueConfigAdapter()
+    ]) {
+      this.register(adapter);
+    }
+  }
+
+  /**
+   * Add (or replace) the adapter for a client
+   */
+  register(adapter: ClientConfigAdapter): void {
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  /**
+   * Get the adapter for a client id or alias
+   */
+  get(client: string): ClientConfigAdapter {
+    const id = client.toLowerCase();
+    const adapter = this.adapters.get(CLIENT_ALIASES[id] || id);
+    if (!adapter) {
+      throw new Error(`Unknown client "${client}". Supported clients: ${this.getIds().join(', ')}`);
+    }
+    return adapter;
+  }
+
+  /**
+   * Check whether a client id or alias is supported
+   */
+  has(client: string): boolean {
+    const id = client.toLowerCase();
+    return this.adapters.has(CLIENT_ALIASES[id] || id);
+  }
+
+  getIds(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  list(): ClientConfigAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * Get the adapters of clients installed on this machine
+   */
+  async getDetected(): Promise<ClientConfigAdapter[]> {
+    const detected = await Promise.all(this.list().map(async adapter => (await adapter.isDetected()) ? adapter : null));
+    return detected.filter((adapter): adapter is ClientConfigAdapter => adapter !== null);
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ManagedServer } from '@mcplookup-org/mcp-sdk';
+import { HttpSessionHost } from '../transport/http-session-host.js';
+import { createClientTransport, getRemoteHeaders, isRemoteServer, usesOAuth } from './client-transport-factory.js';
+import { ServerLogStore } from './server-log-store.js';
+import { ServerRegistry } from './server-registry.js';
+
+function createServer(overrides: Partial<ManagedServer> = {}): ManagedServer {
+  return {
+    name: 'search',
+    type: 'remote',
+    mode: 'bridge',
+    command: [],
+    tools: [],
+    status: 'stopped',
+    transport: 'http',
+    endpoint: 'https://mcp.example.com/mcp',
+    ...overrides
+  };
+}
+
+describe('client-transport-factory', () => {
+  it('should pick the transport of the server', () => {
+    expect(createClientTransport(createServer())).toBeInstanceOf(StreamableHTTPClientTransport);
+    expect(createClientTransport(createServer({ transport: 'sse' }))).toBeInstanceOf(SSEClientTransport);
+    expect(createClientTransport(createServer({ type: 'npm', transport: undefined, command: ['npx', 'search'] })))
+      .toBeInstanceOf(StdioClientTransport);
+    expect(() => createClientTransport(createServer({ endpoint: undefined }))).toThrow('Server search has no endpoint configured');
+  });
+
+  it('should send custom headers and the bearer token', () => {
+    expect(getRemoteHeaders({ headers: { 'X-Team': 'core' }, bearerToken: 't0k' }))
+      .toEqual({ 'X-Team': 'core', Authorization: 'Bearer t0k' });
+  });
+
+  it('should only use OAuth for remote servers without credentials', () => {
+    expect(isRemoteServer({ transport: 'stdio' })).toBe(false);
+    expect(usesOAuth(createServer())).toBe(true);
+    expect(usesOAuth(createServer({ bearerToken: 't0k' }))).toBe(false);
+    expect(usesOAuth(createServer({ headers: { authorization: 'Basic abc' } }))).toBe(false);
+    expect(usesOAuth(createServer({ type: 'npm', transport: 'stdio' }))).toBe(false);
+  });
+
+  describe('remote servers in the registry', () => {
+    let root: string;
+    let host: HttpSessionHost<McpServer>;
+    let registry: ServerRegistry;
+
+    beforeEach(async () => {
+      root = await mkdtemp(join(tmpdir(), 'mcpl-remote-'));
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      host = new HttpSessionHost<McpServer>({
+        port: 0,
+        host: '127.0.0.1',
+        authenticate: req => req.headers.authorization === 'Bearer t0k' && req.headers['x-team'] === 'core',
+        createServer: () => {
+          const server = new McpServer({ name: 'remote', version: '1.0.0' });
+          server.tool('lookup', 'Look something up', async () => ({ content: [] }));
+          return server;
+        }
+      });
+      await host.listen();
+      registry = new ServerRegistry(undefined, undefined, undefined, undefined, new ServerLogStore({ logDir: root }));
+    });
+
+    afterEach(async () => {
+      await registry.close();
+      await host.close();
+      vi.restoreAllMocks();
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it('should connect with the configured headers and list the tools', async () => {
+      await registry.addServer(createServer({ endpoint: host.getUrl(), bearerToken: 't0k', headers: { 'X-Team': 'core' } }));
+      await registry.startServer('search');
+
+      expect(registry.getServer('search')).toMatchObject({ status: 'running', tools: ['lookup'] });
+      expect((await registry.getServerHealth('search')).status).toBe('running');
+    });
+
+    it('should fail to start when the server refuses the credentials', async () => {
+      await registry.addServer(createServer({ endpoint: host.getUrl(), bearerToken: 'wrong', headers: { 'X-Team': 'core' } }));
+
+      await expect(registry.startServer('search')).rejects.toThrow();
+      expect(registry.getServer('search')?.status).toBe('error');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+// Client transport factory for bridge-managed servers (stdio, streamable HTTP, SSE)
+
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import { ManagedServer } from '@mcplookup-org/mcp-sdk';
+import type { ChildProcess } from 'node:child_process';
+import { RecordingTransport } from '../recording/session-recorder.js';
+
+/**
+ * Check whether a server is reached over the network rather than spawned locally
+ */
+export function isRemoteServer(server: Pick<ManagedServer, 'transport'>): boolean {
+  return server.transport === 'http' || server.transport === 'sse';
+}
+
+/**
+ * Build the request headers for a remote server (custom headers plus bearer token)
+ */
+export function getRemoteHeaders(server: Pick<ManagedServer, 'headers' | 'bearerToken'>): Record<string, string> {
+  return {
+    ...server.headers,
+    ...(server.bearerToken && { Authorization: `Bearer ${server.bearerToken}` })
+  };
+}
+
+/**
+ * Check whether a remote server should authorize with OAuth, i.e. it has no
+ * static bearer token or Authorization header configured
+ */
+export function usesOAuth(server: Pick<ManagedServer, 'transport' | 'headers' | 'bearerToken'>): boolean {
+  return isRemoteServer(server) && !Object.keys(getRemoteHeaders(server)).some(name => name.toLowerCase() === 'authorization');
+}
+
+/**
+ * Create the client transport that connects to a managed server. With stderr
+ * 'pipe', a stdio server's stderr is readable from the transport's stderr
+ * stream instead of going to the bridge's own stderr. An authProvider is
+ * used by remote servers to attach and refresh OAuth tokens.
+ */
+export function createClientTransport(
+  server: ManagedServer,
+  options: { stderr?: 'pipe' | 'inherit'; authProvider?: OAuthClientProvider } = {}
+): Transport {
+  if (isRemoteServer(server)) {
+    if (!server.endpoint) {
+      throw new Error(`Server ${server.name} has no endpoint configured`);
+    }
+
+    const url = new URL(server.endpoint);
+    const requestInit: RequestInit = { headers: getRemoteHeaders(server) };
+    const authProvider = options.authProvider;
+
+    return server.transport === 'sse'
+      ? new SSEClientTransport(url, { requestInit, authProvider })
+      : new StreamableHTTPClientTransport(url, { requestInit, authProvider });
+  }
+
+  return new StdioClientTransport({
+    command: server.command[0],
+    args: server.command.slice(1),
+    ...(server.env && { env: { ...getDefaultEnvironment(), ...server.env } }),
+    ...(options.stderr && { stderr: options.stderr })
+  });
+}
+
+/**
+ * Get the process a started stdio transport spawned, to learn its exit code
+ * and signal. The SDK transport only reports that the connection closed, so
+ * this reads its private process handle.
+ */
+export function getChildProcess(transport: Transport): ChildProcess | undefined {
+  const inner = transport instanceof RecordingTransport ? transport.wrapped : transport;
+  if (!(inner instanceof StdioClientTransport)) {
+    return undefined;
+  }
+  return (inner as unknown as { _process?: ChildProcess })._process;
+}
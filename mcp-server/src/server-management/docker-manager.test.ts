@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BUILTIN_SANDBOX_PROFILES } from '../sandbox/sandbox-profiles.js';
+import { DockerManager } from './docker-manager.js';
+
+describe('DockerManager', () => {
+  describe('applySandboxProfile', () => {
+    let root: string;
+    const manager = new DockerManager({ memory: '256m', cpus: '1', pidsLimit: 50 });
+    const command = ['docker', 'run', '-i', '--rm', 'mcpl/server:1.0.0'];
+
+    beforeAll(() => {
+      root = mkdtempSync(join(tmpdir(), 'mcpl-sandbox-'));
+      mkdirSync(join(root, 'docs,readonly=false'));
+    });
+
+    afterAll(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should insert the isolation flags after docker run', async () => {
+      const sandboxed = await manager.applySandboxProfile(command, BUILTIN_SANDBOX_PROFILES['readonly-fs'], {
+        profile: 'readonly-fs',
+        workspace: root
+      });
+
+      expect(sandboxed.slice(0, 2)).toEqual(['docker', 'run']);
+      expect(sandboxed.slice(-3)).toEqual(['-i', '--rm', 'mcpl/server:1.0.0']);
+      expect(sandboxed).toEqual(expect.arrayContaining(['--network', 'none', '--read-only', '--cap-drop', 'ALL']));
+      expect(sandboxed[sandboxed.indexOf('--mount') + 1]).toBe(`type=bind,source=${root},target=/workspace,readonly`);
+      expect(sandboxed[sandboxed.indexOf('--memory') + 1]).toBe('256m');
+    });
+
+    it('should quote mount paths that contain commas', async () => {
+      const workspace = join(root, 'docs,readonly=false');
+      const sandboxed = await manager.applySandboxProfile(command, BUILTIN_SANDBOX_PROFILES['readonly-fs'], {
+        profile: 'readonly-fs',
+        workspace
+      });
+
+      expect(sandboxed[sandboxed.indexOf('--mount') + 1]).toBe(`type=bind,"source=${workspace}",target=/workspace,readonly`);
+    });
+
+    it('should refuse missing workspaces and mount sources', async () => {
+      await expect(manager.applySandboxProfile(command, BUILTIN_SANDBOX_PROFILES['workspace-rw'], { profile: 'workspace-rw' }))
+        .rejects.toThrow('needs a workspace');
+      await expect(manager.applySandboxProfile(command, BUILTIN_SANDBOX_PROFILES['workspace-rw'], {
+        profile: 'workspace-rw',
+        workspace: join(root, 'missing')
+      })).rejects.toThrow('does not exist');
+    });
+  });
+
+  it('should run a command under another container name', () => {
+    const manager = new DockerManager();
+    expect(manager.setContainerName(['docker', 'run', '--rm', '--name', 'mcp-github', 'image'], 'mcp-github-copy'))
+      .toEqual(['docker', 'run', '--rm', '--name', 'mcp-github-copy', 'image']);
+    expect(manager.setContainerName(['docker', 'run', '-i', 'image'], 'mcp-github-copy'))
+      .toEqual(['docker', 'run', '--name', 'mcp-github-copy', '-i', 'image']);
+  });
+
+  it('should not offer the DNS-only allowlist as a built-in profile', () => {
+    expect(Object.values(BUILTIN_SANDBOX_PROFILES).map(profile => profile.network)).not.toContain('allowlist');
+  });
+});
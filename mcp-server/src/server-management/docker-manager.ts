@@ -1,21 +1,267 @@
 // Docker container management for MCP servers
 
-import { ManagedServer } from '@mcplookup-org/mcp-sdk';
+import type { ChildProcess } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { createReadStream, createWriteStream, existsSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { resolve as resolvePath } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { ManagedServer, SandboxProfile, ServerSandbox, fetchLatestVersion } from '@mcplookup-org/mcp-sdk';
+
+export interface DockerManagerOptions {
+  image?: string; // base image npm servers run in
+  pythonImage?: string; // base image Python servers run in
+  memory?: string; // docker --memory value, e.g. 512m
+  cpus?: string; // docker --cpus value, e.g. 0.5
+  pidsLimit?: number;
+}
+
+/**
+ * A package version baked into a local image
+ */
+export interface PackageImageRef {
+  type: 'npm' | 'python';
+  packageName: string;
+  version: string;
+}
+
+export interface PackageImage extends PackageImageRef {
+  id: string;
+  tag: string;
+  createdAt: string;
+  size: number; // bytes
+  current: boolean; // built from the current recipe and base image
+}
+
+const PACKAGE_IMAGE_REPOSITORY = 'mcpl';
+const LABEL_PREFIX = 'org.mcplookup';
 
 export class DockerManager {
+  private options: Required<DockerManagerOptions>;
+
+  constructor(options: DockerManagerOptions = {}) {
+    this.options = {
+      image: options.image || 'node:18-alpine',
+      pythonImage: options.pythonImage || 'python:3.12-slim',
+      memory: options.memory || '512m',
+      cpus: options.cpus || '0.5',
+      pidsLimit: options.pidsLimit ?? 100
+    };
+  }
+
   /**
    * Dockerize an npm package into a runnable container command
    */
   async dockerizeNpmServer(server: ManagedServer, env: Record<string, string> = {}): Promise<void> {
-    const packageName = server.command[1]; // npx <package-name>
+    await this.dockerizePackageServer(server, 'npm', env);
+  }
+
+  /**
+   * Dockerize a Python package into a runnable container command
+   */
+  async dockerizePythonServer(server: ManagedServer, env: Record<string, string> = {}): Promise<void> {
+    await this.dockerizePackageServer(server, 'python', env);
+  }
+
+  /**
+   * Run a package server from a prebuilt image of its exact version, building it on first use
+   */
+  private async dockerizePackageServer(server: ManagedServer, type: PackageImageRef['type'], env: Record<string, string>): Promise<void> {
+    const packageName = server.source?.packageName || server.command[server.command.length - 1]; // npx/uvx <package-name>
+    const version = server.source?.version || await fetchLatestVersion({ type, packageName });
+    if (!version) {
+      throw new Error(`Could not determine the latest version of ${packageName}`);
+    }
+
+    const ref = { type, packageName, version };
+    const image = await this.ensurePackageImage(ref);
 
-    // Use the centralized Docker command creation
-    server.command = this.createNpmDockerCommand(packageName, {
+    server.command = this.createPackageImageCommand(image, {
       containerName: `mcp-${server.name}`,
       mode: 'bridge',
-      env,
-      includePortMapping: false // Bridge mode doesn't need port mapping for stdio
+      env
     });
+    server.source = { query: packageName, packageName, type, ...server.source, version };
+  }
+
+  /**
+   * Get the deterministic image name for a package version, e.g.
+   * mcpl/npm-modelcontextprotocol-server-github:2025.4.8
+   */
+  getPackageImageTag(ref: PackageImageRef): string {
+    const slug = ref.packageName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    const tag = ref.version.replace(/[^A-Za-z0-9_.-]/g, '_').slice(0, 128);
+    return `${PACKAGE_IMAGE_REPOSITORY}/${ref.type}-${slug}:${tag}`;
+  }
+
+  /**
+   * Generate the Dockerfile for a package image. Packages are installed at build
+   * time so containers start without network access, and run as a non-root user.
+   */
+  createPackageDockerfile(ref: PackageImageRef): string {
+    if (ref.type === 'python') {
+      // Console scripts are named after the package, as uvx assumes
+      return [
+        `FROM ${this.options.pythonImage}`,
+        'ENV PIP_DISABLE_PIP_VERSION_CHECK=1 PYTHONUNBUFFERED=1',
+        `RUN pip install --no-cache-dir ${JSON.stringify(`${ref.packageName}==${ref.version}`)} \\`,
+        '  && useradd --create-home --uid 10001 mcp',
+        'USER mcp',
+        `ENTRYPOINT ${JSON.stringify([ref.packageName])}`,
+        ''
+      ].join('\n');
+    }
+
+    return [
+      `FROM ${this.options.image}`,
+      'ENV NODE_ENV=production NPM_CONFIG_UPDATE_NOTIFIER=false',
+      'WORKDIR /app',
+      `RUN npm install --omit=dev --no-audit --no-fund ${JSON.stringify(`${ref.packageName}@${ref.version}`)} \\`,
+      '  && npm cache clean --force',
+      'USER node',
+      `ENTRYPOINT ${JSON.stringify(['npx', '--no-install', ref.packageName])}`,
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Build a package image unless one from the same recipe already exists.
+   * Returns the image tag.
+   */
+  async ensurePackageImage(ref: PackageImageRef, options: { rebuild?: boolean } = {}): Promise<string> {
+    const tag = this.getPackageImageTag(ref);
+    const dockerfile = this.createPackageDockerfile(ref);
+    const recipe = createHash('sha256').update(dockerfile).digest('hex').slice(0, 16);
+
+    if (!options.rebuild) {
+      const existing = await this.runDocker(['image', 'inspect', '--format', `{{ index .Config.Labels "${LABEL_PREFIX}.recipe" }}`, tag]);
+      if (existing.code === 0 && existing.stdout.trim() === recipe) {
+        return tag;
+      }
+    }
+
+    if (!(await this.isDockerAvailable())) {
+      throw new Error(`Docker is required to build an image for ${ref.packageName}`);
+    }
+
+    console.error(`🐳 Building ${tag}...`);
+    const result = await this.runDocker([
+      'build',
+      ...(options.rebuild ? ['--pull', '--no-cache'] : []),
+      '--tag', tag,
+      '--label', `${LABEL_PREFIX}.managed=true`,
+      '--label', `${LABEL_PREFIX}.type=${ref.type}`,
+      '--label', `${LABEL_PREFIX}.package=${ref.packageName}`,
+      '--label', `${LABEL_PREFIX}.version=${ref.version}`,
+      '--label', `${LABEL_PREFIX}.recipe=${recipe}`,
+      '-'
+    ], dockerfile);
+
+    if (result.code !== 0) {
+      const output = result.stderr.trim().split('\n').slice(-10).join('\n');
+      throw new Error(`Failed to build ${tag} (exit code ${result.code}):\n${output}`);
+    }
+    return tag;
+  }
+
+  /**
+   * Create the command that runs a prebuilt package image
+   */
+  createPackageImageCommand(
+    image: string,
+    options: {
+      containerName: string;
+      mode?: 'bridge' | 'direct';
+      env?: Record<string, string>;
+    }
+  ): string[] {
+    let command = ['docker', 'run', '--rm', '-i', '--name', options.containerName, image];
+
+    if (options.env && Object.keys(options.env).length > 0) {
+      command = this.addEnvironmentVariables(command, options.env);
+    }
+
+    if (options.mode === 'direct') {
+      command = this.addResourceLimits(command, {
+        memory: this.options.memory,
+        cpus: this.options.cpus,
+        pidsLimit: this.options.pidsLimit
+      });
+      command = this.addSecurityOptions(command);
+    }
+
+    return command;
+  }
+
+  /**
+   * Find the package image a server runs, if it runs one
+   */
+  getServerPackageImage(server: Pick<ManagedServer, 'command' | 'source'>): PackageImageRef | undefined {
+    const source = server.source;
+    if (!source?.version || (source.type !== 'npm' && source.type !== 'python')) {
+      return undefined;
+    }
+
+    const ref = { type: source.type, packageName: source.packageName, version: source.version };
+    return server.command.includes(this.getPackageImageTag(ref)) ? ref : undefined;
+  }
+
+  /**
+   * Point a package image command at another version of the same package
+   */
+  retagPackageImage(command: string[], ref: PackageImageRef, version: string): string[] {
+    const current = this.getPackageImageTag(ref);
+    const next = this.getPackageImageTag({ ...ref, version });
+    return command.map(part => part === current ? next : part);
+  }
+
+  /**
+   * List the package images built by mcpl
+   */
+  async listPackageImages(): Promise<PackageImage[]> {
+    const ids = await this.runDocker(['image', 'ls', '--quiet', '--no-trunc', '--filter', `label=${LABEL_PREFIX}.managed=true`]);
+    const unique = [...new Set(ids.stdout.split('\n').map(id => id.trim()).filter(Boolean))];
+    if (ids.code !== 0 || unique.length === 0) {
+      return [];
+    }
+
+    const inspected = await this.runDocker(['image', 'inspect', ...unique]);
+    if (inspected.code !== 0) {
+      return [];
+    }
+
+    const images: PackageImage[] = [];
+    for (const image of JSON.parse(inspected.stdout) as any[]) {
+      const labels = image.Config?.Labels || {};
+      const ref: PackageImageRef = {
+        type: labels[`${LABEL_PREFIX}.type`],
+        packageName: labels[`${LABEL_PREFIX}.package`],
+        version: labels[`${LABEL_PREFIX}.version`]
+      };
+      const recipe = createHash('sha256').update(this.createPackageDockerfile(ref)).digest('hex').slice(0, 16);
+
+      for (const tag of image.RepoTags?.length ? image.RepoTags : ['<none>']) {
+        images.push({
+          ...ref,
+          id: String(image.Id).replace(/^sha256:/, '').slice(0, 12),
+          tag,
+          createdAt: image.Created,
+          size: image.Size,
+          current: labels[`${LABEL_PREFIX}.recipe`] === recipe
+        });
+      }
+    }
+
+    return images.sort((a, b) => a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Remove a package image by tag or id
+   */
+  async removeImage(image: string): Promise<boolean> {
+    const result = await this.runDocker(['image', 'rm', image]);
+    return result.code === 0;
   }
 
   /**
@@ -43,7 +289,7 @@ export class DockerManager {
       'docker', 'run', '--rm', '-i',
       '--name', containerName,
       ...(includePortMapping ? ['-p', '0:3000'] : []), // Only add port mapping if needed
-      'node:18-alpine',
+      this.options.image,
       'sh', '-c',
       `npm install -g ${packageName} && npx ${packageName}`
     ];
@@ -58,9 +304,9 @@ export class DockerManager {
     if (mode === 'direct') {
       // Direct mode gets full security hardening
       command = this.addResourceLimits(command, {
-        memory: '512m',
-        cpus: '0.5',
-        pidsLimit: 100
+        memory: this.options.memory,
+        cpus: this.options.cpus,
+        pidsLimit: this.options.pidsLimit
       });
       command = this.addSecurityOptions(command);
     }
@@ -108,6 +354,22 @@ export class DockerManager {
     return `mcp-${server.name}`;
   }
 
+  /**
+   * Run a Docker command under another container name, replacing its --name
+   * or adding one after docker run
+   */
+  setContainerName(command: string[], containerName: string): string[] {
+    const nameIndex = command.indexOf('--name');
+    if (nameIndex !== -1 && nameIndex + 1 < command.length) {
+      return [...command.slice(0, nameIndex + 1), containerName, ...command.slice(nameIndex + 2)];
+    }
+
+    const runIndex = command.indexOf('run');
+    return runIndex === -1
+      ? command
+      : [...command.slice(0, runIndex + 1), '--name', containerName, ...command.slice(runIndex + 1)];
+  }
+
   /**
    * Add security options to Docker command
    */
@@ -200,11 +462,11 @@ export class DockerManager {
       command = this.addEnvironmentVariables(command, env);
     }
 
-    // Add resource limits (reasonable defaults)
+    // Add resource limits
     command = this.addResourceLimits(command, {
-      memory: '512m',
-      cpus: '0.5',
-      pidsLimit: 100
+      memory: this.options.memory,
+      cpus: this.options.cpus,
+      pidsLimit: this.options.pidsLimit
     });
 
     // Add security options
@@ -213,6 +475,114 @@ export class DockerManager {
     return command;
   }
 
+  /**
+   * Add a sandbox profile's isolation flags to a Docker command. Limits the
+   * profile leaves unset fall back to the manager's defaults.
+   *
+   * Network "allowlist" keeps the bridge network but points DNS at an address
+   * with no resolver and pins the allowed hosts in /etc/hosts, so only those
+   * names resolve. It does not stop a server from connecting to raw IPs, which
+   * is why no built-in profile uses it.
+   */
+  async applySandboxProfile(command: string[], profile: SandboxProfile, sandbox: ServerSandbox): Promise<string[]> {
+    const options: string[] = [];
+
+    if (profile.network === 'none') {
+      options.push('--network', 'none');
+    } else if (profile.network === 'allowlist') {
+      options.push('--network', 'bridge', '--dns', '127.0.0.1');
+      const hosts = [...new Set([...(profile.allowedHosts || []), ...(sandbox.allowedHosts || [])])];
+      for (const host of hosts) {
+        const addresses = await lookup(host, { all: true }).catch(() => []);
+        if (addresses.length === 0) {
+          throw new Error(`Could not resolve allowed host ${host}`);
+        }
+        addresses.forEach(({ address }) => options.push('--add-host', `${host}:${address}`));
+      }
+    }
+
+    for (const mount of profile.mounts || []) {
+      if (mount.source.includes('${workspace}') && !sandbox.workspace) {
+        throw new Error(`Sandbox profile ${sandbox.profile} needs a workspace directory`);
+      }
+      const source = resolvePath(mount.source
+        .replace(/\$\{workspace\}/g, sandbox.workspace || '')
+        .replace(/^~(?=$|\/)/, homedir()));
+      if (!existsSync(source)) {
+        throw new Error(`Sandbox mount source ${source} does not exist`);
+      }
+      options.push('--mount', ['type=bind', `source=${source}`, `target=${mount.target}`, ...(mount.readOnly ? ['readonly'] : [])]
+        .map(toCsvField)
+        .join(','));
+    }
+
+    if (profile.readOnlyRootfs) {
+      options.push('--read-only');
+    }
+    for (const path of profile.tmpfs || []) {
+      options.push('--tmpfs', `${path}:rw,nosuid,size=64m,mode=1777`);
+    }
+    for (const capability of profile.capDrop || []) {
+      options.push('--cap-drop', capability);
+    }
+    for (const capability of profile.capAdd || []) {
+      options.push('--cap-add', capability);
+    }
+    if (profile.seccomp) {
+      options.push('--security-opt', `seccomp=${profile.seccomp.replace(/^~(?=$|\/)/, homedir())}`);
+    }
+    if (profile.noNewPrivileges) {
+      options.push('--security-opt', 'no-new-privileges:true');
+    }
+
+    options.push(
+      '--memory', profile.memory || this.options.memory,
+      '--cpus', profile.cpus || this.options.cpus,
+      '--pids-limit', String(profile.pidsLimit ?? this.options.pidsLimit)
+    );
+
+    const runIndex = command.indexOf('run');
+    if (runIndex === -1) {
+      throw new Error('Sandbox profiles only apply to "docker run" commands');
+    }
+    return [
+      ...command.slice(0, runIndex + 1),
+      ...options,
+      ...command.slice(runIndex + 1)
+    ];
+  }
+
+  /**
+   * Run a docker CLI command to completion, optionally feeding it stdin
+   */
+  private async runDocker(args: string[], input?: string): Promise<{ code: number; stdout: string; stderr: string }> {
+    const { spawn } = await import('node:child_process');
+    return new Promise((resolve) => {
+      const process = spawn('docker', args, {
+        stdio: [input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe']
+      });
+
+      let stdout = '';
+      let stderr = '';
+      process.stdout?.on('data', (data) => {
+        stdout += data.toString();
+      });
+      process.stderr?.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      process.on('close', (code) => {
+        resolve({ code: code ?? 1, stdout, stderr });
+      });
+
+      process.on('error', (error) => {
+        resolve({ code: 127, stdout, stderr: error.message });
+      });
+
+      process.stdin?.end(input);
+    });
+  }
+
   /**
    * Check if Docker is available
    */
@@ -344,4 +714,115 @@ export class DockerManager {
       return 'Error retrieving logs';
     }
   }
+
+  /**
+   * List the Docker volumes that belong to bridge servers: named volumes their
+   * docker commands mount and volumes labelled as managed by mcpl. Volumes of
+   * other tools are left out even when their names look alike.
+   */
+  async listVolumes(servers: ManagedServer[]): Promise<string[]> {
+    const [all, labelled] = await Promise.all([
+      this.runDocker(['volume', 'ls', '--format', '{{.Name}}']),
+      this.runDocker(['volume', 'ls', '--format', '{{.Name}}', '--filter', `label=${LABEL_PREFIX}.managed=true`])
+    ]);
+    if (all.code !== 0) {
+      return [];
+    }
+
+    const wanted = new Set(servers.flatMap(server => this.getMountedVolumes(server.command)));
+    if (labelled.code === 0) {
+      labelled.stdout.split('\n').map(line => line.trim()).filter(Boolean).forEach(name => wanted.add(name));
+    }
+
+    // Only volumes that exist; docker run creates the others on first start
+    return all.stdout.split('\n').map(line => line.trim()).filter(name => wanted.has(name));
+  }
+
+  /**
+   * Named volumes mounted by a docker run command (-v name:/path or --mount source=name)
+   */
+  private getMountedVolumes(command: string[]): string[] {
+    if (command[0] !== 'docker' || command[1] !== 'run') {
+      return [];
+    }
+
+    const volumes: string[] = [];
+    for (let i = 2; i < command.length; i++) {
+      const arg = command[i];
+      if ((arg === '-v' || arg === '--volume') && command[i + 1]) {
+        const source = command[++i].split(':')[0];
+        // Bind mounts are paths; named volumes are plain names
+        if (/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(source) && command[i].includes(':')) {
+          volumes.push(source);
+        }
+      } else if (arg === '--mount' && command[i + 1]) {
+        const fields = Object.fromEntries(command[++i].split(',').map(field => field.split('=') as [string, string]));
+        const source = fields.source || fields.src;
+        if (source && (fields.type || 'volume') === 'volume') {
+          volumes.push(source);
+        }
+      }
+    }
+    return volumes;
+  }
+
+  /**
+   * Export a Docker volume as a gzipped tarball, streamed to a file
+   */
+  async exportVolume(volumeName: string, path: string): Promise<void> {
+    const { spawn } = await import('node:child_process');
+    const child = spawn('docker', [
+      'run', '--rm', '-v', `${volumeName}:/data:ro`, 'alpine',
+      'tar', '-czf', '-', '-C', '/data', '.'
+    ], {
+      stdio: ['ignore', 'pipe', 'ignore']
+    });
+
+    const [, code] = await Promise.all([
+      pipeline(child.stdout!, createWriteStream(path, { mode: 0o600 })),
+      exitCode(child)
+    ]);
+    if (code !== 0) {
+      throw new Error(`Failed to export volume ${volumeName} (exit code ${code})`);
+    }
+  }
+
+  /**
+   * Replace the contents of a Docker volume with a gzipped tarball file
+   */
+  async importVolume(volumeName: string, path: string): Promise<void> {
+    const { spawn } = await import('node:child_process');
+    const child = spawn('docker', [
+      'run', '--rm', '-i', '-v', `${volumeName}:/data`, 'alpine',
+      'sh', '-c', 'find /data -mindepth 1 -delete && tar -xzf - -C /data'
+    ], {
+      stdio: ['pipe', 'ignore', 'ignore']
+    });
+
+    const [, code] = await Promise.all([
+      pipeline(createReadStream(path), child.stdin!),
+      exitCode(child)
+    ]);
+    if (code !== 0) {
+      throw new Error(`Failed to import volume ${volumeName} (exit code ${code})`);
+    }
+  }
+}
+
+/**
+ * Wait for a child process to exit
+ */
+function exitCode(child: ChildProcess): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    child.once('close', resolve);
+    child.once('error', reject);
+  });
+}
+
+/**
+ * Quote a --mount field when needed: Docker reads the value as CSV, so a comma
+ * in a path would otherwise start another option
+ */
+function toCsvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
 }
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readdir, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { ServerLogEntry } from '@mcplookup-org/mcp-sdk';
+import { ServerLogStore } from './server-log-store.js';
+
+describe('ServerLogStore', () => {
+  let logDir: string;
+
+  beforeEach(async () => {
+    logDir = await mkdtemp(join(tmpdir(), 'mcpl-logs-'));
+  });
+
+  afterEach(async () => {
+    await rm(logDir, { recursive: true, force: true });
+  });
+
+  it('should append timestamped lines to a private file per server', async () => {
+    const store = new ServerLogStore({ logDir });
+    await store.append('github', 'stderr', 'first\r\n\nsecond\n');
+    await store.append('github', 'bridge', 'Restarted');
+    await store.append('other', 'stderr', 'unrelated');
+
+    expect((await stat(store.getPath('github'))).mode & 0o777).toBe(0o600);
+    expect((await store.read('github')).map(entry => [entry.stream, entry.message])).toEqual([
+      ['stderr', 'first'],
+      ['stderr', 'second'],
+      ['bridge', 'Restarted']
+    ]);
+  });
+
+  it('should keep odd server names inside the log directory', async () => {
+    const store = new ServerLogStore({ logDir });
+    expect(store.getPath('../escape')).toBe(join(logDir, '.._escape', 'server.log'));
+    expect(store.getPath('..')).toBe(join(logDir, '__', 'server.log'));
+  });
+
+  it('should filter by pattern, time and limit', async () => {
+    const store = new ServerLogStore({ logDir });
+    await store.append('github', 'stderr', 'error: one\ninfo: two\nerror: three');
+
+    expect((await store.read('github', { grep: /^error/ })).map(entry => entry.message)).toEqual(['error: one', 'error: three']);
+    expect((await store.read('github', { grep: 'o: t' })).map(entry => entry.message)).toEqual(['info: two']);
+    expect(await store.read('github', { grep: '(a+)+$' })).toEqual([]);
+    expect((await store.read('github', { limit: 1 })).map(entry => entry.message)).toEqual(['error: three']);
+    expect(await store.read('github', { since: new Date(Date.now() + 60000) })).toEqual([]);
+    expect(await store.read('missing')).toEqual([]);
+  });
+
+  it('should truncate runaway lines', async () => {
+    const store = new ServerLogStore({ logDir });
+    await store.append('github', 'stderr', 'x'.repeat(20000));
+
+    const [entry] = await store.read('github');
+    expect(entry.message.endsWith('… (20000 chars)')).toBe(true);
+  });
+
+  it('should rotate files and read across them oldest first', async () => {
+    const store = new ServerLogStore({ logDir, maxFileSize: 100, maxFiles: 2 });
+    for (let i = 0; i < 8; i++) {
+      await store.append('github', 'stderr', `line ${i}`);
+    }
+    // A server whose name looks like a rotated file keeps its own log
+    await store.append('github.1', 'stderr', 'other server');
+
+    expect((await readdir(join(logDir, 'github'))).sort()).toEqual(['server.1.log', 'server.2.log', 'server.log']);
+    expect((await store.read('github')).map(entry => entry.message)).toEqual(['line 2', 'line 3', 'line 4', 'line 5', 'line 6', 'line 7']);
+    expect((await store.read('github.1')).map(entry => entry.message)).toEqual(['other server']);
+
+    await store.remove('github');
+    expect(await readdir(logDir)).toEqual(['github.1']);
+  });
+
+  it('should capture a stream line by line, including a final partial line', async () => {
+    const store = new ServerLogStore({ logDir });
+    const output = new PassThrough();
+    store.capture('github', output);
+
+    output.write('start');
+    output.write('ing\nread');
+    output.end(Buffer.from('y'));
+
+    await vi.waitFor(async () => {
+      expect((await store.read('github')).map(entry => entry.message)).toEqual(['starting', 'ready']);
+    });
+  });
+
+  it('should follow lines appended after it starts', async () => {
+    const store = new ServerLogStore({ logDir });
+    await store.append('github', 'stderr', 'before');
+
+    const entries: ServerLogEntry[] = [];
+    const stop = store.follow('github', entry => entries.push(entry), { grep: /keep/ });
+    try {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await store.append('github', 'stderr', 'keep this\ndrop this');
+
+      await vi.waitFor(() => {
+        expect(entries.map(entry => entry.message)).toEqual(['keep this']);
+      }, { timeout: 2000 });
+    } finally {
+      stop();
+    }
+  });
+});
@@ -0,0 +1,241 @@
+// Rotating per-server log files with the stderr output of managed servers
+
+import { appendFile, mkdir, open, readdir, readFile, rename, rm, stat } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { Stream } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import { ServerLogEntry, ServerLogFilter } from '@mcplookup-org/mcp-sdk';
+
+export interface ServerLogStoreOptions {
+  logDir?: string;
+  maxFileSize?: number; // bytes before a server's active file is rotated
+  maxFiles?: number; // rotated files kept per server besides the active one
+}
+
+const LINE_PATTERN = /^(\S+) \[(stderr|bridge)\] (.*)$/;
+const LOG_FILE_PATTERN = /^server(?:\.(\d+))?\.log$/;
+const MAX_LINE_LENGTH = 16 * 1024;
+const FOLLOW_INTERVAL_MS = 500;
+
+/**
+ * Timestamped log of each managed server's stderr and of bridge lifecycle
+ * events (start, exit, restart). Docker servers run attached, so their
+ * container's stderr arrives the same way.
+ */
+export class ServerLogStore {
+  private logDir: string;
+  private maxFileSize: number;
+  private maxFiles: number;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: ServerLogStoreOptions = {}) {
+    this.logDir = options.logDir || join(homedir(), '.mcpl', 'logs', 'servers');
+    this.maxFileSize = options.maxFileSize ?? 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 3;
+  }
+
+  /**
+   * Get the path of a server's active log file. Each server has a directory,
+   * so rotated files never collide with another server's name.
+   */
+  getPath(server: string): string {
+    return join(this.getServerDir(server), 'server.log');
+  }
+
+  /**
+   * Append lines of output to a server's log. Failures are reported but never
+   * affect the server.
+   */
+  async append(server: string, stream: ServerLogEntry['stream'], message: string): Promise<void> {
+    const timestamp = new Date().toISOString();
+    const text = message
+      .split(/\r?\n/)
+      .filter(line => line.length > 0)
+      .map(line => `${timestamp} [${stream}] ${truncate(line)}\n`)
+      .join('');
+
+    if (!text) {
+      return this.writes;
+    }
+
+    // Serialize writes so rotation never races an append from this process
+    this.writes = this.writes.then(async () => {
+      try {
+        await mkdir(this.getServerDir(server), { recursive: true });
+        await this.rotateIfNeeded(server, Buffer.byteLength(text));
+        await appendFile(this.getPath(server), text, { encoding: 'utf-8', mode: 0o600 });
+      } catch (error) {
+        console.error(`Failed to write log of '${server}':`, error instanceof Error ? error.message : String(error));
+      }
+    });
+
+    return this.writes;
+  }
+
+  /**
+   * Log a server's output stream line by line until it ends
+   */
+  capture(server: string, output: Stream): void {
+    const decoder = new StringDecoder('utf-8');
+    let partial = '';
+
+    output.on('data', (chunk: Buffer | string) => {
+      const lines = (partial + (typeof chunk === 'string' ? chunk : decoder.write(chunk))).split('\n');
+      partial = lines.pop() || '';
+
+      // Flush runaway lines that never end
+      if (partial.length > MAX_LINE_LENGTH) {
+        lines.push(partial);
+        partial = '';
+      }
+      if (lines.length > 0) {
+        void this.append(server, 'stderr', lines.join('\n'));
+      }
+    });
+    output.on('end', () => {
+      partial += decoder.end();
+      if (partial) {
+        void this.append(server, 'stderr', partial);
+        partial = '';
+      }
+    });
+  }
+
+  /**
+   * Read a server's log (oldest first) across rotated files, applying a filter.
+   * With a limit, the most recent matching lines are returned.
+   */
+  async read(server: string, filter: ServerLogFilter = {}): Promise<ServerLogEntry[]> {
+    const entries: ServerLogEntry[] = [];
+
+    for (const file of await this.getLogFiles(server)) {
+      const content = await readFile(join(this.getServerDir(server), file), 'utf-8').catch(() => '');
+      entries.push(...parseLines(content).filter(entry => matches(entry, filter)));
+    }
+
+    return filter.limit ? entries.slice(-filter.limit) : entries;
+  }
+
+  /**
+   * Call onEntry for every line appended to a server's log from now on, until
+   * the returned function is called
+   */
+  follow(server: string, onEntry: (entry: ServerLogEntry) => void, filter: Pick<ServerLogFilter, 'grep'> = {}): () => void {
+    const path = this.getPath(server);
+    let offset: number | undefined;
+    let partial = '';
+    let polling = false;
+
+    const poll = async () => {
+      if (polling) return;
+      polling = true;
+
+      try {
+        const size = await stat(path).then(stats => stats.size).catch(() => 0);
+        if (offset === undefined || size < offset) {
+          // First poll starts at the end; a smaller file was rotated and starts over
+          offset = offset === undefined ? size : 0;
+          partial = '';
+        }
+        if (size === offset) return;
+
+        const handle = await open(path, 'r');
+        try {
+          const buffer = Buffer.alloc(size - offset);
+          await handle.read(buffer, 0, buffer.length, offset);
+          offset = size;
+
+          const lines = (partial + buffer.toString('utf-8')).split('\n');
+          partial = lines.pop() || '';
+          parseLines(lines.join('\n')).filter(entry => matches(entry, filter)).forEach(onEntry);
+        } finally {
+          await handle.close();
+        }
+      } catch (error) {
+        console.error(`Failed to follow log of '${server}':`, error instanceof Error ? error.message : String(error));
+      } finally {
+        polling = false;
+      }
+    };
+
+    void poll();
+    const timer = setInterval(() => void poll(), FOLLOW_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Delete a server's log files (e.g. when the server is removed)
+   */
+  async remove(server: string): Promise<void> {
+    await this.writes;
+    await rm(this.getServerDir(server), { recursive: true, force: true });
+  }
+
+  private getServerDir(server: string): string {
+    return join(this.logDir, toFileName(server));
+  }
+
+  /**
+   * List a server's log files from oldest rotation to the active file
+   */
+  private async getLogFiles(server: string): Promise<string[]> {
+    const files = await readdir(this.getServerDir(server)).catch(() => [] as string[]);
+
+    return files
+      .map(file => ({ file, match: LOG_FILE_PATTERN.exec(file) }))
+      .filter(({ match }) => match)
+      .sort((a, b) => parseInt(b.match![1] || '0', 10) - parseInt(a.match![1] || '0', 10))
+      .map(({ file }) => file);
+  }
+
+  private async rotateIfNeeded(server: string, incomingBytes: number): Promise<void> {
+    const path = this.getPath(server);
+    const size = await stat(path).then(stats => stats.size).catch(() => 0);
+    if (size === 0 || size + incomingBytes <= this.maxFileSize) {
+      return;
+    }
+
+    const rotated = (index: number) => join(this.getServerDir(server), `server.${index}.log`);
+
+    await rm(rotated(this.maxFiles), { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      await rename(rotated(index), rotated(index + 1)).catch(() => undefined);
+    }
+    await rename(path, rotated(1));
+  }
+}
+
+function parseLines(content: string): ServerLogEntry[] {
+  const entries: ServerLogEntry[] = [];
+
+  for (const line of content.split('\n')) {
+    const match = LINE_PATTERN.exec(line);
+    if (match) {
+      entries.push({ timestamp: match[1], stream: match[2] as ServerLogEntry['stream'], message: match[3] });
+    }
+  }
+
+  return entries;
+}
+
+function matches(entry: ServerLogEntry, filter: ServerLogFilter): boolean {
+  const time = new Date(entry.timestamp).getTime();
+
+  return (!filter.since || time >= filter.since.getTime())
+    && (!filter.until || time <= filter.until.getTime())
+    && (!filter.grep || (typeof filter.grep === 'string' ? entry.message.includes(filter.grep) : filter.grep.test(entry.message)));
+}
+
+/**
+ * Server names are identifiers, but keep anything else out of the path
+ */
+function toFileName(server: string): string {
+  const name = server.replace(/[^\w.-]/g, '_');
+  return /^\.*$/.test(name) ? name.replace(/\./g, '_') || '_' : name;
+}
+
+function truncate(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}… (${line.length} chars)` : line;
+}
+
@@ -1,30 +1,165 @@
 // Server registry for managing bridge-mode servers
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { ManagedServer } from '@mcplookup-org/mcp-sdk';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ClientCapabilities, CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ManagedServer, SecretVault, findSecretRefs, readSecretPassphrase } from '@mcplookup-org/mcp-sdk';
 import { DockerManager } from './docker-manager.js';
+import { SandboxProfileStore } from '../sandbox/sandbox-profiles.js';
+import { ServerStateStore } from './server-state-store.js';
+import { createClientTransport, getChildProcess, isRemoteServer, usesOAuth } from './client-transport-factory.js';
+import { CassetteRecorder, RecordingTransport } from '../recording/session-recorder.js';
+import { ServerLogStore } from './server-log-store.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { DEFAULT_RESTART_POLICY, ServerSupervisor, SupervisorOptions } from './server-supervisor.js';
+import { LoopbackOAuthProvider, connectWithAuthorization } from '../auth/oauth-client.js';
+import { OAuthCredentialStore } from '../auth/oauth-credential-store.js';
+import { ElicitRequestSchema, ServerRequestRelay } from '../tools/notification-relay.js';
 
 export class ServerRegistry {
   private servers = new Map<string, ManagedServer>();
   private dockerManager: DockerManager;
+  private sandboxProfiles: SandboxProfileStore;
+  private stateStore?: ServerStateStore;
+  private reconnectListeners: Array<(server: ManagedServer) => void | Promise<void>> = [];
+  private recorders = new Map<string, CassetteRecorder>();
+  private oauthCredentials = new OAuthCredentialStore();
+  private requestRelay?: ServerRequestRelay;
+  private declaredCapabilities = new Map<string, ClientCapabilities>(); // serverName -> capabilities of its current connection
+
+  readonly supervisor: ServerSupervisor;
+  readonly logs: ServerLogStore;
+
+  constructor(
+    stateStore?: ServerStateStore,
+    dockerManager?: DockerManager,
+    sandboxProfiles?: SandboxProfileStore,
+    supervisorOptions?: SupervisorOptions,
+    logs?: ServerLogStore
+  ) {
+    this.dockerManager = dockerManager || new DockerManager();
+    this.sandboxProfiles = sandboxProfiles || new SandboxProfileStore();
+    this.stateStore = stateStore;
+    this.supervisor = new ServerSupervisor(this, supervisorOptions);
+    this.logs = logs || new ServerLogStore();
+  }
+
+  /**
+   * Register a callback invoked after a dropped server connection is re-established
+   */
+  onServerReconnected(listener: (server: ManagedServer) => void | Promise<void>): void {
+    this.reconnectListeners.push(listener);
+  }
+
+  /**
+   * Answer sampling and elicitation requests of managed servers through the
+   * relay, for connections made from now on
+   */
+  setRequestRelay(relay: ServerRequestRelay): void {
+    this.requestRelay = relay;
+  }
+
+  /**
+   * Get the capabilities the bridge declared on a server's current connection
+   */
+  getClientCapabilities(name: string): ClientCapabilities | undefined {
+    return this.declaredCapabilities.get(name);
+  }
+
+  /**
+   * Load persisted servers into the registry (in stopped state).
+   * Returns the servers whose desired state is 'running'.
+   */
+  async restore(): Promise<ManagedServer[]> {
+    if (!this.stateStore) {
+      return [];
+    }
 
-  constructor() {
-    this.dockerManager = new DockerManager();
+    const records = await this.stateStore.load();
+    const toStart: ManagedServer[] = [];
+
+    for (const record of records) {
+      if (this.servers.has(record.name)) {
+        continue;
+      }
+
+      const server = this.stateStore.toManagedServer(record);
+      this.servers.set(server.name, server);
+
+      if (server.desiredState === 'running') {
+        toStart.push(server);
+      }
+    }
+
+    return toStart;
+  }
+
+  /**
+   * Persist one server, or every server without a name (no-op without a state
+   * store). A name the registry no longer has is removed from the state.
+   */
+  async persist(name?: string): Promise<void> {
+    if (!this.stateStore) {
+      return;
+    }
+
+    try {
+      if (name === undefined) {
+        await this.stateStore.save(this.listServers());
+      } else {
+        const server = this.getServer(name);
+        await this.stateStore.save(server ? [server] : [], server ? [] : [name]);
+      }
+    } catch (error) {
+      console.error('Failed to persist bridge server state:', error);
+    }
   }
 
   /**
    * Add a server to the registry
    */
-  addServer(server: ManagedServer): void {
+  async addServer(server: ManagedServer): Promise<void> {
     this.servers.set(server.name, server);
+    await this.persist(server.name);
   }
 
   /**
    * Remove a server from the registry
    */
-  removeServer(name: string): boolean {
-    return this.servers.delete(name);
+  async removeServer(name: string): Promise<boolean> {
+    this.supervisor.cancel(name);
+    const removed = this.servers.delete(name);
+    if (removed) {
+      await this.persist(name);
+    }
+    return removed;
+  }
+
+  /**
+   * Update the launch definition of a server and persist it.
+   * Running servers keep their current process until restarted.
+   */
+  async updateServer(
+    name: string,
+    changes: Partial<Pick<ManagedServer, 'command' | 'env' | 'source' | 'endpoint' | 'restartPolicy'>>
+  ): Promise<ManagedServer> {
+    const server = this.getServer(name);
+    if (!server) {
+      throw new Error(`Server ${name} not found`);
+    }
+
+    // Package images are tagged by version, so a version change selects another image
+    const image = this.dockerManager.getServerPackageImage(server);
+    if (image && changes.source?.version && changes.source.version !== image.version) {
+      changes = {
+        ...changes,
+        command: this.dockerManager.retagPackageImage(changes.command || server.command, image, changes.source.version)
+      };
+    }
+
+    Object.assign(server, changes);
+    await this.persist(name);
+    return server;
   }
 
   /**
@@ -70,45 +205,241 @@ export class ServerRegistry {
 
     try {
       server.status = 'installing';
+      this.supervisor.reset(server);
 
-      // Create MCP client to connect to the server
-      server.client = new Client({
-        name: `bridge-client-${name}`,
-        version: '1.0.0'
-      });
+      await this.connectServer(server);
+      server.desiredState = 'running';
+      await this.persist(name);
 
-      // Create transport that will spawn the process
-      const transport = new StdioClientTransport({
-        command: server.command[0],
-        args: server.command.slice(1)
-      });
+      console.log(`✅ Started MCP server '${name}' with tools: ${server.tools.join(', ')}`);
+      void this.logs.append(name, 'bridge', `Started with ${server.tools.length} tools`);
+    } catch (error) {
+      server.status = 'error';
+      void this.logs.append(name, 'bridge', `Failed to start: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Connect a client to the server (spawning it for stdio) and load its tools
+   */
+  private async connectServer(server: ManagedServer): Promise<void> {
+    // Only offer what the upstream clients can answer
+    const capabilities = this.requestRelay?.getCapabilities() || {};
+    const client = new Client({
+      name: `bridge-client-${server.name}`,
+      version: '1.0.0'
+    }, { capabilities });
+    this.relayServerRequests(server.name, client, capabilities);
+
+    let exit: { code: number | null; signal: string | null } | undefined;
 
-      await server.client.connect(transport);
+    try {
+      const transport = await this.connectTransport(server, client);
+      getChildProcess(transport)?.once('exit', (code, signal) => {
+        exit = { code, signal };
+      });
 
       // Get available tools from the server
-      const tools = await server.client.listTools();
+      const tools = await client.listTools();
       server.tools = tools.tools?.map((tool: any) => tool.name) || [];
-      server.status = 'running';
+    } catch (error) {
+      await client.close().catch(() => undefined);
+      throw error;
+    }
 
-      console.log(`✅ Started MCP server '${name}' with tools: ${server.tools.join(', ')}`);
+    server.client = client;
+    server.status = 'running';
+    this.declaredCapabilities.set(server.name, capabilities);
+    client.onclose = () => this.handleConnectionLost(server, client, exit);
+  }
+
+  private relayServerRequests(name: string, client: Client, capabilities: ClientCapabilities): void {
+    const relay = this.requestRelay;
+    if (relay && capabilities.sampling) {
+      client.setRequestHandler(CreateMessageRequestSchema, request => relay.createMessage(name, request.params));
+    }
+    if (relay && capabilities.elicitation) {
+      client.setRequestHandler(ElicitRequestSchema, request => relay.elicit(name, request.params));
+    }
+  }
+
+  /**
+   * Reconnect a server that went down without being stopped, keeping its
+   * desired state. Used by the supervisor.
+   */
+  async reconnectServer(name: string): Promise<void> {
+    const server = this.getServer(name);
+    if (!server) {
+      throw new Error(`Server ${name} not found`);
+    }
+
+    if (server.client) {
+      const client = server.client;
+      server.client = undefined;
+      await client.close().catch(() => undefined);
+    }
+
+    try {
+      await this.connectServer(server);
     } catch (error) {
       server.status = 'error';
       throw error;
     }
+
+    for (const listener of this.reconnectListeners) {
+      await Promise.resolve(listener(server)).catch(error =>
+        console.error(`Reconnect listener for '${name}' failed:`, error)
+      );
+    }
+  }
+
+  /**
+   * Record the JSON-RPC traffic of a server's connections from the next
+   * (re)connect on. Pass no recorder to stop recording.
+   */
+  recordServer(name: string, recorder?: CassetteRecorder): void {
+    if (recorder) {
+      this.recorders.set(name, recorder);
+    } else {
+      this.recorders.delete(name);
+    }
+  }
+
+  /**
+   * Open a connection to a server that the registry does not track (e.g. for
+   * a proxy), with secrets resolved and the sandbox applied
+   */
+  async openTransport(name: string): Promise<Transport> {
+    const server = this.getServer(name);
+    if (!server) {
+      throw new Error(`Server ${name} not found`);
+    }
+    return this.createTransport(server);
+  }
+
+  /**
+   * Connect a client the registry does not track (e.g. the playground) to a
+   * server, launched the way the bridge launches it. A containerName gives a
+   * Docker server's copy its own name, so it can run beside the bridge's.
+   */
+  async connectClient(name: string, client: Client, options: { containerName?: string } = {}): Promise<Transport> {
+    const server = this.getServer(name);
+    if (!server) {
+      throw new Error(`Server ${name} not found`);
+    }
+
+    const launched = options.containerName && server.command[0] === 'docker'
+      ? { ...server, command: this.dockerManager.setContainerName(server.command, options.containerName) }
+      : server;
+    return this.connectTransport(launched, client);
+  }
+
+  /**
+   * Open a transport and connect the client. Remote servers without static
+   * credentials authorize with OAuth, sending the user to the browser if no
+   * stored token can be refreshed.
+   */
+  private async connectTransport(server: ManagedServer, client: Client): Promise<Transport> {
+    const authProvider = usesOAuth(server) && server.endpoint
+      ? new LoopbackOAuthProvider(server.endpoint, { store: this.oauthCredentials })
+      : undefined;
+    return connectWithAuthorization(client, () => this.createTransport(server, authProvider), authProvider);
+  }
+
+  private async createTransport(server: ManagedServer, authProvider?: LoopbackOAuthProvider): Promise<Transport> {
+    // Rebuild the server's package image if it was pruned
+    const image = this.dockerManager.getServerPackageImage(server);
+    if (image) {
+      await this.dockerManager.ensurePackageImage(image);
+    }
+
+    const spawned = await this.applySandbox(await this.resolveSecrets(server));
+    const transport = createClientTransport(spawned, { stderr: 'pipe', authProvider });
+    if (transport instanceof StdioClientTransport && transport.stderr) {
+      this.logs.capture(server.name, transport.stderr);
+    }
+
+    const recorder = this.recorders.get(server.name);
+    return recorder ? new RecordingTransport(transport, recorder) : transport;
+  }
+
+  /**
+   * Substitute secret:// references in the command and env used to spawn a server.
+   * The registered (and persisted) server keeps the references.
+   */
+  private async resolveSecrets(server: ManagedServer): Promise<ManagedServer> {
+    if (isRemoteServer(server) || findSecretRefs({ args: server.command, env: server.env }).length === 0) {
+      return server;
+    }
+
+    const vault = new SecretVault({ passphrase: await readSecretPassphrase() });
+    const resolved = await vault.resolve({ args: server.command, env: server.env });
+    return { ...server, command: resolved.args!, ...(resolved.env && { env: resolved.env }) };
+  }
+
+  /**
+   * Add the server's sandbox profile flags to its docker command. Profiles are
+   * looked up at every start, so edits to a custom profile apply on restart.
+   */
+  private async applySandbox(server: ManagedServer): Promise<ManagedServer> {
+    if (!server.sandbox) {
+      return server;
+    }
+    if (server.command[0] !== 'docker') {
+      throw new Error(`Server ${server.name} has sandbox profile ${server.sandbox.profile} but does not run in Docker`);
+    }
+
+    const profile = await this.sandboxProfiles.get(server.sandbox.profile);
+    const command = await this.dockerManager.applySandboxProfile(server.command, profile, server.sandbox);
+    return { ...server, command };
+  }
+
+  /**
+   * Hand a server whose connection dropped (process exit or network failure)
+   * to the supervisor, which restarts it as its restart policy allows
+   */
+  private handleConnectionLost(
+    server: ManagedServer,
+    client: Client,
+    exit?: { code: number | null; signal: string | null }
+  ): void {
+    // Closes initiated by stop/restart have already detached the client
+    if (server.client !== client) {
+      return;
+    }
+
+    server.client = undefined;
+    server.tools = [];
+    server.status = exit?.code === 0 ? 'stopped' : 'error';
+
+    let reason = 'lost its connection';
+    if (exit?.signal) {
+      reason = `was killed by ${exit.signal}`;
+    } else if (exit && exit.code !== null) {
+      reason = `exited with code ${exit.code}`;
+    }
+
+    void this.logs.append(server.name, 'bridge', `Server ${reason}`);
+    this.supervisor.handleExit(server, { code: exit?.code, signal: exit?.signal, reason });
   }
 
   /**
-   * Stop a server
+   * Stop a server. Restarts keep the desired state so a failed restart
+   * is retried when the bridge comes back up.
    */
-  async stopServer(name: string): Promise<void> {
+  async stopServer(name: string, options: { preserveDesiredState?: boolean } = {}): Promise<void> {
     const server = this.getServer(name);
     if (!server) {
       throw new Error(`Server ${name} not found`);
     }
 
+    this.supervisor.cancel(name);
+
     if (server.client) {
-      await server.client.close();
+      const client = server.client;
       server.client = undefined;
+      await client.close();
     }
 
     // If it's a Docker container, stop it
@@ -119,6 +450,11 @@ export class ServerRegistry {
 
     server.status = 'stopped';
     server.tools = [];
+    void this.logs.append(name, 'bridge', 'Stopped');
+    if (!options.preserveDesiredState) {
+      server.desiredState = 'stopped';
+      await this.persist(name);
+    }
 
     console.log(`🛑 Stopped MCP server '${name}'`);
   }
@@ -127,7 +463,7 @@ export class ServerRegistry {
    * Restart a server
    */
   async restartServer(name: string): Promise<void> {
-    await this.stopServer(name);
+    await this.stopServer(name, { preserveDesiredState: true });
     await this.startServer(name);
   }
 
@@ -152,7 +488,8 @@ export class ServerRegistry {
     }
 
     // Remove from registry
-    this.removeServer(name);
+    await this.removeServer(name);
+    await this.logs.remove(name);
 
     console.log(`🗑️ Removed MCP server '${name}' completely`);
   }
@@ -165,6 +502,8 @@ export class ServerRegistry {
     toolCount: number;
     uptime?: number;
     lastError?: string;
+    restartPolicy: NonNullable<ManagedServer['restartPolicy']>;
+    supervision?: ManagedServer['supervision'];
   }> {
     const server = this.getServer(name);
     if (!server) {
@@ -173,7 +512,10 @@ export class ServerRegistry {
 
     const health = {
       status: server.status,
-      toolCount: server.tools.length
+      toolCount: server.tools.length,
+      restartPolicy: server.restartPolicy || DEFAULT_RESTART_POLICY,
+      supervision: server.supervision,
+      ...(server.status === 'error' && server.supervision?.lastExit && { lastError: server.supervision.lastExit.reason })
     };
 
     // For Docker containers, check actual container status
@@ -187,6 +529,21 @@ export class ServerRegistry {
       }
     }
 
+    // For remote servers, check that the endpoint still answers
+    if (isRemoteServer(server) && server.status === 'running' && server.client) {
+      try {
+        await server.client.ping();
+      } catch (error) {
+        // Closing the dead connection hands the server to the supervisor
+        await server.client.close().catch(() => undefined);
+        return {
+          ...health,
+          status: 'error',
+          lastError: `Ping failed: ${error instanceof Error ? error.message : String(error)}`
+        };
+      }
+    }
+
     return health;
   }
 
@@ -258,18 +615,28 @@ export class ServerRegistry {
   }
 
   /**
-   * Auto-restart failed servers
+   * Auto-restart failed servers the supervisor is not already restarting.
+   * Restarting by hand also clears a crash loop.
    */
   async autoRestart(): Promise<string[]> {
     const restarted: string[] = [];
-    const errorServers = this.getServersByStatus('error');
+    const errorServers = this.getServersByStatus('error').filter(server => !this.supervisor.isPending(server.name));
 
     for (const server of errorServers) {
+      const reason = server.supervision?.lastExit?.reason || 'server in error state';
       try {
         await this.restartServer(server.name);
+        this.supervisor.recordRestart(server, { attempt: 0, delayMs: 0, reason, succeeded: true });
         restarted.push(server.name);
         console.log(`🔄 Auto-restarted server '${server.name}'`);
       } catch (error) {
+        this.supervisor.recordRestart(server, {
+          attempt: 0,
+          delayMs: 0,
+          reason,
+          succeeded: false,
+          error: error instanceof Error ? error.message : String(error)
+        });
         console.error(`Failed to auto-restart server '${server.name}':`, error);
       }
     }
@@ -304,9 +671,16 @@ export class ServerRegistry {
    * Close all connections and cleanup
    */
   async close(): Promise<void> {
+    this.supervisor.stop();
+
+    // Detach the clients first so the closes are not handled as crashes
     const closePromises = this.listServers()
       .filter(server => server.client)
-      .map(server => server.client!.close().catch(console.error));
+      .map(server => {
+        const client = server.client!;
+        server.client = undefined;
+        return client.close().catch(console.error);
+      });
 
     await Promise.all(closePromises);
     
@@ -0,0 +1,109 @@
+// Persistent state store for bridge-mode servers
+
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { ManagedServer, PersistedServerRecord } from '@mcplookup-org/mcp-sdk';
+import { readJsonFile, writeFileAtomic } from '@mcplookup-org/mcp-sdk';
+
+interface ServerStateFile {
+  version: 1;
+  servers: Record<string, PersistedServerRecord>;
+}
+
+export class ServerStateStore {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || join(homedir(), '.mcpl', 'bridge', 'servers.json');
+  }
+
+  /**
+   * Get the path of the state file
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Load all persisted server records
+   */
+  async load(): Promise<PersistedServerRecord[]> {
+    const state = await readJsonFile<ServerStateFile>(this.filePath, { version: 1, servers: {} });
+    return Object.values(state.servers || {});
+  }
+
+  /**
+   * Persist the given servers and drop the removed ones. The file is re-read
+   * first and other records are kept, so the CLI and a running bridge do not
+   * lose each other's changes. Writes are serialized so concurrent saves never
+   * interleave.
+   */
+  async save(servers: ManagedServer[], removed: string[] = []): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const previous = await readJsonFile<ServerStateFile>(this.filePath, { version: 1, servers: {} });
+      const state: ServerStateFile = { version: 1, servers: { ...previous.servers } };
+
+      for (const name of removed) {
+        delete state.servers[name];
+      }
+      for (const server of servers) {
+        state.servers[server.name] = this.toRecord(server, previous.servers?.[server.name]);
+      }
+
+      // Records can hold bearer tokens and environment values
+      await writeFileAtomic(this.filePath, JSON.stringify(state, null, 2), 0o600);
+    });
+
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Convert a persisted record back into a (stopped) managed server
+   */
+  toManagedServer(record: PersistedServerRecord): ManagedServer {
+    return {
+      name: record.name,
+      type: record.type,
+      mode: record.mode,
+      command: [...record.command],
+      endpoint: record.endpoint,
+      env: record.env,
+      source: record.source,
+      transport: record.transport,
+      headers: record.headers,
+      bearerToken: record.bearerToken,
+      sandbox: record.sandbox,
+      restartPolicy: record.restartPolicy,
+      supervision: record.supervision,
+      desiredState: record.desiredState,
+      tools: [],
+      status: 'stopped'
+    };
+  }
+
+  private toRecord(server: ManagedServer, previous?: PersistedServerRecord): PersistedServerRecord {
+    const now = new Date().toISOString();
+
+    return {
+      name: server.name,
+      type: server.type,
+      mode: server.mode,
+      command: server.command,
+      ...(server.endpoint && { endpoint: server.endpoint }),
+      ...(server.env && Object.keys(server.env).length > 0 && { env: server.env }),
+      ...(server.source && { source: server.source }),
+      ...(server.transport && server.transport !== 'stdio' && { transport: server.transport }),
+      ...(server.headers && Object.keys(server.headers).length > 0 && { headers: server.headers }),
+      ...(server.bearerToken && { bearerToken: server.bearerToken }),
+      ...(server.sandbox && { sandbox: server.sandbox }),
+      ...(server.restartPolicy && { restartPolicy: server.restartPolicy }),
+      ...(server.supervision && { supervision: server.supervision }),
+      desiredState: server.desiredState || (server.status === 'running' ? 'running' : 'stopped'),
+      installedAt: previous?.installedAt || now,
+      updatedAt: now
+    };
+  }
+}
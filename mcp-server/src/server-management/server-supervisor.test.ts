@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ManagedServer } from '@mcplookup-org/mcp-sdk';
+import { ServerSupervisor } from './server-supervisor.js';
+import type { ServerRegistry } from './server-registry.js';
+
+function createServer(overrides: Partial<ManagedServer> = {}): ManagedServer {
+  return {
+    name: 'github',
+    type: 'npm',
+    mode: 'bridge',
+    command: ['npx', '-y', '@scope/github'],
+    tools: [],
+    status: 'error',
+    desiredState: 'running',
+    ...overrides
+  };
+}
+
+function createRegistry(servers: ManagedServer[]) {
+  return {
+    getServer: (name: string) => servers.find(server => server.name === name),
+    listServers: () => servers,
+    reconnectServer: vi.fn(async (name: string) => {
+      servers.find(server => server.name === name)!.status = 'running';
+    }),
+    stopServer: vi.fn(async () => undefined),
+    getServerHealth: vi.fn(async () => ({ status: 'healthy' })),
+    persist: vi.fn(async () => undefined),
+    logs: { append: vi.fn(async () => undefined) }
+  };
+}
+
+describe('ServerSupervisor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should restart a failed server after the backoff delay', async () => {
+    const server = createServer();
+    const registry = createRegistry([server]);
+    const supervisor = new ServerSupervisor(registry as unknown as ServerRegistry, { baseDelayMs: 1000 });
+
+    supervisor.handleExit(server, { code: 1, reason: 'exited with code 1' });
+    expect(server.supervision?.state).toBe('backoff');
+    expect(supervisor.isPending('github')).toBe(true);
+    expect(registry.persist).toHaveBeenCalledWith('github');
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(registry.reconnectServer).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(registry.reconnectServer).toHaveBeenCalledWith('github');
+    expect(server.supervision?.state).toBe('supervised');
+    expect(server.supervision?.restarts).toMatchObject([{ attempt: 1, delayMs: 1000, succeeded: true }]);
+    expect(supervisor.isPending('github')).toBe(false);
+  });
+
+  it('should follow the restart policy', () => {
+    const registry = createRegistry([]);
+    const supervisor = new ServerSupervisor(registry as unknown as ServerRegistry);
+
+    const clean = createServer();
+    supervisor.handleExit(clean, { code: 0, reason: 'exited with code 0' });
+    expect(clean.supervision?.state).toBe('exited');
+
+    const never = createServer({ restartPolicy: 'never' });
+    supervisor.handleExit(never, { code: 1, reason: 'exited with code 1' });
+    expect(never.supervision?.state).toBe('exited');
+
+    const always = createServer({ restartPolicy: 'always' });
+    supervisor.handleExit(always, { code: 0, reason: 'exited with code 0' });
+    expect(always.supervision?.state).toBe('backoff');
+
+    const stopped = createServer({ restartPolicy: 'always', desiredState: 'stopped' });
+    supervisor.handleExit(stopped, { code: 1, reason: 'exited with code 1' });
+    expect(stopped.supervision?.state).toBe('exited');
+    supervisor.stop();
+  });
+
+  it('should double the delay up to the maximum', async () => {
+    const server = createServer();
+    const registry = createRegistry([server]);
+    registry.reconnectServer.mockRejectedValue(new Error('spawn failed'));
+    const supervisor = new ServerSupervisor(registry as unknown as ServerRegistry, { baseDelayMs: 1000, maxDelayMs: 3000, maxFailures: 10 });
+
+    supervisor.handleExit(server, { code: 1, reason: 'exited with code 1' });
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(2000);
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(server.supervision?.restarts.map(restart => restart.delayMs)).toEqual([1000, 2000, 3000]);
+    expect(server.supervision?.restarts[0]).toMatchObject({ succeeded: false, error: 'spawn failed' });
+    supervisor.stop();
+  });
+
+  it('should stop restarting after a crash loop until reset', async () => {
+    const server = createServer();
+    const registry = createRegistry([server]);
+    registry.reconnectServer.mockRejectedValue(new Error('spawn failed'));
+    const supervisor = new ServerSupervisor(registry as unknown as ServerRegistry, { baseDelayMs: 10, maxFailures: 3 });
+
+    supervisor.handleExit(server, { code: 1, reason: 'exited with code 1' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(server.supervision?.state).toBe('crash-loop');
+    expect(server.supervision?.failures).toHaveLength(3);
+    expect(registry.reconnectServer).toHaveBeenCalledTimes(2);
+    expect(supervisor.isPending('github')).toBe(false);
+    expect(registry.logs.append).toHaveBeenCalledWith('github', 'bridge', expect.stringContaining('Crash loop'));
+
+    supervisor.reset(server);
+    expect(server.supervision).toMatchObject({ state: 'supervised', failures: [] });
+    expect(server.supervision?.restarts).toHaveLength(2);
+  });
+
+  it('should forget failures outside the window', async () => {
+    const server = createServer();
+    const registry = createRegistry([server]);
+    const supervisor = new ServerSupervisor(registry as unknown as ServerRegistry, { baseDelayMs: 10, maxFailures: 2, failureWindowMs: 60000 });
+
+    supervisor.handleExit(server, { code: 1, reason: 'exited with code 1' });
+    await vi.advanceTimersByTimeAsync(120000);
+    supervisor.handleExit(server, { code: 1, reason: 'exited with code 1' });
+
+    expect(server.supervision?.state).toBe('backoff');
+    expect(server.supervision?.failures).toHaveLength(1);
+    supervisor.stop();
+  });
+
+  it('should drop a pending restart when cancelled', async () => {
+    const server = createServer();
+    const registry = createRegistry([server]);
+    const supervisor = new ServerSupervisor(registry as unknown as ServerRegistry, { baseDelayMs: 1000 });
+
+    supervisor.handleExit(server, { code: 1, reason: 'exited with code 1' });
+    supervisor.cancel('github');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(registry.reconnectServer).not.toHaveBeenCalled();
+    expect(server.supervision).toMatchObject({ state: 'supervised', nextRestartAt: undefined });
+  });
+
+  it('should restart servers that fail their health check', async () => {
+    const server = createServer({ status: 'running', client: {} });
+    const registry = createRegistry([server]);
+    registry.getServerHealth.mockResolvedValue({ status: 'error', lastError: 'timed out' } as never);
+    const supervisor = new ServerSupervisor(registry as unknown as ServerRegistry, { checkIntervalMs: 1000, baseDelayMs: 60000 });
+
+    supervisor.start();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(registry.stopServer).toHaveBeenCalledWith('github', { preserveDesiredState: true });
+    expect(server.status).toBe('error');
+    expect(server.supervision?.lastExit?.reason).toContain('timed out');
+    expect(supervisor.isPending('github')).toBe(true);
+
+    supervisor.stop();
+    expect(supervisor.isRunning()).toBe(false);
+    expect(supervisor.isPending('github')).toBe(false);
+  });
+});
@@ -0,0 +1,255 @@
+// Supervisor that restarts bridge servers according to their restart policy
+
+import { ManagedServer, RestartPolicy, ServerExit, ServerRestart, ServerSupervision } from '@mcplookup-org/mcp-sdk';
+import type { ServerRegistry } from './server-registry.js';
+
+export interface SupervisorOptions {
+  maxFailures?: number; // failures inside the window that mark a crash loop (default: 5)
+  failureWindowMs?: number; // default: 10 minutes
+  baseDelayMs?: number; // delay before the first restart (default: 1s)
+  maxDelayMs?: number; // default: 60s
+  checkIntervalMs?: number; // health checks while the bridge runs (default: 30s)
+  historySize?: number; // restarts kept per server (default: 20)
+}
+
+const DEFAULT_OPTIONS: Required<SupervisorOptions> = {
+  maxFailures: 5,
+  failureWindowMs: 10 * 60 * 1000,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  checkIntervalMs: 30 * 1000,
+  historySize: 20
+};
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = 'on-failure';
+
+/**
+ * Restarts servers whose process exited or whose connection dropped, as their
+ * restart policy allows, with exponential backoff and jitter. A server that
+ * fails maxFailures times inside the window is put in crash-loop and stays
+ * down until it is started again by hand.
+ */
+export class ServerSupervisor {
+  private registry: ServerRegistry;
+  private options: Required<SupervisorOptions>;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private checkTimer?: NodeJS.Timeout;
+  private checking = false;
+
+  constructor(registry: ServerRegistry, options: SupervisorOptions = {}) {
+    this.registry = registry;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start the periodic health checks that catch failures transports do not
+   * report (stopped containers, unresponsive remote servers)
+   */
+  start(): void {
+    if (this.checkTimer) {
+      return;
+    }
+
+    this.checkTimer = setInterval(() => {
+      this.check().catch(error => console.error('Supervisor health check failed:', error));
+    }, this.options.checkIntervalMs);
+    this.checkTimer.unref();
+  }
+
+  /**
+   * Stop health checks and drop pending restarts
+   */
+  stop(): void {
+    clearInterval(this.checkTimer);
+    this.checkTimer = undefined;
+    for (const name of Array.from(this.timers.keys())) {
+      this.cancel(name);
+    }
+  }
+
+  isRunning(): boolean {
+    return this.checkTimer !== undefined;
+  }
+
+  /**
+   * Check whether a restart is scheduled for a server
+   */
+  isPending(name: string): boolean {
+    return this.timers.has(name);
+  }
+
+  /**
+   * Drop a pending restart (e.g. the server is being stopped or started by hand)
+   */
+  cancel(name: string): void {
+    clearTimeout(this.timers.get(name));
+    this.timers.delete(name);
+
+    const supervision = this.registry.getServer(name)?.supervision;
+    if (supervision?.state === 'backoff') {
+      supervision.state = 'supervised';
+      supervision.nextRestartAt = undefined;
+    }
+  }
+
+  /**
+   * Clear failures and a crash loop after a server was started by hand. The
+   * restart history and last exit are kept.
+   */
+  reset(server: ManagedServer): void {
+    this.cancel(server.name);
+    const supervision = this.getSupervision(server);
+    supervision.state = 'supervised';
+    supervision.failures = [];
+  }
+
+  /**
+   * Record that a server went down and schedule a restart if its policy allows
+   */
+  handleExit(server: ManagedServer, exit: Omit<ServerExit, 'at'>): void {
+    const supervision = this.getSupervision(server);
+    supervision.lastExit = { at: new Date().toISOString(), ...exit };
+
+    const policy = server.restartPolicy || DEFAULT_RESTART_POLICY;
+    const cleanExit = exit.code === 0 && !exit.signal;
+    if (server.desiredState === 'stopped' || policy === 'never' || (policy === 'on-failure' && cleanExit)) {
+      supervision.state = 'exited';
+      console.error(`⚠️ MCP server '${server.name}' ${exit.reason}; not restarting (restart policy: ${policy})`);
+      this.save(server.name);
+      return;
+    }
+
+    this.recordFailure(server, exit.reason);
+  }
+
+  /**
+   * Add a restart that happened outside the supervisor (e.g. maintenance) to the history
+   */
+  recordRestart(server: ManagedServer, restart: Omit<ServerRestart, 'at'>): void {
+    this.pushRestart(this.getSupervision(server), { at: new Date().toISOString(), ...restart });
+  }
+
+  private recordFailure(server: ManagedServer, reason: string): void {
+    const supervision = this.getSupervision(server);
+    const now = Date.now();
+    supervision.failures = [
+      ...supervision.failures.filter(at => now - Date.parse(at) < this.options.failureWindowMs),
+      new Date(now).toISOString()
+    ];
+
+    const attempt = supervision.failures.length;
+    if (attempt >= this.options.maxFailures) {
+      supervision.state = 'crash-loop';
+      supervision.nextRestartAt = undefined;
+      const message = `failed ${attempt} times in ${Math.round(this.options.failureWindowMs / 60000)} minutes; ` +
+        'restarts suspended until it is started again';
+      console.error(`❌ MCP server '${server.name}' ${message}`);
+      void this.registry.logs.append(server.name, 'bridge', `Crash loop: ${message}`);
+      this.save(server.name);
+      return;
+    }
+
+    const delayMs = this.getDelay(attempt);
+    supervision.state = 'backoff';
+    supervision.nextRestartAt = new Date(now + delayMs).toISOString();
+    const message = `restarting in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt})`;
+    console.error(`⚠️ MCP server '${server.name}' ${reason}, ${message}`);
+    void this.registry.logs.append(server.name, 'bridge', `Supervisor ${message}`);
+
+    clearTimeout(this.timers.get(server.name));
+    const timer = setTimeout(() => {
+      this.restart(server.name, { attempt, delayMs, reason }).catch(error =>
+        console.error(`Supervisor restart of '${server.name}' failed:`, error)
+      );
+    }, delayMs);
+
+    // Pending restarts should not keep the process alive
+    timer.unref();
+    this.timers.set(server.name, timer);
+    this.save(server.name);
+  }
+
+  private async restart(name: string, restart: Pick<ServerRestart, 'attempt' | 'delayMs' | 'reason'>): Promise<void> {
+    this.timers.delete(name);
+
+    const server = this.registry.getServer(name);
+    if (!server || server.desiredState === 'stopped') {
+      return;
+    }
+
+    const supervision = this.getSupervision(server);
+    supervision.nextRestartAt = undefined;
+
+    try {
+      await this.registry.reconnectServer(name);
+      supervision.state = 'supervised';
+      this.recordRestart(server, { ...restart, succeeded: true });
+      console.log(`🔄 Restarted MCP server '${name}'`);
+      void this.registry.logs.append(name, 'bridge', `Restarted with ${server.tools.length} tools`);
+      this.save(server.name);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.recordRestart(server, { ...restart, succeeded: false, error: message });
+      void this.registry.logs.append(name, 'bridge', `Restart failed: ${message}`);
+      this.recordFailure(server, `failed to restart: ${message}`);
+    }
+  }
+
+  /**
+   * Catch servers that died without closing their connection, and servers in
+   * error state nobody is restarting (e.g. they failed to start with the bridge)
+   */
+  private async check(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      for (const server of this.registry.listServers()) {
+        if (server.desiredState !== 'running' || this.timers.has(server.name)) {
+          continue;
+        }
+
+        if (server.status === 'running') {
+          const health = await this.registry.getServerHealth(server.name);
+          if (health.status === 'error' && server.client) {
+            await this.registry.stopServer(server.name, { preserveDesiredState: true });
+            server.status = 'error';
+            this.handleExit(server, { reason: `failed its health check (${health.lastError || 'unhealthy'})` });
+          }
+        } else if (server.status === 'error' && !['crash-loop', 'exited'].includes(server.supervision?.state || '')) {
+          this.recordFailure(server, 'is not running');
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Exponential backoff with equal jitter: half the delay is fixed, half random
+   */
+  private getDelay(attempt: number): number {
+    const delay = Math.min(this.options.baseDelayMs * 2 ** (attempt - 1), this.options.maxDelayMs);
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
+
+  /**
+   * Persist supervision state so `mcpl status` can show it from another process
+   */
+  private save(name: string): void {
+    this.registry.persist(name).catch(() => undefined);
+  }
+
+  private getSupervision(server: ManagedServer): ServerSupervision {
+    if (!server.supervision) {
+      server.supervision = { state: 'supervised', failures: [], restarts: [] };
+    }
+    return server.supervision;
+  }
+
+  private pushRestart(supervision: ServerSupervision, restart: ServerRestart): void {
+    supervision.restarts = [...supervision.restarts, restart].slice(-this.options.historySize);
+  }
+}
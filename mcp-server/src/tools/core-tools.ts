@@ -14,6 +14,8 @@ import {
   ToolCallResult
 } from '@mcplookup-org/mcp-sdk';
 import { ToolInvoker } from './tool-invoker.js';
+import { RelayContext } from './notification-relay.js';
+import { ServerRegistry } from '../server-management/server-registry.js';
 import {
   createSuccessResult,
   createErrorResult,
@@ -23,10 +25,12 @@ import {
 export class CoreTools {
   private apiClient: MCPLookupAPIClient;
   private toolInvoker: ToolInvoker;
+  private serverRegistry?: ServerRegistry;
 
-  constructor(apiClient: MCPLookupAPIClient) {
+  constructor(apiClient: MCPLookupAPIClient, toolInvoker?: ToolInvoker, serverRegistry?: ServerRegistry) {
     this.apiClient = apiClient;
-    this.toolInvoker = new ToolInvoker();
+    this.toolInvoker = toolInvoker || new ToolInvoker();
+    this.serverRegistry = serverRegistry;
   }
 
   /**
@@ -106,7 +110,7 @@ export class CoreTools {
     server.tool(
       'get_server_health',
       {
-        server_id: z.string().optional().describe('Specific server ID to check'),
+        server_id: z.string().optional().describe('Specific server ID to check (bridge server name for supervisor state)'),
         limit: z.number().optional().describe('Maximum number of results')
       },
       async (options: HealthCheckOptions) => this.getServerHealth(options)
@@ -130,7 +134,7 @@ export class CoreTools {
         arguments: z.record(z.any()).describe('Arguments to pass to the tool'),
         headers: z.record(z.string()).optional().describe('Optional HTTP headers for authentication')
       },
-      async (options: InvokeToolOptions) => this.invokeTool(options)
+      async (options: InvokeToolOptions, extra) => this.invokeTool(options, extra)
     );
   }
 
@@ -220,6 +224,11 @@ export class CoreTools {
 
   private async getServerHealth(options: HealthCheckOptions): Promise<ToolCallResult> {
     try {
+      // Bridge servers report their process health and restart history
+      if (this.serverRegistry && (!options.server_id || this.serverRegistry.hasServer(options.server_id))) {
+        return createSuccessResult(await this.getBridgeServerHealth(options));
+      }
+
       // TODO: Update when SDK client supports getServerHealth method
       const result = { message: 'Server health API integration pending' };
 
@@ -240,6 +249,22 @@ export class CoreTools {
     }
   }
 
+  private async getBridgeServerHealth(options: HealthCheckOptions) {
+    const names = options.server_id
+      ? [options.server_id]
+      : this.serverRegistry!.listServers().map(server => server.name);
+
+    const servers = [];
+    for (const name of names.slice(0, options.limit)) {
+      servers.push({ name, ...await this.serverRegistry!.getServerHealth(name) });
+    }
+
+    return {
+      supervisor: this.serverRegistry!.supervisor.isRunning() ? 'running' : 'stopped',
+      servers
+    };
+  }
+
   private async getOnboardingState(): Promise<ToolCallResult> {
     try {
       // TODO: Update when SDK client supports getOnboardingState method
@@ -262,7 +287,7 @@ export class CoreTools {
     }
   }
 
-  private async invokeTool(options: InvokeToolOptions): Promise<ToolCallResult> {
-    return this.toolInvoker.invoke(options);
+  private async invokeTool(options: InvokeToolOptions, context: RelayContext): Promise<ToolCallResult> {
+    return this.toolInvoker.invoke(options, context);
   }
 }
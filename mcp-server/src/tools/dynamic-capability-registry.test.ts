@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { ManagedServer } from '@mcplookup-org/mcp-sdk';
+import { z } from 'zod';
+import { DynamicCapabilityRegistry } from './dynamic-capability-registry.js';
+
+async function connect(server: McpServer, client: Client): Promise<void> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+}
+
+describe('DynamicCapabilityRegistry', () => {
+  let downstream: McpServer;
+  let bridge: McpServer;
+  let registry: DynamicCapabilityRegistry;
+  let upstream: Client;
+  let managed: ManagedServer;
+  const subscribed: string[] = [];
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    subscribed.length = 0;
+
+    // A managed server with a fixed resource, a template and a prompt
+    downstream = new McpServer({ name: 'notes', version: '1.0.0' });
+    downstream.resource('readme', 'file:///readme.md', async uri => ({ contents: [{ uri: uri.href, text: '# Notes' }] }));
+    downstream.resource('note', new ResourceTemplate('note://{id}', { list: undefined }), async uri => ({
+      contents: [{ uri: uri.href, text: `note ${uri.host}` }]
+    }));
+    downstream.prompt('summarize', { topic: z.string() }, ({ topic }) => ({
+      messages: [{ role: 'user', content: { type: 'text', text: `Summarize ${topic}` } }]
+    }));
+    downstream.server.registerCapabilities({ resources: { subscribe: true } });
+    downstream.server.setRequestHandler(SubscribeRequestSchema, async request => {
+      subscribed.push(request.params.uri);
+      return {};
+    });
+    downstream.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      subscribed.splice(subscribed.indexOf(request.params.uri), 1);
+      return {};
+    });
+
+    const client = new Client({ name: 'bridge-client-notes', version: '1.0.0' });
+    await connect(downstream, client);
+    managed = { name: 'notes', type: 'npm', mode: 'bridge', command: [], tools: [], status: 'running', client };
+
+    bridge = new McpServer({ name: 'bridge', version: '1.0.0' });
+    registry = new DynamicCapabilityRegistry(bridge);
+    upstream = new Client({ name: 'claude', version: '1.0.0' });
+    await connect(bridge, upstream);
+
+    await registry.addServerCapabilities('notes', managed);
+  });
+
+  afterEach(async () => {
+    await upstream.close();
+    await managed.client.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should list resources, templates and prompts under the server namespace', async () => {
+    expect((await upstream.listResources()).resources).toEqual([
+      { uri: 'mcpl://notes/file:///readme.md', name: 'notes_readme' }
+    ]);
+    expect((await upstream.listResourceTemplates()).resourceTemplates).toEqual([
+      { uriTemplate: 'mcpl://notes/note://{id}', name: 'notes_note' }
+    ]);
+    expect((await upstream.listPrompts()).prompts).toMatchObject([{ name: 'notes_summarize' }]);
+    expect(registry.getStats()).toEqual({ totalServers: 1, totalResources: 1, totalResourceTemplates: 1, totalPrompts: 1 });
+  });
+
+  it('should forward reads and prompts to the owning server', async () => {
+    expect(await upstream.readResource({ uri: 'mcpl://notes/note://42' })).toEqual({
+      contents: [{ uri: 'mcpl://notes/note://42', text: 'note 42' }]
+    });
+    expect((await upstream.getPrompt({ name: 'notes_summarize', arguments: { topic: 'MCP' } })).messages)
+      .toEqual([{ role: 'user', content: { type: 'text', text: 'Summarize MCP' } }]);
+
+    await expect(upstream.readResource({ uri: 'mcpl://other/file:///readme.md' })).rejects.toThrow('not found');
+    await expect(upstream.getPrompt({ name: 'summarize' })).rejects.toThrow('Prompt summarize not found');
+  });
+
+  it('should follow list changes of the server', async () => {
+    const changed = new Promise(resolve => upstream.setNotificationHandler(ResourceListChangedNotificationSchema, resolve));
+
+    downstream.resource('todo', 'file:///todo.md', async uri => ({ contents: [{ uri: uri.href, text: '- [ ] test' }] }));
+    await changed;
+
+    expect((await upstream.listResources()).resources.map(resource => resource.name)).toEqual(['notes_readme', 'notes_todo']);
+  });
+
+  it('should relay subscriptions and updates with the original URI downstream', async () => {
+    const updated = new Promise(resolve =>
+      upstream.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => resolve(notification.params.uri)));
+
+    await upstream.subscribeResource({ uri: 'mcpl://notes/file:///readme.md' });
+    expect(subscribed).toEqual(['file:///readme.md']);
+
+    await downstream.server.sendResourceUpdated({ uri: 'file:///readme.md' });
+    expect(await updated).toBe('mcpl://notes/file:///readme.md');
+
+    await upstream.unsubscribeResource({ uri: 'mcpl://notes/file:///readme.md' });
+    expect(subscribed).toEqual([]);
+  });
+
+  it('should drop everything of a removed server', async () => {
+    await registry.removeServerCapabilities('notes');
+
+    expect(registry.hasServer('notes')).toBe(false);
+    expect((await upstream.listResources()).resources).toEqual([]);
+    expect((await upstream.listPrompts()).prompts).toEqual([]);
+  });
+});
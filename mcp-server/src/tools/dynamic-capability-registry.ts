@@ -0,0 +1,353 @@
+// Dynamic registry for resources and prompts from bridge-mode servers
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  Prompt,
+  PromptListChangedNotificationSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceListChangedNotificationSchema,
+  ResourceTemplate,
+  ResourceUpdatedNotificationSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { ManagedServer } from '@mcplookup-org/mcp-sdk';
+
+// Downstream resource URIs are exposed as mcpl://<server>/<original uri>
+const BRIDGE_URI_PREFIX = 'mcpl://';
+
+interface ServerCapabilityEntry {
+  server: ManagedServer;
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+  prompts: Prompt[];
+}
+
+/**
+ * Mirrors resources, resource templates and prompts of managed servers onto the
+ * bridge, the way DynamicToolRegistry does for tools. Names are prefixed with the
+ * server name and URIs are namespaced so servers never collide.
+ */
+export class DynamicCapabilityRegistry {
+  private entries = new Map<string, ServerCapabilityEntry>(); // serverName -> capabilities
+  private subscriptions = new Map<Server, Set<string>>(); // bridge server -> bridge URIs its client subscribed to
+
+  constructor(mcpServer: McpServer) {
+    this.attachServer(mcpServer);
+  }
+
+  /**
+   * Expose resources and prompts on an additional bridge server (e.g. one HTTP session).
+   * Must be called before that server connects to a transport.
+   */
+  attachServer(mcpServer: McpServer): void {
+    const server = mcpServer.server;
+
+    server.registerCapabilities({
+      resources: { subscribe: true, listChanged: true },
+      prompts: { listChanged: true }
+    });
+    this.setupRequestHandlers(server);
+    this.subscriptions.set(server, new Set());
+  }
+
+  /**
+   * Stop tracking a bridge server, dropping downstream subscriptions only it held
+   */
+  detachServer(mcpServer: McpServer): void {
+    const uris = this.subscriptions.get(mcpServer.server);
+    this.subscriptions.delete(mcpServer.server);
+
+    for (const uri of uris || []) {
+      this.releaseSubscription(uri).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Add resources and prompts from a managed server to the bridge
+   */
+  async addServerCapabilities(serverName: string, server: ManagedServer): Promise<void> {
+    const client = server.client as Client | undefined;
+    if (!client) {
+      console.warn(`Cannot add resources and prompts for ${serverName}: no client connection`);
+      return;
+    }
+
+    // Keep the bridge in sync when the downstream server changes its lists
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      await this.refreshServer(serverName, server, 'resources');
+    });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+      await this.refreshServer(serverName, server, 'prompts');
+    });
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      const uri = this.toBridgeUri(serverName, notification.params.uri);
+      for (const [bridgeServer, uris] of this.subscriptions) {
+        if (uris.has(uri)) {
+          await bridgeServer.sendResourceUpdated({ uri }).catch(() => undefined);
+        }
+      }
+    });
+
+    try {
+      const entry: ServerCapabilityEntry = { server, resources: [], resourceTemplates: [], prompts: [] };
+      await this.loadResources(client, entry);
+      await this.loadPrompts(client, entry);
+      this.entries.set(serverName, entry);
+
+      this.notifyListChanged('resources');
+      this.notifyListChanged('prompts');
+
+      console.log(`📚 Added ${entry.resources.length} resources, ${entry.resourceTemplates.length} resource templates and ${entry.prompts.length} prompts from '${serverName}'`);
+    } catch (error) {
+      console.error(`Failed to add resources and prompts from ${serverName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove resources and prompts for a server
+   */
+  async removeServerCapabilities(serverName: string): Promise<void> {
+    if (!this.entries.delete(serverName)) {
+      return;
+    }
+
+    const prefix = this.toBridgeUri(serverName, '');
+    for (const uris of this.subscriptions.values()) {
+      for (const uri of uris) {
+        if (uri.startsWith(prefix)) {
+          uris.delete(uri);
+        }
+      }
+    }
+
+    this.notifyListChanged('resources');
+    this.notifyListChanged('prompts');
+
+    console.log(`🗑️ Removed resources and prompts from '${serverName}'`);
+  }
+
+  /**
+   * Check if a server's resources and prompts are registered
+   */
+  hasServer(serverName: string): boolean {
+    return this.entries.has(serverName);
+  }
+
+  /**
+   * Get statistics about registered resources and prompts
+   */
+  getStats(): {
+    totalServers: number;
+    totalResources: number;
+    totalResourceTemplates: number;
+    totalPrompts: number;
+  } {
+    const entries = Array.from(this.entries.values());
+
+    return {
+      totalServers: entries.length,
+      totalResources: entries.reduce((sum, entry) => sum + entry.resources.length, 0),
+      totalResourceTemplates: entries.reduce((sum, entry) => sum + entry.resourceTemplates.length, 0),
+      totalPrompts: entries.reduce((sum, entry) => sum + entry.prompts.length, 0)
+    };
+  }
+
+  private setupRequestHandlers(server: Server): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: this.mapEntries((serverName, entry) => entry.resources.map(resource => ({
+        ...resource,
+        uri: this.toBridgeUri(serverName, resource.uri),
+        name: `${serverName}_${resource.name}`
+      })))
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.mapEntries((serverName, entry) => entry.resourceTemplates.map(template => ({
+        ...template,
+        uriTemplate: this.toBridgeUri(serverName, template.uriTemplate),
+        name: `${serverName}_${template.name}`
+      })))
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { serverName, client, uri } = this.resolveUri(request.params.uri);
+      const result = await client.readResource({ uri });
+
+      return {
+        ...result,
+        contents: result.contents.map(content => ({ ...content, uri: this.toBridgeUri(serverName, content.uri) }))
+      };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { client, uri } = this.resolveUri(request.params.uri);
+      if (!client.getServerCapabilities()?.resources?.subscribe) {
+        throw new McpError(ErrorCode.InvalidRequest, `Resource does not support subscriptions: ${request.params.uri}`);
+      }
+
+      await client.subscribeResource({ uri });
+      this.subscriptions.get(server)?.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      if (this.subscriptions.get(server)?.delete(request.params.uri)) {
+        await this.releaseSubscription(request.params.uri);
+      }
+      return {};
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.mapEntries((serverName, entry) => entry.prompts.map(prompt => ({
+        ...prompt,
+        name: `${serverName}_${prompt.name}`
+      })))
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      for (const [serverName, entry] of this.entries) {
+        const prompt = entry.prompts.find(candidate => `${serverName}_${candidate.name}` === request.params.name);
+        if (prompt) {
+          return this.getClient(serverName, entry).getPrompt({ ...request.params, name: prompt.name });
+        }
+      }
+
+      throw new McpError(ErrorCode.InvalidParams, `Prompt ${request.params.name} not found`);
+    });
+  }
+
+  /**
+   * Re-fetch one list from a server after it reported a change
+   */
+  private async refreshServer(serverName: string, server: ManagedServer, list: 'resources' | 'prompts'): Promise<void> {
+    const entry = this.entries.get(serverName);
+    if (!entry || !server.client) {
+      return;
+    }
+
+    try {
+      if (list === 'resources') {
+        await this.loadResources(server.client, entry);
+      } else {
+        await this.loadPrompts(server.client, entry);
+      }
+      this.notifyListChanged(list);
+    } catch (error) {
+      console.error(`Failed to refresh ${list} from ${serverName}:`, error);
+    }
+  }
+
+  private async loadResources(client: Client, entry: ServerCapabilityEntry): Promise<void> {
+    if (!client.getServerCapabilities()?.resources) {
+      entry.resources = [];
+      entry.resourceTemplates = [];
+      return;
+    }
+
+    entry.resources = await this.collectPages(cursor =>
+      client.listResources(cursor ? { cursor } : undefined).then(result => ({ items: result.resources, nextCursor: result.nextCursor }))
+    );
+
+    // Template listing is optional for servers that only expose fixed resources
+    entry.resourceTemplates = await this.collectPages(cursor =>
+      client.listResourceTemplates(cursor ? { cursor } : undefined)
+        .then(result => ({ items: result.resourceTemplates, nextCursor: result.nextCursor }))
+    ).catch(() => []);
+  }
+
+  private async loadPrompts(client: Client, entry: ServerCapabilityEntry): Promise<void> {
+    if (!client.getServerCapabilities()?.prompts) {
+      entry.prompts = [];
+      return;
+    }
+
+    entry.prompts = await this.collectPages(cursor =>
+      client.listPrompts(cursor ? { cursor } : undefined).then(result => ({ items: result.prompts, nextCursor: result.nextCursor }))
+    );
+  }
+
+  /**
+   * Follow pagination cursors until the downstream list is complete
+   */
+  private async collectPages<T>(fetchPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await fetchPage(cursor);
+      items.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return items;
+  }
+
+  private mapEntries<T>(map: (serverName: string, entry: ServerCapabilityEntry) => T[]): T[] {
+    return Array.from(this.entries.entries()).flatMap(([serverName, entry]) => map(serverName, entry));
+  }
+
+  /**
+   * Unsubscribe downstream once no bridge client is subscribed to a URI any more
+   */
+  private async releaseSubscription(bridgeUri: string): Promise<void> {
+    for (const uris of this.subscriptions.values()) {
+      if (uris.has(bridgeUri)) {
+        return;
+      }
+    }
+
+    const { client, uri } = this.resolveUri(bridgeUri);
+    await client.unsubscribeResource({ uri });
+  }
+
+  private notifyListChanged(list: 'resources' | 'prompts'): void {
+    for (const server of this.subscriptions.keys()) {
+      if (!server.transport) {
+        continue;
+      }
+
+      const send = list === 'resources' ? server.sendResourceListChanged() : server.sendPromptListChanged();
+      send.catch(() => undefined);
+    }
+  }
+
+  private toBridgeUri(serverName: string, uri: string): string {
+    return `${BRIDGE_URI_PREFIX}${serverName}/${uri}`;
+  }
+
+  /**
+   * Map a bridge URI back to the owning server's client and original URI
+   */
+  private resolveUri(bridgeUri: string): { serverName: string; client: Client; uri: string } {
+    if (bridgeUri.startsWith(BRIDGE_URI_PREFIX)) {
+      const rest = bridgeUri.slice(BRIDGE_URI_PREFIX.length);
+      const separator = rest.indexOf('/');
+      const serverName = rest.slice(0, separator);
+      const entry = separator > 0 ? this.entries.get(serverName) : undefined;
+
+      if (entry) {
+        return { serverName, client: this.getClient(serverName, entry), uri: rest.slice(separator + 1) };
+      }
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Resource ${bridgeUri} not found`);
+  }
+
+  private getClient(serverName: string, entry: ServerCapabilityEntry): Client {
+    if (!entry.server.client) {
+      throw new McpError(ErrorCode.InternalError, `Server ${serverName} is not running`);
+    }
+    return entry.server.client;
+  }
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult, ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ManagedServer } from '@mcplookup-org/mcp-sdk';
+import { z } from 'zod';
+import type { ToolPolicyStore } from '../policy/tool-policy-store.js';
+import { DynamicToolRegistry, ToolDisclosureOptions } from './dynamic-tool-registry.js';
+
+async function connect(server: McpServer, client: Client): Promise<void> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+}
+
+const text = (result: unknown) => ((result as CallToolResult).content[0] as { text: string }).text;
+
+describe('DynamicToolRegistry', () => {
+  let managed: ManagedServer;
+  const clients: Client[] = [];
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const github = new McpServer({ name: 'github', version: '1.0.0' });
+    github.tool('create_issue', 'Open a new issue in a repository', { title: z.string() }, async ({ title }) => ({
+      content: [{ type: 'text', text: `Created "${title}"` }]
+    }));
+    github.tool('list_issues', 'List the open issues of a repository', async () => ({ content: [{ type: 'text', text: '[]' }] }));
+    github.tool('get_user', 'Get a user profile', async () => ({ content: [{ type: 'text', text: 'octocat' }] }));
+
+    const client = new Client({ name: 'bridge-client-github', version: '1.0.0' });
+    await connect(github, client);
+    managed = { name: 'github', type: 'npm', mode: 'bridge', command: [], tools: [], status: 'running', client };
+    clients.push(client);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Create a registry on a bridge server and connect an upstream client to it
+   */
+  async function createBridge(disclosure?: ToolDisclosureOptions, policyStore?: ToolPolicyStore) {
+    const bridge = new McpServer({ name: 'bridge', version: '1.0.0' });
+    const registry = new DynamicToolRegistry(bridge, policyStore, undefined, disclosure);
+    await registry.addServerTools('github', managed);
+    const upstream = await attach(bridge);
+    return { registry, upstream };
+  }
+
+  async function attach(bridge: McpServer): Promise<Client> {
+    const upstream = new Client({ name: 'claude', version: '1.0.0' });
+    await connect(bridge, upstream);
+    clients.push(upstream);
+    return upstream;
+  }
+
+  const listNames = async (client: Client) => (await client.listTools()).tools.map(tool => tool.name);
+
+  it('should expose every tool in eager mode', async () => {
+    const { upstream } = await createBridge();
+
+    expect(await listNames(upstream)).toEqual(['github_create_issue', 'github_list_issues', 'github_get_user']);
+    expect(text(await upstream.callTool({ name: 'github_create_issue', arguments: { title: 'Bug' } }))).toBe('Created "Bug"');
+  });
+
+  it('should only expose the meta-tools and pinned tools in lazy mode', async () => {
+    const { upstream } = await createBridge({ mode: 'lazy', pinned: ['github_get_*'] });
+
+    expect(await listNames(upstream)).toEqual(['search_tools', 'call_tool', 'github_get_user']);
+  });
+
+  it('should find tools by name and description and call them through call_tool', async () => {
+    const { registry, upstream } = await createBridge({ mode: 'lazy' });
+
+    expect(registry.searchTools('create issues').map(result => result.name)).toEqual(['github_create_issue', 'github_list_issues']);
+    expect(registry.searchTools('profile')).toMatchObject([{ name: 'github_get_user', server: 'github' }]);
+    expect(registry.searchTools('issue', { server: 'other' })).toEqual([]);
+
+    const found = JSON.parse(text(await upstream.callTool({ name: 'search_tools', arguments: { query: 'open issue', limit: 1 } })));
+    expect(found).toMatchObject({ total: 1, tools: [{ name: 'github_create_issue', exposed: false }] });
+
+    expect(text(await upstream.callTool({ name: 'call_tool', arguments: { name: 'github_create_issue', arguments: { title: 'Bug' } } })))
+      .toBe('Created "Bug"');
+    const unknown = await upstream.callTool({ name: 'call_tool', arguments: { name: 'github_delete_repo' } });
+    expect(unknown.isError).toBe(true);
+    expect(text(unknown)).toContain('Unknown tool: github_delete_repo');
+  });
+
+  it('should promote search results on the asking session only', async () => {
+    const bridge = new McpServer({ name: 'bridge', version: '1.0.0' });
+    const registry = new DynamicToolRegistry(bridge, undefined, undefined, { mode: 'lazy' });
+    await registry.addServerTools('github', managed);
+    const upstream = await attach(bridge);
+
+    const other = new McpServer({ name: 'bridge', version: '1.0.0' });
+    registry.attachServer(other);
+    const otherUpstream = await attach(other);
+
+    const changed = new Promise(resolve => upstream.setNotificationHandler(ToolListChangedNotificationSchema, resolve));
+    const found = JSON.parse(text(await upstream.callTool({ name: 'search_tools', arguments: { query: 'issues', promote: true } })));
+    await changed;
+
+    expect(found.promoted).toEqual(['github_create_issue', 'github_list_issues']);
+    expect(await listNames(upstream)).toEqual(['search_tools', 'call_tool', 'github_create_issue', 'github_list_issues']);
+    expect(await listNames(otherUpstream)).toEqual(['search_tools', 'call_tool']);
+    // Promoting again adds nothing
+    expect(registry.promoteTools(bridge, ['github_list_issues'])).toEqual([]);
+  });
+
+  it('should keep tools the policy denies out of search and call_tool', async () => {
+    const policyStore = { load: async () => ({ version: 1, deny: ['create_issue'] }) } as unknown as ToolPolicyStore;
+    const { registry, upstream } = await createBridge({ mode: 'lazy' }, policyStore);
+
+    expect(registry.searchTools('issue').map(result => result.name)).toEqual(['github_list_issues']);
+    const denied = await upstream.callTool({ name: 'call_tool', arguments: { name: 'github_create_issue', arguments: { title: 'Bug' } } });
+    expect(denied.isError).toBe(true);
+  });
+
+  it('should drop tools of a removed server from lazy search', async () => {
+    const { registry, upstream } = await createBridge({ mode: 'lazy', pinned: ['github_*'] });
+
+    await registry.removeServerTools('github');
+
+    expect(registry.searchTools('issue')).toEqual([]);
+    expect(await listNames(upstream)).toEqual(['search_tools', 'call_tool']);
+  });
+});
@@ -1,14 +1,118 @@
 // Dynamic tool registry for managing tools from bridge-mode servers
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { ManagedServer } from '@mcplookup-org/mcp-sdk';
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  CallToolResult,
+  CreateMessageRequest,
+  CreateMessageResult,
+  CreateMessageResultSchema,
+  ErrorCode,
+  LoggingLevel,
+  LoggingMessageNotification,
+  McpError,
+  SetLevelRequestSchema,
+  Tool
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { ManagedServer, ToolPolicy } from '@mcplookup-org/mcp-sdk';
+import { ToolPolicyStore } from '../policy/tool-policy-store.js';
+import { ToolCallAuditLog } from '../audit/tool-call-audit-log.js';
+import { evaluateSamplingPolicy, evaluateToolPolicy, isConfirmed, isToolAllowed, matchesToolPattern } from '../policy/tool-policy.js';
+import { jsonSchemaToZodShape } from './json-schema-shape.js';
+import {
+  CallRelay,
+  ElicitRequest,
+  ElicitResult,
+  ElicitResultSchema,
+  RelayClientCapabilities,
+  RelayContext,
+  ServerRequestRelay,
+  relayRequestOptions,
+  supportsElicitation
+} from './notification-relay.js';
 
-export class DynamicToolRegistry {
-  private mcpServer: McpServer;
+interface DynamicToolDefinition {
+  serverName: string;
+  server: ManagedServer;
+  tool: Tool;
+}
+
+export interface ToolDisclosureOptions {
+  /**
+   * eager registers every bridged tool up front; lazy exposes only the
+   * search_tools and call_tool meta-tools plus the pinned tools
+   */
+  mode: 'eager' | 'lazy';
+  /**
+   * Bridged tool names or glob patterns (e.g. github_*) always exposed in lazy mode
+   */
+  pinned?: string[];
+}
+
+export interface ToolSearchResult {
+  name: string; // bridged name, <server>_<tool>
+  server: string;
+  description?: string;
+  inputSchema: Tool['inputSchema'];
+  score: number;
+}
+
+export class DynamicToolRegistry implements ServerRequestRelay {
+  private mcpServers = new Set<McpServer>(); // bridge servers the tools are exposed on
+  private policyStore?: ToolPolicyStore;
+  private auditLog?: ToolCallAuditLog;
   private registeredTools = new Map<string, Set<string>>(); // serverName -> Set<toolName>
+  private definitions = new Map<string, DynamicToolDefinition>(); // prefixed tool name -> definition
+  private handles = new Map<McpServer, Map<string, RegisteredTool>>();
+  private disclosure: ToolDisclosureOptions;
+  private promoted = new Map<McpServer, Set<string>>(); // lazy mode: tools promoted per bridge server
+  private servers = new Map<string, ManagedServer>(); // serverName -> server whose tools are bridged
+  private callRelay = new CallRelay(params => this.broadcastLogMessage(params));
+  private loggingLevel?: LoggingLevel; // last level a client asked for, applied to every server
+  private grantedTokens = new WeakMap<RelayContext, number>(); // sampling maxTokens granted per upstream call
+
+  constructor(
+    mcpServer: McpServer,
+    policyStore?: ToolPolicyStore,
+    auditLog?: ToolCallAuditLog,
+    disclosure: ToolDisclosureOptions = { mode: 'eager' }
+  ) {
+    this.mcpServers.add(mcpServer);
+    this.policyStore = policyStore;
+    this.auditLog = auditLog;
+    this.disclosure = disclosure;
+    this.setupLogging(mcpServer);
+
+    if (disclosure.mode === 'lazy') {
+      this.registerMetaTools(mcpServer);
+    }
+  }
+
+  /**
+   * Expose all dynamic tools on an additional bridge server (e.g. one HTTP session)
+   */
+  attachServer(mcpServer: McpServer): void {
+    this.mcpServers.add(mcpServer);
+    this.setupLogging(mcpServer);
+    if (this.disclosure.mode === 'lazy') {
+      this.registerMetaTools(mcpServer);
+    }
+
+    for (const [prefixedToolName, definition] of this.definitions) {
+      if (this.isExposed(mcpServer, prefixedToolName)) {
+        this.registerTool(mcpServer, prefixedToolName, definition);
+      }
+    }
+  }
 
-  constructor(mcpServer: McpServer) {
-    this.mcpServer = mcpServer;
+  /**
+   * Stop tracking a bridge server that is shutting down
+   */
+  detachServer(mcpServer: McpServer): void {
+    this.mcpServers.delete(mcpServer);
+    this.handles.delete(mcpServer);
+    this.promoted.delete(mcpServer);
   }
 
   /**
@@ -23,72 +127,432 @@ export class DynamicToolRegistry {
     try {
       // Get available tools from the server
       const tools = await server.client.listTools();
+
+      // Notification handlers live on the client, so attach them to every new connection
+      this.callRelay.attach(server.client, serverName);
+      this.servers.set(serverName, server);
+      await this.applyLoggingLevel(serverName, server);
+
+      // Replace tools registered by an earlier start of this server
+      this.unregisterServerTools(serverName);
+
+      const policy = await this.loadPolicy(serverName);
       const toolNames = new Set<string>();
+      let hiddenCount = 0;
 
       for (const tool of tools.tools || []) {
         const toolName = tool.name;
         const prefixedToolName = `${serverName}_${toolName}`;
-        
+
+        // Tools the policy never allows are not exposed at all
+        if (!isToolAllowed(policy, toolName)) {
+          hiddenCount++;
+          continue;
+        }
+
         // Store the tool name for cleanup later
         toolNames.add(prefixedToolName);
 
         // Create dynamic tool that delegates to the managed server
-        this.mcpServer.tool(
-          prefixedToolName,
-          tool.inputSchema || {},
-          async (args: any) => {
-            try {
-              if (!server.client) {
-                throw new Error(`Server ${serverName} is not running`);
-              }
-
-              const result = await server.client.callTool({
-                name: toolName,
-                arguments: args
-              });
-
-              return {
-                content: Array.isArray(result.content) && result.content.length > 0
-                  ? result.content.map((item: any) => ({ ...item, type: item.type as 'text' }))
-                  : [{ type: 'text' as const, text: JSON.stringify(result) }]
-              };
-            } catch (error) {
-              return {
-                content: [{
-                  type: 'text' as const,
-                  text: `❌ Error calling ${toolName} on ${serverName}: ${error instanceof Error ? error.message : 'Unknown error'}`
-                }],
-                isError: true
-              };
-            }
+        const definition = { serverName, server, tool };
+        this.definitions.set(prefixedToolName, definition);
+        for (const mcpServer of this.mcpServers) {
+          if (this.isExposed(mcpServer, prefixedToolName)) {
+            this.registerTool(mcpServer, prefixedToolName, definition);
           }
-        );
+        }
       }
 
       // Store registered tools for this server
       this.registeredTools.set(serverName, toolNames);
 
       console.log(`🔧 Added ${toolNames.size} dynamic tools from '${serverName}': ${Array.from(toolNames).join(', ')}`);
+      if (hiddenCount > 0) {
+        console.log(`🚫 Hid ${hiddenCount} tools from '${serverName}' by policy`);
+      }
     } catch (error) {
       console.error(`Failed to add tools from ${serverName}:`, error);
       throw error;
     }
   }
 
+  getDisclosure(): ToolDisclosureOptions {
+    return this.disclosure;
+  }
+
   /**
-   * Remove dynamic tools for a server
+   * Rank bridged tools by how well their name and description match a query
    */
-  async removeServerTools(serverName: string): Promise<void> {
+  searchTools(query: string, options: { server?: string; limit?: number } = {}): ToolSearchResult[] {
+    const words = query.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+    const results: ToolSearchResult[] = [];
+
+    for (const [name, { serverName, tool }] of this.definitions) {
+      if (options.server && serverName !== options.server) {
+        continue;
+      }
+
+      const score = scoreTool(name, tool.description || '', words);
+      if (score > 0) {
+        results.push({ name, server: serverName, description: tool.description, inputSchema: tool.inputSchema, score });
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+    return results.slice(0, options.limit ?? 10);
+  }
+
+  /**
+   * Lazy mode: register tools on one bridge server as first-class tools (the
+   * SDK sends tools/list_changed). Returns the names that were newly exposed.
+   */
+  promoteTools(mcpServer: McpServer, names: string[]): string[] {
+    if (!this.promoted.has(mcpServer)) {
+      this.promoted.set(mcpServer, new Set());
+    }
+
+    const added: string[] = [];
+    for (const name of names) {
+      const definition = this.definitions.get(name);
+      if (!definition || this.isExposed(mcpServer, name)) {
+        continue;
+      }
+
+      this.promoted.get(mcpServer)!.add(name);
+      this.registerTool(mcpServer, name, definition);
+      added.push(name);
+    }
+    return added;
+  }
+
+  private isExposed(mcpServer: McpServer, prefixedToolName: string): boolean {
+    return this.disclosure.mode === 'eager'
+      || (this.disclosure.pinned || []).some(pattern => matchesToolPattern(pattern, prefixedToolName))
+      || this.promoted.get(mcpServer)?.has(prefixedToolName) === true;
+  }
+
+  private registerMetaTools(mcpServer: McpServer): void {
+    mcpServer.tool(
+      'search_tools',
+      'Search the tools of all bridged servers by name and description. Run a result with call_tool, or set promote to add the results to your tool list.',
+      {
+        query: z.string().min(1).describe('Words describing the tool you need, e.g. "create github issue"'),
+        server: z.string().optional().describe('Only search the tools of this managed server'),
+        limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of results'),
+        promote: z.boolean().default(false).describe('Expose the results as first-class tools')
+      },
+      async ({ query, server, limit, promote }) => {
+        const results = this.searchTools(query, { server, limit });
+        const promoted = promote ? this.promoteTools(mcpServer, results.map(result => result.name)) : [];
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              total: results.length,
+              tools: results.map(({ score, ...result }) => ({ ...result, exposed: this.isExposed(mcpServer, result.name) })),
+              ...(promote && { promoted })
+            }, null, 2)
+          }]
+        };
+      }
+    );
+
+    mcpServer.tool(
+      'call_tool',
+      'Call a bridged tool found with search_tools',
+      {
+        name: z.string().describe('Tool name returned by search_tools, e.g. github_create_issue'),
+        arguments: z.record(z.unknown()).default({}).describe('Arguments matching the tool\'s inputSchema')
+      },
+      async ({ name, arguments: args }, extra) => {
+        const definition = this.definitions.get(name);
+        if (!definition) {
+          return {
+            content: [{ type: 'text' as const, text: `❌ Unknown tool: ${name}. Use search_tools to find available tools.` }],
+            isError: true
+          };
+        }
+        return this.callServerTool(mcpServer, definition.serverName, definition.server, definition.tool.name, args, extra);
+      }
+    );
+  }
+
+  private registerTool(mcpServer: McpServer, prefixedToolName: string, definition: DynamicToolDefinition): void {
+    const { serverName, server, tool } = definition;
+
+    const handle = mcpServer.tool(
+      prefixedToolName,
+      tool.description || `${tool.name} from ${serverName}`,
+      jsonSchemaToZodShape(tool.inputSchema),
+      async (args, extra) => this.callServerTool(mcpServer, serverName, server, tool.name, args, extra)
+    );
+
+    if (!this.handles.has(mcpServer)) {
+      this.handles.set(mcpServer, new Map());
+    }
+    this.handles.get(mcpServer)!.set(prefixedToolName, handle);
+  }
+
+  /**
+   * Remove a server's tools from every bridge server
+   */
+  private unregisterServerTools(serverName: string): number {
     const toolNames = this.registeredTools.get(serverName);
     if (!toolNames) {
-      return;
+      return 0;
+    }
+
+    for (const prefixedToolName of toolNames) {
+      this.definitions.delete(prefixedToolName);
+      for (const handles of this.handles.values()) {
+        handles.get(prefixedToolName)?.remove();
+        handles.delete(prefixedToolName);
+      }
     }
 
-    // Note: The MCP SDK doesn't provide a way to unregister tools,
-    // so we just remove them from our tracking and they'll be inactive
     this.registeredTools.delete(serverName);
+    return toolNames.size;
+  }
+
+  /**
+   * Forward a call to the managed server, enforcing its policy and auditing the outcome
+   */
+  private async callServerTool(
+    mcpServer: McpServer,
+    serverName: string,
+    server: ManagedServer,
+    toolName: string,
+    args: Record<string, unknown>,
+    extra: RelayContext
+  ): Promise<CallToolResult> {
+    const startedAt = Date.now();
+    let result: CallToolResult;
+    let error: string | undefined;
+
+    try {
+      if (!server.client) {
+        throw new Error(`Server ${serverName} is not running`);
+      }
+
+      const denial = await this.checkPolicy(mcpServer, serverName, toolName, args, extra);
+      if (denial) {
+        error = `Blocked by policy: ${denial}`;
+        result = {
+          content: [{ type: 'text' as const, text: `🚫 Blocked by policy: ${denial}` }],
+          isError: true
+        };
+      } else {
+        const client = server.client as Client;
+        const response = await this.callRelay.track(client, extra, () => client.callTool(
+          { name: toolName, arguments: args },
+          undefined,
+          relayRequestOptions(extra)
+        ));
+
+        result = {
+          content: Array.isArray(response.content) && response.content.length > 0
+            ? response.content.map((item: any) => ({ ...item, type: item.type as 'text' }))
+            : [{ type: 'text' as const, text: JSON.stringify(response) }],
+          ...(response.isError === true && { isError: true })
+        };
+
+        if (response.isError === true) {
+          const text = result.content.find(item => item.type === 'text');
+          error = text && 'text' in text ? String(text.text).slice(0, 500) : 'Tool reported an error';
+        }
+      }
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : 'Unknown error';
+      result = {
+        content: [{
+          type: 'text' as const,
+          text: `❌ Error calling ${toolName} on ${serverName}: ${error}`
+        }],
+        isError: true
+      };
+    }
+
+    await this.auditLog?.record({
+      client: mcpServer.server.getClientVersion()?.name,
+      server: serverName,
+      tool: toolName,
+      arguments: args,
+      durationMs: Date.now() - startedAt,
+      resultSize: Buffer.byteLength(JSON.stringify(result.content)),
+      isError: result.isError === true,
+      ...(error && { error })
+    });
+
+    return result;
+  }
+
+  /**
+   * Sampling and elicitation are offered to managed servers when any connected
+   * client supports them
+   */
+  getCapabilities(): RelayClientCapabilities {
+    const clients = Array.from(this.mcpServers, mcpServer => mcpServer.server.getClientCapabilities());
+    return {
+      ...(clients.some(capabilities => capabilities?.sampling) && { sampling: {} }),
+      ...(clients.some(supportsElicitation) && { elicitation: {} })
+    };
+  }
+
+  /**
+   * Forward a server's sampling request to the client whose tool call it is
+   * running, within the token limits of the server's policy
+   */
+  async createMessage(serverName: string, params: CreateMessageRequest['params']): Promise<CreateMessageResult> {
+    const context = this.getCallContext(serverName, 'sampling/createMessage');
+
+    const granted = this.grantedTokens.get(context) || 0;
+    const decision = evaluateSamplingPolicy(await this.loadPolicy(serverName), params.maxTokens, granted);
+    if (!decision.allowed) {
+      throw new McpError(ErrorCode.InvalidRequest, `Sampling blocked by policy: ${decision.reason}`);
+    }
+    this.grantedTokens.set(context, granted + decision.maxTokens);
+
+    return context.sendRequest({
+      method: 'sampling/createMessage',
+      params: { ...params, maxTokens: decision.maxTokens }
+    }, CreateMessageResultSchema);
+  }
+
+  /**
+   * Forward a server's elicitation request to the client whose tool call it is running
+   */
+  async elicit(serverName: string, params: ElicitRequest['params']): Promise<ElicitResult> {
+    const context = this.getCallContext(serverName, 'elicitation/create');
+    return context.sendRequest({ method: 'elicitation/create', params }, ElicitResultSchema);
+  }
+
+  /**
+   * Get the upstream request a server is running a tool call for; requests
+   * outside of a call have no client to ask, and requests made while several
+   * calls run could belong to any of them
+   */
+  private getCallContext(serverName: string, method: string): RelayContext {
+    const client = this.servers.get(serverName)?.client as Client | undefined;
+    const calls = client ? this.callRelay.getInFlightCount(client) : 0;
+    if (calls > 1) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${method} is refused while ${calls} tools of ${serverName} are being called: it cannot be matched to its call`
+      );
+    }
+
+    const context = client && this.callRelay.getContext(client);
+    if (!context) {
+      throw new McpError(ErrorCode.InvalidRequest, `${method} is only relayed while a tool of ${serverName} is being called`);
+    }
+    return context;
+  }
+
+  /**
+   * Declare logging on a bridge server and pass its client's level on to the
+   * managed servers. Must be called before that server connects to a transport.
+   */
+  private setupLogging(mcpServer: McpServer): void {
+    mcpServer.server.registerCapabilities({ logging: {} });
+    mcpServer.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.loggingLevel = request.params.level;
+      await Promise.all(Array.from(this.servers, ([serverName, server]) => this.applyLoggingLevel(serverName, server)));
+      return {};
+    });
+  }
+
+  private async applyLoggingLevel(serverName: string, server: ManagedServer): Promise<void> {
+    if (!this.loggingLevel || !server.client?.getServerCapabilities()?.logging) {
+      return;
+    }
+
+    await server.client.setLoggingLevel(this.loggingLevel).catch((error: unknown) =>
+      console.error(`Failed to set the log level of ${serverName}:`, error instanceof Error ? error.message : String(error))
+    );
+  }
+
+  /**
+   * Send log events that belong to no tool call to every bridge server
+   */
+  private async broadcastLogMessage(params: LoggingMessageNotification['params']): Promise<void> {
+    await Promise.all(Array.from(this.mcpServers, mcpServer =>
+      mcpServer.server.sendLoggingMessage(params).catch(() => undefined)
+    ));
+  }
+
+  /**
+   * Load a server's policy; an unreadable policy file hides every tool
+   */
+  private async loadPolicy(serverName: string): Promise<ToolPolicy | null> {
+    if (!this.policyStore) {
+      return null;
+    }
+
+    try {
+      return await this.policyStore.load(serverName);
+    } catch (error) {
+      console.error(`Invalid tool policy for ${serverName}, denying all tools:`, error instanceof Error ? error.message : String(error));
+      return { version: 1, deny: ['*'] };
+    }
+  }
+
+  /**
+   * Evaluate the current policy for a call, asking the client for confirmation
+   * when required. Returns the reason the call was blocked, if it was.
+   */
+  private async checkPolicy(
+    mcpServer: McpServer,
+    serverName: string,
+    toolName: string,
+    args: Record<string, unknown>,
+    extra: RelayContext
+  ): Promise<string | undefined> {
+    const decision = evaluateToolPolicy(await this.loadPolicy(serverName), toolName, args);
+    if (!decision.allowed) {
+      return decision.reason;
+    }
+    if (!decision.requiresConfirmation) {
+      return undefined;
+    }
+
+    // Fail closed when the client cannot be asked
+    if (!supportsElicitation(mcpServer.server.getClientCapabilities())) {
+      return `${toolName} requires confirmation, but the client does not support elicitation`;
+    }
+
+    const request: ElicitRequest = {
+      method: 'elicitation/create',
+      params: {
+        message: `Allow ${serverName} to run ${toolName} with arguments ${JSON.stringify(args)}?`,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: { type: 'boolean', title: 'Run this tool' }
+          },
+          required: ['confirm']
+        }
+      }
+    };
+    const response = await extra.sendRequest(request, ElicitResultSchema);
+
+    if (!isConfirmed(response)) {
+      return `${toolName} was not confirmed by the user`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Remove dynamic tools for a server
+   */
+  async removeServerTools(serverName: string): Promise<void> {
+    if (!this.registeredTools.has(serverName)) {
+      return;
+    }
 
-    console.log(`🗑️ Removed ${toolNames.size} dynamic tools from '${serverName}'`);
+    const count = this.unregisterServerTools(serverName);
+    this.servers.delete(serverName);
+    console.log(`🗑️ Removed ${count} dynamic tools from '${serverName}'`);
   }
 
   /**
@@ -157,7 +621,10 @@ export class DynamicToolRegistry {
    * Clear all registered tools
    */
   clearAll(): void {
-    this.registeredTools.clear();
+    for (const serverName of Array.from(this.registeredTools.keys())) {
+      this.unregisterServerTools(serverName);
+    }
+    this.servers.clear();
     console.log('🧹 Cleared all dynamic tool registrations');
   }
 
@@ -184,3 +651,28 @@ export class DynamicToolRegistry {
     };
   }
 }
+
+/**
+ * Score a tool against search words; whole-word name matches count most
+ */
+function scoreTool(name: string, description: string, words: string[]): number {
+  const nameWords = name.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase().split(/[^a-z0-9]+/);
+  const lowerName = name.toLowerCase();
+  const lowerDescription = description.toLowerCase();
+  let score = 0;
+
+  for (const word of words) {
+    // Match "issues" against "issue" and the like
+    const stem = word.length > 3 ? word.replace(/s$/, '') : word;
+    if (nameWords.includes(word) || nameWords.includes(stem)) {
+      score += 10;
+    } else if (lowerName.includes(stem)) {
+      score += 5;
+    }
+    if (lowerDescription.includes(stem)) {
+      score += 2;
+    }
+  }
+
+  return score;
+}
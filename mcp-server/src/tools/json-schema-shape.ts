@@ -0,0 +1,61 @@
+// Convert downstream JSON Schemas into zod shapes for McpServer tool registration
+
+import { z, ZodRawShape, ZodTypeAny } from 'zod';
+
+/**
+ * Convert a JSON Schema into an equivalent (or looser) zod type.
+ * Constructs zod cannot express map to z.any() so no valid input is rejected.
+ */
+export function jsonSchemaToZod(schema: any): ZodTypeAny {
+  if (!schema || typeof schema !== 'object') {
+    return z.any();
+  }
+
+  let type: ZodTypeAny;
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0 && schema.enum.every((value: unknown) => typeof value === 'string')) {
+    type = z.enum(schema.enum as [string, ...string[]]);
+  } else {
+    switch (schema.type) {
+      case 'string':
+        type = z.string();
+        break;
+      case 'number':
+        type = z.number();
+        break;
+      case 'integer':
+        type = z.number().int();
+        break;
+      case 'boolean':
+        type = z.boolean();
+        break;
+      case 'array':
+        type = z.array(jsonSchemaToZod(schema.items));
+        break;
+      case 'object':
+        type = schema.properties
+          ? z.object(jsonSchemaToZodShape(schema)).passthrough()
+          : z.record(z.any());
+        break;
+      default:
+        type = z.any();
+    }
+  }
+
+  return schema.description ? type.describe(schema.description) : type;
+}
+
+/**
+ * Convert an object JSON Schema (a tool's inputSchema) into a zod raw shape
+ */
+export function jsonSchemaToZodShape(schema: any): ZodRawShape {
+  const shape: ZodRawShape = {};
+  const required: string[] = Array.isArray(schema?.required) ? schema.required : [];
+
+  for (const [name, property] of Object.entries<any>(schema?.properties || {})) {
+    const type = jsonSchemaToZod(property);
+    shape[name] = required.includes(name) ? type : type.optional();
+  }
+
+  return shape;
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { CallRelay, RelayContext, relayRequestOptions, supportsElicitation } from './notification-relay.js';
+
+function createContext(progressToken?: string): RelayContext {
+  return {
+    signal: new AbortController().signal,
+    _meta: progressToken ? { progressToken } : undefined,
+    sendNotification: vi.fn(async () => undefined),
+    sendRequest: vi.fn()
+  } as unknown as RelayContext;
+}
+
+/**
+ * A downstream client whose notification handler the tests call directly
+ */
+function createClient() {
+  let handler: ((notification: unknown) => Promise<void>) | undefined;
+  const client = {
+    setNotificationHandler: (_schema: unknown, next: typeof handler) => {
+      handler = next;
+    }
+  } as unknown as Client;
+
+  return {
+    client,
+    log: (data: string) => handler!({ method: 'notifications/message', params: { level: 'info', logger: 'api', data } })
+  };
+}
+
+/**
+ * Start a call that stays in flight until the returned function is called
+ */
+function startCall(relay: CallRelay, client: Client, context: RelayContext): () => Promise<void> {
+  let finish!: () => void;
+  const call = relay.track(client, context, () => new Promise<void>(resolve => finish = resolve));
+  return () => {
+    finish();
+    return call;
+  };
+}
+
+describe('CallRelay', () => {
+  it('should give the context of the only call in flight', async () => {
+    const relay = new CallRelay();
+    const { client } = createClient();
+    const context = createContext();
+
+    expect(relay.getContext(client)).toBeUndefined();
+    const finish = startCall(relay, client, context);
+    expect(relay.getContext(client)).toBe(context);
+    await finish();
+    expect(relay.getContext(client)).toBeUndefined();
+  });
+
+  it('should not guess a context while two sessions call the same server', async () => {
+    const relay = new CallRelay();
+    const { client } = createClient();
+
+    const finishA = startCall(relay, client, createContext());
+    const finishB = startCall(relay, client, createContext());
+    expect(relay.getInFlightCount(client)).toBe(2);
+    expect(relay.getContext(client)).toBeUndefined();
+
+    await finishA();
+    await finishB();
+    expect(relay.getInFlightCount(client)).toBe(0);
+  });
+
+  it('should send log events only to the session whose call is running', async () => {
+    const fallback = vi.fn(async () => undefined);
+    const relay = new CallRelay(fallback);
+    const { client, log } = createClient();
+    relay.attach(client, 'github');
+
+    const sessionA = createContext();
+    const sessionB = createContext();
+    const finishA = startCall(relay, client, sessionA);
+    await log('first');
+    expect(sessionA.sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/message',
+      params: { level: 'info', logger: 'github/api', data: 'first' }
+    });
+
+    // With both calls running the event could belong to either
+    const finishB = startCall(relay, client, sessionB);
+    await log('second');
+    expect(sessionA.sendNotification).toHaveBeenCalledTimes(1);
+    expect(sessionB.sendNotification).not.toHaveBeenCalled();
+    expect(fallback).not.toHaveBeenCalled();
+
+    await finishA();
+    await log('third');
+    expect(sessionB.sendNotification).toHaveBeenCalledTimes(1);
+    expect(sessionA.sendNotification).toHaveBeenCalledTimes(1);
+
+    await finishB();
+    await log('fourth');
+    expect(fallback).toHaveBeenCalledWith({ level: 'info', logger: 'github/api', data: 'fourth' });
+  });
+
+  it('should run calls without an upstream request untracked', async () => {
+    const relay = new CallRelay();
+    const { client } = createClient();
+    expect(await relay.track(client, undefined, async () => 'done')).toBe('done');
+    expect(relay.getInFlightCount(client)).toBe(0);
+  });
+});
+
+describe('relayRequestOptions', () => {
+  it('should forward progress under the upstream token', () => {
+    const context = createContext('upstream-1');
+    relayRequestOptions(context).onprogress?.({ progress: 1, total: 2 });
+
+    expect(context.sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progress: 1, total: 2, progressToken: 'upstream-1' }
+    });
+  });
+
+  it('should not forward progress the upstream request did not ask for', () => {
+    const context = createContext();
+    relayRequestOptions(context).onprogress?.({ progress: 1 });
+    expect(context.sendNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe('supportsElicitation', () => {
+  it('should check the declared capability', () => {
+    expect(supportsElicitation({ elicitation: {} } as never)).toBe(true);
+    expect(supportsElicitation({})).toBe(false);
+    expect(supportsElicitation(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+// Relay of progress, cancellation and log notifications, and of sampling and
+// elicitation requests, between bridge sessions and the downstream servers
+// that run their tool calls
+
+import { z, ZodType } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { RequestHandlerExtra, RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ClientCapabilities,
+  CreateMessageRequest,
+  CreateMessageResult,
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+
+// elicitation/create is not modelled by this SDK version
+export const ElicitRequestSchema = z.object({
+  method: z.literal('elicitation/create'),
+  params: z.object({
+    message: z.string(),
+    requestedSchema: z.record(z.unknown())
+  }).passthrough()
+});
+
+export const ElicitResultSchema = z.object({
+  action: z.enum(['accept', 'decline', 'cancel']),
+  content: z.record(z.unknown()).optional()
+}).passthrough();
+
+// Neither is the client capability that announces it
+export const ElicitationCapabilitySchema = z.object({}).passthrough();
+
+export type ElicitRequest = z.infer<typeof ElicitRequestSchema>;
+export type ElicitResult = z.infer<typeof ElicitResultSchema>;
+export type ElicitationCapability = z.infer<typeof ElicitationCapabilitySchema>;
+
+/**
+ * Client capabilities including elicitation
+ */
+export type RelayClientCapabilities = ClientCapabilities & { elicitation?: ElicitationCapability };
+
+/**
+ * Requests the bridge sends to an upstream client
+ */
+export type UpstreamRequest = ServerRequest | ElicitRequest;
+
+/**
+ * The part of an upstream request's handler context needed to relay its call
+ */
+export interface RelayContext extends Pick<
+  RequestHandlerExtra<ServerRequest, ServerNotification>,
+  'signal' | '_meta' | 'sendNotification'
+> {
+  sendRequest<U extends ZodType<object>>(request: UpstreamRequest, resultSchema: U, options?: RequestOptions): Promise<z.infer<U>>;
+}
+
+/**
+ * Check whether a client declared the elicitation capability
+ */
+export function supportsElicitation(capabilities: ClientCapabilities | undefined): boolean {
+  return ElicitationCapabilitySchema.safeParse(capabilities?.elicitation).success;
+}
+
+/**
+ * Answers the requests a managed server sends to the bridge's client by
+ * asking the upstream client. Used by ServerRegistry for every connection.
+ */
+export interface ServerRequestRelay {
+  /**
+   * Capabilities to declare to managed servers: those the upstream clients support
+   */
+  getCapabilities(): RelayClientCapabilities;
+  createMessage(serverName: string, params: CreateMessageRequest['params']): Promise<CreateMessageResult>;
+  elicit(serverName: string, params: ElicitRequest['params']): Promise<ElicitResult>;
+}
+
+/**
+ * Build the options for a downstream request made on behalf of an upstream one.
+ * Downstream progress is forwarded under the upstream progress token and keeps
+ * the request from timing out; cancelling the upstream request aborts the
+ * signal, which makes the SDK send notifications/cancelled downstream.
+ */
+export function relayRequestOptions(context?: RelayContext): RequestOptions {
+  const progressToken = context?._meta?.progressToken;
+
+  return {
+    signal: context?.signal,
+    resetTimeoutOnProgress: true,
+    onprogress: progress => {
+      if (context && progressToken !== undefined) {
+        context.sendNotification({
+          method: 'notifications/progress',
+          params: { ...progress, progressToken }
+        }).catch(() => undefined);
+      }
+    }
+  };
+}
+
+/**
+ * Tracks which upstream requests each downstream client is running calls for,
+ * and forwards the client's notifications/message log events to the call in
+ * flight. Events that arrive while no call is in flight go to the fallback, if
+ * any; events that arrive while several are could belong to any of them and
+ * are not forwarded, so one session never sees another's logs.
+ */
+export class CallRelay {
+  private inFlight = new Map<Client, Set<RelayContext>>();
+  private fallback?: (params: LoggingMessageNotification['params']) => Promise<void>;
+
+  constructor(fallback?: (params: LoggingMessageNotification['params']) => Promise<void>) {
+    this.fallback = fallback;
+  }
+
+  /**
+   * Start relaying a client's log events, naming the source in their logger
+   */
+  attach(client: Client, source: string): void {
+    client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+      const { logger } = notification.params;
+      const params = { ...notification.params, logger: logger ? `${source}/${logger}` : source };
+
+      if (this.getInFlightCount(client) === 0) {
+        await this.fallback?.(params);
+        return;
+      }
+
+      await this.getContext(client)?.sendNotification({ method: 'notifications/message', params }).catch(() => undefined);
+    });
+  }
+
+  /**
+   * Get the upstream request the client's in-flight call was made for. Servers
+   * do not say which call their requests belong to, so while several calls are
+   * in flight (possibly from different sessions) none is returned.
+   */
+  getContext(client: Client): RelayContext | undefined {
+    const contexts = this.inFlight.get(client);
+    return contexts?.size === 1 ? contexts.values().next().value : undefined;
+  }
+
+  /**
+   * Get the number of calls the client is running for upstream requests
+   */
+  getInFlightCount(client: Client): number {
+    return this.inFlight.get(client)?.size || 0;
+  }
+
+  /**
+   * Run a downstream call, routing the client's log events to the upstream
+   * request while it is in flight
+   */
+  async track<T>(client: Client, context: RelayContext | undefined, call: () => Promise<T>): Promise<T> {
+    if (!context) {
+      return call();
+    }
+
+    if (!this.inFlight.has(client)) {
+      this.inFlight.set(client, new Set());
+    }
+    const contexts = this.inFlight.get(client)!;
+    contexts.add(context);
+
+    try {
+      return await call();
+    } finally {
+      contexts.delete(context);
+      if (contexts.size === 0) {
+        this.inFlight.delete(client);
+      }
+    }
+  }
+}
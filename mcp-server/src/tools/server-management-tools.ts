@@ -9,37 +9,74 @@ import {
   ManagedServer,
   InstallationResolver,
   InstallationContext,
-  ResolvedPackage
+  ResolvedPackage,
+  RestartPolicy,
+  ServerSandbox
 } from '@mcplookup-org/mcp-sdk';
 import { ServerRegistry } from '../server-management/server-registry.js';
-import { ClaudeConfigManager } from '../server-management/claude-config-manager.js';
+import { DEFAULT_RESTART_POLICY } from '../server-management/server-supervisor.js';
+import { ClientConfigRegistry } from '../server-management/client-config-registry.js';
 import { DockerManager } from '../server-management/docker-manager.js';
+import { SandboxProfileStore, validateServerSandbox } from '../sandbox/sandbox-profiles.js';
 import { DynamicToolRegistry } from './dynamic-tool-registry.js';
+import { DynamicCapabilityRegistry } from './dynamic-capability-registry.js';
 import {
   createSuccessResult,
   createErrorResult,
   executeWithErrorHandling,
   sanitizeIdentifier,
-  validateInstallOptions
+  validateInstallOptions,
+  wrapWithSecretLauncher
 } from '@mcplookup-org/mcp-sdk';
 
+interface InstallServerToolOptions {
+  package_query: string;
+  name?: string;
+  mode: 'bridge' | 'direct';
+  auto_start: boolean;
+  global_install: boolean;
+  env?: Record<string, string>;
+  version?: string;
+  transport?: 'http' | 'sse';
+  headers?: Record<string, string>;
+  bearer_token?: string;
+  client?: string;
+  sandbox?: string;
+  workspace?: string;
+  allowed_hosts?: string[];
+  restart_policy?: RestartPolicy;
+}
+
+interface ServerLogsToolOptions {
+  name: string;
+  lines?: number;
+  since_minutes?: number;
+  grep?: string;
+}
+
 export class ServerManagementTools {
   private serverRegistry: ServerRegistry;
-  private claudeConfigManager: ClaudeConfigManager;
+  private clientConfigs: ClientConfigRegistry;
   private dockerManager: DockerManager;
   private dynamicToolRegistry: DynamicToolRegistry;
+  private dynamicCapabilityRegistry: DynamicCapabilityRegistry;
+  private sandboxProfiles: SandboxProfileStore;
   private installationResolver: InstallationResolver;
 
   constructor(
     serverRegistry: ServerRegistry,
-    claudeConfigManager: ClaudeConfigManager,
+    clientConfigs: ClientConfigRegistry,
     dockerManager: DockerManager,
-    dynamicToolRegistry: DynamicToolRegistry
+    dynamicToolRegistry: DynamicToolRegistry,
+    dynamicCapabilityRegistry: DynamicCapabilityRegistry,
+    sandboxProfiles?: SandboxProfileStore
   ) {
     this.serverRegistry = serverRegistry;
-    this.claudeConfigManager = claudeConfigManager;
+    this.clientConfigs = clientConfigs;
     this.dockerManager = dockerManager;
     this.dynamicToolRegistry = dynamicToolRegistry;
+    this.dynamicCapabilityRegistry = dynamicCapabilityRegistry;
+    this.sandboxProfiles = sandboxProfiles || new SandboxProfileStore();
     this.installationResolver = new InstallationResolver();
   }
 
@@ -59,19 +96,21 @@ export class ServerManagementTools {
       {
         package_query: z.string().describe('Package name, Docker image, or natural language description of the server to install'),
         name: z.string().optional().describe('Custom local name for the server (auto-generated if not provided)'),
-        mode: z.enum(['bridge', 'direct']).default('bridge').describe('Installation mode: bridge (dynamic) or direct (Claude config)'),
+        mode: z.enum(['bridge', 'direct']).default('bridge').describe('Installation mode: bridge (dynamic) or direct (client config)'),
+        client: z.string().optional().describe('Client whose config receives direct-mode installs: claude, cursor, vscode, windsurf, zed, continue (default: claude)'),
         auto_start: z.boolean().default(true).describe('Start server immediately after install (bridge mode only)'),
         global_install: z.boolean().default(false).describe('Install npm package globally (direct mode only, like Smithery)'),
-        env: z.record(z.string()).optional().describe('Environment variables for the server')
+        env: z.record(z.string()).optional().describe('Environment variables for the server'),
+        version: z.string().optional().describe('Exact package version to install (bridge mode, default: latest)'),
+        transport: z.enum(['http', 'sse']).optional().describe('Transport for remote servers when package_query is a URL (default: http)'),
+        headers: z.record(z.string()).optional().describe('HTTP headers sent to remote servers'),
+        bearer_token: z.string().optional().describe('Bearer token sent to remote servers'),
+        sandbox: z.string().optional().describe('Sandbox profile for the server container: offline, readonly-fs, workspace-rw or a custom profile (bridge mode only)'),
+        workspace: z.string().optional().describe('Absolute host directory mounted by workspace sandbox profiles'),
+        allowed_hosts: z.array(z.string()).optional().describe('Hostnames that resolve in a custom profile with network "allowlist"'),
+        restart_policy: z.enum(['never', 'on-failure', 'always']).optional().describe('When to restart the server after it exits or disconnects (bridge mode, default: on-failure)')
       },
-      async (options: {
-        package_query: string;
-        name?: string;
-        mode: 'bridge' | 'direct';
-        auto_start: boolean;
-        global_install: boolean;
-        env?: Record<string, string>;
-      }) => this.installServerWithSDK(options)
+      async (options: InstallServerToolOptions) => this.installServerWithSDK(options)
     );
   }
 
@@ -92,36 +131,56 @@ export class ServerManagementTools {
       },
       async (options: ServerControlOptions) => this.controlServer(options)
     );
+
+    // Tool: Read a managed server's stderr and lifecycle log
+    server.tool(
+      'get_server_logs',
+      {
+        name: z.string().describe('Server name'),
+        lines: z.number().int().min(1).max(1000).default(100).describe('Number of most recent lines to return'),
+        since_minutes: z.number().positive().optional().describe('Only lines from the last N minutes'),
+        grep: z.string().max(200).optional().describe('Only lines containing this text')
+      },
+      async (options: ServerLogsToolOptions) => this.getServerLogs(options)
+    );
   }
 
   private registerDirectModeTools(server: McpServer): void {
-    // Tool: List Claude Desktop servers
+    // Tool: List servers configured in a client (Claude Desktop by default)
     server.tool(
       'list_claude_servers',
-      {},
-      async () => this.listClaudeServers()
+      {
+        client: z.string().optional().describe('Client to read: claude, cursor, vscode, windsurf, zed, continue (default: claude)')
+      },
+      async ({ client }: { client?: string }) => this.listClientServers(client)
     );
 
-    // Tool: Remove server from Claude Desktop config
+    // Tool: Remove server from a client config (Claude Desktop by default)
     server.tool(
       'remove_claude_server',
       {
-        name: z.string().describe('Server name to remove from Claude Desktop config')
+        name: z.string().describe('Server name to remove from the client config'),
+        client: z.string().optional().describe('Client to update (default: claude)')
       },
-      async ({ name }: { name: string }) => this.removeClaudeServer(name)
+      async ({ name, client }: { name: string; client?: string }) => this.removeClientServer(name, client)
     );
   }
 
   // Implementation methods - SDK-powered installation
-  async installServerWithSDK(options: {
-    package_query: string;
-    name?: string;
-    mode: 'bridge' | 'direct';
-    auto_start: boolean;
-    global_install: boolean;
-    env?: Record<string, string>;
-  }): Promise<ToolCallResult> {
+  async installServerWithSDK(options: InstallServerToolOptions): Promise<ToolCallResult> {
     return executeWithErrorHandling(async () => {
+      if (options.sandbox && (options.mode === 'direct' || /^https?:\/\//i.test(options.package_query))) {
+        return createErrorResult(
+          new Error('Sandbox profiles apply only to servers the bridge runs in Docker'),
+          'Unsupported installation mode'
+        );
+      }
+
+      // Remote servers are reached by URL and need no package resolution
+      if (/^https?:\/\//i.test(options.package_query)) {
+        return await this.installRemoteServer(options);
+      }
+
       // Step 1: Use SDK to resolve the package query to actual package
       const resolvedPackage = await this.installationResolver.resolvePackage(options.package_query);
       
@@ -142,7 +201,7 @@ export class ServerManagementTools {
       
       // Step 5: Install based on mode using SDK instructions
       if (options.mode === 'direct') {
-        return await this.installDirectModeWithSDK(resolvedPackage, serverName, instructions, options.env || {});
+        return await this.installDirectModeWithSDK(resolvedPackage, serverName, instructions, options.env || {}, options.client);
       } else {
         return await this.installBridgeModeWithSDK(resolvedPackage, serverName, instructions, options);
       }
@@ -153,7 +212,7 @@ export class ServerManagementTools {
     resolvedPackage: ResolvedPackage,
     serverName: string,
     instructions: any,
-    options: { auto_start: boolean; env?: Record<string, string> }
+    options: InstallServerToolOptions
   ): Promise<ToolCallResult> {
     if (this.serverRegistry.hasServer(serverName)) {
       return createErrorResult(
@@ -162,35 +221,52 @@ export class ServerManagementTools {
       );
     }
 
+    // Check the sandbox before building anything
+    const sandbox = options.sandbox ? await this.resolveSandbox(options) : undefined;
+
+    const env = { ...options.env, ...instructions.env_vars };
     const server: ManagedServer = {
       name: serverName,
-      type: resolvedPackage.type as 'npm' | 'docker',
+      type: resolvedPackage.type as 'npm' | 'python' | 'docker',
       mode: 'bridge',
       command: instructions.args || [instructions.command],
       tools: [],
-      status: 'installing'
+      status: 'installing',
+      source: {
+        query: options.package_query,
+        packageName: resolvedPackage.packageName,
+        type: resolvedPackage.type,
+        ...((options.version || resolvedPackage.version) && { version: options.version || resolvedPackage.version })
+      },
+      ...(Object.keys(env).length > 0 && { env }),
+      ...(options.restart_policy && { restartPolicy: options.restart_policy })
     };
 
-    this.serverRegistry.addServer(server);
-
-    // Use SDK-generated instructions for setup
+    // npm and Python packages run from a prebuilt image of their exact version
     if (resolvedPackage.type === 'npm') {
-      await this.dockerManager.dockerizeNpmServer(server, { 
-        ...options.env, 
-        ...instructions.env_vars 
-      });
+      await this.dockerManager.dockerizeNpmServer(server, env);
+    } else if (resolvedPackage.type === 'python') {
+      await this.dockerManager.dockerizePythonServer(server, env);
     } else if (resolvedPackage.type === 'docker') {
       if (instructions.env_vars && Object.keys(instructions.env_vars).length > 0) {
-        server.command = this.dockerManager.addEnvironmentVariables(
-          server.command, 
-          { ...options.env, ...instructions.env_vars }
-        );
+        server.command = this.dockerManager.addEnvironmentVariables(server.command, env);
+      }
+    }
+
+    if (sandbox) {
+      if (server.command[0] !== 'docker') {
+        throw new Error(`Sandbox profiles need a Docker-run server, but ${resolvedPackage.packageName} runs as "${server.command[0]}"`);
       }
+      server.sandbox = sandbox;
     }
 
+    // Register (and persist) the fully prepared server
+    await this.serverRegistry.addServer(server);
+
     if (options.auto_start) {
       await this.serverRegistry.startServer(serverName);
       await this.dynamicToolRegistry.addServerTools(serverName, server);
+      await this.dynamicCapabilityRegistry.addServerCapabilities(serverName, server);
     }
 
     return createSuccessResult(
@@ -198,6 +274,7 @@ export class ServerManagementTools {
 📦 Package: ${resolvedPackage.packageName}
 ${resolvedPackage.description ? `📝 Description: ${resolvedPackage.description}` : ''}
 ${resolvedPackage.verified ? '🔐 Verified server' : '⚠️ Unverified server'}
+${sandbox ? `🛡️ Sandbox: ${sandbox.profile}${sandbox.workspace ? ` (workspace ${sandbox.workspace})` : ''}` : ''}
 ${options.auto_start ? 
   `🚀 Server started and tools available with prefix: ${serverName}_` : 
   '⏳ Use control_mcp_server to start.'
@@ -208,25 +285,97 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
     );
   }
 
+  /**
+   * Look up the requested sandbox profile and check the server-specific values it needs
+   */
+  private async resolveSandbox(options: InstallServerToolOptions): Promise<ServerSandbox> {
+    const sandbox: ServerSandbox = {
+      profile: options.sandbox!,
+      ...(options.workspace && { workspace: options.workspace }),
+      ...(options.allowed_hosts?.length && { allowedHosts: options.allowed_hosts })
+    };
+
+    const errors = validateServerSandbox(sandbox, await this.sandboxProfiles.get(sandbox.profile));
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    return sandbox;
+  }
+
+  private async installRemoteServer(options: InstallServerToolOptions): Promise<ToolCallResult> {
+    if (options.mode === 'direct') {
+      return createErrorResult(
+        new Error('Remote servers can only be installed in bridge mode'),
+        'Unsupported installation mode'
+      );
+    }
+
+    const endpoint = new URL(options.package_query);
+    const serverName = options.name || sanitizeIdentifier(endpoint.hostname.replace(/\./g, '-'));
+    const transport = options.transport || 'http';
+
+    if (this.serverRegistry.hasServer(serverName)) {
+      return createErrorResult(
+        new Error(`Server '${serverName}' already exists`),
+        'Server already exists'
+      );
+    }
+
+    const server: ManagedServer = {
+      name: serverName,
+      type: 'remote',
+      mode: 'bridge',
+      command: [],
+      endpoint: endpoint.href,
+      transport,
+      tools: [],
+      status: 'installing',
+      ...(options.headers && Object.keys(options.headers).length > 0 && { headers: options.headers }),
+      ...(options.bearer_token && { bearerToken: options.bearer_token }),
+      ...(options.restart_policy && { restartPolicy: options.restart_policy })
+    };
+
+    await this.serverRegistry.addServer(server);
+
+    if (options.auto_start) {
+      await this.serverRegistry.startServer(serverName);
+      await this.dynamicToolRegistry.addServerTools(serverName, server);
+      await this.dynamicCapabilityRegistry.addServerCapabilities(serverName, server);
+    }
+
+    return createSuccessResult(
+      `✅ Installed remote server '${serverName}' (${transport}, bridge mode)
+🔗 Endpoint: ${endpoint.href}
+${server.bearerToken ? '🔑 Bearer token configured' : ''}
+${options.auto_start ?
+  `🚀 Connected and tools available with prefix: ${serverName}_` :
+  '⏳ Use control_mcp_server to connect.'
+}`
+    );
+  }
+
   private async installDirectModeWithSDK(
     resolvedPackage: ResolvedPackage,
     serverName: string,
     instructions: any,
-    env: Record<string, string>
+    env: Record<string, string>,
+    client: string = 'claude'
   ): Promise<ToolCallResult> {
-    // Check if server already exists in Claude config
-    if (await this.claudeConfigManager.hasServer(serverName)) {
+    const adapter = this.clientConfigs.get(client);
+
+    // Check if server already exists in the client config
+    if (await adapter.hasServer(serverName)) {
       return createErrorResult(
-        new Error(`Server '${serverName}' already exists in Claude Desktop config`),
-        'Server already exists in Claude config'
+        new Error(`Server '${serverName}' already exists in ${adapter.displayName} config`),
+        `Server already exists in ${adapter.displayName} config`
       );
     }
 
-    // Generate Claude Desktop configuration using SDK
+    // Generate the server entry using SDK (same command shape for every client)
     const context: InstallationContext = {
       mode: 'direct',
       platform: process.platform as 'linux' | 'darwin' | 'win32',
-      client: 'claude-desktop'
+      client: adapter.id
     };
 
     const claudeConfig = this.installationResolver.generateClaudeConfig(
@@ -235,18 +384,18 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
       { ...env, ...instructions.env_vars }
     );
 
-    // Extract the server config from the generated Claude config
+    // Extract the server config from the generated config
     const serverConfig = Object.values(claudeConfig.mcpServers)[0] as any;
 
-    // Add server to Claude Desktop config using SDK-generated configuration
-    await this.claudeConfigManager.addServer(
-      serverName,
-      serverConfig.command,
-      serverConfig.args || [],
-      serverConfig.env || {}
-    );
+    // Add server to the client config in its own schema; secret references are
+    // resolved by the launcher when the client starts the server
+    await adapter.addServer(serverName, wrapWithSecretLauncher({
+      command: serverConfig.command,
+      args: serverConfig.args || [],
+      env: serverConfig.env || {}
+    }));
 
-    const configPath = await this.claudeConfigManager.getConfigPath();
+    const configPath = await adapter.getConfigPath();
     const runtimeInfo = this.installationResolver.getRuntimeInfo(
       resolvedPackage.type as string,
       'direct',
@@ -254,13 +403,13 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
     );
 
     return createSuccessResult(
-      `✅ Installed ${resolvedPackage.displayName || resolvedPackage.packageName} as '${serverName}' in Claude Desktop config
+      `✅ Installed ${resolvedPackage.displayName || resolvedPackage.packageName} as '${serverName}' in ${adapter.displayName} config
 📦 Package: ${resolvedPackage.packageName}
 ${resolvedPackage.description ? `📝 Description: ${resolvedPackage.description}` : ''}
 ${resolvedPackage.verified ? '🔐 Verified server' : '⚠️ Unverified server'}
 📋 Config updated at: ${configPath}
 🏃 Runtime: ${runtimeInfo}
-🔄 Please restart Claude Desktop to use the server.
+🔄 Please restart ${adapter.displayName} to use the server.
 
 💡 Installation steps completed:
 ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join('\n')}
@@ -270,15 +419,17 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
     );
   }
 
-
-
   async listManagedServers(): Promise<ToolCallResult> {
     const servers = this.serverRegistry.listServers().map(server => ({
       name: server.name,
       type: server.type,
       status: server.status,
       tools: server.tools,
-      endpoint: server.endpoint
+      transport: server.transport || 'stdio',
+      endpoint: server.endpoint,
+      sandbox: server.sandbox,
+      restartPolicy: server.restartPolicy || DEFAULT_RESTART_POLICY,
+      supervision: server.supervision
     }));
 
     return {
@@ -289,6 +440,33 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
     };
   }
 
+  async getServerLogs(options: ServerLogsToolOptions): Promise<ToolCallResult> {
+    if (!this.serverRegistry.hasServer(options.name)) {
+      return createErrorResult(
+        new Error(`Server '${options.name}' not found. Use list_managed_servers to see available servers.`),
+        'Failed to read server logs'
+      );
+    }
+
+    try {
+      const entries = await this.serverRegistry.logs.read(options.name, {
+        since: options.since_minutes ? new Date(Date.now() - options.since_minutes * 60_000) : undefined,
+        grep: options.grep || undefined,
+        limit: options.lines ?? 100
+      });
+
+      if (entries.length === 0) {
+        return createSuccessResult(`No log lines for '${options.name}' match the given filters`);
+      }
+
+      return createSuccessResult(
+        entries.map(entry => `${entry.timestamp} [${entry.stream}] ${entry.message}`).join('\n')
+      );
+    } catch (error) {
+      return createErrorResult(error, 'Failed to read server logs');
+    }
+  }
+
   async controlServer(options: ServerControlOptions): Promise<ToolCallResult> {
     try {
       if (!this.serverRegistry.hasServer(options.name)) {
@@ -306,20 +484,24 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
           await this.serverRegistry.startServer(options.name);
           const server = this.serverRegistry.getServer(options.name)!;
           await this.dynamicToolRegistry.addServerTools(options.name, server);
+          await this.dynamicCapabilityRegistry.addServerCapabilities(options.name, server);
           break;
         case 'stop':
           await this.serverRegistry.stopServer(options.name);
           await this.dynamicToolRegistry.removeServerTools(options.name);
+          await this.dynamicCapabilityRegistry.removeServerCapabilities(options.name);
           break;
         case 'restart':
           await this.serverRegistry.restartServer(options.name);
           const restartedServer = this.serverRegistry.getServer(options.name)!;
           await this.dynamicToolRegistry.removeServerTools(options.name);
           await this.dynamicToolRegistry.addServerTools(options.name, restartedServer);
+          await this.dynamicCapabilityRegistry.addServerCapabilities(options.name, restartedServer);
           break;
         case 'remove':
           await this.serverRegistry.removeServerCompletely(options.name);
           await this.dynamicToolRegistry.removeServerTools(options.name);
+          await this.dynamicCapabilityRegistry.removeServerCapabilities(options.name);
           break;
       }
 
@@ -341,14 +523,24 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
   }
 
   async listClaudeServers(): Promise<ToolCallResult> {
+    return this.listClientServers('claude');
+  }
+
+  async listClientServers(client: string = 'claude'): Promise<ToolCallResult> {
+    let displayName = client;
+
     try {
-      const servers = await this.claudeConfigManager.listServers();
+      const adapter = this.clientConfigs.get(client);
+      displayName = adapter.displayName;
+      const servers = await adapter.listServers();
       
       const formattedServers = servers.map(server => ({
         name: server.name,
         command: server.command,
         args: server.args,
-        env: server.env,
+        env: server.env || {},
+        ...(server.url && { url: server.url }),
+        client: adapter.id,
         mode: 'direct'
       }));
 
@@ -362,7 +554,7 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
       return {
         content: [{
           type: 'text' as const,
-          text: `❌ Failed to read Claude Desktop config: ${error instanceof Error ? error.message : 'Unknown error'}`
+          text: `❌ Failed to read ${displayName} config: ${error instanceof Error ? error.message : 'Unknown error'}`
         }],
         isError: true
       };
@@ -370,14 +562,19 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
   }
 
   private async removeClaudeServer(name: string): Promise<ToolCallResult> {
+    return this.removeClientServer(name, 'claude');
+  }
+
+  async removeClientServer(name: string, client: string = 'claude'): Promise<ToolCallResult> {
     try {
-      const removed = await this.claudeConfigManager.removeServer(name);
+      const adapter = this.clientConfigs.get(client);
+      const removed = await adapter.removeServer(name);
       
       if (!removed) {
         return {
           content: [{
             type: 'text' as const,
-            text: `❌ Server '${name}' not found in Claude Desktop config.`
+            text: `❌ Server '${name}' not found in ${adapter.displayName} config.`
           }],
           isError: true
         };
@@ -386,7 +583,7 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
       return {
         content: [{
           type: 'text' as const,
-          text: `✅ Removed '${name}' from Claude Desktop config.\n🔄 Please restart Claude Desktop for changes to take effect.`
+          text: `✅ Removed '${name}' from ${adapter.displayName} config.\n🔄 Please restart ${adapter.displayName} for changes to take effect.`
         }]
       };
     } catch (error) {
@@ -3,37 +3,76 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js';
 import { InvokeToolOptions, ToolCallResult } from '@mcplookup-org/mcp-sdk';
+import { ToolCallAuditLog } from '../audit/tool-call-audit-log.js';
+import { LoopbackOAuthProvider, connectWithAuthorization } from '../auth/oauth-client.js';
+import { OAuthCredentialStore } from '../auth/oauth-credential-store.js';
+import { CallRelay, RelayContext, relayRequestOptions } from './notification-relay.js';
 
 export class ToolInvoker {
   private clientCache = new Map<string, Client>();
+  private auditLog?: ToolCallAuditLog;
+  private getClientName?: () => string | undefined;
+  private oauthCredentials: OAuthCredentialStore;
+  private callRelay = new CallRelay();
+
+  constructor(
+    auditLog?: ToolCallAuditLog,
+    getClientName?: () => string | undefined,
+    oauthCredentials?: OAuthCredentialStore
+  ) {
+    this.auditLog = auditLog;
+    this.getClientName = getClientName;
+    this.oauthCredentials = oauthCredentials || new OAuthCredentialStore();
+  }
 
   /**
-   * Invoke a tool on any MCP server
+   * Invoke a tool on any MCP server. With the context of the upstream request,
+   * progress and log events are relayed to it and cancelling it cancels the call.
    */
-  async invoke(options: InvokeToolOptions): Promise<ToolCallResult> {
+  async invoke(options: InvokeToolOptions, context?: RelayContext): Promise<ToolCallResult> {
+    const startedAt = Date.now();
+    let result: ToolCallResult;
+    let error: string | undefined;
+
     try {
       const client = await this.getOrCreateClient(options.endpoint, options.headers);
       
-      const result = await client.callTool({
-        name: options.tool_name,
-        arguments: options.arguments
-      });
-
-      return {
-        content: Array.isArray(result.content) && result.content.length > 0
-          ? result.content.map((item: any) => ({ ...item, type: item.type as 'text' }))
-          : [{ type: 'text' as const, text: JSON.stringify(result) }]
+      const response = await this.callRelay.track(client, context, () => client.callTool(
+        { name: options.tool_name, arguments: options.arguments },
+        undefined,
+        relayRequestOptions(context)
+      ));
+
+      result = {
+        content: Array.isArray(response.content) && response.content.length > 0
+          ? response.content.map((item: any) => ({ ...item, type: item.type as 'text' }))
+          : [{ type: 'text' as const, text: JSON.stringify(response) }]
       };
-    } catch (error) {
-      return {
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : 'Unknown error';
+      result = {
         content: [{
           type: 'text' as const,
-          text: `❌ Failed to invoke ${options.tool_name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          text: `❌ Failed to invoke ${options.tool_name}: ${error}`
         }],
         isError: true
       };
     }
+
+    await this.auditLog?.record({
+      client: this.getClientName?.(),
+      server: options.endpoint,
+      tool: options.tool_name,
+      arguments: options.arguments,
+      durationMs: Date.now() - startedAt,
+      resultSize: Buffer.byteLength(JSON.stringify(result.content)),
+      isError: result.isError === true,
+      ...(error && { error })
+    });
+
+    return result;
   }
 
   /**
@@ -51,21 +90,33 @@ export class ToolInvoker {
       version: '1.0.0'
     });
 
+    const url = new URL(endpoint);
+    const requestInit: RequestInit = { headers: headers || {} };
+
+    // Without an Authorization header, authorize with OAuth when the server
+    // answers 401 (stored tokens are refreshed, otherwise the browser opens)
+    const hasAuthorization = Object.keys(headers || {}).some(name => name.toLowerCase() === 'authorization');
+    const authProvider = hasAuthorization
+      ? undefined
+      : new LoopbackOAuthProvider(endpoint, { store: this.oauthCredentials });
+
     // Try Streamable HTTP first, fall back to SSE
-    let transport;
     try {
-      transport = new StreamableHTTPClientTransport(new URL(endpoint));
-      await client.connect(transport);
+      await connectWithAuthorization(client, () => new StreamableHTTPClientTransport(url, { requestInit, authProvider }), authProvider);
     } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        throw new Error(`Not authorized by ${endpoint}: ${error.message}`);
+      }
+
       console.log(`Streamable HTTP failed for ${endpoint}, trying SSE...`);
       try {
-        transport = new SSEClientTransport(new URL(endpoint));
-        await client.connect(transport);
+        await connectWithAuthorization(client, () => new SSEClientTransport(url, { requestInit, authProvider }), authProvider);
       } catch (sseError) {
         throw new Error(`Failed to connect to ${endpoint} via both Streamable HTTP and SSE: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
 
+    this.callRelay.attach(client, url.host);
     this.clientCache.set(cacheKey, client);
     return client;
   }
@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { request } from 'node:http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { HttpSessionHost, HttpSessionHostOptions } from './http-session-host.js';
+
+interface RawResponse {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+};
+
+describe('HttpSessionHost', () => {
+  let host: HttpSessionHost<McpServer>;
+  let port: number;
+
+  const start = async (options: Partial<HttpSessionHostOptions<McpServer>> = {}) => {
+    host = new HttpSessionHost<McpServer>({
+      port: 0,
+      host: '127.0.0.1',
+      createServer: () => new McpServer({ name: 'test', version: '1.0.0' }),
+      routes: { '/health': (req, res, context) => void res.writeHead(200).end(JSON.stringify(context)) },
+      ...options
+    });
+    await host.listen();
+    port = Number(new URL(host.getUrl()).port);
+  };
+
+  /**
+   * Send a raw request; fetch would not let the tests choose the Host header
+   */
+  const send = (options: {
+    method?: string;
+    path?: string;
+    headers?: Record<string, string>;
+    body?: unknown;
+    chunks?: number; // stream this many 1 MiB chunks without a Content-Length
+  }): Promise<RawResponse> => new Promise((resolve, reject) => {
+    const body = options.body === undefined ? undefined : JSON.stringify(options.body);
+    const req = request({
+      host: '127.0.0.1',
+      port,
+      method: options.method || 'POST',
+      path: options.path || '/mcp',
+      headers: {
+        host: `localhost:${port}`,
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        ...(body !== undefined && { 'content-length': String(Buffer.byteLength(body)) }),
+        ...options.headers
+      }
+    }, (res) => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body: data }));
+    });
+    req.on('error', reject);
+
+    if (options.chunks) {
+      const chunk = Buffer.alloc(1024 * 1024, 'a');
+      for (let i = 0; i < options.chunks; i++) {
+        req.write(chunk);
+      }
+    }
+    req.end(body);
+  });
+
+  afterEach(async () => {
+    await host?.close();
+  });
+
+  describe('Host and Origin checks', () => {
+    it('should refuse a Host header naming another site', async () => {
+      await start();
+      expect((await send({ headers: { host: `attacker.example:${port}` }, body: INITIALIZE })).status).toBe(403);
+      expect((await send({ headers: { host: 'localhost:1' }, body: INITIALIZE })).status).toBe(403);
+      expect((await send({ path: '/health', method: 'GET', headers: { host: `attacker.example:${port}` } })).status).toBe(403);
+    });
+
+    it('should accept loopback names, the bound host and allowed hosts', async () => {
+      await start({ allowedHosts: ['bridge.lan'] });
+      for (const name of ['localhost', '127.0.0.1', '[::1]', 'bridge.lan']) {
+        expect((await send({ path: '/health', method: 'GET', headers: { host: `${name}:${port}` } })).status).toBe(200);
+      }
+    });
+
+    it('should only accept cross-origin requests from allowed origins', async () => {
+      await start();
+      expect((await send({ path: '/health', method: 'GET', headers: { origin: 'https://attacker.example' } })).status).toBe(403);
+      expect((await send({ path: '/health', method: 'GET', headers: { origin: `http://localhost:${port}` } })).status).toBe(200);
+    });
+
+    it('should answer CORS preflights for allowed origins', async () => {
+      await start({ corsOrigins: ['https://app.example'], corsAllowedHeaders: ['x-api-key'] });
+
+      const preflight = await send({ method: 'OPTIONS', headers: { origin: 'https://app.example' } });
+      expect(preflight.status).toBe(204);
+      expect(preflight.headers['access-control-allow-origin']).toBe('https://app.example');
+      expect(preflight.headers['access-control-allow-headers']).toContain('x-api-key');
+
+      expect((await send({ method: 'OPTIONS', headers: { origin: 'https://other.example' } })).status).toBe(403);
+    });
+  });
+
+  describe('authentication', () => {
+    it('should refuse unauthenticated MCP requests but pass the state to routes', async () => {
+      await start({ authenticate: req => req.headers.authorization === 'Bearer secret' });
+
+      const refused = await send({ body: INITIALIZE });
+      expect(refused.status).toBe(401);
+      expect(refused.headers['www-authenticate']).toContain('Bearer');
+
+      expect(JSON.parse((await send({ path: '/health', method: 'GET' })).body)).toEqual({ authenticated: false });
+      expect((await send({ body: INITIALIZE, headers: { authorization: 'Bearer secret' } })).status).toBe(200);
+    });
+  });
+
+  describe('requests', () => {
+    it('should refuse oversized bodies by Content-Length before authenticating', async () => {
+      let authenticated = 0;
+      await start({ maxBodyBytes: 1024, authenticate: () => ++authenticated > 0 });
+
+      const response = await send({ body: { ...INITIALIZE, padding: 'x'.repeat(2048) } });
+      expect(response.status).toBe(413);
+      expect(authenticated).toBe(0);
+    });
+
+    it('should refuse oversized chunked bodies while reading them', async () => {
+      await start({ maxBodyBytes: 1024 * 1024 });
+      expect((await send({ chunks: 3 })).status).toBe(413);
+    });
+
+    it('should start a session and serve it', async () => {
+      await start();
+
+      const initialized = await send({ body: INITIALIZE });
+      expect(initialized.status).toBe(200);
+      const sessionId = initialized.headers['mcp-session-id'] as string;
+      expect(sessionId).toBeTruthy();
+      expect(host.getSessionCount()).toBe(1);
+
+      const pinged = await send({
+        body: { jsonrpc: '2.0', id: 2, method: 'ping' },
+        headers: { 'mcp-session-id': sessionId }
+      });
+      expect(pinged.status).toBe(200);
+    });
+
+    it('should answer 404 for unknown sessions and paths, and 400 without a session', async () => {
+      await start();
+
+      const unknown = await send({ body: { jsonrpc: '2.0', id: 2, method: 'ping' }, headers: { 'mcp-session-id': 'expired' } });
+      expect(unknown.status).toBe(404);
+      expect(JSON.parse(unknown.body).error.code).toBe(-32001);
+
+      expect((await send({ path: '/other', body: INITIALIZE })).status).toBe(404);
+      expect((await send({ body: { jsonrpc: '2.0', id: 2, method: 'ping' } })).status).toBe(400);
+      expect((await send({ method: 'PUT' })).status).toBe(405);
+    });
+  });
+});
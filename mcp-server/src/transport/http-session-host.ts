@@ -0,0 +1,359 @@
+// Streamable HTTP host that serves one MCP server instance per client session
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Anything that can be connected to a transport (McpServer or low-level Server)
+ */
+export interface ConnectableServer {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Handler for a non-MCP endpoint served by the host (e.g. /health)
+ */
+export type HttpRouteHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  context: { authenticated: boolean }
+) => void | Promise<void>;
+
+export interface HttpSessionHostOptions<T extends ConnectableServer> {
+  port: number;
+  host?: string;
+  path?: string;
+  /**
+   * Create the MCP server that handles a new session
+   */
+  createServer: () => T;
+  /**
+   * Called once a session's transport has closed
+   */
+  onSessionClosed?: (server: T) => void;
+  /**
+   * Extra endpoints keyed by exact pathname. They are not gated by authenticate;
+   * handlers receive whether the request was authenticated.
+   */
+  routes?: Record<string, HttpRouteHandler>;
+  /**
+   * Decide whether a request may use the MCP endpoint; rejected requests get a 401
+   */
+  authenticate?: (req: IncomingMessage) => boolean;
+  /**
+   * Host header names accepted besides localhost, the loopback addresses and
+   * the bound host (e.g. the machine's LAN name when binding 0.0.0.0)
+   */
+  allowedHosts?: string[];
+  /**
+   * Browser origins allowed to call the host, or '*' for any. Without it only
+   * pages served from the host itself may call it, and no CORS headers are sent.
+   */
+  corsOrigins?: string[] | '*';
+  /**
+   * Extra request headers browsers may send (e.g. an API key header)
+   */
+  corsAllowedHeaders?: string[];
+  /**
+   * Largest request body accepted, in bytes (default: 4 MiB); larger requests get a 413
+   */
+  maxBodyBytes?: number;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class PayloadTooLargeError extends Error {}
+
+interface HostedSession<T> {
+  transport: StreamableHTTPServerTransport;
+  server: T;
+}
+
+export class HttpSessionHost<T extends ConnectableServer = ConnectableServer> {
+  private options: HttpSessionHostOptions<T>;
+  private httpServer?: HttpServer;
+  private sessions = new Map<string, HostedSession<T>>();
+
+  constructor(options: HttpSessionHostOptions<T>) {
+    this.options = options;
+  }
+
+  /**
+   * Start listening for HTTP requests
+   */
+  async listen(): Promise<void> {
+    if (this.httpServer) {
+      return;
+    }
+
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('MCP HTTP request failed:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+  }
+
+  /**
+   * Get the URL of the MCP endpoint
+   */
+  getUrl(): string {
+    const address = this.httpServer?.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    return `http://${this.options.host || 'localhost'}:${port}${this.getPath()}`;
+  }
+
+  /**
+   * Get the server instances of all active sessions
+   */
+  getSessionServers(): T[] {
+    return Array.from(this.sessions.values()).map(session => session.server);
+  }
+
+  /**
+   * Route a request; returns false when the path is not served by this host
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = this.options.routes?.[url.pathname];
+    if (url.pathname !== this.getPath() && !route) {
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 404, -32601, `Not found: ${url.pathname}`);
+      }
+      return false;
+    }
+
+    // DNS rebinding: a page on another site resolving its own name to this host
+    if (!this.isAllowedHost(req)) {
+      res.writeHead(403, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Host not allowed' }));
+      return true;
+    }
+    if (!this.applyCors(req, res)) {
+      res.writeHead(403, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Origin not allowed' }));
+      return true;
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return true;
+    }
+
+    // Refuse oversized bodies before spending anything on authentication
+    const contentLength = Number(req.headers['content-length']);
+    if (Number.isFinite(contentLength) && contentLength > this.getMaxBodyBytes()) {
+      this.sendPayloadTooLarge(res);
+      return true;
+    }
+
+    const authenticated = !this.options.authenticate || this.options.authenticate(req);
+    if (route) {
+      await route(req, res, { authenticated });
+      return true;
+    }
+    if (!authenticated) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="mcpl"');
+      this.sendJsonRpcError(res, 401, -32001, 'Unauthorized');
+      return true;
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+
+    if (sessionId && !session && (req.method === 'POST' || req.method === 'GET' || req.method === 'DELETE')) {
+      // Expired or unknown: clients start a new session when they see a 404
+      this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return true;
+    }
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await this.readJsonBody(req);
+      } catch (error) {
+        if (error instanceof PayloadTooLargeError) {
+          this.sendPayloadTooLarge(res);
+          return true;
+        }
+        throw error;
+      }
+
+      if (session) {
+        await session.transport.handleRequest(req, res, body);
+      } else if (isInitializeRequest(body)) {
+        await this.startSession(req, res, body);
+      } else {
+        this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      }
+      return true;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!session) {
+        this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return true;
+      }
+      await session.transport.handleRequest(req, res);
+      return true;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE, OPTIONS' }).end();
+    return true;
+  }
+
+  /**
+   * Get the number of active sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+
+    await Promise.all(sessions.map(session => session.server.close().catch(console.error)));
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = undefined;
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  private async startSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { transport, server });
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+      this.options.onSessionClosed?.(server);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Check that the Host header names this host on the port it listens on
+   */
+  private isAllowedHost(req: IncomingMessage): boolean {
+    let requested: URL;
+    try {
+      requested = new URL(`http://${req.headers.host}`);
+    } catch {
+      return false;
+    }
+
+    const address = this.httpServer?.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    const hosts = new Set(['localhost', '127.0.0.1', '[::1]', this.options.host || 'localhost', ...(this.options.allowedHosts || [])]
+      .map(host => host.toLowerCase()));
+
+    return hosts.has(requested.hostname) && (requested.port || '80') === String(port);
+  }
+
+  /**
+   * Add CORS headers for allowed origins; returns false when the origin is
+   * neither the host itself nor allowed
+   */
+  private applyCors(req: IncomingMessage, res: ServerResponse): boolean {
+    const origin = req.headers.origin;
+    if (!origin || origin.toLowerCase() === `http://${req.headers.host?.toLowerCase()}`) {
+      return true;
+    }
+
+    const allowed = this.options.corsOrigins;
+    if (!allowed || (allowed !== '*' && !allowed.includes(origin))) {
+      return false;
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', allowed === '*' ? '*' : origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', [
+      'Content-Type',
+      'Authorization',
+      'Mcp-Session-Id',
+      'Mcp-Protocol-Version',
+      'Last-Event-ID',
+      ...(this.options.corsAllowedHeaders || [])
+    ].join(', '));
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    return true;
+  }
+
+  private getPath(): string {
+    return this.options.path || '/mcp';
+  }
+
+  private getMaxBodyBytes(): number {
+    return this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  }
+
+  /**
+   * Read and parse a request body, stopping as soon as it exceeds the size limit
+   * (chunked requests carry no Content-Length to check up front)
+   */
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      const buffer: Buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > this.getMaxBodyBytes()) {
+        throw new PayloadTooLargeError();
+      }
+      chunks.push(buffer);
+    }
+
+    const raw = Buffer.concat(chunks).toString('utf-8');
+    if (!raw) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+
+  private sendPayloadTooLarge(res: ServerResponse): void {
+    // Close the connection rather than draining the rest of the body
+    res.setHeader('Connection', 'close');
+    this.sendJsonRpcError(res, 413, -32000, `Payload too large: the limit is ${this.getMaxBodyBytes()} bytes`);
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    }));
+  }
+}
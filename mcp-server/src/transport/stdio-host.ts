@@ -0,0 +1,19 @@
+// Serve an MCP server on this process's stdin/stdout
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { ConnectableServer } from './http-session-host.js';
+
+/**
+ * Connect a server to stdio. Resolves once the client closes stdin, after
+ * the server has been closed.
+ */
+export async function serveStdio(server: ConnectableServer): Promise<void> {
+  const closed = new Promise<void>((resolve) => {
+    process.stdin.once('end', resolve);
+    process.stdin.once('close', resolve);
+  });
+
+  await server.connect(new StdioServerTransport());
+  await closed;
+  await server.close();
+}
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { MCPLookupBridge } from '@mcplookup-org/mcp-server';
+import type { ResolvedCliConfig } from '../config/cli-config.js';
+import { BackupCommand } from './backup.js';
+
+/**
+ * A Docker stand-in whose volumes are strings; tarballs are files holding them
+ */
+function createDocker(volumes: Record<string, string>, failImportOf?: string) {
+  return {
+    isDockerAvailable: async () => true,
+    listVolumes: async () => Object.keys(volumes),
+    exportVolume: vi.fn(async (name: string, path: string) => {
+      await writeFile(path, volumes[name]);
+    }),
+    importVolume: vi.fn(async (name: string, path: string) => {
+      const data = await readFile(path, 'utf-8');
+      volumes[name] = '';
+      if (data === failImportOf) {
+        throw new Error(`Failed to import volume ${name} (exit code 1)`);
+      }
+      volumes[name] = data;
+    })
+  };
+}
+
+describe('BackupCommand', () => {
+  let root: string;
+  let statePath: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mcpl-backup-'));
+    statePath = join(root, 'state.json');
+    await writeFile(statePath, JSON.stringify({ version: 1, servers: { github: { command: ['docker'] } } }));
+    vi.stubEnv('HOME', root);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  function createCommand(docker: ReturnType<typeof createDocker>): BackupCommand {
+    const bridge = {
+      components: {
+        clientConfigRegistry: { getDetected: async () => [] },
+        stateStore: { getPath: () => statePath },
+        serverRegistry: { listServers: () => [] },
+        dockerManager: docker
+      }
+    } as unknown as MCPLookupBridge;
+    return new BackupCommand(bridge, {} as ResolvedCliConfig);
+  }
+
+  it('should write volume tarballs next to the archive', async () => {
+    const docker = createDocker({ 'github-data': 'v1', 'notes-data': 'n1' });
+    const backupPath = join(root, 'backup.json');
+
+    await createCommand(docker).execute('create', backupPath, { includeData: true });
+
+    const archive = JSON.parse(await readFile(backupPath, 'utf-8'));
+    expect(archive.volumes).toEqual([
+      { name: 'github-data', file: join('backup.volumes', 'github-data.tar.gz') },
+      { name: 'notes-data', file: join('backup.volumes', 'notes-data.tar.gz') }
+    ]);
+    expect(await readFile(join(root, 'backup.volumes', 'github-data.tar.gz'), 'utf-8')).toBe('v1');
+  });
+
+  it('should restore volumes and configuration files', async () => {
+    const volumes = { 'github-data': 'v1' };
+    const docker = createDocker(volumes);
+    const backupPath = join(root, 'backup.json');
+    await createCommand(docker).execute('create', backupPath, { includeData: true });
+
+    volumes['github-data'] = 'v2';
+    await writeFile(statePath, JSON.stringify({ version: 1, servers: {} }));
+    await createCommand(docker).execute('restore', backupPath, { includeData: true, force: true });
+
+    expect(volumes['github-data']).toBe('v1');
+    expect(JSON.parse(await readFile(statePath, 'utf-8')).servers).toHaveProperty('github');
+    // The snapshots taken before the restore are removed
+    expect((await readdir(join(root, '.mcpl', 'backups'))).filter(name => name.startsWith('.restore-'))).toEqual([]);
+  });
+
+  it('should put every volume back when one fails to restore', async () => {
+    const volumes: Record<string, string> = { 'a-data': 'a1', 'b-data': 'b1' };
+    const backupPath = join(root, 'backup.json');
+    await createCommand(createDocker(volumes)).execute('create', backupPath, { includeData: true });
+
+    volumes['a-data'] = 'a2';
+    volumes['b-data'] = 'b2';
+    const docker = createDocker(volumes, 'b1');
+    await createCommand(docker).execute('restore', backupPath, { includeData: true, force: true });
+
+    expect(process.exit).toHaveBeenCalledWith(1);
+    expect(volumes).toEqual({ 'a-data': 'a2', 'b-data': 'b2' });
+  });
+
+  it('should refuse to restore when volume data is missing', async () => {
+    const docker = createDocker({ 'github-data': 'v1' });
+    const backupPath = join(root, 'backup.json');
+    await createCommand(docker).execute('create', backupPath, { includeData: true });
+    await rm(join(root, 'backup.volumes'), { recursive: true });
+
+    await createCommand(docker).execute('restore', backupPath, { includeData: true, force: true });
+
+    expect(process.exit).toHaveBeenCalledWith(1);
+    expect(console.log).toHaveBeenCalledWith(expect.anything(), expect.stringContaining('Data of volume github-data is missing'));
+  });
+});
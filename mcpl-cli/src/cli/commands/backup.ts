@@ -1,13 +1,62 @@
 // Backup command - Configuration backup and restore
 
+import chalk from 'chalk';
+import { mkdir, mkdtemp, readFile, readdir, rename, rm, stat, unlink, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { basename, dirname, join, resolve } from 'node:path';
+import { fileExists, writeFileAtomic } from '@mcplookup-org/mcp-sdk';
+import { ClientConfigAdapter } from '@mcplookup-org/mcp-server';
 import { BaseCommand } from './base-command.js';
 
 export interface BackupOptions {
   includeData?: boolean;
+  force?: boolean;
   verbose?: boolean;
 }
 
+/**
+ * A single file captured in a backup archive
+ */
+interface BackupEntry {
+  kind: 'client-config' | 'bridge-state';
+  id: string;
+  label: string;
+  path: string;
+  content: string | null; // null when the file did not exist at backup time
+}
+
+/**
+ * A Docker volume captured in a backup archive. The gzipped tarball is a
+ * sidecar file, relative to the archive's directory.
+ */
+interface BackupVolume {
+  name: string;
+  file: string;
+}
+
+interface BackupArchive {
+  format: 'mcpl-backup';
+  version: 1;
+  createdAt: string;
+  summary: {
+    servers: number;
+    volumes: number;
+  };
+  entries: BackupEntry[];
+  volumes?: BackupVolume[];
+}
+
+interface ServerDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+const BACKUP_FORMAT_VERSION = 1;
+
 export class BackupCommand extends BaseCommand {
+  private backupDir = join(homedir(), '.mcpl', 'backups');
+
   async execute(action: string = 'create', file?: string, options: BackupOptions = {}): Promise<void> {
     this.setVerbose(options.verbose || false);
 
@@ -33,16 +82,361 @@ export class BackupCommand extends BaseCommand {
 
   private async createBackup(file: string | undefined, options: BackupOptions): Promise<void> {
     this.info('💾 Creating backup...');
-    this.warn('Backup functionality coming soon!');
+
+    const createdAt = new Date().toISOString();
+    const backupPath = file ? resolve(file) : join(this.backupDir, `mcpl-backup-${createdAt.replace(/[:.]/g, '-')}.json`);
+
+    const entries = await this.collectEntries();
+    const volumes = options.includeData ? await this.collectVolumes(backupPath) : undefined;
+
+    const archive: BackupArchive = {
+      format: 'mcpl-backup',
+      version: BACKUP_FORMAT_VERSION,
+      createdAt,
+      summary: {
+        servers: entries.reduce((sum, entry) => sum + this.listEntryServers(entry).size, 0),
+        volumes: volumes?.length || 0
+      },
+      entries,
+      ...(volumes && { volumes })
+    };
+
+    // Archives hold client configs and bridge state, which may contain credentials
+    await writeFileAtomic(backupPath, JSON.stringify(archive, null, 2), 0o600);
+
+    this.success(`Backup created: ${backupPath}`);
+    for (const entry of entries) {
+      const count = this.listEntryServers(entry).size;
+      console.log(`  • ${entry.label}: ${entry.content === null ? 'not present' : `${count} servers`}`);
+    }
+    if (volumes) {
+      console.log(`  • Docker volumes: ${volumes.length}${volumes.length ? ` (in ${this.getVolumeDir(backupPath)})` : ''}`);
+    }
   }
 
   private async restoreBackup(file: string | undefined, options: BackupOptions): Promise<void> {
-    this.info('📥 Restoring backup...');
-    this.warn('Backup functionality coming soon!');
+    const backupPath = file ? resolve(file) : await this.selectBackup();
+    if (!backupPath) {
+      return;
+    }
+
+    this.info(`📥 Restoring backup: ${backupPath}`);
+    const archive = await this.readArchive(backupPath);
+
+    // Show what would change before touching anything
+    const changes: Array<{ entry: BackupEntry; current: string | null }> = [];
+    for (const entry of archive.entries) {
+      const currentEntry = await this.readEntry(entry.kind, entry.id, entry.label, entry.path);
+      if (currentEntry.content === entry.content) {
+        continue;
+      }
+
+      changes.push({ entry, current: currentEntry.content });
+      this.printDiff(entry, this.diffServers(currentEntry, entry));
+    }
+
+    const volumes = options.includeData ? archive.volumes || [] : [];
+    if (options.includeData && volumes.length === 0) {
+      this.warn('Backup contains no Docker volume data');
+    }
+    for (const volume of volumes) {
+      const path = resolve(dirname(backupPath), volume.file);
+      if (!(await fileExists(path))) {
+        throw new Error(`Data of volume ${volume.name} is missing: ${path}`);
+      }
+      console.log(`\n${chalk.bold('Docker volume')} ${volume.name} will be overwritten`);
+    }
+
+    if (changes.length === 0 && volumes.length === 0) {
+      this.success('Current configuration already matches the backup');
+      return;
+    }
+
+    if (!options.force && !(await this.confirm('Apply these changes?', false))) {
+      this.info('Restore cancelled');
+      return;
+    }
+
+    if (volumes.length > 0) {
+      await this.replaceVolumes(backupPath, volumes, () => this.replaceFiles(changes));
+    } else {
+      await this.replaceFiles(changes);
+    }
+
+    this.success(`Restored ${changes.length} configuration files${volumes.length ? ` and ${volumes.length} volumes` : ''}`);
+    this.warn('Restart your MCP clients and the bridge for the restored configuration to take effect');
+  }
+
+  /**
+   * Restore volumes, then run the rest of the restore. The current contents of
+   * each volume are exported first, so if a volume or a later step fails every
+   * volume already overwritten is put back.
+   */
+  private async replaceVolumes(backupPath: string, volumes: BackupVolume[], next: () => Promise<void>): Promise<void> {
+    const { dockerManager } = this.bridge.components;
+    await mkdir(this.backupDir, { recursive: true });
+    const snapshotDir = await mkdtemp(join(this.backupDir, '.restore-'));
+    const snapshotPath = (volume: BackupVolume) => join(snapshotDir, `${volume.name}.tar.gz`);
+
+    try {
+      for (const volume of volumes) {
+        await this.withSpinner(`Saving current contents of ${volume.name}...`, () =>
+          dockerManager.exportVolume(volume.name, snapshotPath(volume))
+        );
+      }
+
+      const replaced: BackupVolume[] = [];
+      try {
+        for (const volume of volumes) {
+          // An import that fails halfway leaves the volume emptied, so it is rolled back too
+          replaced.push(volume);
+          await this.withSpinner(`Restoring volume ${volume.name}...`, () =>
+            dockerManager.importVolume(volume.name, resolve(dirname(backupPath), volume.file))
+          );
+        }
+        await next();
+      } catch (error) {
+        for (const volume of replaced) {
+          try {
+            await dockerManager.importVolume(volume.name, snapshotPath(volume));
+          } catch (rollbackError) {
+            this.error(`Could not roll back volume ${volume.name}: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
+          }
+        }
+        throw error;
+      }
+    } finally {
+      await rm(snapshotDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Write every file to a temp path first, then rename them all into place.
+   * If any step fails, files already replaced get their previous content back
+   * and the remaining temp files are removed.
+   */
+  private async replaceFiles(changes: Array<{ entry: BackupEntry; current: string | null }>): Promise<void> {
+    const staged: Array<{ entry: BackupEntry; current: string | null; tempPath: string; mode: number }> = [];
+    const replaced: typeof staged = [];
+
+    try {
+      for (const { entry, current } of changes) {
+        const tempPath = `${entry.path}.${process.pid}.${Date.now()}.tmp`;
+        await mkdir(dirname(entry.path), { recursive: true });
+        // Keep the permissions of the file being replaced
+        const mode = current !== null ? (await stat(entry.path)).mode & 0o777 : 0o600;
+        staged.push({ entry, current, tempPath, mode });
+        await writeFile(tempPath, entry.content ?? this.emptyContent(entry), { encoding: 'utf-8', mode });
+      }
+
+      for (const file of staged) {
+        await rename(file.tempPath, file.entry.path);
+        replaced.push(file);
+      }
+    } catch (error) {
+      await Promise.all(staged.filter(file => !replaced.includes(file)).map(file => unlink(file.tempPath).catch(() => undefined)));
+      for (const { entry, current, mode } of replaced) {
+        try {
+          if (current === null) {
+            await unlink(entry.path);
+          } else {
+            await writeFileAtomic(entry.path, current, mode);
+          }
+        } catch (rollbackError) {
+          this.error(`Could not roll back ${entry.path}: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
+        }
+      }
+      throw new Error(`Restore failed, configuration files were left unchanged: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   private async listBackups(options: BackupOptions): Promise<void> {
     this.info('📋 Listing backups...');
-    this.warn('Backup functionality coming soon!');
+
+    if (!(await fileExists(this.backupDir))) {
+      this.warn(`No backups found in ${this.backupDir}`);
+      return;
+    }
+
+    const files = (await readdir(this.backupDir)).filter(name => name.endsWith('.json')).sort().reverse();
+    const rows: any[] = [];
+
+    for (const name of files) {
+      const path = join(this.backupDir, name);
+      try {
+        const [archive, info] = await Promise.all([this.readArchive(path), stat(path)]);
+        rows.push({
+          File: name,
+          Date: new Date(archive.createdAt).toLocaleString(),
+          Size: this.formatSize(info.size),
+          Servers: String(archive.summary.servers),
+          Volumes: String(archive.summary.volumes)
+        });
+      } catch (error) {
+        this.debug(`Skipping ${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (rows.length === 0) {
+      this.warn(`No backups found in ${this.backupDir}`);
+      return;
+    }
+
+    this.formatOutput(rows, 'table');
+    console.log(`\n💡 Restore with: mcpl backup restore <file>`);
+  }
+
+  /**
+   * Capture every configuration file the bridge manages
+   */
+  private async collectEntries(): Promise<BackupEntry[]> {
+    const { clientConfigRegistry, stateStore } = this.bridge.components;
+    const entries: BackupEntry[] = [];
+
+    for (const client of await clientConfigRegistry.getDetected()) {
+      entries.push(await this.readEntry('client-config', client.id, client.displayName, await client.getConfigPath()));
+    }
+    entries.push(await this.readEntry('bridge-state', 'bridge', 'Bridge registry', stateStore.getPath()));
+
+    return entries;
+  }
+
+  /**
+   * Export the servers' volumes into a directory next to the archive
+   */
+  private async collectVolumes(backupPath: string): Promise<BackupVolume[]> {
+    const { dockerManager } = this.bridge.components;
+
+    if (!(await dockerManager.isDockerAvailable())) {
+      this.warn('Docker is not available, skipping volume data');
+      return [];
+    }
+
+    const names = await dockerManager.listVolumes(this.bridge.components.serverRegistry.listServers());
+    if (names.length === 0) {
+      return [];
+    }
+
+    const volumeDir = this.getVolumeDir(backupPath);
+    await mkdir(volumeDir, { recursive: true, mode: 0o700 });
+
+    const volumes: BackupVolume[] = [];
+    for (const name of names) {
+      const file = join(basename(volumeDir), `${name}.tar.gz`);
+      await this.withSpinner(`Exporting volume ${name}...`, () =>
+        dockerManager.exportVolume(name, resolve(dirname(backupPath), file))
+      );
+      volumes.push({ name, file });
+    }
+    return volumes;
+  }
+
+  /**
+   * Directory holding an archive's volume tarballs
+   */
+  private getVolumeDir(backupPath: string): string {
+    return `${backupPath.replace(/\.json$/, '')}.volumes`;
+  }
+
+  private async readEntry(kind: BackupEntry['kind'], id: string, label: string, path: string): Promise<BackupEntry> {
+    let content: string | null = null;
+    try {
+      content = await readFile(path, 'utf-8');
+    } catch {
+      this.debug(`${label} not found at ${path}`);
+    }
+    return { kind, id, label, path, content };
+  }
+
+  private async readArchive(path: string): Promise<BackupArchive> {
+    const archive = JSON.parse(await readFile(path, 'utf-8')) as BackupArchive;
+
+    if (archive.format !== 'mcpl-backup' || !Array.isArray(archive.entries)) {
+      throw new Error(`${path} is not an mcpl backup`);
+    }
+    if (archive.version > BACKUP_FORMAT_VERSION) {
+      throw new Error(`Backup format v${archive.version} is newer than this CLI supports (v${BACKUP_FORMAT_VERSION})`);
+    }
+
+    return archive;
+  }
+
+  private async selectBackup(): Promise<string | undefined> {
+    const files = (await fileExists(this.backupDir))
+      ? (await readdir(this.backupDir)).filter(name => name.endsWith('.json')).sort().reverse()
+      : [];
+
+    if (files.length === 0) {
+      this.error('No backups found. Specify a backup file to restore.');
+      return undefined;
+    }
+
+    return join(this.backupDir, await this.select('Select a backup to restore:', files));
+  }
+
+  /**
+   * Extract the server map of a captured file, keyed by server name
+   */
+  private listEntryServers(entry: BackupEntry): Map<string, string> {
+    const servers = new Map<string, string>();
+    if (!entry.content) {
+      return servers;
+    }
+
+    try {
+      const map = entry.kind === 'bridge-state'
+        ? JSON.parse(entry.content).servers
+        : this.getClientAdapter(entry).parseServers(entry.content);
+      for (const [name, value] of Object.entries(map || {})) {
+        const { updatedAt, ...rest } = value as any;
+        servers.set(name, JSON.stringify(rest));
+      }
+    } catch {
+      this.debug(`${entry.label} contains invalid JSON`);
+    }
+
+    return servers;
+  }
+
+  private diffServers(current: BackupEntry, target: BackupEntry): ServerDiff {
+    const before = this.listEntryServers(current);
+    const after = this.listEntryServers(target);
+
+    return {
+      added: [...after.keys()].filter(name => !before.has(name)),
+      removed: [...before.keys()].filter(name => !after.has(name)),
+      changed: [...after.keys()].filter(name => before.has(name) && before.get(name) !== after.get(name))
+    };
+  }
+
+  private printDiff(entry: BackupEntry, diff: ServerDiff): void {
+    console.log(`\n${chalk.bold(entry.label)} (${entry.path})`);
+
+    diff.added.forEach(name => console.log(chalk.green(`  + ${name}`)));
+    diff.removed.forEach(name => console.log(chalk.red(`  - ${name}`)));
+    diff.changed.forEach(name => console.log(chalk.yellow(`  ~ ${name}`)));
+
+    if (diff.added.length + diff.removed.length + diff.changed.length === 0) {
+      console.log(chalk.gray('  (formatting or non-server settings differ)'));
+    }
+  }
+
+  private emptyContent(entry: BackupEntry): string {
+    return entry.kind === 'bridge-state'
+      ? JSON.stringify({ version: 1, servers: {} }, null, 2)
+      : this.getClientAdapter(entry).createEmptyConfig();
+  }
+
+  /**
+   * Find the config adapter for a captured client file (by client id)
+   */
+  private getClientAdapter(entry: BackupEntry): ClientConfigAdapter {
+    return this.bridge.components.clientConfigRegistry.get(entry.id);
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   }
 }
@@ -2,6 +2,8 @@
 
 import chalk from 'chalk';
 import { MCPLookupBridge } from '@mcplookup-org/mcp-server';
+import { SecretVault, fileExists, getSecretsPath, readSecretPassphrase } from '@mcplookup-org/mcp-sdk';
+import { ResolvedCliConfig } from '../config/cli-config.js';
 
 export interface CommandOptions {
   verbose?: boolean;
@@ -12,10 +14,12 @@ export interface CommandOptions {
 
 export abstract class BaseCommand {
   protected bridge: MCPLookupBridge;
+  protected config: ResolvedCliConfig; // settings resolved from defaults, files, environment and flags
   protected verbose: boolean = false;
 
-  constructor(bridge: MCPLookupBridge) {
+  constructor(bridge: MCPLookupBridge, config: ResolvedCliConfig) {
     this.bridge = bridge;
+    this.config = config;
   }
 
   /**
@@ -60,6 +64,13 @@ export abstract class BaseCommand {
     }
   }
 
+  /**
+   * Send all console output to stderr, for commands that speak MCP on stdout
+   */
+  protected reserveStdout(): void {
+    console.log = console.error;
+  }
+
   /**
    * Handle errors gracefully
    */
@@ -196,6 +207,47 @@ export abstract class BaseCommand {
     return answer;
   }
 
+  /**
+   * Get input without echoing it (passphrases, API keys)
+   */
+  protected async promptSecret(message: string): Promise<string> {
+    const { default: inquirer } = await import('inquirer');
+    const { answer } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'answer',
+        message,
+        mask: '*'
+      }
+    ]);
+    return answer;
+  }
+
+  /**
+   * Open the secret store, asking for the passphrase when none is configured
+   */
+  protected async openSecretVault(): Promise<SecretVault> {
+    let passphrase = await readSecretPassphrase();
+    if (!passphrase) {
+      if (!process.stdin.isTTY) {
+        throw new Error('The secret store is locked: set MCPL_SECRETS_PASSPHRASE or create ~/.mcpl/secrets.passphrase');
+      }
+
+      if (await fileExists(getSecretsPath())) {
+        passphrase = await this.promptSecret('Secret store passphrase:');
+      } else {
+        passphrase = await this.promptSecret('Choose a passphrase for the new secret store:');
+        if (passphrase !== await this.promptSecret('Repeat the passphrase:')) {
+          throw new Error('Passphrases do not match');
+        }
+      }
+      if (!passphrase) {
+        throw new Error('A passphrase is required to use the secret store');
+      }
+    }
+    return new SecretVault({ passphrase });
+  }
+
   /**
    * Select from options
    */
@@ -1,12 +1,32 @@
 // Config command - Configuration management
 
+import { join } from 'node:path';
+import chalk from 'chalk';
 import { BaseCommand } from './base-command.js';
+import {
+  CONFIG_SETTINGS,
+  ConfigLayer,
+  ConfigOrigin,
+  ConfigSetting,
+  getConfigSetting,
+  getConfigValue,
+  parseConfigValue,
+  PROJECT_CONFIG_FILE,
+  removeConfigFile,
+  writeConfigValue
+} from '../config/cli-config.js';
 
 export interface ConfigOptions {
   global?: boolean;
+  showOrigin?: boolean;
+  json?: boolean;
+  force?: boolean;
   verbose?: boolean;
 }
 
+// Later layers override earlier ones
+const LAYER_ORDER: ConfigLayer[] = ['default', 'global', 'project', 'env', 'flag'];
+
 export class ConfigCommand extends BaseCommand {
   async execute(action: string = 'list', key?: string, value?: string, options: ConfigOptions = {}): Promise<void> {
     this.setVerbose(options.verbose || false);
@@ -23,7 +43,7 @@ export class ConfigCommand extends BaseCommand {
           await this.setConfig(key, value, options);
           break;
         case 'reset':
-          await this.resetConfig(options);
+          await this.resetConfig(key, options);
           break;
         default:
           this.error(`Unknown action: ${action}`);
@@ -35,8 +55,29 @@ export class ConfigCommand extends BaseCommand {
   }
 
   private async listConfig(options: ConfigOptions): Promise<void> {
+    if (options.json) {
+      const settings = Object.fromEntries(CONFIG_SETTINGS.map(setting => [setting.key, {
+        value: this.displayValue(setting),
+        ...(options.showOrigin && { origin: this.config.origins[setting.key] })
+      }]));
+      console.log(JSON.stringify(settings, null, 2));
+      return;
+    }
+
     this.info('⚙️ Configuration settings:');
-    this.warn('Configuration management coming soon!');
+    this.formatOutput(CONFIG_SETTINGS.map(setting => {
+      const value = this.displayValue(setting);
+      return {
+        Key: setting.key,
+        Value: value === undefined ? chalk.gray('(not set)') : String(value),
+        ...(options.showOrigin
+          ? { Origin: this.formatOrigin(this.config.origins[setting.key]) }
+          : { Description: setting.description })
+      };
+    }), 'table');
+
+    this.debug(`Global config: ${this.config.globalPath}`);
+    this.debug(`Project config: ${this.config.projectPath || '(none)'}`);
   }
 
   private async getConfig(key: string | undefined, options: ConfigOptions): Promise<void> {
@@ -44,21 +85,102 @@ export class ConfigCommand extends BaseCommand {
       this.error('Key is required for get operation');
       return;
     }
-    this.info(`Getting config: ${key}`);
-    this.warn('Configuration management coming soon!');
+
+    const setting = this.requireSetting(key);
+    const value = getConfigValue(this.config.values, setting.key);
+
+    if (options.json) {
+      console.log(JSON.stringify({ value: value ?? null, origin: this.config.origins[setting.key] ?? null }));
+      return;
+    }
+
+    // Print the raw value so it can be used in scripts
+    console.log(value === undefined ? '' : String(value));
+    if (options.showOrigin) {
+      console.log(chalk.gray(this.formatOrigin(this.config.origins[setting.key])));
+    }
   }
 
   private async setConfig(key: string | undefined, value: string | undefined, options: ConfigOptions): Promise<void> {
-    if (!key || !value) {
+    if (!key || value === undefined) {
       this.error('Key and value are required for set operation');
       return;
     }
-    this.info(`Setting config: ${key} = ${value}`);
-    this.warn('Configuration management coming soon!');
+
+    const setting = this.requireSetting(key);
+    if ((setting.secret || setting.globalOnly) && !options.global) {
+      this.error(`${setting.key} is only read from the global config`);
+      this.info(`Use "mcpl config set ${setting.key} <value> --global"${setting.env ? ` or set ${setting.env}` : ''}`);
+      return;
+    }
+
+    const path = this.getTargetPath(options);
+    await writeConfigValue(path, setting.key, parseConfigValue(setting, value));
+
+    this.success(`Set ${setting.key} in ${path}`);
+    this.warnIfOverridden(setting, options.global ? 'global' : 'project');
+  }
+
+  private async resetConfig(key: string | undefined, options: ConfigOptions): Promise<void> {
+    const path = this.getTargetPath(options);
+
+    if (key) {
+      const setting = this.requireSetting(key);
+      await writeConfigValue(path, setting.key, undefined);
+      this.success(`Reset ${setting.key} in ${path}`);
+      return;
+    }
+
+    if (!options.force && !(await this.confirm(`Remove all settings in ${path}?`))) {
+      this.info('Reset cancelled');
+      return;
+    }
+
+    await removeConfigFile(path);
+    this.success(`Removed ${path}`);
   }
 
-  private async resetConfig(options: ConfigOptions): Promise<void> {
-    this.info('Resetting configuration...');
-    this.warn('Configuration management coming soon!');
+  private requireSetting(key: string): ConfigSetting {
+    const setting = getConfigSetting(key);
+    if (!setting) {
+      throw new Error(`Unknown setting: ${key}. Available settings: ${CONFIG_SETTINGS.map(candidate => candidate.key).join(', ')}`);
+    }
+    return setting;
+  }
+
+  /**
+   * The file set/reset write to: the global config, or the nearest project config
+   * (created in the current directory when there is none)
+   */
+  private getTargetPath(options: ConfigOptions): string {
+    if (options.global) {
+      return this.config.globalPath;
+    }
+    return this.config.projectPath || join(process.cwd(), PROJECT_CONFIG_FILE);
+  }
+
+  /**
+   * Tell the user when a layer above the one just written still wins
+   */
+  private warnIfOverridden(setting: ConfigSetting, written: ConfigLayer): void {
+    const origin = this.config.origins[setting.key];
+    if (origin && LAYER_ORDER.indexOf(origin.layer) > LAYER_ORDER.indexOf(written)) {
+      this.warn(`${setting.key} is currently overridden by ${this.formatOrigin(origin)}`);
+    }
+  }
+
+  private displayValue(setting: ConfigSetting): string | number | boolean | undefined {
+    const value = getConfigValue(this.config.values, setting.key) as string | number | boolean | undefined;
+    if (setting.secret && typeof value === 'string') {
+      return value.length > 8 ? `****${value.slice(-4)}` : '****';
+    }
+    return value;
+  }
+
+  private formatOrigin(origin: ConfigOrigin | undefined): string {
+    if (!origin) {
+      return '-';
+    }
+    return origin.source ? `${origin.layer} (${origin.source})` : origin.layer;
   }
 }
@@ -1,11 +1,17 @@
-// Dev command - Development server (Smithery parity)
+// Dev command - Development server with hot reload (Smithery parity)
 
+import chalk from 'chalk';
+import { resolve } from 'node:path';
+import { CapabilityChanges, DevHarness, DevReloadResult } from '@mcplookup-org/mcp-server';
+import { fileExists } from '@mcplookup-org/mcp-sdk';
 import { BaseCommand } from './base-command.js';
 
 export interface DevOptions {
   port: string;
-  open: boolean;
   hotReload: boolean;
+  transport?: 'stdio' | 'http';
+  serverUrl?: string;
+  watch?: string[];
   tunnel?: boolean;
   verbose?: boolean;
 }
@@ -15,17 +21,104 @@ export class DevCommand extends BaseCommand {
     this.setVerbose(options.verbose || false);
 
     try {
-      this.info('🛠️ Starting development server...');
-      this.warn('Development server functionality coming soon!');
-      
-      console.log('Planned features:');
-      console.log('• Hot reload for MCP server development');
-      console.log('• Built-in testing environment');
-      console.log('• Public tunnel for remote testing');
-      console.log('• Real-time tool testing');
-      
+      if (!entryFile) {
+        this.error('Entry file is required');
+        this.info('Usage: mcpl dev <entry> [--port 8181] [--transport stdio|http]');
+        return;
+      }
+
+      const entry = resolve(entryFile);
+      if (!(await fileExists(entry))) {
+        this.error(`Entry file not found: ${entry}`);
+        return;
+      }
+
+      const transport = options.transport || 'stdio';
+      if (transport !== 'stdio' && transport !== 'http') {
+        this.error(`Unknown transport: ${transport}`);
+        this.info('Available transports: stdio, http');
+        return;
+      }
+      if (transport === 'http' && !options.serverUrl) {
+        this.error('--server-url is required with --transport http');
+        return;
+      }
+
+      if (options.tunnel) {
+        this.warn('Public tunnels are not supported yet, serving locally only');
+      }
+
+      this.info(`🛠️ Starting development server for ${entry}...`);
+
+      const harness = new DevHarness({
+        entry,
+        transport,
+        serverUrl: options.serverUrl,
+        watch: options.watch,
+        hotReload: options.hotReload,
+        port: parseInt(options.port, 10),
+        onReload: (result) => this.printReload(result),
+        onError: (error) => this.error(`Reload failed: ${error.message}`)
+      });
+
+      const initial = await this.withSpinner('Launching server...', () => harness.start());
+      this.printSurface(initial);
+
+      this.success(`MCP endpoint: ${harness.getUrl()}`);
+      if (options.hotReload) {
+        this.info(`👀 Watching ${harness.getWatchPaths().join(', ')}`);
+      }
+      console.log(chalk.gray('Press Ctrl+C to stop'));
+
+      await new Promise<void>((resolveStop) => {
+        const shutdown = () => {
+          console.log('');
+          this.info('Stopping development server...');
+          harness.stop().finally(() => resolveStop());
+        };
+        process.once('SIGINT', shutdown);
+        process.once('SIGTERM', shutdown);
+      });
     } catch (error) {
       this.handleError(error, 'Dev server failed');
     }
   }
+
+  private printSurface(result: DevReloadResult): void {
+    const { tools, resources, prompts } = result.surface;
+
+    console.log('');
+    console.log(chalk.bold(`Capabilities (${result.durationMs}ms):`));
+    console.log(`  🔧 Tools: ${[...tools.keys()].join(', ') || 'none'}`);
+    console.log(`  📄 Resources: ${[...resources.keys()].join(', ') || 'none'}`);
+    console.log(`  💬 Prompts: ${[...prompts.keys()].join(', ') || 'none'}`);
+    console.log('');
+  }
+
+  private printReload(result: DevReloadResult): void {
+    this.success(`Reloaded after change to ${result.trigger || 'sources'} (${result.durationMs}ms)`);
+
+    const sections: Array<[string, CapabilityChanges]> = [
+      ['Tools', result.diff.tools],
+      ['Resources', result.diff.resources],
+      ['Prompts', result.diff.prompts]
+    ];
+
+    let changed = false;
+    for (const [label, changes] of sections) {
+      if (changes.added.length + changes.removed.length + changes.changed.length === 0) {
+        continue;
+      }
+
+      changed = true;
+      console.log(chalk.bold(`  ${label}:`));
+      changes.added.forEach(name => console.log(chalk.green(`    + ${name}`)));
+      changes.removed.forEach(name => console.log(chalk.red(`    - ${name}`)));
+      changes.changed.forEach(name => console.log(chalk.yellow(`    ~ ${name}`)));
+    }
+
+    if (!changed) {
+      console.log(chalk.gray('  No capability changes'));
+    }
+  }
 }
@@ -0,0 +1,160 @@
+// Images command - Prebuilt Docker images for npm and Python servers
+
+import chalk from 'chalk';
+import { PackageImage, PackageImageRef } from '@mcplookup-org/mcp-server';
+import { BaseCommand } from './base-command.js';
+
+export interface ImagesOptions {
+  json?: boolean;
+  all?: boolean;
+  force?: boolean;
+  verbose?: boolean;
+}
+
+export class ImagesCommand extends BaseCommand {
+  async execute(action: string = 'list', target?: string, options: ImagesOptions = {}): Promise<void> {
+    this.setVerbose(options.verbose || false);
+
+    try {
+      if (!(await this.bridge.components.dockerManager.isDockerAvailable())) {
+        throw new Error('Docker is not available');
+      }
+
+      switch (action.toLowerCase()) {
+        case 'list':
+          await this.listImages(options);
+          break;
+        case 'prune':
+          await this.pruneImages(options);
+          break;
+        case 'rebuild':
+          await this.rebuildImages(target, options);
+          break;
+        default:
+          this.error(`Unknown action: ${action}`);
+          this.info('Available actions: list, prune, rebuild');
+      }
+    } catch (error) {
+      this.handleError(error, 'Images operation failed');
+    }
+  }
+
+  private async listImages(options: ImagesOptions): Promise<void> {
+    const images = await this.bridge.components.dockerManager.listPackageImages();
+    const usage = this.getImageUsage();
+
+    if (options.json) {
+      console.log(JSON.stringify(images.map(image => ({ ...image, usedBy: usage.get(image.tag) || [] })), null, 2));
+      return;
+    }
+
+    if (images.length === 0) {
+      this.info('No server images built yet');
+      this.info('Images are built when npm or Python servers are installed in bridge mode');
+      return;
+    }
+
+    this.formatOutput(images.map(image => ({
+      Image: image.tag,
+      Package: `${image.packageName} (${image.type})`,
+      Version: image.version,
+      Size: this.formatSize(image.size),
+      Created: new Date(image.createdAt).toLocaleString(),
+      'Used by': usage.get(image.tag)?.join(', ') || chalk.gray('-'),
+      Status: image.current ? chalk.green('current') : chalk.yellow('outdated')
+    })), 'table');
+  }
+
+  /**
+   * Remove images no registered server runs (and, with --all, every image)
+   */
+  private async pruneImages(options: ImagesOptions): Promise<void> {
+    const { dockerManager } = this.bridge.components;
+    const usage = this.getImageUsage();
+    const images = (await dockerManager.listPackageImages()).filter(image => options.all || !usage.has(image.tag));
+
+    if (images.length === 0) {
+      this.info('Nothing to prune');
+      return;
+    }
+
+    images.forEach(image => console.log(`  ${image.tag}${usage.has(image.tag) ? chalk.yellow(` (used by ${usage.get(image.tag)!.join(', ')})`) : ''}`));
+    if (!options.force && !(await this.confirm(`Remove ${images.length} images?`))) {
+      this.info('Prune cancelled');
+      return;
+    }
+
+    let removed = 0;
+    for (const image of images) {
+      if (await dockerManager.removeImage(image.tag)) {
+        removed++;
+      } else {
+        this.warn(`Could not remove ${image.tag} (is a container still using it?)`);
+      }
+    }
+
+    this.success(`Removed ${removed} images`);
+    if (options.all) {
+      this.info('Images of installed servers are rebuilt the next time they start');
+    }
+  }
+
+  /**
+   * Rebuild images from scratch with the latest base image, for one server or all of them
+   */
+  private async rebuildImages(target: string | undefined, options: ImagesOptions): Promise<void> {
+    if (!target && !options.all) {
+      this.error('Server name is required for rebuild (or use --all)');
+      return;
+    }
+
+    const { dockerManager, serverRegistry } = this.bridge.components;
+    const refs = new Map<string, { ref: PackageImageRef; servers: string[] }>();
+
+    for (const server of serverRegistry.listServers()) {
+      const ref = dockerManager.getServerPackageImage(server);
+      if (!ref || (target && server.name !== target)) {
+        continue;
+      }
+
+      const tag = dockerManager.getPackageImageTag(ref);
+      refs.set(tag, { ref, servers: [...(refs.get(tag)?.servers || []), server.name] });
+    }
+
+    if (refs.size === 0) {
+      throw new Error(target ? `Server ${target} not found or does not run a prebuilt package image` : 'No servers run prebuilt package images');
+    }
+
+    for (const [tag, { ref, servers }] of refs) {
+      await this.withSpinner(`Rebuilding ${tag}...`, () => dockerManager.ensurePackageImage(ref, { rebuild: true }));
+      this.debug(`Used by ${servers.join(', ')}`);
+    }
+
+    this.success(`Rebuilt ${refs.size} images`);
+    this.info('Restart the servers that use them to pick up the new images');
+  }
+
+  /**
+   * Map each package image tag to the servers that run it
+   */
+  private getImageUsage(): Map<string, string[]> {
+    const { dockerManager, serverRegistry } = this.bridge.components;
+    const usage = new Map<string, string[]>();
+
+    for (const server of serverRegistry.listServers()) {
+      const ref = dockerManager.getServerPackageImage(server);
+      if (ref) {
+        const tag = dockerManager.getPackageImageTag(ref);
+        usage.set(tag, [...(usage.get(tag) || []), server.name]);
+      }
+    }
+    return usage;
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes >= 1024 ** 3) {
+      return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+    }
+    return `${Math.round(bytes / 1024 ** 2)} MB`;
+  }
+}
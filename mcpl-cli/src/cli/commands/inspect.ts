@@ -92,6 +92,44 @@ export class InspectCommand extends BaseCommand {
     } else {
       console.log(`No environment variables configured`);
     }
+
+    if (server.mode === 'bridge') {
+      await this.showSandbox(server);
+    }
+  }
+
+  private async showSandbox(server: any): Promise<void> {
+    if (!server.sandbox) {
+      console.log(`Sandbox: none`);
+      return;
+    }
+
+    console.log(`Sandbox: ${server.sandbox.profile}`);
+    if (server.sandbox.workspace) console.log(`  Workspace: ${server.sandbox.workspace}`);
+
+    try {
+      const profile = await this.bridge.components.sandboxProfiles.get(server.sandbox.profile);
+      const hosts = [...(profile.allowedHosts || []), ...(server.sandbox.allowedHosts || [])];
+
+      console.log(`  Network: ${profile.network}${profile.network === 'allowlist' ? ` (${hosts.join(', ')})` : ''}`);
+      (profile.mounts || []).forEach((mount: any) => {
+        const source = mount.source.replace(/\$\{workspace\}/g, server.sandbox.workspace || '${workspace}');
+        console.log(`  Mount: ${source} -> ${mount.target} (${mount.readOnly ? 'ro' : 'rw'})`);
+      });
+      if (profile.readOnlyRootfs) console.log(`  Read-only root filesystem${profile.tmpfs?.length ? `, tmpfs ${profile.tmpfs.join(', ')}` : ''}`);
+      if (profile.capDrop?.length) console.log(`  Dropped capabilities: ${profile.capDrop.join(', ')}`);
+      if (profile.capAdd?.length) console.log(`  Added capabilities: ${profile.capAdd.join(', ')}`);
+      console.log(`  Seccomp: ${profile.seccomp || 'Docker default'}`);
+      if (profile.memory || profile.cpus || profile.pidsLimit) {
+        console.log(`  Limits: ${[
+          profile.memory && `memory ${profile.memory}`,
+          profile.cpus && `cpus ${profile.cpus}`,
+          profile.pidsLimit && `pids ${profile.pidsLimit}`
+        ].filter(Boolean).join(', ')}`);
+      }
+    } catch (error) {
+      this.warn(error instanceof Error ? error.message : String(error));
+    }
   }
 
   private async showTools(server: any): Promise<void> {
@@ -1,12 +1,21 @@
 // Install command - Enhanced Smithery parity with mcplookup.org integration
 
+import { resolve } from 'node:path';
 import { BaseCommand } from './base-command.js';
+import { ResolvedCliConfig } from '../config/cli-config.js';
 import { 
   InstallationResolver, 
   InstallationContext, 
   ResolvedPackage, 
-  InstallationMethod 
+  InstallationMethod,
+  EnvironmentVariable,
+  RestartPolicy,
+  SecretVault,
+  ServerSandbox,
+  createSecretRef,
+  findSecretRefs
 } from '@mcplookup-org/mcp-sdk';
+import { usesWorkspace } from '@mcplookup-org/mcp-server';
 
 export interface InstallOptions {
   client: string;
@@ -17,24 +26,50 @@ export interface InstallOptions {
   force: boolean;
   dryRun: boolean;
   globalInstall?: boolean;
+  transport?: 'http' | 'sse';
+  header?: string[];
+  bearerToken?: string;
+  sandbox?: string;
+  workspace?: string;
+  allowHost?: string[];
+  restart?: string;
   verbose?: boolean;
 }
 
 export class InstallCommand extends BaseCommand {
   private resolver: InstallationResolver;
 
-  constructor(bridge: any) {
-    super(bridge);
+  constructor(bridge: any, config: ResolvedCliConfig) {
+    super(bridge, config);
     this.resolver = new InstallationResolver();
   }
 
   async execute(packageName: string, options: InstallOptions): Promise<void> {
     this.setVerbose(options.verbose || false);
 
+    // Flags override the configured defaults
+    options = {
+      ...options,
+      client: options.client || this.config.values.defaults.client,
+      mode: options.mode || this.config.values.defaults.mode
+    };
+
     try {
       this.info(`Installing MCP server: ${packageName}`);
       this.debug(`Options: ${JSON.stringify(options, null, 2)}`);
 
+      const restartPolicy = this.resolveRestartPolicy(options);
+
+      // Remote servers are reached by URL and skip package resolution
+      if (/^https?:\/\//i.test(packageName)) {
+        await this.installRemoteServer(packageName, options, restartPolicy);
+        return;
+      }
+
+      // Fail early on clients we have no config adapter for
+      const client = this.bridge.components.clientConfigRegistry.get(options.client);
+      const sandbox = await this.resolveSandbox(options);
+
       // Parse configuration
       const config = options.config ? this.parseJSON(options.config) : {};
       const env = options.env ? this.parseJSON(options.env) : {};
@@ -58,13 +93,18 @@ export class InstallCommand extends BaseCommand {
 
       // Dry run mode
       if (options.dryRun) {
-        await this.performDryRun(resolvedPackage, options, config, env, instructions);
+        await this.performDryRun(resolvedPackage, options, config, env, instructions, sandbox, restartPolicy);
         return;
       }
 
+      // Keep required secrets out of the client config
+      const provided = { ...env, ...config, ...instructions.env_vars };
+      Object.assign(env, await this.promptForMissingSecrets(resolvedPackage, instructions.environment_variables, provided));
+      await this.checkSecretRefs({ ...provided, ...env });
+
       // Install based on mode
       if (options.mode === 'bridge') {
-        await this.installBridgeMode(resolvedPackage, config, env, options, instructions);
+        await this.installBridgeMode(resolvedPackage, config, env, options, instructions, sandbox, restartPolicy);
       } else {
         await this.installDirectMode(resolvedPackage, config, env, options, instructions);
       }
@@ -72,7 +112,7 @@ export class InstallCommand extends BaseCommand {
       this.success(`Successfully installed ${resolvedPackage.displayName || resolvedPackage.packageName}`);
 
       // Post-installation instructions
-      this.showPostInstallInstructions(options.mode, options.client);
+      this.showPostInstallInstructions(options.mode, client.displayName);
 
     } catch (error) {
       this.handleError(error, 'Installation failed');
@@ -104,12 +144,80 @@ export class InstallCommand extends BaseCommand {
     }
   }
 
+  /**
+   * Ask for required variables the registry lists but were not passed, store the
+   * values in the secret store and return secret:// references to them
+   */
+  private async promptForMissingSecrets(
+    resolvedPackage: ResolvedPackage,
+    variables: EnvironmentVariable[],
+    provided: Record<string, string>
+  ): Promise<Record<string, string>> {
+    const missing = this.getMissingVariables(variables, provided);
+    if (missing.length === 0) {
+      return {};
+    }
+
+    if (!process.stdin.isTTY) {
+      throw new Error(`Missing required environment variables: ${missing.map(variable => variable.name).join(', ')}. Pass them with --env`);
+    }
+
+    const serverName = this.resolver.generateServerName(resolvedPackage.packageName);
+    const vault = await this.openSecretVault();
+    const refs: Record<string, string> = {};
+
+    this.info(`🔐 ${resolvedPackage.displayName} needs ${missing.length} more environment variables; values are kept in the secret store`);
+    for (const variable of missing) {
+      const secretName = `${serverName}-${variable.name!.toLowerCase().replace(/_/g, '-')}`;
+
+      if (await vault.has(secretName)) {
+        this.info(`Using stored secret ${secretName} for ${variable.name}`);
+      } else {
+        if (variable.description) {
+          this.info(`${variable.name}: ${variable.description}`);
+        }
+        const value = await this.promptSecret(`${variable.name}${variable.example ? ` (e.g. ${variable.example})` : ''}:`);
+        if (!value) {
+          throw new Error(`${variable.name} is required`);
+        }
+        await vault.set(secretName, value);
+      }
+
+      refs[variable.name!] = createSecretRef(secretName);
+    }
+
+    return refs;
+  }
+
+  /**
+   * Fail early on secret:// references to secrets that are not stored
+   */
+  private async checkSecretRefs(env: Record<string, string>): Promise<void> {
+    const vault = new SecretVault();
+    const missing = [];
+    for (const name of findSecretRefs({ env })) {
+      if (!(await vault.has(name))) {
+        missing.push(name);
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new Error(`Secrets not found: ${missing.join(', ')}. Add them with "mcpl secrets set <name>"`);
+    }
+  }
+
+  private getMissingVariables(variables: EnvironmentVariable[], provided: Record<string, string>): EnvironmentVariable[] {
+    return variables.filter(variable => variable.name && variable.required && !variable.default && !(variable.name in provided));
+  }
+
   private async performDryRun(
     resolvedPackage: ResolvedPackage,
     options: InstallOptions,
     config: any,
     env: any,
-    instructions: any
+    instructions: any,
+    sandbox?: ServerSandbox,
+    restartPolicy?: RestartPolicy
   ): Promise<void> {
     this.info('🔍 Dry run mode - showing what would be installed:');
 
@@ -131,6 +239,9 @@ ${resolvedPackage.verified ? '✅ Verified' : '⚠️  Unverified'}
 🏃 Runtime: ${runtimeInfo}
 ⚙️ Config: ${Object.keys(config).length} keys
 🌍 Environment: ${Object.keys(env).length} variables
+🔐 Missing required variables: ${this.getMissingVariables(instructions.environment_variables, { ...env, ...config, ...instructions.env_vars }).map(variable => variable.name).join(', ') || 'none'}
+🛡️ Sandbox: ${sandbox ? this.describeSandbox(sandbox) : 'none'}
+🔁 Restart policy: ${restartPolicy || 'on-failure'}
 🚀 Auto-start: ${options.autoStart}
 
 📋 Installation Steps:
@@ -141,7 +252,9 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
     `);
 
     if (options.mode === 'direct') {
-      this.warn('Direct mode installation would require Claude Desktop restart');
+      const client = this.bridge.components.clientConfigRegistry.get(options.client);
+      this.warn(`Direct mode installation would require a ${client.displayName} restart`);
+      this.info(`📋 Config file: ${await client.getConfigPath()}`);
     }
 
     this.info('Use --force to proceed with actual installation');
@@ -154,9 +267,14 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
     config: any,
     env: any,
     options: InstallOptions,
-    instructions: any
+    instructions: any,
+    sandbox?: ServerSandbox,
+    restartPolicy?: RestartPolicy
   ): Promise<void> {
     this.info('Installing in bridge mode (dynamic, no restart required)');
+    if (sandbox) {
+      this.info(`🛡️ Sandbox: ${this.describeSandbox(sandbox)}`);
+    }
 
     // Show what we're installing
     if (resolvedPackage.source !== 'direct') {
@@ -171,13 +289,17 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
 
     await this.withSpinner('Installing server...', async () => {
       const result = await this.bridge.api.installServer({
+        package_query: resolvedPackage.packageName,
         name: this.resolver.generateServerName(resolvedPackage.packageName),
-        type: resolvedPackage.type,
-        command: instructions.command,
-        args: instructions.args,
         mode: 'bridge',
         auto_start: options.autoStart,
-        env: { ...env, ...config, ...instructions.env_vars }
+        env: { ...env, ...config, ...instructions.env_vars },
+        ...(sandbox && {
+          sandbox: sandbox.profile,
+          workspace: sandbox.workspace,
+          allowed_hosts: sandbox.allowedHosts
+        }),
+        ...(restartPolicy && { restart_policy: restartPolicy })
       });
 
       if (result.isError) {
@@ -225,29 +347,16 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
       await this.performGlobalNpmInstall(resolvedPackage.packageName);
     }
 
-    await this.withSpinner('Adding to Claude Desktop configuration...', async () => {
-      // Generate Claude config using SDK utilities
-      const context = {
-        mode: options.mode as 'direct' | 'bridge',
-        platform: process.platform as 'linux' | 'darwin' | 'win32',
-        globalInstall: options.globalInstall,
-        client: options.client
-      };
-      
-      const claudeConfig = this.resolver.generateClaudeConfig(
-        resolvedPackage, 
-        context, 
-        { ...env, ...config, ...instructions.env_vars }
-      );
+    const client = this.bridge.components.clientConfigRegistry.get(options.client);
 
+    await this.withSpinner(`Adding to ${client.displayName} configuration...`, async () => {
+      // The bridge generates the entry and writes it in the client's own schema
       const result = await this.bridge.api.installServer({
+        package_query: resolvedPackage.packageName,
         name: this.resolver.generateServerName(resolvedPackage.packageName),
-        type: resolvedPackage.type,
-        command: instructions.command,
-        args: instructions.args,
         mode: 'direct',
+        client: client.id,
         global_install: options.globalInstall,
-        claude_config: claudeConfig.mcpServers,
         env: { ...env, ...config, ...instructions.env_vars }
       });
 
@@ -256,7 +365,7 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
       }
     });
 
-    this.success('Server added to Claude Desktop configuration');
+    this.success(`Server added to ${client.displayName} configuration (${await client.getConfigPath()})`);
 
     if (options.globalInstall && resolvedPackage.type === 'npm') {
       this.info('🏠 Package runs directly on host (Smithery-style)');
@@ -267,6 +376,123 @@ ${instructions.steps.map((step: string, i: number) => `${i + 1}. ${step}`).join(
     }
   }
 
+  /**
+   * Build the sandbox selection from --sandbox, --workspace and --allow-host.
+   * Workspace profiles default to the current directory.
+   */
+  private async resolveSandbox(options: InstallOptions): Promise<ServerSandbox | undefined> {
+    if (!options.sandbox) {
+      if (options.workspace || options.allowHost?.length) {
+        throw new Error('--workspace and --allow-host require --sandbox');
+      }
+      return undefined;
+    }
+    if (options.mode !== 'bridge') {
+      throw new Error('Sandbox profiles apply to bridge mode only (use --mode bridge)');
+    }
+    if (options.globalInstall) {
+      throw new Error('--sandbox cannot be combined with --global, which runs the server on the host');
+    }
+
+    const profile = await this.bridge.components.sandboxProfiles.get(options.sandbox);
+    const workspace = options.workspace || (usesWorkspace(profile) ? process.cwd() : undefined);
+
+    return {
+      profile: options.sandbox,
+      ...(workspace && { workspace: resolve(workspace) }),
+      ...(options.allowHost?.length && { allowedHosts: options.allowHost })
+    };
+  }
+
+  /**
+   * Check --restart, which only bridge servers use (clients run direct-mode servers)
+   */
+  private resolveRestartPolicy(options: InstallOptions): RestartPolicy | undefined {
+    if (!options.restart) {
+      return undefined;
+    }
+    if (!['never', 'on-failure', 'always'].includes(options.restart)) {
+      throw new Error(`Unknown restart policy: ${options.restart} (expected never, on-failure or always)`);
+    }
+    if (options.mode !== 'bridge') {
+      throw new Error('Restart policies apply to bridge mode only (use --mode bridge)');
+    }
+    return options.restart as RestartPolicy;
+  }
+
+  private describeSandbox(sandbox: ServerSandbox): string {
+    return [
+      sandbox.profile,
+      ...(sandbox.workspace ? [`workspace ${sandbox.workspace}`] : []),
+      ...(sandbox.allowedHosts ? [`hosts ${sandbox.allowedHosts.join(', ')}`] : [])
+    ].join(', ');
+  }
+
+  private async installRemoteServer(url: string, options: InstallOptions, restartPolicy?: RestartPolicy): Promise<void> {
+    if (options.sandbox) {
+      this.error('Sandbox profiles apply only to servers the bridge runs in Docker, not remote servers');
+      return;
+    }
+
+    if (options.mode !== 'bridge') {
+      this.error('Remote servers can only be installed in bridge mode');
+      this.info(`Use: mcpl install ${url} --mode bridge`);
+      return;
+    }
+
+    const transport = options.transport || 'http';
+    if (transport !== 'http' && transport !== 'sse') {
+      this.error(`Unknown transport: ${transport}`);
+      this.info('Available transports: http, sse');
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const header of options.header || []) {
+      const separator = header.indexOf(':');
+      if (separator <= 0) {
+        this.error(`Invalid header "${header}", expected "Name: value"`);
+        return;
+      }
+      headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+    }
+
+    if (options.dryRun) {
+      this.info('🔍 Dry run mode - showing what would be installed:');
+      console.log(`
+🔗 Endpoint: ${url}
+📡 Transport: ${transport}
+📋 Headers: ${Object.keys(headers).join(', ') || 'none'}
+🔑 Bearer token: ${options.bearerToken ? 'yes' : 'no'}
+🔁 Restart policy: ${restartPolicy || 'on-failure'}
+🚀 Auto-start: ${options.autoStart}
+      `);
+      return;
+    }
+
+    this.info(`Installing remote server (${transport}) in bridge mode`);
+
+    await this.withSpinner('Connecting to remote server...', async () => {
+      const result = await this.bridge.api.installServer({
+        package_query: url,
+        mode: 'bridge',
+        auto_start: options.autoStart,
+        global_install: false,
+        transport,
+        ...(Object.keys(headers).length > 0 && { headers }),
+        ...(options.bearerToken && { bearer_token: options.bearerToken }),
+        ...(restartPolicy && { restart_policy: restartPolicy })
+      });
+
+      if (result.isError) {
+        throw new Error(result.content[0].text);
+      }
+    });
+
+    this.success(`Installed remote server ${url}`);
+    this.showPostInstallInstructions('bridge', options.client);
+  }
+
   private async performGlobalNpmInstall(packageName: string): Promise<void> {
     const { spawn } = await import('child_process');
 
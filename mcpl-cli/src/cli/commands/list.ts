@@ -3,7 +3,8 @@
 import { BaseCommand } from './base-command.js';
 
 export interface ListOptions {
-  client: string;
+  client: string; // client id, or 'all' for every detected client
+  clients?: boolean;
   mode: 'direct' | 'bridge' | 'all';
   format: 'table' | 'json' | 'yaml';
   status?: boolean;
@@ -13,8 +14,13 @@ export interface ListOptions {
 export class ListCommand extends BaseCommand {
   async execute(type: string = 'servers', options: ListOptions): Promise<void> {
     this.setVerbose(options.verbose || false);
+    options = { ...options, client: options.client || this.config.values.defaults.client };
 
     try {
+      if (options.clients) {
+        type = 'clients';
+      }
+
       switch (type.toLowerCase()) {
         case 'servers':
         case 'installed':
@@ -59,25 +65,33 @@ export class ListCommand extends BaseCommand {
       }
     }
 
-    // Get direct mode servers
+    // Get direct mode servers from the selected client configs
     if (options.mode === 'direct' || options.mode === 'all') {
-      try {
-        const directResult = await this.bridge.api.listClaudeServers();
-        const directServers = JSON.parse(directResult.content[0].text);
+      const registry = this.bridge.components.clientConfigRegistry;
+      const clients = options.client === 'all' ? await registry.getDetected() : [registry.get(options.client)];
 
-        directServers.forEach((server: any) => {
-          servers.push({
-            name: server.name,
-            command: server.command,
-            args: server.args.join(' '),
-            mode: 'direct',
-            client: 'claude',
-            status: 'configured',
-            tools: []
+      for (const client of clients) {
+        try {
+          const directResult = await this.bridge.api.listClientServers(client.id);
+          if (directResult.isError) {
+            throw new Error(directResult.content[0].text);
+          }
+          const directServers = JSON.parse(directResult.content[0].text);
+
+          directServers.forEach((server: any) => {
+            servers.push({
+              name: server.name,
+              command: server.command || server.url,
+              args: server.args.join(' '),
+              mode: 'direct',
+              client: client.id,
+              status: 'configured',
+              tools: []
+            });
           });
-        });
-      } catch (error) {
-        this.debug(`Failed to get direct servers: ${error instanceof Error ? error.message : String(error)}`);
+        } catch (error) {
+          this.debug(`Failed to get ${client.displayName} servers: ${error instanceof Error ? error.message : String(error)}`);
+        }
       }
     }
 
@@ -131,6 +145,7 @@ export class ListCommand extends BaseCommand {
       const row: any = {
         Name: server.name,
         Mode: server.mode,
+        Client: server.client,
         Status: this.getStatusDisplay(server),
         Tools: server.tools?.length || server.toolCount || 0
       };
@@ -177,38 +192,30 @@ export class ListCommand extends BaseCommand {
   }
 
   private async listClients(options: ListOptions): Promise<void> {
-    this.info('📱 Available MCP clients:');
-
-    const clients = [
-      {
-        name: 'claude',
-        description: 'Claude Desktop (Anthropic)',
-        supported: true,
-        configPath: await this.getClaudeConfigPath()
-      },
-      {
-        name: 'cursor',
-        description: 'Cursor IDE',
-        supported: false,
-        note: 'Coming soon'
-      },
-      {
-        name: 'vscode',
-        description: 'Visual Studio Code',
-        supported: false,
-        note: 'Planned'
+    this.info('📱 Supported MCP clients:');
+
+    const clients = [];
+    for (const client of this.bridge.components.clientConfigRegistry.list()) {
+      const detected = await client.isDetected();
+      let servers = '-';
+      if (detected) {
+        servers = await client.listServers()
+          .then(list => String(list.length))
+          .catch(() => 'invalid config');
       }
-    ];
+
+      clients.push({
+        Client: client.id,
+        Name: client.displayName,
+        Detected: detected ? '✅' : '❌',
+        Servers: servers,
+        Config: await client.getConfigPath()
+      });
+    }
 
     this.formatOutput(clients, options.format);
-  }
 
-  private async getClaudeConfigPath(): Promise<string> {
-    try {
-      return await this.bridge.components.claudeConfigManager.getConfigPath();
-    } catch {
-      return 'Not found';
-    }
+    console.log(`\n💡 Install into a client with: mcpl install <package> --client <client>`);
   }
 
   private async listAvailable(options: ListOptions): Promise<void> {
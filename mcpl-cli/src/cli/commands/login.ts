@@ -1,23 +1,31 @@
-// Login command - API key management
+// Login command - API key management and OAuth login to remote servers
 
+import { OAuthCredentialStore, authorizeServer } from '@mcplookup-org/mcp-server';
 import { BaseCommand } from './base-command.js';
-import { writeFile, readFile, mkdir } from 'node:fs/promises';
-import { homedir } from 'node:os';
-import { join } from 'node:path';
+import { writeConfigValue } from '../config/cli-config.js';
 
 export interface LoginOptions {
   key?: string;
+  scope?: string;
+  browser?: boolean;
+  logout?: boolean;
   verbose?: boolean;
 }
 
 export class LoginCommand extends BaseCommand {
-  private configDir = join(homedir(), '.mcpl');
-  private configFile = join(this.configDir, 'config.json');
-
-  async execute(options: LoginOptions): Promise<void> {
+  async execute(server: string | undefined, options: LoginOptions): Promise<void> {
     this.setVerbose(options.verbose || false);
 
     try {
+      if (server) {
+        if (options.key) {
+          this.error('--key sets the MCPLookup API key and cannot be combined with a server');
+          return;
+        }
+        await this.loginToServer(server, options);
+        return;
+      }
+
       let apiKey = options.key;
 
       if (!apiKey) {
@@ -33,13 +41,69 @@ export class LoginCommand extends BaseCommand {
       await this.saveApiKey(apiKey);
       
       this.success('Successfully logged in to MCPLookup');
-      this.info('API key saved to ~/.mcpl/config.json');
+      this.info(`API key saved to ${this.config.globalPath}`);
 
     } catch (error) {
       this.handleError(error, 'Login failed');
     }
   }
 
+  /**
+   * Authorize with a remote server over OAuth and store its tokens
+   */
+  private async loginToServer(server: string, options: LoginOptions): Promise<void> {
+    const serverUrl = this.resolveServerUrl(server);
+    if (!serverUrl) {
+      return;
+    }
+
+    const store = new OAuthCredentialStore();
+    if (options.logout) {
+      if (await store.remove(serverUrl)) {
+        this.success(`Logged out of ${serverUrl}`);
+      } else {
+        this.info(`Not logged in to ${serverUrl}`);
+      }
+      return;
+    }
+
+    this.info(`🔐 Authorizing with ${serverUrl}...`);
+    const tokens = await authorizeServer(serverUrl, {
+      store,
+      scope: options.scope,
+      ...(options.browser === false && {
+        onAuthorizationUrl: (url: URL) => console.error(`Open this URL to authorize access:\n${url.href}`)
+      })
+    });
+
+    this.success(`Logged in to ${serverUrl}`);
+    this.info(`Tokens saved to ${store.getPath()}`);
+    if (tokens.scope) {
+      this.debug(`Granted scope: ${tokens.scope}`);
+    }
+  }
+
+  /**
+   * Accept a server URL or the name of a remote bridge server
+   */
+  private resolveServerUrl(server: string): string | undefined {
+    if (/^https?:\/\//i.test(server)) {
+      return server;
+    }
+
+    const managed = this.bridge.components.serverRegistry.getServer(server);
+    if (!managed) {
+      this.error(`Server '${server}' not found`);
+      this.info('Pass the server\'s URL or the name of a remote bridge server');
+      return undefined;
+    }
+    if (!managed.endpoint || (managed.transport !== 'http' && managed.transport !== 'sse')) {
+      this.error(`Server '${server}' is not a remote server and needs no login`);
+      return undefined;
+    }
+    return managed.endpoint;
+  }
+
   private async promptForApiKey(): Promise<string> {
     console.log('🔑 MCPLookup Login');
     console.log('Get your API key from: https://mcplookup.org/dashboard');
@@ -53,7 +117,7 @@ export class LoginCommand extends BaseCommand {
     
     try {
       // Test the API key by making a simple request
-      const testBridge = new (await import('@mcplookup-org/mcp-server')).MCPLookupBridge(apiKey);
+      const testBridge = new (await import('@mcplookup-org/mcp-server')).MCPLookupBridge(apiKey, this.config.values.api.baseUrl);
       await testBridge.api.getOnboardingState();
       
     } catch (error) {
@@ -63,25 +127,7 @@ export class LoginCommand extends BaseCommand {
 
   private async saveApiKey(apiKey: string): Promise<void> {
     try {
-      // Ensure config directory exists
-      await mkdir(this.configDir, { recursive: true });
-
-      // Read existing config or create new
-      let config: any = {};
-      try {
-        const existing = await readFile(this.configFile, 'utf-8');
-        config = JSON.parse(existing);
-      } catch {
-        // File doesn't exist, start with empty config
-      }
-
-      // Update API key
-      config.apiKey = apiKey;
-      config.lastLogin = new Date().toISOString();
-
-      // Save config
-      await writeFile(this.configFile, JSON.stringify(config, null, 2));
-      
+      await writeConfigValue(this.config.globalPath, 'api.key', apiKey);
     } catch (error) {
       throw new Error(`Failed to save API key: ${error instanceof Error ? error.message : String(error)}`);
     }
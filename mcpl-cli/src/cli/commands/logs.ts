@@ -0,0 +1,165 @@
+// Logs command - Inspect managed server logs and the bridge's tool-call audit log
+
+import chalk from 'chalk';
+import { ServerLogEntry, ToolCallAuditEntry } from '@mcplookup-org/mcp-sdk';
+import { BaseCommand } from './base-command.js';
+
+export interface LogsOptions {
+  toolCalls?: boolean;
+  server?: string;
+  tool?: string;
+  since?: string;
+  until?: string;
+  errors?: boolean;
+  follow?: boolean;
+  grep?: string;
+  limit: string;
+  json?: boolean;
+  verbose?: boolean;
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+export class LogsCommand extends BaseCommand {
+  async execute(serverName: string | undefined, options: LogsOptions): Promise<void> {
+    this.setVerbose(options.verbose || false);
+
+    try {
+      if (options.toolCalls) {
+        await this.showToolCalls(options);
+        return;
+      }
+
+      if (!serverName) {
+        this.error('Specify which log to show');
+        this.info('Use "mcpl logs <server>" to view a bridge server\'s log');
+        this.info('Use "mcpl logs --tool-calls" to view the tool call audit log');
+        return;
+      }
+
+      await this.showServerLog(serverName, options);
+    } catch (error) {
+      this.handleError(error, 'Failed to read logs');
+    }
+  }
+
+  private async showToolCalls(options: LogsOptions): Promise<void> {
+    const limit = parseInt(options.limit, 10);
+    if (isNaN(limit) || limit < 1) {
+      this.error(`Invalid limit: ${options.limit}`);
+      return;
+    }
+
+    const auditLog = this.bridge.components.auditLog;
+    const entries = await auditLog.read({
+      server: options.server,
+      tool: options.tool,
+      since: options.since ? this.parseTime(options.since) : undefined,
+      until: options.until ? this.parseTime(options.until) : undefined,
+      errorsOnly: options.errors,
+      limit
+    });
+
+    if (options.json) {
+      entries.forEach(entry => console.log(JSON.stringify(entry)));
+      return;
+    }
+
+    if (entries.length === 0) {
+      this.info('No tool calls match the given filters');
+      this.debug(`Audit log: ${auditLog.getPath()}`);
+      return;
+    }
+
+    this.info(`🧾 ${entries.length} tool call${entries.length === 1 ? '' : 's'} (${auditLog.getPath()}):`);
+    this.formatOutput(entries.map(entry => this.toRow(entry, options.verbose || false)), 'table');
+  }
+
+  private async showServerLog(serverName: string, options: LogsOptions): Promise<void> {
+    const limit = parseInt(options.limit, 10);
+    if (isNaN(limit) || limit < 1) {
+      this.error(`Invalid limit: ${options.limit}`);
+      return;
+    }
+
+    const serverLogs = this.bridge.components.serverLogs;
+    if (!this.bridge.components.serverRegistry.hasServer(serverName)) {
+      this.warn(`'${serverName}' is not a bridge server, showing any log left under that name`);
+    }
+
+    const grep = options.grep ? new RegExp(options.grep) : undefined;
+    const entries = await serverLogs.read(serverName, {
+      since: options.since ? this.parseTime(options.since) : undefined,
+      until: options.until ? this.parseTime(options.until) : undefined,
+      grep,
+      limit
+    });
+
+    if (entries.length === 0 && !options.follow) {
+      this.info(`No log lines for '${serverName}' match the given filters`);
+      this.debug(`Log file: ${serverLogs.getPath(serverName)}`);
+      return;
+    }
+
+    if (!options.json) {
+      this.debug(`Log file: ${serverLogs.getPath(serverName)}`);
+    }
+    entries.forEach(entry => this.printLogEntry(entry, options.json || false));
+
+    if (options.follow) {
+      const stop = serverLogs.follow(serverName, entry => this.printLogEntry(entry, options.json || false), { grep });
+      await new Promise<void>((resolveStop) => {
+        process.once('SIGINT', () => resolveStop());
+        process.once('SIGTERM', () => resolveStop());
+      });
+      stop();
+    }
+  }
+
+  private printLogEntry(entry: ServerLogEntry, json: boolean): void {
+    if (json) {
+      console.log(JSON.stringify(entry));
+      return;
+    }
+
+    const time = chalk.gray(new Date(entry.timestamp).toLocaleString());
+    console.log(entry.stream === 'bridge'
+      ? `${time} ${chalk.cyan(`[bridge] ${entry.message}`)}`
+      : `${time} ${entry.message}`);
+  }
+
+  private toRow(entry: ToolCallAuditEntry, verbose: boolean): Record<string, string> {
+    const args = JSON.stringify(entry.arguments);
+
+    return {
+      Time: new Date(entry.timestamp).toLocaleString(),
+      Client: entry.client || '-',
+      Server: entry.server,
+      Tool: entry.tool,
+      Duration: `${entry.durationMs}ms`,
+      Size: `${entry.resultSize}B`,
+      Status: entry.isError ? chalk.red(entry.error ? `error: ${this.truncate(entry.error, 60)}` : 'error') : chalk.green('ok'),
+      Arguments: verbose ? args : this.truncate(args, 60)
+    };
+  }
+
+  /**
+   * Parse an ISO date or a relative duration such as 30m, 2h or 7d (meaning "ago")
+   */
+  private parseTime(value: string): Date {
+    const relative = /^(\d+)([smhd])$/.exec(value.trim());
+    if (relative) {
+      return new Date(Date.now() - parseInt(relative[1], 10) * DURATION_UNITS[relative[2]]);
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid time: ${value} (use an ISO date or a duration like 30m, 2h, 7d)`);
+    }
+    return date;
+  }
+
+  private truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+  }
+}
@@ -1,10 +1,14 @@
 // Playground command - Web playground (Smithery parity)
 
+import chalk from 'chalk';
+import { spawn } from 'node:child_process';
+import { PlaygroundServer } from '@mcplookup-org/mcp-server';
 import { BaseCommand } from './base-command.js';
 
 export interface PlaygroundOptions {
   port: string;
   server?: string;
+  url?: string;
   open: boolean;
   verbose?: boolean;
 }
@@ -15,16 +19,61 @@ export class PlaygroundCommand extends BaseCommand {
 
     try {
       this.info('🎮 Starting MCP playground...');
-      this.warn('Playground functionality coming soon!');
-      
-      console.log('Planned features:');
-      console.log('• Web-based MCP server testing');
-      console.log('• Interactive tool exploration');
-      console.log('• Real-time server communication');
-      console.log('• Tool result visualization');
-      
+
+      const { serverRegistry, policyStore, auditLog } = this.bridge.components;
+      if (options.server && !serverRegistry.hasServer(options.server)) {
+        this.error(`Server not found: ${options.server}`);
+        this.info('Use "mcpl list" to see bridge-managed servers');
+        return;
+      }
+
+      const playground = new PlaygroundServer({
+        port: parseInt(options.port, 10),
+        registry: serverRegistry,
+        policyStore,
+        auditLog
+      });
+
+      await playground.listen();
+
+      const target = options.url ? { url: options.url } : options.server ? { server: options.server } : undefined;
+      if (target) {
+        const label = await this.withSpinner(`Connecting to ${options.url || options.server}...`, () =>
+          playground.connect(target)
+        );
+        this.success(`Connected to ${label}`);
+      }
+
+      this.success(`Playground running at ${playground.getUrl()}`);
+      if (options.open) {
+        this.openBrowser(playground.getUrl());
+      }
+      console.log(chalk.gray('Press Ctrl+C to stop'));
+
+      await new Promise<void>((resolve) => {
+        const shutdown = () => {
+          console.log('');
+          this.info('Stopping playground...');
+          playground.close().finally(() => resolve());
+        };
+        process.once('SIGINT', shutdown);
+        process.once('SIGTERM', shutdown);
+      });
     } catch (error) {
       this.handleError(error, 'Playground failed');
     }
   }
+
+  private openBrowser(url: string): void {
+    const command = process.platform === 'darwin' ? 'open' : process.platform === 'win32' ? 'cmd' : 'xdg-open';
+    const args = process.platform === 'win32' ? ['/c', 'start', '', url] : [url];
+
+    try {
+      const child = spawn(command, args, { stdio: 'ignore', detached: true });
+      child.on('error', () => this.debug(`Could not open a browser, visit ${url}`));
+      child.unref();
+    } catch {
+      this.debug(`Could not open a browser, visit ${url}`);
+    }
+  }
 }
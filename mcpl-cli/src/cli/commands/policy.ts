@@ -0,0 +1,325 @@
+// Policy command - Tool-level allow/deny policies for bridged servers
+
+import chalk from 'chalk';
+import { spawnSync } from 'node:child_process';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { ToolPolicy } from '@mcplookup-org/mcp-sdk';
+import { ToolPolicyStore, evaluateToolPolicy, validateToolPolicy } from '@mcplookup-org/mcp-server';
+import { BaseCommand } from './base-command.js';
+
+export interface PolicyOptions {
+  pathPrefix?: string[];
+  baseDir?: string;
+  pattern?: string;
+  args?: string;
+  maxTokens?: string;
+  budget?: string;
+  force?: boolean;
+  verbose?: boolean;
+}
+
+type PolicyList = 'allow' | 'deny' | 'requireConfirmation';
+
+export class PolicyCommand extends BaseCommand {
+  private get store(): ToolPolicyStore {
+    return this.bridge.components.policyStore;
+  }
+
+  async execute(action: string = 'list', server?: string, values: string[] = [], options: PolicyOptions = {}): Promise<void> {
+    this.setVerbose(options.verbose || false);
+
+    try {
+      switch (action.toLowerCase()) {
+        case 'list':
+          await this.listPolicies();
+          break;
+        case 'show':
+          await this.showPolicy(server);
+          break;
+        case 'allow':
+          await this.addPatterns(server, 'allow', values);
+          break;
+        case 'deny':
+          await this.addPatterns(server, 'deny', values);
+          break;
+        case 'confirm':
+          await this.addPatterns(server, 'requireConfirmation', values);
+          break;
+        case 'constrain':
+          await this.addConstraint(server, values, options);
+          break;
+        case 'unset':
+          await this.unsetPatterns(server, values);
+          break;
+        case 'reset':
+          await this.resetPolicy(server, options);
+          break;
+        case 'edit':
+          await this.editPolicy(server);
+          break;
+        case 'check':
+          await this.checkTool(server, values, options);
+          break;
+        case 'sampling':
+          await this.setSampling(server, values, options);
+          break;
+        default:
+          this.error(`Unknown action: ${action}`);
+          this.info('Available actions: list, show, allow, deny, confirm, constrain, unset, reset, edit, check, sampling');
+      }
+    } catch (error) {
+      this.handleError(error, 'Policy operation failed');
+    }
+  }
+
+  private async listPolicies(): Promise<void> {
+    const servers = await this.store.list();
+    if (servers.length === 0) {
+      this.info('No tool policies configured. Every bridged tool is allowed.');
+      this.info('Use "mcpl policy deny <server> <tool>" to create one');
+      return;
+    }
+
+    const rows = [];
+    for (const server of servers) {
+      try {
+        const policy = await this.store.load(server);
+        rows.push({
+          Server: server,
+          Allow: String(policy?.allow?.length || 0),
+          Deny: String(policy?.deny?.length || 0),
+          Confirm: String(policy?.requireConfirmation?.length || 0),
+          Constraints: String(policy?.constraints?.length || 0),
+          Sampling: this.describeSampling(policy)
+        });
+      } catch (error) {
+        rows.push({ Server: server, Allow: '-', Deny: chalk.red('invalid'), Confirm: '-', Constraints: '-', Sampling: '-' });
+        this.debug(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    this.formatOutput(rows, 'table');
+  }
+
+  private async showPolicy(server: string | undefined): Promise<void> {
+    if (!this.requireServer(server)) return;
+
+    const policy = await this.store.load(server);
+    if (!policy) {
+      this.info(`No policy for ${server}. Every tool is allowed.`);
+      return;
+    }
+
+    this.info(`📜 Policy for ${server} (${this.store.getPath(server)}):`);
+    console.log(JSON.stringify(policy, null, 2));
+  }
+
+  private async addPatterns(server: string | undefined, list: PolicyList, patterns: string[]): Promise<void> {
+    if (!this.requireServer(server)) return;
+    if (patterns.length === 0) {
+      this.error('At least one tool name pattern is required (e.g. "write_*")');
+      return;
+    }
+
+    const policy = await this.loadOrCreate(server);
+    policy[list] = Array.from(new Set([...(policy[list] || []), ...patterns]));
+    await this.store.save(server, policy);
+
+    const verb = { allow: 'allows', deny: 'denies', requireConfirmation: 'requires confirmation for' }[list];
+    this.success(`Policy for ${server} now ${verb}: ${patterns.join(', ')}`);
+    this.info('Running bridges pick up the change on the next tool call');
+  }
+
+  private async addConstraint(server: string | undefined, values: string[], options: PolicyOptions): Promise<void> {
+    if (!this.requireServer(server)) return;
+
+    const [tool, argument] = values;
+    if (!tool || !argument) {
+      this.error('Usage: mcpl policy constrain <server> <tool> <argument> --path-prefix <paths...> [--base-dir <path>] | --pattern <regex>');
+      return;
+    }
+    if (!options.pathPrefix?.length && !options.pattern) {
+      this.error('Specify --path-prefix and/or --pattern');
+      return;
+    }
+    if (options.pattern) {
+      try {
+        new RegExp(options.pattern);
+      } catch {
+        this.error(`Invalid regular expression: ${options.pattern}`);
+        return;
+      }
+    }
+
+    const policy = await this.loadOrCreate(server);
+    policy.constraints = [
+      ...(policy.constraints || []).filter(constraint => constraint.tool !== tool || constraint.argument !== argument),
+      {
+        tool,
+        argument,
+        // Paths typed on the command line are relative to where it runs
+        ...(options.pathPrefix?.length && { pathPrefixes: options.pathPrefix.map(prefix => resolve(prefix)) }),
+        ...(options.baseDir && { baseDirectory: resolve(options.baseDir) }),
+        ...(options.pattern && { pattern: options.pattern })
+      }
+    ];
+    await this.store.save(server, policy);
+
+    this.success(`Constrained "${argument}" of ${tool} on ${server}`);
+  }
+
+  private async unsetPatterns(server: string | undefined, patterns: string[]): Promise<void> {
+    if (!this.requireServer(server)) return;
+    if (patterns.length === 0) {
+      this.error('At least one tool name pattern is required');
+      return;
+    }
+
+    const policy = await this.store.load(server);
+    if (!policy) {
+      this.info(`No policy for ${server}`);
+      return;
+    }
+
+    for (const list of ['allow', 'deny', 'requireConfirmation'] as PolicyList[]) {
+      if (policy[list]) {
+        policy[list] = policy[list]!.filter(pattern => !patterns.includes(pattern));
+      }
+    }
+    if (policy.constraints) {
+      policy.constraints = policy.constraints.filter(constraint => !patterns.includes(constraint.tool));
+    }
+
+    await this.store.save(server, policy);
+    this.success(`Removed ${patterns.join(', ')} from the policy for ${server}`);
+  }
+
+  private async resetPolicy(server: string | undefined, options: PolicyOptions): Promise<void> {
+    if (!this.requireServer(server)) return;
+
+    if (!options.force) {
+      const confirmed = await this.confirm(`Delete the tool policy for ${server}? Every tool will be allowed.`);
+      if (!confirmed) {
+        this.info('Reset cancelled');
+        return;
+      }
+    }
+
+    if (await this.store.remove(server)) {
+      this.success(`Removed the policy for ${server}`);
+    } else {
+      this.info(`No policy for ${server}`);
+    }
+  }
+
+  private async editPolicy(server: string | undefined): Promise<void> {
+    if (!this.requireServer(server)) return;
+
+    const path = this.store.getPath(server);
+    const existing = await this.store.load(server).catch(() => undefined);
+    if (existing === null) {
+      await this.store.save(server, { version: 1, allow: [], deny: [], requireConfirmation: [], constraints: [] });
+    }
+
+    const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+    const result = spawnSync(editor, [path], { stdio: 'inherit', shell: true });
+    if (result.status !== 0) {
+      this.error(`Editor exited with status ${result.status}`);
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readFile(path, 'utf-8'));
+    } catch (error) {
+      this.error(`Policy is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      this.warn('Bridges deny every tool of this server until the file is fixed');
+      return;
+    }
+
+    const errors = validateToolPolicy(parsed);
+    if (errors.length > 0) {
+      this.error('Policy is invalid:');
+      errors.forEach(error => console.log(chalk.red(`  • ${error}`)));
+      this.warn('Bridges deny every tool of this server until the file is fixed');
+      return;
+    }
+
+    this.success(`Saved the policy for ${server}`);
+  }
+
+  private async checkTool(server: string | undefined, values: string[], options: PolicyOptions): Promise<void> {
+    if (!this.requireServer(server)) return;
+
+    const [tool] = values;
+    if (!tool) {
+      this.error('Usage: mcpl policy check <server> <tool> [--args <json>]');
+      return;
+    }
+
+    const args = options.args ? this.parseJSON(options.args) : undefined;
+    const decision = evaluateToolPolicy(await this.store.load(server), tool, args);
+
+    if (!decision.allowed) {
+      this.error(`Blocked: ${decision.reason}`);
+    } else if (decision.requiresConfirmation) {
+      this.warn(`Allowed after user confirmation: ${tool}`);
+    } else {
+      this.success(`Allowed: ${tool}`);
+    }
+  }
+
+  private async setSampling(server: string | undefined, values: string[], options: PolicyOptions): Promise<void> {
+    if (!this.requireServer(server)) return;
+
+    const [mode] = values;
+    if (mode !== 'allow' && mode !== 'deny') {
+      this.error('Usage: mcpl policy sampling <server> allow|deny [--max-tokens <n>] [--budget <n>]');
+      return;
+    }
+
+    const limits: Record<string, number> = {};
+    for (const [field, value] of [['maxTokensPerRequest', options.maxTokens], ['maxTokensPerCall', options.budget]] as const) {
+      if (value === undefined) continue;
+      const tokens = parseInt(value, 10);
+      if (isNaN(tokens) || tokens < 1) {
+        this.error(`Invalid token count: ${value}`);
+        return;
+      }
+      limits[field] = tokens;
+    }
+
+    const policy = await this.loadOrCreate(server);
+    policy.sampling = { allow: mode === 'allow', ...(mode === 'allow' && limits) };
+    await this.store.save(server, policy);
+
+    this.success(`Sampling for ${server}: ${this.describeSampling(policy)}`);
+    this.info('Running bridges pick up the change on the next sampling request');
+  }
+
+  private describeSampling(policy: ToolPolicy | null): string {
+    const sampling = policy?.sampling;
+    if (!sampling?.allow) {
+      return 'denied';
+    }
+
+    const limits = [
+      sampling.maxTokensPerRequest && `${sampling.maxTokensPerRequest} tokens/request`,
+      sampling.maxTokensPerCall && `${sampling.maxTokensPerCall} tokens/call`
+    ].filter(Boolean);
+    return limits.length > 0 ? `allowed (${limits.join(', ')})` : 'allowed';
+  }
+
+  private async loadOrCreate(server: string): Promise<ToolPolicy> {
+    return (await this.store.load(server)) || { version: 1 };
+  }
+
+  private requireServer(server: string | undefined): server is string {
+    if (!server) {
+      this.error('Server name is required');
+      return false;
+    }
+    return true;
+  }
+}
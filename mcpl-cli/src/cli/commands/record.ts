@@ -0,0 +1,71 @@
+// Record command - Capture an MCP session with a bridge server into a cassette
+
+import chalk from 'chalk';
+import { resolve } from 'node:path';
+import { CassetteRecorder, HttpSessionHost, RecordingProxy, serveStdio } from '@mcplookup-org/mcp-server';
+import { BaseCommand } from './base-command.js';
+
+export interface RecordOptions {
+  output?: string;
+  port?: string;
+  host?: string;
+  redact?: boolean;
+  verbose?: boolean;
+}
+
+export class RecordCommand extends BaseCommand {
+  async execute(serverName: string, options: RecordOptions = {}): Promise<void> {
+    this.setVerbose(options.verbose || false);
+    if (!options.port) {
+      this.reserveStdout();
+    }
+
+    try {
+      const { serverRegistry } = this.bridge.components;
+      if (!serverRegistry.hasServer(serverName)) {
+        this.error(`Server not found: ${serverName}`);
+        this.info('Use "mcpl list" to see bridge-managed servers');
+        process.exitCode = 1;
+        return;
+      }
+
+      const output = resolve(options.output || `${serverName}.cassette.json`);
+      const recorder = new CassetteRecorder(serverName, { redact: options.redact === false ? false : undefined });
+      const createProxy = () => new RecordingProxy({
+        connect: () => serverRegistry.openTransport(serverName),
+        recorder
+      });
+
+      if (options.port) {
+        const host = new HttpSessionHost({
+          port: parseInt(options.port, 10),
+          host: options.host || 'localhost',
+          createServer: createProxy
+        });
+        await host.listen();
+
+        this.success(`Recording ${serverName} at ${host.getUrl()}`);
+        console.log(chalk.gray('Press Ctrl+C to stop and save the cassette'));
+        await this.waitForShutdown();
+        await host.close();
+      } else {
+        this.info(`Recording ${serverName} on stdio to ${output}`);
+        const proxy = createProxy();
+        await Promise.race([serveStdio(proxy), this.waitForShutdown()]);
+        await proxy.close();
+      }
+
+      await recorder.save(output);
+      this.success(`Saved ${recorder.size} messages to ${output}`);
+    } catch (error) {
+      this.handleError(error, 'Recording failed');
+    }
+  }
+
+  private waitForShutdown(): Promise<void> {
+    return new Promise((resolveStop) => {
+      process.once('SIGINT', () => resolveStop());
+      process.once('SIGTERM', () => resolveStop());
+    });
+  }
+}
@@ -0,0 +1,71 @@
+// Replay command - Serve a recorded MCP session as a fake server
+
+import chalk from 'chalk';
+import { resolve } from 'node:path';
+import { CassetteReplayServer, HttpSessionHost, ReplayServerOptions, serveStdio } from '@mcplookup-org/mcp-server';
+import { readCassette } from '@mcplookup-org/mcp-sdk';
+import { BaseCommand } from './base-command.js';
+
+export interface ReplayOptions {
+  port?: string;
+  host?: string;
+  matchArguments?: string;
+  ignore?: string[];
+  repeat: boolean;
+  verbose?: boolean;
+}
+
+export class ReplayCommand extends BaseCommand {
+  async execute(cassettePath: string, options: ReplayOptions): Promise<void> {
+    this.setVerbose(options.verbose || false);
+    if (!options.port) {
+      this.reserveStdout();
+    }
+
+    try {
+      const matchArguments = options.matchArguments || 'exact';
+      if (matchArguments !== 'exact' && matchArguments !== 'ignore') {
+        this.error(`Unknown argument matching: ${matchArguments}`);
+        this.info('Available modes: exact, ignore');
+        process.exitCode = 1;
+        return;
+      }
+
+      const cassette = await readCassette(resolve(cassettePath));
+      const replayOptions: ReplayServerOptions = {
+        arguments: matchArguments,
+        ignore: options.ignore,
+        repeat: options.repeat,
+        onMiss: (_request, reason) => this.warn(reason)
+      };
+
+      if (options.port) {
+        const host = new HttpSessionHost({
+          port: parseInt(options.port, 10),
+          host: options.host || 'localhost',
+          createServer: () => new CassetteReplayServer(cassette, replayOptions)
+        });
+        await host.listen();
+
+        this.success(`Replaying ${cassette.server} (${cassette.messages.length} messages) at ${host.getUrl()}`);
+        console.log(chalk.gray('Press Ctrl+C to stop'));
+        await new Promise<void>((resolveStop) => {
+          process.once('SIGINT', () => resolveStop());
+          process.once('SIGTERM', () => resolveStop());
+        });
+        await host.close();
+      } else {
+        this.debug(`Replaying ${cassette.server} (${cassette.messages.length} messages) on stdio`);
+        const server = new CassetteReplayServer(cassette, replayOptions);
+        await serveStdio(server);
+
+        const unplayed = server.player.unplayed().length;
+        if (unplayed > 0) {
+          this.debug(`${unplayed} recorded requests were not replayed`);
+        }
+      }
+    } catch (error) {
+      this.handleError(error, 'Replay failed');
+    }
+  }
+}
@@ -0,0 +1,85 @@
+// Sandbox command - Isolation profiles for Docker-run bridge servers
+
+import chalk from 'chalk';
+import { BaseCommand } from './base-command.js';
+
+export interface SandboxOptions {
+  json?: boolean;
+  verbose?: boolean;
+}
+
+export class SandboxCommand extends BaseCommand {
+  async execute(action: string = 'list', name?: string, options: SandboxOptions = {}): Promise<void> {
+    this.setVerbose(options.verbose || false);
+
+    try {
+      switch (action.toLowerCase()) {
+        case 'list':
+          await this.listProfiles(options);
+          break;
+        case 'show':
+          await this.showProfile(name, options);
+          break;
+        default:
+          this.error(`Unknown action: ${action}`);
+          this.info('Available actions: list, show');
+      }
+    } catch (error) {
+      this.handleError(error, 'Sandbox operation failed');
+    }
+  }
+
+  private async listProfiles(options: SandboxOptions): Promise<void> {
+    const store = this.bridge.components.sandboxProfiles;
+    const profiles = await store.list();
+
+    if (options.json) {
+      console.log(JSON.stringify(profiles, null, 2));
+      return;
+    }
+
+    const usage = this.getProfileUsage();
+    this.formatOutput(Object.entries(profiles).map(([name, profile]: [string, any]) => ({
+      Profile: name,
+      Network: profile.network,
+      Mounts: (profile.mounts || []).map((mount: any) => `${mount.target} (${mount.readOnly ? 'ro' : 'rw'})`).join(', ') || chalk.gray('-'),
+      Source: store.isBuiltin(name) ? 'built-in' : 'custom',
+      'Used by': usage.get(name)?.join(', ') || chalk.gray('-'),
+      Description: profile.description || ''
+    })), 'table');
+
+    this.info(`Custom profiles are read from ${store.getPath()}`);
+  }
+
+  private async showProfile(name: string | undefined, options: SandboxOptions): Promise<void> {
+    if (!name) {
+      this.error('Profile name is required for show operation');
+      return;
+    }
+
+    const profile = await this.bridge.components.sandboxProfiles.get(name);
+    if (options.json) {
+      console.log(JSON.stringify(profile, null, 2));
+      return;
+    }
+
+    this.formatOutput(profile, 'yaml');
+    const servers = this.getProfileUsage().get(name);
+    if (servers) {
+      this.info(`Used by ${servers.join(', ')}`);
+    }
+  }
+
+  /**
+   * Map each profile name to the bridge servers that run with it
+   */
+  private getProfileUsage(): Map<string, string[]> {
+    const usage = new Map<string, string[]>();
+    for (const server of this.bridge.components.serverRegistry.listServers()) {
+      if (server.sandbox) {
+        usage.set(server.sandbox.profile, [...(usage.get(server.sandbox.profile) || []), server.name]);
+      }
+    }
+    return usage;
+  }
+}
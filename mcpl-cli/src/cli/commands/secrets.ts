@@ -0,0 +1,134 @@
+// Secrets command - Encrypted local store for server environment variables
+
+import { createSecretRef, isValidSecretName, SecretVault } from '@mcplookup-org/mcp-sdk';
+import { BaseCommand } from './base-command.js';
+
+export interface SecretsOptions {
+  json?: boolean;
+  force?: boolean;
+  verbose?: boolean;
+}
+
+export class SecretsCommand extends BaseCommand {
+  async execute(action: string = 'list', name?: string, value?: string, options: SecretsOptions = {}): Promise<void> {
+    this.setVerbose(options.verbose || false);
+
+    try {
+      switch (action.toLowerCase()) {
+        case 'list':
+          await this.listSecrets(options);
+          break;
+        case 'set':
+          await this.setSecret(name, value);
+          break;
+        case 'get':
+          await this.getSecret(name);
+          break;
+        case 'rm':
+        case 'remove':
+          await this.removeSecret(name, options);
+          break;
+        default:
+          this.error(`Unknown action: ${action}`);
+          this.info('Available actions: list, set, get, rm');
+      }
+    } catch (error) {
+      this.handleError(error, 'Secrets operation failed');
+    }
+  }
+
+  private async listSecrets(options: SecretsOptions): Promise<void> {
+    // Names are stored in the clear, so listing needs no passphrase
+    const secrets = await new SecretVault().list();
+
+    if (options.json) {
+      console.log(JSON.stringify(secrets, null, 2));
+      return;
+    }
+
+    if (secrets.length === 0) {
+      this.info('No secrets stored');
+      this.info('Use "mcpl secrets set <name>" to add one');
+      return;
+    }
+
+    this.formatOutput(secrets.map(secret => ({
+      Name: secret.name,
+      Reference: createSecretRef(secret.name),
+      Updated: new Date(secret.updatedAt).toLocaleString()
+    })), 'table');
+  }
+
+  private async setSecret(name: string | undefined, value: string | undefined): Promise<void> {
+    if (!name) {
+      this.error('Name is required for set operation');
+      return;
+    }
+    if (!isValidSecretName(name)) {
+      this.error(`Invalid secret name "${name}": use letters, digits, ".", "-" and "_"`);
+      return;
+    }
+
+    const vault = await this.openSecretVault();
+    const secret = value ?? await this.readSecretValue(name);
+    if (!secret) {
+      this.error('Secret value cannot be empty');
+      return;
+    }
+
+    await vault.set(name, secret);
+    this.success(`Stored ${name}`);
+    this.info(`Reference it in server env as ${createSecretRef(name)}`);
+  }
+
+  private async getSecret(name: string | undefined): Promise<void> {
+    if (!name) {
+      this.error('Name is required for get operation');
+      return;
+    }
+
+    const vault = await this.openSecretVault();
+    const value = await vault.get(name);
+    if (value === undefined) {
+      throw new Error(`Secret ${name} not found`);
+    }
+
+    // Print the raw value so it can be used in scripts
+    console.log(value);
+  }
+
+  private async removeSecret(name: string | undefined, options: SecretsOptions): Promise<void> {
+    if (!name) {
+      this.error('Name is required for rm operation');
+      return;
+    }
+
+    const vault = new SecretVault();
+    if (!(await vault.has(name))) {
+      throw new Error(`Secret ${name} not found`);
+    }
+
+    if (!options.force && !(await this.confirm(`Remove secret ${name}? Servers referencing ${createSecretRef(name)} will fail to start.`))) {
+      this.info('Removal cancelled');
+      return;
+    }
+
+    await vault.remove(name);
+    this.success(`Removed ${name}`);
+  }
+
+  /**
+   * Read a value from a hidden prompt, or from stdin when it is piped
+   */
+  private async readSecretValue(name: string): Promise<string> {
+    if (process.stdin.isTTY) {
+      return this.promptSecret(`Value for ${name}:`);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf-8').replace(/\r?\n$/, '');
+  }
+}
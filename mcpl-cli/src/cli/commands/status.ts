@@ -162,10 +162,14 @@ export class StatusCommand extends BaseCommand {
         Status: this.getStatusIcon(server.status),
         Tools: server.tools?.length || 0,
         Health: server.health ? this.getHealthIcon(server.health.status) : '❓',
-        Type: server.type || 'unknown'
+        Type: server.type || 'unknown',
+        Policy: server.restartPolicy || 'on-failure',
+        Supervisor: this.getSupervisionIcon(server.supervision?.state),
+        Restarts: server.supervision?.restarts?.length || 0
       }));
 
       this.formatOutput(bridgeTable, 'table');
+      this.displaySupervision(status.servers.bridge);
     }
 
     // Direct mode servers
@@ -201,6 +205,44 @@ export class StatusCommand extends BaseCommand {
     }
   }
 
+  /**
+   * Explain servers the supervisor is restarting or has given up on
+   */
+  private displaySupervision(servers: any[]): void {
+    const troubled = servers.filter(server =>
+      ['backoff', 'crash-loop', 'exited'].includes(server.supervision?.state) && server.supervision.lastExit
+    );
+
+    for (const server of troubled) {
+      const { state, lastExit, nextRestartAt, restarts } = server.supervision;
+      console.log(`\n   ${server.name}: ${lastExit.reason} at ${new Date(lastExit.at).toLocaleString()}`);
+
+      if (state === 'backoff' && nextRestartAt) {
+        console.log(`      Next restart: ${new Date(nextRestartAt).toLocaleTimeString()}`);
+      } else if (state === 'crash-loop') {
+        console.log('      Crash loop: restarts suspended until the server is started again or the bridge restarts');
+      }
+
+      for (const restart of restarts.slice(-3)) {
+        const outcome = restart.succeeded ? 'succeeded' : `failed: ${restart.error}`;
+        console.log(`      ${new Date(restart.at).toLocaleTimeString()} restart ${outcome}`);
+      }
+    }
+  }
+
+  private getSupervisionIcon(state?: string): string {
+    switch (state) {
+      case 'backoff':
+        return '⏳ backoff';
+      case 'crash-loop':
+        return '🔥 crash-loop';
+      case 'exited':
+        return '⏹️ exited';
+      default:
+        return '✅ supervised';
+    }
+  }
+
   private getStatusIcon(status: string): string {
     switch (status) {
       case 'running':
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ClientConfigRegistry, type ClaudeConfigManager, type MCPLookupBridge } from '@mcplookup-org/mcp-server';
+import type { ResolvedCliConfig } from '../config/cli-config.js';
+import { SyncCommand } from './sync.js';
+
+describe('SyncCommand', () => {
+  let root: string;
+  let published: string[];
+  let registry: ClientConfigRegistry;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mcpl-sync-'));
+    published = ['1.0.0', '1.2.0', '2.0.0'];
+    vi.stubEnv('HOME', root);
+    vi.spyOn(process, 'cwd').mockReturnValue(root);
+    vi.stubGlobal('fetch', vi.fn(async () =>
+      new Response(JSON.stringify({ versions: Object.fromEntries(published.map(version => [version, {}])) }))));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+    const claudeConfigManager = { getConfigPath: async () => join(root, 'claude_desktop_config.json') };
+    registry = new ClientConfigRegistry(claudeConfigManager as unknown as ClaudeConfigManager);
+    await writeManifest({ github: { package: '@mcp/github', type: 'npm', version: '^1.0.0', args: ['--read-only'] } });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function writeManifest(servers: Record<string, object>): Promise<void> {
+    await writeFile(join(root, 'mcpl.json'), JSON.stringify({ version: 1, servers }));
+  }
+
+  const sync = (options = {}) => {
+    const bridge = {
+      components: { clientConfigRegistry: registry, serverRegistry: { hasServer: () => false } }
+    } as unknown as MCPLookupBridge;
+    const config = { values: { defaults: { mode: 'direct', client: 'cursor' }, api: {} } } as unknown as ResolvedCliConfig;
+    return new SyncCommand(bridge, config).execute(options);
+  };
+
+  const readLock = async () => JSON.parse(await readFile(join(root, 'mcpl.lock'), 'utf-8'));
+  const cursorServer = () => registry.get('cursor').getServer('github');
+
+  it('should write the newest matching version to the client and the lockfile', async () => {
+    await sync();
+
+    expect(await cursorServer()).toEqual({ command: 'npx', args: ['@mcp/github@1.2.0', '--read-only'] });
+    expect(await readLock()).toEqual({
+      lockfileVersion: 1,
+      servers: { github: { package: '@mcp/github', type: 'npm', range: '^1.0.0', version: '1.2.0', mode: 'direct', clients: ['cursor'] } }
+    });
+  });
+
+  it('should keep the locked version until asked to update', async () => {
+    await sync();
+    published.push('1.3.0');
+
+    await sync();
+    expect((await readLock()).servers.github.version).toBe('1.2.0');
+
+    await sync({ update: true });
+    expect((await readLock()).servers.github.version).toBe('1.3.0');
+    expect((await cursorServer())?.args).toContain('@mcp/github@1.3.0');
+  });
+
+  it('should refuse a manifest that changed since the lockfile with --frozen', async () => {
+    await sync();
+    await writeManifest({ github: { package: '@mcp/github', type: 'npm', version: '^2.0.0' } });
+
+    await sync({ frozen: true });
+
+    expect(process.exit).toHaveBeenCalledWith(1);
+    expect(console.log).toHaveBeenCalledWith(expect.anything(), expect.stringContaining('github changed in mcpl.json since mcpl.lock was written'));
+    expect((await readLock()).servers.github.range).toBe('^1.0.0');
+  });
+
+  it('should remove servers dropped from the manifest', async () => {
+    await sync();
+    await writeManifest({});
+
+    await sync({ dryRun: true });
+    expect(await cursorServer()).not.toBeNull();
+
+    await sync();
+    expect(await cursorServer()).toBeNull();
+    expect(await readLock()).toEqual({ lockfileVersion: 1, servers: {} });
+  });
+
+  it('should fail before changing anything when required env vars are missing', async () => {
+    await writeManifest({ github: { package: '@mcp/github', type: 'npm', env: ['GITHUB_TOKEN'] } });
+    vi.stubEnv('GITHUB_TOKEN', '');
+
+    await sync();
+
+    expect(process.exit).toHaveBeenCalledWith(1);
+    expect(await cursorServer()).toBeNull();
+  });
+});
@@ -0,0 +1,428 @@
+// Sync command - Reconcile client configs and the bridge with the project manifest (mcpl.json)
+
+import { dirname, join } from 'node:path';
+import chalk from 'chalk';
+import {
+  InstallationResolver,
+  LockedServer,
+  ManifestServer,
+  ProjectLock,
+  ProjectManifest,
+  ResolvedPackage,
+  LOCK_FILE,
+  MANIFEST_FILE,
+  fetchImageDigest,
+  findPinnedVersion,
+  findProjectManifest,
+  isValidManifestVersion,
+  parsePackageSpec,
+  pinPackageVersion,
+  readProjectLock,
+  readProjectManifest,
+  resolveVersionRange,
+  serializeProjectLock,
+  wrapWithSecretLauncher,
+  writeProjectLock
+} from '@mcplookup-org/mcp-sdk';
+import { ClientServerConfig } from '@mcplookup-org/mcp-server';
+import { BaseCommand } from './base-command.js';
+
+export interface SyncOptions {
+  dryRun?: boolean;
+  frozen?: boolean;
+  update?: boolean;
+  verbose?: boolean;
+}
+
+/**
+ * One change needed to bring a target (a client config or the bridge) in line with the lock
+ */
+interface SyncAction {
+  server: string;
+  target: string; // client id, or 'bridge'
+  action: 'install' | 'update' | 'remove' | 'unchanged';
+  version?: string;
+  apply?: () => Promise<void>;
+}
+
+const BRIDGE_TARGET = 'bridge';
+
+export class SyncCommand extends BaseCommand {
+  private resolver?: InstallationResolver;
+
+  async execute(options: SyncOptions = {}): Promise<void> {
+    this.setVerbose(options.verbose || false);
+
+    try {
+      if (options.frozen && options.update) {
+        throw new Error('--frozen and --update cannot be combined');
+      }
+
+      const manifestPath = await findProjectManifest();
+      if (!manifestPath) {
+        this.error(`No ${MANIFEST_FILE} found in this directory or its parents`);
+        this.info(`Create one listing the servers this project needs, e.g.:
+  {
+    "version": 1,
+    "servers": {
+      "filesystem": { "package": "@modelcontextprotocol/server-filesystem", "version": "^0.6.0", "args": ["."] }
+    }
+  }`);
+        return;
+      }
+
+      const manifest = await readProjectManifest(manifestPath);
+      const lockPath = join(dirname(manifestPath), LOCK_FILE);
+      const previousLock = await readProjectLock(lockPath);
+      if (options.frozen && !previousLock) {
+        throw new Error(`${LOCK_FILE} not found; run mcpl sync without --frozen first`);
+      }
+
+      this.info(`📄 Syncing ${Object.keys(manifest.servers).length} servers from ${manifestPath}`);
+
+      const env = this.collectEnv(manifest);
+      const lock = await this.withSpinner('Resolving versions...', () => this.resolveLock(manifest, previousLock, options));
+      if (options.frozen && serializeProjectLock(lock) !== serializeProjectLock(previousLock!)) {
+        throw new Error(`${LOCK_FILE} is out of date with ${MANIFEST_FILE}; run mcpl sync to update it`);
+      }
+
+      const actions = await this.planActions(manifest, lock, previousLock, env);
+      this.displayPlan(actions);
+
+      const changes = actions.filter(action => action.apply);
+      if (options.dryRun) {
+        this.info('Dry run: no changes made');
+        return;
+      }
+
+      const failures: string[] = [];
+      for (const action of changes) {
+        try {
+          this.debug(`${action.action} ${action.server} (${action.target})`);
+          await action.apply!();
+        } catch (error) {
+          failures.push(`${action.server} (${action.target}): ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (failures.length > 0) {
+        failures.forEach(failure => this.error(failure));
+        throw new Error(`${failures.length} of ${changes.length} changes failed; ${LOCK_FILE} was not updated`);
+      }
+
+      if (!options.frozen) {
+        await writeProjectLock(lockPath, lock);
+      }
+
+      this.success(changes.length > 0 ? `Applied ${changes.length} changes` : 'Everything is already in sync');
+      if (!options.frozen) {
+        this.info(`🔒 Wrote ${lockPath}`);
+      }
+      if (changes.some(action => action.target !== BRIDGE_TARGET)) {
+        this.info('Restart the affected clients to pick up config changes');
+      }
+    } catch (error) {
+      this.handleError(error, 'Sync failed');
+    }
+  }
+
+  /**
+   * Read the env vars each server requires, failing on any that are missing
+   */
+  private collectEnv(manifest: ProjectManifest): Record<string, Record<string, string>> {
+    const env: Record<string, Record<string, string>> = {};
+    const missing: string[] = [];
+
+    for (const [name, entry] of Object.entries(manifest.servers)) {
+      env[name] = {};
+      for (const key of entry.env || []) {
+        const value = process.env[key];
+        if (value) {
+          env[name][key] = value;
+        } else {
+          missing.push(`${key} (${name})`);
+        }
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+    }
+    return env;
+  }
+
+  private async resolveLock(manifest: ProjectManifest, previousLock: ProjectLock | null, options: SyncOptions): Promise<ProjectLock> {
+    const servers: Record<string, LockedServer> = {};
+    for (const [name, entry] of Object.entries(manifest.servers)) {
+      servers[name] = await this.resolveServer(name, entry, previousLock?.servers[name], options);
+    }
+    return { lockfileVersion: 1, servers };
+  }
+
+  /**
+   * Pin a manifest entry to an exact version, reusing the locked one while its range is unchanged
+   */
+  private async resolveServer(
+    name: string,
+    entry: ManifestServer,
+    locked: LockedServer | undefined,
+    options: SyncOptions
+  ): Promise<LockedServer> {
+    const resolved = entry.type
+      ? { packageName: entry.package, type: entry.type }
+      : await this.getResolver().resolvePackage(entry.package);
+
+    if (resolved.type === 'git') {
+      throw new Error(`${name}: git packages cannot be synced; publish the server or use a Docker image`);
+    }
+
+    const type = resolved.type;
+    // Docker tags come from the version field
+    const packageName = type === 'docker' ? parsePackageSpec(resolved.packageName, 'docker').packageName : resolved.packageName;
+    const range = entry.version || 'latest';
+    if (!isValidManifestVersion(range, type)) {
+      throw new Error(`${name}: invalid version range "${range}"`);
+    }
+
+    const mode = entry.mode || this.config.values.defaults.mode;
+    const registry = this.bridge.components.clientConfigRegistry;
+    const clients = mode === 'direct'
+      ? [...new Set((entry.clients || [this.config.values.defaults.client]).map(client => registry.get(client).id))]
+      : undefined;
+
+    const reuse = !!locked && locked.package === packageName && locked.range === range && !options.update;
+    if (options.frozen && !reuse) {
+      throw new Error(`${name} changed in ${MANIFEST_FILE} since ${LOCK_FILE} was written; run mcpl sync to update it`);
+    }
+
+    const version = reuse ? locked!.version : await resolveVersionRange({ type, packageName }, range);
+    if (!version) {
+      throw new Error(`${name}: no published ${type} version of ${packageName} matches "${range}"`);
+    }
+
+    // Bridge-mode npm and Python servers run in images built from the configured base images
+    const { docker } = this.config.values;
+    const image = type === 'docker'
+      ? `${packageName}:${version}`
+      : mode === 'bridge' ? (type === 'npm' ? docker.image : docker.pythonImage) : undefined;
+    const imageDigest = image
+      ? (reuse && locked!.image === image && locked!.imageDigest) || await fetchImageDigest(image)
+      : undefined;
+
+    return {
+      package: packageName,
+      type,
+      range,
+      version,
+      mode,
+      ...(clients && { clients }),
+      ...(image && { image }),
+      ...(imageDigest && { imageDigest })
+    };
+  }
+
+  private async planActions(
+    manifest: ProjectManifest,
+    lock: ProjectLock,
+    previousLock: ProjectLock | null,
+    env: Record<string, Record<string, string>>
+  ): Promise<SyncAction[]> {
+    const actions: SyncAction[] = [];
+
+    for (const [name, locked] of Object.entries(lock.servers)) {
+      if (locked.mode === 'direct') {
+        for (const client of locked.clients || []) {
+          actions.push(await this.planDirect(name, locked, manifest.servers[name], env[name], client));
+        }
+      } else {
+        actions.push(await this.planBridge(name, locked, env[name]));
+      }
+    }
+
+    // Remove what an earlier sync installed but the manifest no longer asks for
+    for (const [name, previous] of Object.entries(previousLock?.servers || {})) {
+      const current = lock.servers[name];
+      const wanted = current ? this.getTargets(current) : [];
+
+      for (const target of this.getTargets(previous).filter(target => !wanted.includes(target))) {
+        const action = await this.planRemoval(name, target);
+        if (action) {
+          actions.push(action);
+        }
+      }
+    }
+
+    return actions;
+  }
+
+  private async planDirect(
+    name: string,
+    locked: LockedServer,
+    entry: ManifestServer,
+    env: Record<string, string>,
+    client: string
+  ): Promise<SyncAction> {
+    const adapter = this.bridge.components.clientConfigRegistry.get(client);
+    const desired = this.buildDirectConfig(locked, entry, env);
+    const existing = await adapter.getServer(name);
+    const base = { server: name, target: adapter.id, version: locked.version };
+
+    if (!existing) {
+      return { ...base, action: 'install', apply: () => adapter.addServer(name, desired) };
+    }
+    if (this.isSameConfig(existing, desired)) {
+      return { ...base, action: 'unchanged' };
+    }
+    return { ...base, action: 'update', apply: async () => { await adapter.updateServer(name, desired); } };
+  }
+
+  private async planBridge(name: string, locked: LockedServer, env: Record<string, string>): Promise<SyncAction> {
+    const existing = this.bridge.components.serverRegistry.getServer(name);
+    const base = { server: name, target: BRIDGE_TARGET, version: locked.version };
+
+    if (!existing) {
+      return { ...base, action: 'install', apply: () => this.installBridgeServer(name, locked, env) };
+    }
+
+    const ref = { type: locked.type, packageName: locked.package };
+    const installedPackage = existing.source && parsePackageSpec(existing.source.packageName, locked.type).packageName;
+    const installedVersion = findPinnedVersion(existing.command, ref) || existing.source?.version;
+    const sameEnv = Object.entries(env).every(([key, value]) => existing.env?.[key] === value);
+
+    if (installedPackage === locked.package && installedVersion === locked.version && sameEnv) {
+      return { ...base, action: 'unchanged' };
+    }
+    return {
+      ...base,
+      action: 'update',
+      apply: async () => {
+        await this.removeBridgeServer(name);
+        await this.installBridgeServer(name, locked, env);
+      }
+    };
+  }
+
+  private async planRemoval(name: string, target: string): Promise<SyncAction | null> {
+    if (target === BRIDGE_TARGET) {
+      if (!this.bridge.components.serverRegistry.hasServer(name)) {
+        return null;
+      }
+      return { server: name, target, action: 'remove', apply: () => this.removeBridgeServer(name) };
+    }
+
+    const adapter = this.bridge.components.clientConfigRegistry.get(target);
+    if (!(await adapter.hasServer(name))) {
+      return null;
+    }
+    return { server: name, target: adapter.id, action: 'remove', apply: async () => { await adapter.removeServer(name); } };
+  }
+
+  /**
+   * Build the client config entry for a locked server, pinned to its exact version
+   */
+  private buildDirectConfig(locked: LockedServer, entry: ManifestServer, env: Record<string, string>): ClientServerConfig {
+    const resolvedPackage: ResolvedPackage = {
+      packageName: locked.package,
+      displayName: locked.package,
+      type: locked.type,
+      source: 'direct'
+    };
+
+    const generated = Object.values(this.getResolver().generateClaudeConfig(resolvedPackage, {
+      mode: 'direct',
+      platform: process.platform as 'linux' | 'darwin' | 'win32',
+      client: 'mcpl-sync'
+    }).mcpServers)[0] as { command: string; args: string[] };
+
+    const parts = pinPackageVersion(
+      [generated.command, ...generated.args],
+      { type: locked.type, packageName: locked.package },
+      locked.version
+    );
+
+    return wrapWithSecretLauncher({
+      command: parts[0],
+      args: [...parts.slice(1), ...(entry.args || [])],
+      ...(Object.keys(env).length > 0 && { env })
+    });
+  }
+
+  private async installBridgeServer(name: string, locked: LockedServer, env: Record<string, string>): Promise<void> {
+    const result = await this.bridge.api.installServer({
+      package_query: locked.type === 'docker' ? `${locked.package}:${locked.version}` : locked.package,
+      name,
+      mode: 'bridge',
+      auto_start: false,
+      global_install: false,
+      env,
+      ...(locked.type !== 'docker' && { version: locked.version })
+    });
+    if (result.isError) {
+      throw new Error(result.content[0].text);
+    }
+
+    // Pin the freshly installed command to the locked version
+    const { serverRegistry } = this.bridge.components;
+    const server = serverRegistry.getServer(name)!;
+    await serverRegistry.updateServer(name, {
+      command: pinPackageVersion(server.command, { type: locked.type, packageName: locked.package }, locked.version),
+      ...(server.source && { source: { ...server.source, version: locked.version } })
+    });
+  }
+
+  private async removeBridgeServer(name: string): Promise<void> {
+    const result = await this.bridge.components.serverManagementTools.controlServer({ name, action: 'remove' });
+    if (result.isError) {
+      throw new Error(result.content[0].text);
+    }
+  }
+
+  private getTargets(locked: LockedServer): string[] {
+    return locked.mode === 'direct' ? locked.clients || [] : [BRIDGE_TARGET];
+  }
+
+  private isSameConfig(existing: ClientServerConfig, desired: ClientServerConfig): boolean {
+    const sortedEnv = (env?: Record<string, string>) => JSON.stringify(Object.entries(env || {}).sort());
+
+    return existing.command === desired.command
+      && JSON.stringify(existing.args) === JSON.stringify(desired.args)
+      && sortedEnv(existing.env) === sortedEnv(desired.env)
+      && !existing.url;
+  }
+
+  private displayPlan(actions: SyncAction[]): void {
+    if (actions.length === 0) {
+      this.info('The manifest lists no servers');
+      return;
+    }
+
+    console.log('');
+    this.formatOutput(actions.map(action => ({
+      Server: action.server,
+      Target: action.target,
+      Action: this.getActionDisplay(action.action),
+      Version: action.version || '-'
+    })), 'table');
+    console.log('');
+  }
+
+  private getActionDisplay(action: SyncAction['action']): string {
+    switch (action) {
+      case 'install':
+        return chalk.green('➕ install');
+      case 'update':
+        return chalk.yellow('🔄 update');
+      case 'remove':
+        return chalk.red('🗑️ remove');
+      default:
+        return chalk.gray('✓ unchanged');
+    }
+  }
+
+  private getResolver(): InstallationResolver {
+    if (!this.resolver) {
+      this.resolver = new InstallationResolver(this.config.values.api.baseUrl, this.config.values.api.key);
+    }
+    return this.resolver;
+  }
+}
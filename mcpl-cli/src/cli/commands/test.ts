@@ -0,0 +1,180 @@
+// Test command - Conformance checks against a server's .mcplookup.yaml
+
+import chalk from 'chalk';
+import { readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, extname, join, resolve } from 'node:path';
+import {
+  MCPLOOKUP_YAML_FILES,
+  MCPLookupConfig,
+  fileExists,
+  findSecretRefs,
+  parseMCPLookupYAML
+} from '@mcplookup-org/mcp-sdk';
+import { ConformanceCheck, ConformanceRunner, ConformanceTarget, formatJUnitReport } from '@mcplookup-org/mcp-server';
+import { BaseCommand } from './base-command.js';
+
+export interface TestOptions {
+  config?: string;
+  url?: string;
+  report?: string;
+  format?: 'junit' | 'json';
+  timeout?: string;
+  json?: boolean;
+  verbose?: boolean;
+}
+
+const STATUS_ICONS: Record<ConformanceCheck['status'], string> = {
+  passed: chalk.green('✓'),
+  failed: chalk.red('✗'),
+  skipped: chalk.gray('-')
+};
+
+export class TestCommand extends BaseCommand {
+  async execute(target: string = '.', options: TestOptions = {}): Promise<void> {
+    this.setVerbose(options.verbose || false);
+
+    try {
+      const timeoutMs = options.timeout ? Number(options.timeout) * 1000 : undefined;
+      if (timeoutMs !== undefined && (!Number.isFinite(timeoutMs) || timeoutMs <= 0)) {
+        throw new Error(`Invalid timeout: ${options.timeout}`);
+      }
+
+      const { conformanceTarget, config, cwd } = await this.resolveTarget(target, options);
+      if (!options.json) {
+        this.info(`Testing ${conformanceTarget.name} (${conformanceTarget.transport})`);
+      }
+
+      let suite: string | undefined;
+      const runner = new ConformanceRunner({
+        target: conformanceTarget,
+        config,
+        cwd,
+        timeoutMs,
+        onCheck: check => {
+          if (options.json) {
+            return;
+          }
+          if (check.suite !== suite) {
+            suite = check.suite;
+            console.log(`\n${chalk.bold(suite)}`);
+          }
+          console.log(`  ${STATUS_ICONS[check.status]} ${check.name}${check.message ? chalk.gray(` — ${check.message.split('\n')[0]}`) : ''}`);
+          if (check.status === 'failed' && check.message?.includes('\n')) {
+            console.log(chalk.gray(check.message.split('\n').slice(1).map(line => `      ${line}`).join('\n')));
+          }
+        }
+      });
+
+      const report = await runner.run();
+
+      if (options.report) {
+        const format = options.format || (extname(options.report) === '.json' ? 'json' : 'junit');
+        await writeFile(options.report, format === 'json' ? `${JSON.stringify(report, null, 2)}\n` : formatJUnitReport(report));
+        if (!options.json) {
+          this.info(`Wrote ${format === 'json' ? 'JSON' : 'JUnit'} report to ${options.report}`);
+        }
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        const { passed, failed, skipped } = report.counts;
+        const summary = `${passed} passed, ${failed} failed, ${skipped} skipped (${(report.durationMs / 1000).toFixed(1)}s)`;
+        console.log();
+        if (report.passed) {
+          this.success(summary);
+        } else {
+          this.error(summary);
+        }
+      }
+
+      if (!report.passed) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      this.handleError(error, 'Test run failed');
+    }
+  }
+
+  /**
+   * A path (directory or YAML file) starts the server from its configuration
+   * section; anything else names an installed bridge server
+   */
+  private async resolveTarget(target: string, options: TestOptions): Promise<{
+    conformanceTarget: ConformanceTarget;
+    config?: MCPLookupConfig;
+    cwd?: string;
+  }> {
+    const path = resolve(target);
+    if (await fileExists(path)) {
+      const file = (await stat(path)).isDirectory() ? await this.findConfigFile(path) : path;
+      const config = await this.loadConfig(file);
+      const cwd = dirname(file);
+      return { conformanceTarget: this.createProjectTarget(config, cwd, options), config, cwd };
+    }
+
+    const server = this.bridge.components.serverRegistry.getServer(target);
+    if (!server) {
+      throw new Error(`${target} is neither a path nor an installed bridge server`);
+    }
+
+    const config = options.config ? await this.loadConfig(resolve(options.config)) : undefined;
+    const { serverRegistry } = this.bridge.components;
+    // Test commands see the environment the server runs with
+    const env = findSecretRefs({ env: server.env }).length > 0
+      ? (await (await this.openSecretVault()).resolve({ env: server.env })).env
+      : server.env;
+
+    // Launch it the way the bridge does: secrets resolved, sandbox applied,
+    // OAuth for remote servers
+    const conformanceTarget: ConformanceTarget = {
+      name: server.name,
+      transport: server.transport === 'http' || server.transport === 'sse' ? server.transport : 'stdio',
+      env,
+      connect: client => serverRegistry.connectClient(server.name, client)
+    };
+
+    return { conformanceTarget, config };
+  }
+
+  private createProjectTarget(config: MCPLookupConfig, cwd: string, options: TestOptions): ConformanceTarget {
+    const { configuration } = config;
+    const transport = configuration?.transport || 'stdio';
+    const name = config.mcp.name;
+
+    if (transport === 'websocket') {
+      throw new Error('The websocket transport is not supported; use stdio, http or sse');
+    }
+    if (transport !== 'stdio') {
+      if (!options.url) {
+        throw new Error(`Start the ${transport} server yourself and pass its MCP endpoint with --url`);
+      }
+      return { name, transport, url: options.url };
+    }
+
+    const command = configuration?.command || configuration?.claude_desktop?.command;
+    if (!command) {
+      throw new Error('configuration.command is required to start the server');
+    }
+    const args = configuration?.command ? configuration.args : configuration?.claude_desktop?.args;
+
+    return { name, transport, command, args: args || [], cwd };
+  }
+
+  private async findConfigFile(directory: string): Promise<string> {
+    for (const name of MCPLOOKUP_YAML_FILES) {
+      if (await fileExists(join(directory, name))) {
+        return join(directory, name);
+      }
+    }
+    throw new Error(`No ${MCPLOOKUP_YAML_FILES[0]} found in ${directory}`);
+  }
+
+  private async loadConfig(file: string): Promise<MCPLookupConfig> {
+    const result = parseMCPLookupYAML(await readFile(file, 'utf-8'));
+    if (!result.config) {
+      throw new Error(`${file} is not valid:\n  ${result.errors.join('\n  ')}\nRun "mcpl validate" for details`);
+    }
+    return result.config;
+  }
+}
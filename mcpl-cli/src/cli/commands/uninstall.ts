@@ -13,12 +13,16 @@ export interface UninstallOptions {
 export class UninstallCommand extends BaseCommand {
   async execute(packageName: string, options: UninstallOptions): Promise<void> {
     this.setVerbose(options.verbose || false);
+    options = { ...options, client: options.client || this.config.values.defaults.client };
 
     try {
       this.info(`Uninstalling MCP server: ${packageName}`);
 
+      // Fail early on clients we have no config adapter for
+      this.bridge.components.clientConfigRegistry.get(options.client);
+
       // Find the server
-      const servers = await this.findServers(packageName, options.mode);
+      const servers = await this.findServers(packageName, options.mode, options.client);
       
       if (servers.length === 0) {
         this.error(`Server not found: ${packageName}`);
@@ -48,7 +52,7 @@ export class UninstallCommand extends BaseCommand {
     }
   }
 
-  private async findServers(packageName: string, mode: string): Promise<any[]> {
+  private async findServers(packageName: string, mode: string, client: string): Promise<any[]> {
     const servers: any[] = [];
 
     // Search bridge mode servers
@@ -74,7 +78,10 @@ export class UninstallCommand extends BaseCommand {
     // Search direct mode servers
     if (mode === 'direct' || mode === 'auto') {
       try {
-        const directResult = await this.bridge.components.serverManagementTools['listClaudeServers']();
+        const directResult = await this.bridge.components.serverManagementTools.listClientServers(client);
+        if (directResult.isError) {
+          throw new Error(directResult.content[0].text);
+        }
         const directServers = JSON.parse(directResult.content[0].text);
         
         const found = directServers.filter((server: any) => 
@@ -98,7 +105,7 @@ export class UninstallCommand extends BaseCommand {
     console.log('\n📋 Servers to be removed:');
     
     servers.forEach((server, index) => {
-      console.log(`${index + 1}. ${server.name} (${server.mode} mode)`);
+      console.log(`${index + 1}. ${server.name} (${server.mode} mode${server.mode === 'direct' ? `, ${server.client}` : ''})`);
       if (server.status) {
         console.log(`   Status: ${server.status}`);
       }
@@ -145,15 +152,17 @@ export class UninstallCommand extends BaseCommand {
   }
 
   private async removeDirectServer(server: any, options: UninstallOptions): Promise<void> {
-    await this.withSpinner(`Removing from Claude Desktop config...`, async () => {
-      const result = await this.bridge.components.serverManagementTools['removeClaudeServer'](server.name);
+    const client = this.bridge.components.clientConfigRegistry.get(server.client || options.client);
+
+    await this.withSpinner(`Removing from ${client.displayName} config...`, async () => {
+      const result = await this.bridge.components.serverManagementTools.removeClientServer(server.name, client.id);
 
       if (result.isError) {
         throw new Error(result.content[0].text);
       }
     });
 
-    this.warn('Please restart Claude Desktop for changes to take effect');
+    this.warn(`Please restart ${client.displayName} for changes to take effect`);
   }
 
   private async performCleanup(server: any): Promise<void> {
@@ -184,7 +193,8 @@ export class UninstallCommand extends BaseCommand {
     console.log('\n📋 Post-uninstall information:');
     
     if (options.mode === 'direct' || options.mode === 'auto') {
-      this.warn('If you removed direct mode servers, restart Claude Desktop');
+      const client = this.bridge.components.clientConfigRegistry.get(options.client);
+      this.warn(`If you removed direct mode servers, restart ${client.displayName}`);
     }
 
     console.log('\n💡 Useful commands:');
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { MCPLookupBridge } from '@mcplookup-org/mcp-server';
+import type { ResolvedCliConfig } from '../config/cli-config.js';
+import { UpdateCommand } from './update.js';
+
+interface FakeServer {
+  name: string;
+  command: string[];
+}
+
+/**
+ * Bridge stand-in holding bridge and direct mode servers as launch commands
+ */
+function createBridge(bridgeServers: FakeServer[], directServers: Array<{ name: string; command: string; args: string[] }> = []) {
+  const serverRegistry = {
+    listServers: () => bridgeServers.map(server => ({ ...server, type: 'local' })),
+    getServer: (name: string) => bridgeServers.find(server => server.name === name),
+    updateServer: vi.fn(async (name: string, update: { command: string[] }) => {
+      bridgeServers.find(server => server.name === name)!.command = update.command;
+    })
+  };
+  const claudeConfigManager = {
+    listServers: async () => directServers.map(server => ({ ...server, env: {} })),
+    updateServer: vi.fn(async (name: string, command: string, args: string[]) => {
+      Object.assign(directServers.find(server => server.name === name)!, { command, args });
+      return true;
+    })
+  };
+
+  return {
+    components: { serverRegistry, claudeConfigManager },
+    client: { searchServers: async () => ({ servers: [] }) }
+  } as unknown as MCPLookupBridge;
+}
+
+describe('UpdateCommand', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mcpl-update-'));
+    vi.stubEnv('HOME', root);
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ version: '2.0.0' }))));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    process.exitCode = undefined;
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const update = (bridge: MCPLookupBridge, server?: string, options = {}) =>
+    new UpdateCommand(bridge, {} as ResolvedCliConfig).execute(server, options);
+
+  it('should update outdated servers and leave unpinned ones alone', async () => {
+    const servers = [
+      { name: 'github', command: ['npx', '-y', '@mcp/github@1.0.0'] },
+      { name: 'notes', command: ['npx', '-y', '@mcp/notes'] }
+    ];
+
+    await update(createBridge(servers));
+
+    expect(servers[0].command).toEqual(['npx', '-y', '@mcp/github@2.0.0']);
+    expect(servers[1].command).toEqual(['npx', '-y', '@mcp/notes']);
+    expect(console.log).toHaveBeenCalledWith(expect.anything(), expect.stringContaining('Left unpinned: notes'));
+  });
+
+  it('should pin unpinned servers with --force', async () => {
+    const servers = [{ name: 'notes', command: ['npx', '-y', '@mcp/notes'] }];
+
+    await update(createBridge(servers), 'notes', { force: true });
+
+    expect(servers[0].command).toEqual(['npx', '-y', '@mcp/notes@2.0.0']);
+  });
+
+  it('should roll back the installation of the chosen mode', async () => {
+    const bridgeServers = [{ name: 'github', command: ['npx', '-y', '@mcp/github@1.0.0'] }];
+    const directServers = [{ name: 'github', command: 'npx', args: ['-y', '@mcp/github@1.5.0'] }];
+    const bridge = createBridge(bridgeServers, directServers);
+    await update(bridge, 'github');
+    expect(directServers[0].args).toEqual(['-y', '@mcp/github@2.0.0']);
+
+    await update(bridge, undefined, { rollback: 'github' });
+    expect(console.log).toHaveBeenCalledWith(expect.anything(), expect.stringContaining('choose one with --mode'));
+
+    await update(bridge, undefined, { rollback: 'github', mode: 'direct' });
+    expect(directServers[0].args).toEqual(['-y', '@mcp/github@1.5.0']);
+    expect(bridgeServers[0].command).toEqual(['npx', '-y', '@mcp/github@2.0.0']);
+
+    // Only the bridge installation has history left
+    await update(bridge, undefined, { rollback: 'github' });
+    expect(bridgeServers[0].command).toEqual(['npx', '-y', '@mcp/github@1.0.0']);
+  });
+
+  it('should roll back from a history file that lists entries by name only', async () => {
+    const servers = [{ name: 'github', command: ['npx', '-y', '@mcp/github@2.0.0'] }];
+    await mkdir(join(root, '.mcpl'));
+    await writeFile(join(root, '.mcpl', 'update-history.json'), JSON.stringify({
+      github: [{
+        mode: 'bridge',
+        fromVersion: '1.0.0',
+        toVersion: '2.0.0',
+        previous: { command: 'npx', args: ['-y', '@mcp/github@1.0.0'] },
+        updatedAt: '2026-01-01T00:00:00.000Z'
+      }]
+    }));
+
+    await update(createBridge(servers), undefined, { rollback: 'github' });
+
+    expect(servers[0].command).toEqual(['npx', '-y', '@mcp/github@1.0.0']);
+    const history = JSON.parse(await readFile(join(root, '.mcpl', 'update-history.json'), 'utf-8'));
+    expect(history).toEqual({ github: { bridge: [] } });
+  });
+});
@@ -1,19 +1,85 @@
-// Update command - Server and CLI updates
+// Update command - Server updates with version pinning and rollback
 
+import chalk from 'chalk';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import {
+  PackageReference,
+  detectPackageReference,
+  findPinnedVersion,
+  pinPackageVersion,
+  compareVersions,
+  fetchLatestVersion,
+  fetchChangelogSummary,
+  readJsonFile,
+  writeJsonFile
+} from '@mcplookup-org/mcp-sdk';
 import { BaseCommand } from './base-command.js';
 
 export interface UpdateOptions {
   check?: boolean;
   force?: boolean;
+  rollback?: string;
+  mode?: 'bridge' | 'direct';
   verbose?: boolean;
 }
 
+/**
+ * An installed server with the package it runs
+ */
+interface InstalledServer {
+  name: string;
+  mode: 'bridge' | 'direct';
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  ref: PackageReference;
+  running?: boolean; // a running bridge is meant to be running it
+}
+
+interface UpdateCandidate {
+  server: InstalledServer;
+  current?: string;
+  latest: string | null;
+  state: 'up-to-date' | 'outdated' | 'unpinned' | 'unknown';
+}
+
+/**
+ * Launch definition before/after an update, kept for rollbacks
+ */
+interface UpdateHistoryEntry {
+  mode: 'bridge' | 'direct';
+  fromVersion?: string;
+  toVersion: string;
+  previous: {
+    command: string;
+    args: string[];
+  };
+  updatedAt: string;
+}
+
+/**
+ * Entries per server name and mode; the same name can be installed in both
+ * modes with different packages
+ */
+type ServerHistory = Partial<Record<UpdateHistoryEntry['mode'], UpdateHistoryEntry[]>>;
+type UpdateHistory = Record<string, ServerHistory>;
+
+const MAX_HISTORY_PER_SERVER = 10;
+
 export class UpdateCommand extends BaseCommand {
+  private historyFile = join(homedir(), '.mcpl', 'update-history.json');
+
   async execute(server?: string, options: UpdateOptions = {}): Promise<void> {
     this.setVerbose(options.verbose || false);
 
     try {
-      if (server) {
+      if (options.mode && options.mode !== 'bridge' && options.mode !== 'direct') {
+        this.error(`Unknown mode: ${options.mode} (use bridge or direct)`);
+        process.exitCode = 1;
+      } else if (options.rollback) {
+        await this.rollbackServer(options.rollback, options.mode);
+      } else if (server && server !== 'all') {
         await this.updateServer(server, options);
       } else {
         await this.updateAll(options);
@@ -24,12 +90,295 @@ export class UpdateCommand extends BaseCommand {
   }
 
   private async updateServer(server: string, options: UpdateOptions): Promise<void> {
-    this.info(`🔄 Updating server: ${server}`);
-    this.warn('Server update functionality coming soon!');
+    this.info(`🔄 Checking server: ${server}`);
+
+    const installed = (await this.collectInstalledServers()).filter(candidate => candidate.name === server);
+    if (installed.length === 0) {
+      this.error(`Server not found or not version-managed: ${server}`);
+      this.info('Use "mcpl list" to see installed servers');
+      return;
+    }
+
+    await this.processCandidates(await this.checkVersions(installed), options);
   }
 
   private async updateAll(options: UpdateOptions): Promise<void> {
     this.info('🔄 Checking for updates...');
-    this.warn('Update functionality coming soon!');
+
+    const installed = await this.collectInstalledServers();
+    if (installed.length === 0) {
+      this.warn('No version-managed servers installed');
+      return;
+    }
+
+    await this.processCandidates(await this.checkVersions(installed), options);
+  }
+
+  private async processCandidates(candidates: UpdateCandidate[], options: UpdateOptions): Promise<void> {
+    this.displayCandidates(candidates);
+
+    const outdated = candidates.filter(candidate => candidate.state === 'outdated');
+    const unpinned = candidates.filter(candidate => candidate.state === 'unpinned');
+    // Pinning an unpinned server changes what it runs, so it needs --force
+    const toUpdate = candidates.filter(candidate =>
+      candidate.latest && (candidate.state === 'outdated' || options.force)
+    );
+
+    for (const candidate of outdated) {
+      await this.showChangelog(candidate);
+    }
+
+    if (options.check) {
+      if (outdated.length > 0) {
+        this.warn(`${outdated.length} update(s) pending`);
+        process.exitCode = 1;
+      } else {
+        this.success('All pinned servers are up to date');
+      }
+      return;
+    }
+
+    if (unpinned.length > 0 && !options.force) {
+      this.warn(`Left unpinned: ${unpinned.map(candidate => candidate.server.name).join(', ')} (pin them to the latest version with --force)`);
+    }
+
+    if (toUpdate.length === 0) {
+      this.success(unpinned.length > 0 && !options.force ? 'All pinned servers are up to date' : 'Everything is up to date');
+      return;
+    }
+
+    for (const candidate of toUpdate) {
+      try {
+        await this.applyUpdate(candidate);
+        this.success(`Updated ${candidate.server.name} (${candidate.server.mode}) to ${candidate.latest}`);
+      } catch (error) {
+        this.error(`Failed to update ${candidate.server.name}: ${error instanceof Error ? error.message : String(error)}`);
+        process.exitCode = 1;
+      }
+    }
+
+    if (toUpdate.some(candidate => candidate.server.mode === 'direct')) {
+      this.warn('Restart Claude Desktop to use updated direct mode servers');
+    }
+    this.warnBridgeRestart(toUpdate.map(candidate => candidate.server));
+    this.info('Revert with: mcpl update --rollback <server>');
+  }
+
+  private async rollbackServer(serverName: string, mode?: UpdateHistoryEntry['mode']): Promise<void> {
+    this.info(`⏪ Rolling back server: ${serverName}`);
+
+    const history = await this.readHistory();
+    const byMode = history[serverName] || {};
+    const modes = (Object.keys(byMode) as UpdateHistoryEntry['mode'][])
+      .filter(recorded => byMode[recorded]!.length > 0 && (!mode || recorded === mode));
+
+    if (modes.length === 0) {
+      this.error(`No previous version recorded for ${serverName}${mode ? ` in ${mode} mode` : ''}`);
+      return;
+    }
+    if (modes.length > 1) {
+      this.error(`${serverName} has updates recorded in bridge and direct mode; choose one with --mode`);
+      return;
+    }
+
+    const entries = byMode[modes[0]]!;
+    const entry = entries.pop()!;
+
+    const installed = (await this.collectInstalledServers()).find(server =>
+      server.name === serverName && server.mode === entry.mode
+    );
+    if (!installed) {
+      this.error(`Server ${serverName} is no longer installed in ${entry.mode} mode`);
+      return;
+    }
+
+    await this.writeServer(installed, entry.previous.command, entry.previous.args, entry.fromVersion);
+    await writeJsonFile(this.historyFile, history);
+
+    this.success(`Rolled back ${serverName} to ${entry.fromVersion || 'its previous (unpinned) version'}`);
+    if (entry.mode === 'direct') {
+      this.warn('Restart Claude Desktop for the change to take effect');
+    }
+    this.warnBridgeRestart([installed]);
+  }
+
+  /**
+   * The CLI only rewrites the saved launch definition; a running bridge keeps
+   * its own copy until it is restarted
+   */
+  private warnBridgeRestart(servers: InstalledServer[]): void {
+    const running = servers.filter(server => server.mode === 'bridge' && server.running).map(server => server.name);
+    if (running.length > 0) {
+      this.warn(`Restart the bridge to run the new version of: ${running.join(', ')}`);
+    }
+  }
+
+  /**
+   * Collect every bridge and direct mode server that runs a known package
+   */
+  private async collectInstalledServers(): Promise<InstalledServer[]> {
+    const { serverRegistry, claudeConfigManager } = this.bridge.components;
+    const installed: InstalledServer[] = [];
+
+    for (const server of serverRegistry.listServers()) {
+      // Remote servers are versioned by whoever hosts them
+      if (server.type === 'remote') {
+        continue;
+      }
+
+      const [command, ...args] = server.command;
+      const ref: PackageReference | null = server.source && server.source.type !== 'git'
+        ? { type: server.source.type, packageName: server.source.packageName, version: server.source.version }
+        : detectPackageReference(command, args);
+
+      if (ref) {
+        installed.push({
+          name: server.name,
+          mode: 'bridge',
+          command,
+          args,
+          env: server.env || {},
+          ref,
+          running: server.desiredState === 'running'
+        });
+      }
+    }
+
+    try {
+      for (const server of await claudeConfigManager.listServers()) {
+        const ref = detectPackageReference(server.command, server.args);
+        if (ref) {
+          installed.push({ ...server, mode: 'direct', ref });
+        }
+      }
+    } catch (error) {
+      this.debug(`Failed to read Claude config: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return installed;
+  }
+
+  private async checkVersions(servers: InstalledServer[]): Promise<UpdateCandidate[]> {
+    return this.withSpinner('Checking package registries...', () => Promise.all(servers.map(async (server) => {
+      const current = findPinnedVersion([server.command, ...server.args], server.ref) || server.ref.version;
+      const latest = await fetchLatestVersion(server.ref);
+
+      let state: UpdateCandidate['state'] = 'unknown';
+      if (latest) {
+        if (!current || current === 'latest') {
+          state = 'unpinned';
+        } else {
+          state = compareVersions(latest, current) > 0 ? 'outdated' : 'up-to-date';
+        }
+      }
+
+      return { server, current, latest, state };
+    })));
+  }
+
+  private displayCandidates(candidates: UpdateCandidate[]): void {
+    const rows = candidates.map(candidate => ({
+      Name: candidate.server.name,
+      Mode: candidate.server.mode,
+      Package: `${candidate.server.ref.packageName} (${candidate.server.ref.type})`,
+      Current: candidate.current || 'unpinned',
+      Latest: candidate.latest || '?',
+      Status: this.getStateDisplay(candidate.state)
+    }));
+
+    console.log('');
+    this.formatOutput(rows, 'table');
+    console.log('');
+  }
+
+  private async showChangelog(candidate: UpdateCandidate): Promise<void> {
+    const lines = await fetchChangelogSummary(candidate.server.ref, candidate.current, candidate.latest!, {
+      client: this.bridge.client
+    });
+
+    console.log(chalk.bold(`📝 ${candidate.server.name}: ${candidate.current} → ${candidate.latest}`));
+    if (lines.length === 0) {
+      console.log(chalk.gray('   No changelog available in the registry'));
+    } else {
+      lines.forEach(line => console.log(`   ${line}`));
+    }
+  }
+
+  private async applyUpdate(candidate: UpdateCandidate): Promise<void> {
+    const { server } = candidate;
+    const parts = pinPackageVersion([server.command, ...server.args], server.ref, candidate.latest!);
+
+    await this.recordHistory(server.name, {
+      mode: server.mode,
+      fromVersion: candidate.current,
+      toVersion: candidate.latest!,
+      previous: { command: server.command, args: server.args },
+      updatedAt: new Date().toISOString()
+    });
+
+    await this.writeServer(server, parts[0], parts.slice(1), candidate.latest!);
+  }
+
+  /**
+   * Write a new launch definition for a server
+   */
+  private async writeServer(server: InstalledServer, command: string, args: string[], version?: string): Promise<void> {
+    if (server.mode === 'direct') {
+      const updated = await this.bridge.components.claudeConfigManager.updateServer(server.name, command, args, server.env);
+      if (!updated) {
+        throw new Error(`Server ${server.name} not found in Claude Desktop config`);
+      }
+      return;
+    }
+
+    const { serverRegistry } = this.bridge.components;
+    const existing = serverRegistry.getServer(server.name);
+
+    await serverRegistry.updateServer(server.name, {
+      command: [command, ...args],
+      ...(existing?.source && { source: { ...existing.source, version } })
+    });
+  }
+
+  private async recordHistory(serverName: string, entry: UpdateHistoryEntry): Promise<void> {
+    const history = await this.readHistory();
+    const byMode = history[serverName] = history[serverName] || {};
+    const entries = byMode[entry.mode] || [];
+
+    entries.push(entry);
+    byMode[entry.mode] = entries.slice(-MAX_HISTORY_PER_SERVER);
+
+    await writeJsonFile(this.historyFile, history);
+  }
+
+  /**
+   * Read the history, splitting lists of older files by the mode of each entry
+   */
+  private async readHistory(): Promise<UpdateHistory> {
+    const history = await readJsonFile<Record<string, ServerHistory | UpdateHistoryEntry[]>>(this.historyFile, {});
+
+    return Object.fromEntries(Object.entries(history).map(([name, recorded]) => {
+      if (!Array.isArray(recorded)) {
+        return [name, recorded];
+      }
+      const byMode: ServerHistory = {};
+      for (const entry of recorded) {
+        (byMode[entry.mode] = byMode[entry.mode] || []).push(entry);
+      }
+      return [name, byMode];
+    }));
+  }
+
+  private getStateDisplay(state: UpdateCandidate['state']): string {
+    switch (state) {
+      case 'up-to-date':
+        return '🟢 up to date';
+      case 'outdated':
+        return '🟡 update available';
+      case 'unpinned':
+        return '📌 unpinned';
+      default:
+        return '❓ unknown';
+    }
   }
 }
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { MCPLookupBridge } from '@mcplookup-org/mcp-server';
+import type { ResolvedCliConfig } from '../config/cli-config.js';
+import { ValidateCommand } from './validate.js';
+
+const COMMENTED = `version: 1 # bumped by --fix
+mcp:
+  name: Weather
+  description: Forecasts
+  category: data
+installation:
+  methods:
+    - type: npm
+      command: npx weather-mcp
+`;
+
+describe('ValidateCommand', () => {
+  let root: string;
+  let path: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mcpl-validate-'));
+    path = join(root, '.mcplookup.yaml');
+    await writeFile(path, COMMENTED);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    process.exitCode = undefined;
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const validate = (options: object) => new ValidateCommand({} as MCPLookupBridge, {} as ResolvedCliConfig).execute(path, options);
+
+  it('should not rewrite a file with comments without --drop-comments', async () => {
+    await validate({ fix: true });
+
+    expect(await readFile(path, 'utf-8')).toBe(COMMENTED);
+    expect(process.exitCode).toBe(1);
+    expect(console.log).toHaveBeenCalledWith(expect.anything(), expect.stringContaining('Add --drop-comments'));
+  });
+
+  it('should keep the original as .bak when dropping comments', async () => {
+    await validate({ fix: true, dropComments: true });
+
+    expect(await readFile(`${path}.bak`, 'utf-8')).toBe(COMMENTED);
+    const fixed = await readFile(path, 'utf-8');
+    expect(fixed).toContain('version: "1.0"');
+    expect(fixed).not.toContain('#');
+  });
+});
@@ -0,0 +1,138 @@
+// Validate command - Lint .mcplookup.yaml files before publishing
+
+import chalk from 'chalk';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import {
+  MCPLOOKUP_YAML_FILES,
+  MCPLookupValidationIssue,
+  MCPLookupValidationResult,
+  fileExists,
+  fixMCPLookupYAML,
+  parseMCPLookupYAML
+} from '@mcplookup-org/mcp-sdk';
+import { BaseCommand } from './base-command.js';
+
+export interface ValidateOptions {
+  fix?: boolean;
+  dropComments?: boolean;
+  json?: boolean;
+  strict?: boolean;
+  verbose?: boolean;
+}
+
+export class ValidateCommand extends BaseCommand {
+  async execute(file: string | undefined, options: ValidateOptions = {}): Promise<void> {
+    this.setVerbose(options.verbose || false);
+
+    try {
+      const path = file || await this.findConfigFile();
+      const source = await readFile(path, 'utf-8');
+      let result: MCPLookupValidationResult;
+      let keptComments = false;
+
+      if (options.fix) {
+        const fixed = fixMCPLookupYAML(source);
+        if (fixed.removesComments && !options.dropComments) {
+          // Leave the file alone and report what is wrong with it as it is
+          keptComments = true;
+          result = parseMCPLookupYAML(source);
+        } else {
+          if (!options.json) {
+            this.showFixes(path, fixed.fixes);
+          }
+          if (fixed.removesComments) {
+            await writeFile(`${path}.bak`, source);
+            if (!options.json) {
+              this.warn(`Removing comments while rewriting the file; the original is kept in ${this.displayPath(path)}.bak`);
+            }
+          }
+          if (fixed.content !== source) {
+            await writeFile(path, fixed.content);
+          }
+          result = fixed.result;
+        }
+      } else {
+        result = parseMCPLookupYAML(source);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          file: path,
+          valid: result.valid,
+          issues: result.issues,
+          ...(keptComments && { fixed: false, reason: 'The file has comments; pass --drop-comments to rewrite it' })
+        }, null, 2));
+      } else {
+        this.showIssues(path, result.issues, options);
+        if (keptComments) {
+          this.warn(`Not fixing ${this.displayPath(path)}: rewriting it would remove its comments. Add --drop-comments to rewrite it anyway.`);
+        }
+      }
+
+      const warnings = result.issues.some(issue => issue.severity === 'warning');
+      if (keptComments || !result.valid || (options.strict && warnings)) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      this.handleError(error, 'Validation failed');
+    }
+  }
+
+  /**
+   * Find the config file in the current directory
+   */
+  private async findConfigFile(): Promise<string> {
+    for (const name of MCPLOOKUP_YAML_FILES) {
+      const path = join(process.cwd(), name);
+      if (await fileExists(path)) {
+        return path;
+      }
+    }
+    throw new Error(`No ${MCPLOOKUP_YAML_FILES[0]} found in ${process.cwd()}; pass the file to validate`);
+  }
+
+  private showFixes(path: string, fixes: string[]): void {
+    if (fixes.length === 0) {
+      this.info(`Nothing to fix in ${this.displayPath(path)}`);
+      return;
+    }
+
+    this.success(`Fixing ${this.displayPath(path)}:`);
+    fixes.forEach(fix => console.log(`  ${chalk.green('✓')} ${fix}`));
+    console.log();
+  }
+
+  private showIssues(path: string, issues: MCPLookupValidationIssue[], options: ValidateOptions): void {
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    const warnings = issues.length - errors;
+
+    if (issues.length === 0) {
+      this.success(`${this.displayPath(path)} is valid`);
+      return;
+    }
+
+    console.log(chalk.underline(this.displayPath(path)));
+    for (const issue of issues) {
+      const position = `${issue.line}:${issue.column}`.padEnd(8);
+      const severity = issue.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+      console.log(`  ${chalk.gray(position)}${severity}  ${issue.message}${issue.path ? chalk.gray(`  ${issue.path}`) : ''}`);
+    }
+
+    const fixable = issues.filter(issue => issue.fixable).length;
+    const summary = `${issues.length} problems (${errors} errors, ${warnings} warnings)`;
+    console.log();
+    if (errors > 0 || (options.strict && warnings > 0)) {
+      this.error(summary);
+    } else {
+      this.warn(summary);
+    }
+    if (fixable > 0 && !options.fix) {
+      this.info(`${fixable} of them can be fixed with --fix`);
+    }
+  }
+
+  private displayPath(path: string): string {
+    return relative(process.cwd(), path) || path;
+  }
+}
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { MCPLookupBridge } from '@mcplookup-org/mcp-server';
+import { ConfigCommand } from '../commands/config.js';
+import { loadCliConfig, parseConfigValue, getConfigSetting, validateConfigDocument } from './cli-config.js';
+
+describe('cli-config', () => {
+  let root: string;
+  let project: string;
+  let env: NodeJS.ProcessEnv;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mcpl-config-'));
+    project = join(root, 'project');
+    await mkdir(join(project, 'nested'), { recursive: true });
+    await mkdir(join(root, 'xdg', 'mcpl'), { recursive: true });
+    // Keep the legacy ~/.mcpl/config.json of the machine out of the tests
+    vi.stubEnv('HOME', root);
+    env = { XDG_CONFIG_HOME: join(root, 'xdg') };
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const writeGlobal = (document: unknown) => writeFile(join(root, 'xdg', 'mcpl', 'config.json'), JSON.stringify(document));
+  const writeProject = (document: unknown) => writeFile(join(project, '.mcpl.json'), JSON.stringify(document));
+
+  describe('loadCliConfig', () => {
+    it('should let later layers win and remember where each value came from', async () => {
+      await writeGlobal({ defaults: { mode: 'bridge', client: 'cursor' }, docker: { memory: '1g', cpus: '2' } });
+      await writeProject({ defaults: { client: 'vscode' }, docker: { memory: '2g' } });
+
+      const config = await loadCliConfig({
+        cwd: join(project, 'nested'),
+        env: { ...env, MCPL_DOCKER_MEMORY: '4g', MCPL_DOCKER_CPUS: '3' },
+        flags: [{ key: 'docker.cpus', flag: '--cpus', value: '4' }]
+      });
+
+      expect(config.projectPath).toBe(join(project, '.mcpl.json'));
+      expect(config.values.defaults).toEqual({ client: 'vscode', mode: 'bridge' });
+      expect(config.values.docker).toMatchObject({ memory: '4g', cpus: '4', pidsLimit: 100 });
+      expect(config.origins['defaults.mode']).toEqual({ layer: 'global', source: join(root, 'xdg', 'mcpl', 'config.json') });
+      expect(config.origins['defaults.client']).toEqual({ layer: 'project', source: join(project, '.mcpl.json') });
+      expect(config.origins['docker.memory']).toEqual({ layer: 'env', source: 'MCPL_DOCKER_MEMORY' });
+      expect(config.origins['docker.cpus']).toEqual({ layer: 'flag', source: '--cpus' });
+      expect(config.origins['docker.pidsLimit']).toEqual({ layer: 'default' });
+    });
+
+    it('should ignore API and image settings in project files', async () => {
+      await writeGlobal({ api: { key: 'global-key' } });
+      await writeProject({
+        api: { baseUrl: 'https://attacker.example/api', key: 'project-key' },
+        docker: { image: 'attacker/node', pythonImage: 'attacker/python', memory: '1g' }
+      });
+
+      const config = await loadCliConfig({ cwd: project, env });
+
+      expect(config.values.api).toEqual({ baseUrl: 'https://mcplookup.org/api/v1', key: 'global-key' });
+      expect(config.values.docker).toMatchObject({ image: 'node:18-alpine', pythonImage: 'python:3.12-slim', memory: '1g' });
+      expect(config.ignored).toEqual(['api.baseUrl', 'api.key', 'docker.image', 'docker.pythonImage']);
+    });
+
+    it('should still take API settings from the environment and flags', async () => {
+      const config = await loadCliConfig({
+        cwd: project,
+        env: { ...env, MCPLOOKUP_API_URL: 'https://staging.example/api' },
+        flags: [{ key: 'api.key', flag: '--api-key', value: 'flag-key' }]
+      });
+
+      expect(config.values.api).toEqual({ baseUrl: 'https://staging.example/api', key: 'flag-key' });
+      expect(config.ignored).toEqual([]);
+    });
+
+    it('should reject invalid files and environment values', async () => {
+      await writeProject({ docker: { memory: 'lots' } });
+      await expect(loadCliConfig({ cwd: project, env })).rejects.toThrow('docker.memory must be a size');
+
+      await writeProject({});
+      await expect(loadCliConfig({ cwd: project, env: { ...env, MCPL_TELEMETRY: 'maybe' } })).rejects.toThrow('Invalid MCPL_TELEMETRY');
+    });
+  });
+
+  describe('values', () => {
+    it('should convert and validate strings', () => {
+      expect(parseConfigValue(getConfigSetting('docker.pidsLimit')!, '50')).toBe(50);
+      expect(parseConfigValue(getConfigSetting('telemetry.enabled')!, 'yes')).toBe(true);
+      expect(() => parseConfigValue(getConfigSetting('defaults.mode')!, 'hybrid')).toThrow('must be one of');
+      expect(validateConfigDocument({ defaults: { unknown: 1 } })).toEqual(['Unknown setting: defaults.unknown']);
+    });
+  });
+
+  describe('ConfigCommand', () => {
+    it('should show the origin of each value', async () => {
+      await writeProject({ defaults: { mode: 'bridge' } });
+      const config = await loadCliConfig({ cwd: project, env });
+      const output: string[] = [];
+      vi.spyOn(console, 'log').mockImplementation((line: string) => void output.push(line));
+
+      await new ConfigCommand({} as MCPLookupBridge, config).execute('list', undefined, undefined, { json: true, showOrigin: true });
+
+      const settings = JSON.parse(output.join('\n'));
+      expect(settings['defaults.mode']).toEqual({ value: 'bridge', origin: { layer: 'project', source: join(project, '.mcpl.json') } });
+      expect(settings['defaults.client']).toEqual({ value: 'claude', origin: { layer: 'default' } });
+    });
+
+    it('should refuse to write global-only settings to the project file', async () => {
+      const config = await loadCliConfig({ cwd: project, env });
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(process, 'cwd').mockReturnValue(project);
+
+      await new ConfigCommand({} as MCPLookupBridge, config).execute('set', 'api.baseUrl', 'https://attacker.example', {});
+      await expect(readFile(join(project, '.mcpl.json'), 'utf-8')).rejects.toThrow();
+
+      await new ConfigCommand({} as MCPLookupBridge, config).execute('set', 'docker.memory', '1g', {});
+      expect(JSON.parse(await readFile(join(project, '.mcpl.json'), 'utf-8'))).toEqual({ docker: { memory: '1g' } });
+    });
+  });
+});
@@ -0,0 +1,416 @@
+// Layered CLI configuration: defaults < global file < project file < environment < flags.
+// Settings that decide where the API key goes or what runs servers are never read from project files.
+
+import { readFile, rm } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileExists, writeFileAtomic } from '@mcplookup-org/mcp-sdk';
+
+export interface McplConfig {
+  api: {
+    baseUrl: string;
+    key?: string;
+  };
+  defaults: {
+    client: string;
+    mode: 'direct' | 'bridge';
+  };
+  docker: {
+    image: string;
+    pythonImage: string;
+    memory: string;
+    cpus: string;
+    pidsLimit: number;
+  };
+  telemetry: {
+    enabled: boolean;
+  };
+}
+
+export type ConfigLayer = 'default' | 'global' | 'project' | 'env' | 'flag';
+
+export interface ConfigOrigin {
+  layer: ConfigLayer;
+  source?: string; // file path, environment variable or flag that set the value
+}
+
+export interface ConfigSetting {
+  key: string; // dotted path into McplConfig, e.g. docker.memory
+  type: 'string' | 'number' | 'boolean';
+  description: string;
+  default?: string | number | boolean;
+  env?: string;
+  values?: string[]; // allowed values, when restricted
+  validate?: (value: any) => string | undefined; // returns an error message
+  secret?: boolean; // masked in listings and kept out of project files
+  globalOnly?: boolean; // ignored in project files, which any cloned repository can bring along
+}
+
+/**
+ * A value given on the command line for a setting
+ */
+export interface ConfigFlag {
+  key: string;
+  flag: string;
+  value: string | undefined;
+}
+
+export interface ResolvedCliConfig {
+  values: McplConfig;
+  origins: Record<string, ConfigOrigin>; // setting key -> layer that supplied the value
+  ignored: string[]; // global-only settings the project file tried to set
+  globalPath: string;
+  projectPath?: string;
+}
+
+export const PROJECT_CONFIG_FILE = '.mcpl.json';
+
+export const CONFIG_SETTINGS: ConfigSetting[] = [
+  {
+    key: 'api.baseUrl',
+    type: 'string',
+    description: 'mcplookup.org API endpoint',
+    default: 'https://mcplookup.org/api/v1',
+    env: 'MCPLOOKUP_API_URL',
+    globalOnly: true,
+    validate: value => /^https?:\/\/\S+$/.test(value) ? undefined : 'must be an http(s) URL'
+  },
+  {
+    key: 'api.key',
+    type: 'string',
+    description: 'mcplookup.org API key',
+    env: 'MCPLOOKUP_API_KEY',
+    secret: true,
+    globalOnly: true
+  },
+  {
+    key: 'defaults.client',
+    type: 'string',
+    description: 'Client whose config direct-mode commands use',
+    default: 'claude',
+    env: 'MCPL_DEFAULT_CLIENT',
+    values: ['claude', 'cursor', 'vscode', 'windsurf', 'zed', 'continue']
+  },
+  {
+    key: 'defaults.mode',
+    type: 'string',
+    description: 'Installation mode used when --mode is not given',
+    default: 'direct',
+    env: 'MCPL_DEFAULT_MODE',
+    values: ['direct', 'bridge']
+  },
+  {
+    key: 'docker.image',
+    type: 'string',
+    description: 'Base image npm servers run in',
+    default: 'node:18-alpine',
+    env: 'MCPL_DOCKER_IMAGE',
+    globalOnly: true
+  },
+  {
+    key: 'docker.pythonImage',
+    type: 'string',
+    description: 'Base image Python servers run in',
+    default: 'python:3.12-slim',
+    env: 'MCPL_DOCKER_PYTHON_IMAGE',
+    globalOnly: true
+  },
+  {
+    key: 'docker.memory',
+    type: 'string',
+    description: 'Memory limit for server containers',
+    default: '512m',
+    env: 'MCPL_DOCKER_MEMORY',
+    validate: value => /^\d+[bkmg]?$/i.test(value) ? undefined : 'must be a size such as 512m or 2g'
+  },
+  {
+    key: 'docker.cpus',
+    type: 'string',
+    description: 'CPU limit for server containers',
+    default: '0.5',
+    env: 'MCPL_DOCKER_CPUS',
+    validate: value => /^\d+(\.\d+)?$/.test(value) && parseFloat(value) > 0 ? undefined : 'must be a positive number such as 0.5'
+  },
+  {
+    key: 'docker.pidsLimit',
+    type: 'number',
+    description: 'Maximum processes per server container',
+    default: 100,
+    env: 'MCPL_DOCKER_PIDS_LIMIT',
+    validate: value => Number.isInteger(value) && value > 0 ? undefined : 'must be a positive integer'
+  },
+  {
+    key: 'telemetry.enabled',
+    type: 'boolean',
+    description: 'Send anonymous usage statistics',
+    default: false,
+    env: 'MCPL_TELEMETRY'
+  }
+];
+
+/**
+ * Look up a setting by its dotted key
+ */
+export function getConfigSetting(key: string): ConfigSetting | undefined {
+  return CONFIG_SETTINGS.find(setting => setting.key === key);
+}
+
+/**
+ * Get the global config file, honouring XDG_CONFIG_HOME
+ */
+export function getGlobalConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  return join(env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'mcpl', 'config.json');
+}
+
+/**
+ * Find the nearest .mcpl.json in the directory or one of its parents
+ */
+export async function findProjectConfigPath(cwd: string = process.cwd()): Promise<string | undefined> {
+  let directory = resolve(cwd);
+
+  while (true) {
+    const candidate = join(directory, PROJECT_CONFIG_FILE);
+    if (await fileExists(candidate)) {
+      return candidate;
+    }
+
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Convert a string (from the command line or environment) to a setting's type and validate it
+ */
+export function parseConfigValue(setting: ConfigSetting, raw: string): string | number | boolean {
+  let value: string | number | boolean = raw;
+
+  if (setting.type === 'number') {
+    value = Number(raw);
+    if (raw.trim() === '' || isNaN(value)) {
+      throw new Error(`${setting.key} must be a number, got "${raw}"`);
+    }
+  } else if (setting.type === 'boolean') {
+    const normalized = raw.trim().toLowerCase();
+    if (['true', '1', 'yes', 'on'].includes(normalized)) {
+      value = true;
+    } else if (['false', '0', 'no', 'off'].includes(normalized)) {
+      value = false;
+    } else {
+      throw new Error(`${setting.key} must be true or false, got "${raw}"`);
+    }
+  }
+
+  const error = checkValue(setting, value);
+  if (error) {
+    throw new Error(error);
+  }
+  return value;
+}
+
+/**
+ * Validate a config file document. Returns a list of problems (empty when valid).
+ */
+export function validateConfigDocument(document: unknown): string[] {
+  if (!isObject(document)) {
+    return ['Config must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of flattenDocument(document)) {
+    const setting = getConfigSetting(key);
+    if (!setting) {
+      errors.push(`Unknown setting: ${key}`);
+      continue;
+    }
+
+    const error = checkValue(setting, value);
+    if (error) {
+      errors.push(error);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Read and validate a config file; a missing file is an empty document
+ */
+export async function readConfigDocument(path: string): Promise<Record<string, any>> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch {
+    return {};
+  }
+
+  let document: unknown;
+  try {
+    document = content.trim() ? JSON.parse(content) : {};
+  } catch (error) {
+    throw new Error(`Invalid config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const errors = validateConfigDocument(document);
+  if (errors.length > 0) {
+    throw new Error(`Invalid config file ${path}: ${errors.join('; ')}`);
+  }
+  return document as Record<string, any>;
+}
+
+/**
+ * Set (or with undefined, remove) one setting in a config file
+ */
+export async function writeConfigValue(path: string, key: string, value: string | number | boolean | undefined): Promise<void> {
+  const document = await readConfigDocument(path);
+  const [section, name] = splitKey(key);
+
+  if (value === undefined) {
+    if (isObject(document[section])) {
+      delete document[section][name];
+      if (Object.keys(document[section]).length === 0) {
+        delete document[section];
+      }
+    }
+  } else {
+    document[section] = { ...(isObject(document[section]) ? document[section] : {}), [name]: value };
+  }
+
+  await writeFileAtomic(path, JSON.stringify(document, null, 2) + '\n');
+}
+
+/**
+ * Delete a config file
+ */
+export async function removeConfigFile(path: string): Promise<void> {
+  await rm(path, { force: true });
+}
+
+/**
+ * Resolve every setting through the layers, remembering where each value came from
+ */
+export async function loadCliConfig(options: {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  flags?: ConfigFlag[];
+} = {}): Promise<ResolvedCliConfig> {
+  const env = options.env || process.env;
+  const globalPath = getGlobalConfigPath(env);
+  const projectPath = await findProjectConfigPath(options.cwd);
+
+  const values: Record<string, unknown> = {};
+  const origins: Record<string, ConfigOrigin> = {};
+  const ignored: string[] = [];
+  const apply = (key: string, value: unknown, origin: ConfigOrigin) => {
+    if (value !== undefined) {
+      values[key] = value;
+      origins[key] = origin;
+    }
+  };
+
+  for (const setting of CONFIG_SETTINGS) {
+    apply(setting.key, setting.default, { layer: 'default' });
+  }
+
+  // API keys saved by older versions of mcpl login
+  const legacyPath = join(homedir(), '.mcpl', 'config.json');
+  const legacy = await readFile(legacyPath, 'utf-8').then(content => JSON.parse(content), () => ({}));
+  if (typeof legacy?.apiKey === 'string') {
+    apply('api.key', legacy.apiKey, { layer: 'global', source: legacyPath });
+  }
+
+  for (const [key, value] of flattenDocument(await readConfigDocument(globalPath))) {
+    apply(key, value, { layer: 'global', source: globalPath });
+  }
+
+  if (projectPath) {
+    for (const [key, value] of flattenDocument(await readConfigDocument(projectPath))) {
+      if (getConfigSetting(key)?.globalOnly) {
+        ignored.push(key);
+      } else {
+        apply(key, value, { layer: 'project', source: projectPath });
+      }
+    }
+  }
+
+  for (const setting of CONFIG_SETTINGS) {
+    const raw = setting.env ? env[setting.env] : undefined;
+    if (raw !== undefined && raw !== '') {
+      apply(setting.key, parseEnvValue(setting, raw), { layer: 'env', source: setting.env });
+    }
+  }
+
+  for (const flag of options.flags || []) {
+    const setting = getConfigSetting(flag.key);
+    if (setting && flag.value !== undefined) {
+      apply(setting.key, parseConfigValue(setting, flag.value), { layer: 'flag', source: flag.flag });
+    }
+  }
+
+  return {
+    values: unflatten(values) as unknown as McplConfig,
+    origins,
+    ignored,
+    globalPath,
+    ...(projectPath && { projectPath })
+  };
+}
+
+/**
+ * Read a dotted key from a resolved config
+ */
+export function getConfigValue(config: McplConfig, key: string): unknown {
+  const [section, name] = splitKey(key);
+  return (config as unknown as Record<string, Record<string, unknown>>)[section]?.[name];
+}
+
+function parseEnvValue(setting: ConfigSetting, raw: string): string | number | boolean {
+  try {
+    return parseConfigValue(setting, raw);
+  } catch (error) {
+    throw new Error(`Invalid ${setting.env}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function checkValue(setting: ConfigSetting, value: unknown): string | undefined {
+  if (typeof value !== setting.type) {
+    return `${setting.key} must be a ${setting.type}`;
+  }
+  if (setting.values && !setting.values.includes(value as string)) {
+    return `${setting.key} must be one of: ${setting.values.join(', ')}`;
+  }
+
+  const error = setting.validate?.(value);
+  return error ? `${setting.key} ${error}` : undefined;
+}
+
+/**
+ * Turn { docker: { memory: '1g' } } into [['docker.memory', '1g']]
+ */
+function flattenDocument(document: Record<string, any>): Array<[string, unknown]> {
+  return Object.entries(document).flatMap(([section, entries]) =>
+    isObject(entries)
+      ? Object.entries(entries).map(([name, value]) => [`${section}.${name}`, value] as [string, unknown])
+      : [[section, entries] as [string, unknown]]
+  );
+}
+
+function unflatten(values: Record<string, unknown>): Record<string, Record<string, unknown>> {
+  const result: Record<string, Record<string, unknown>> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const [section, name] = splitKey(key);
+    result[section] = { ...result[section], [name]: value };
+  }
+  return result;
+}
+
+function splitKey(key: string): [string, string] {
+  const separator = key.indexOf('.');
+  return [key.slice(0, separator), key.slice(separator + 1)];
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -20,6 +20,17 @@ import { HealthCommand } from './commands/health.js';
 import { ConfigCommand } from './commands/config.js';
 import { UpdateCommand } from './commands/update.js';
 import { BackupCommand } from './commands/backup.js';
+import { PolicyCommand } from './commands/policy.js';
+import { LogsCommand } from './commands/logs.js';
+import { SyncCommand } from './commands/sync.js';
+import { SecretsCommand } from './commands/secrets.js';
+import { ImagesCommand } from './commands/images.js';
+import { SandboxCommand } from './commands/sandbox.js';
+import { ValidateCommand } from './commands/validate.js';
+import { TestCommand } from './commands/test.js';
+import { RecordCommand } from './commands/record.js';
+import { ReplayCommand } from './commands/replay.js';
+import { loadCliConfig, ResolvedCliConfig } from './config/cli-config.js';
 
 const program = new Command();
 
@@ -30,6 +41,7 @@ program
   .version('1.0.0')
   .option('-v, --verbose', 'Enable verbose logging')
   .option('--api-key <key>', 'MCPLookup API key')
+  .option('--api-url <url>', 'MCPLookup API base URL')
   .option('--no-color', 'Disable colored output');
 
 // Global error handler
@@ -46,14 +58,41 @@ process.on('unhandledRejection', (reason) => {
   process.exit(1);
 });
 
+// Resolve layered configuration once per invocation
+let config: ResolvedCliConfig;
+
+async function getConfig(): Promise<ResolvedCliConfig> {
+  if (!config) {
+    const opts = program.opts();
+    try {
+      config = await loadCliConfig({
+        flags: [
+          { key: 'api.key', flag: '--api-key', value: opts.apiKey },
+          { key: 'api.baseUrl', flag: '--api-url', value: opts.apiUrl }
+        ]
+      });
+    } catch (error) {
+      console.error(chalk.red('❌ Invalid configuration:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+    if (config.ignored.length > 0) {
+      console.error(chalk.yellow('⚠️'), `Ignoring ${config.ignored.join(', ')} in ${config.projectPath}: ` +
+        'these settings are only read from the global config, the environment or flags');
+    }
+  }
+  return config;
+}
+
 // Initialize bridge instance
 let bridge: MCPLookupBridge;
 
-function getBridge(): MCPLookupBridge {
+async function getBridge(): Promise<MCPLookupBridge> {
   if (!bridge) {
-    const opts = program.opts();
-    bridge = new MCPLookupBridge(opts.apiKey);
+    const { api, docker } = (await getConfig()).values;
+    bridge = new MCPLookupBridge(api.key, api.baseUrl, { docker });
   }
+  // Load persisted bridge-mode servers so every command sees them
+  await bridge.initialize();
   return bridge;
 }
 
@@ -63,23 +102,44 @@ program
   .alias('i')
   .description('🚀 Install MCP server (supports NPM packages, Docker images, and natural language)')
   .argument('<package>', 'Package name (@org/pkg), Docker image (org/img:tag), or description ("gmail server")')
-  .option('-c, --client <client>', 'Target client (claude, cursor, etc.)', 'claude')
-  .option('-m, --mode <mode>', 'Installation mode: direct (permanent) or bridge (dynamic)', 'direct')
+  .option('-c, --client <client>', 'Target client for direct mode: claude, cursor, vscode, windsurf, zed, continue (default: defaults.client setting)')
+  .option('-m, --mode <mode>', 'Installation mode: direct (permanent) or bridge (dynamic) (default: defaults.mode setting)')
   .option('--config <json>', 'Configuration as JSON string')
   .option('--env <vars>', 'Environment variables as JSON string')
   .option('--auto-start', 'Auto-start server after installation (bridge mode)', true)
   .option('--force', 'Force installation even if server exists')
   .option('--dry-run', 'Show what would be installed without actually installing')
   .option('--global', 'Run on host system like Smithery (bypasses Docker isolation)')
+  .option('--transport <type>', 'Transport for remote servers given by URL: http, sse', 'http')
+  .option('--header <header...>', 'HTTP header for remote servers ("Name: value")')
+  .option('--bearer-token <token>', 'Bearer token for remote servers')
+  .option('--sandbox <profile>', 'Sandbox profile for the server container (bridge mode): offline, readonly-fs, workspace-rw or a custom profile')
+  .option('--workspace <path>', 'Directory mounted by workspace sandbox profiles (default: current directory)')
+  .option('--allow-host <hosts...>', 'Hostnames that resolve with a custom profile whose network is "allowlist"')
+  .option('--restart <policy>', 'Restart policy for bridge servers: never, on-failure, always (default: on-failure)')
   .addHelpText('after', `
 Examples:
   mcpl install @modelcontextprotocol/server-filesystem
   mcpl install @company/server --global  # Run on host like Smithery
   mcpl install company/server:latest
   mcpl install "The official Gmail server"
-  mcpl install filesystem --mode bridge --auto-start`)
+  mcpl install filesystem --mode bridge --auto-start
+  mcpl install @modelcontextprotocol/server-filesystem --client cursor
+  mcpl install @modelcontextprotocol/server-filesystem --client vscode   # writes .vscode/mcp.json
+  mcpl install https://mcp.example.com/mcp --mode bridge --bearer-token $TOKEN
+  mcpl install https://legacy.example.com/sse --mode bridge --transport sse
+  mcpl install @modelcontextprotocol/server-filesystem --mode bridge --sandbox readonly-fs --workspace ./docs
+  mcpl install @modelcontextprotocol/server-memory --mode bridge --restart always
+
+Sandbox profiles (custom ones go in ~/.mcpl/sandbox-profiles.json):
+  offline            No network, no host files
+  readonly-fs        No network, workspace mounted read-only at /workspace
+  workspace-rw       No network, workspace mounted read-write at /workspace
+
+Network "allowlist" in a custom profile only limits which names resolve; it
+does not block connections to IP addresses.`)
   .action(async (packageName, options) => {
-    const installCmd = new InstallCommand(getBridge());
+    const installCmd = new InstallCommand(await getBridge(), await getConfig());
     await installCmd.execute(packageName, { ...options, globalInstall: options.global });
   });
 
@@ -90,12 +150,16 @@ program
   .alias('rm')
   .description('🗑️ Uninstall MCP server')
   .argument('<package>', 'Package name or server identifier')
-  .option('-c, --client <client>', 'Target client', 'claude')
+  .option('-c, --client <client>', 'Client config to remove direct-mode servers from (default: defaults.client setting)')
   .option('-m, --mode <mode>', 'Installation mode to remove from', 'auto')
   .option('--force', 'Force removal without confirmation')
   .option('--cleanup', 'Clean up associated data and containers')
+  .addHelpText('after', `
+Examples:
+  mcpl uninstall filesystem
+  mcpl uninstall filesystem --client windsurf --mode direct`)
   .action(async (packageName, options) => {
-    const uninstallCmd = new UninstallCommand(getBridge());
+    const uninstallCmd = new UninstallCommand(await getBridge(), await getConfig());
     await uninstallCmd.execute(packageName, options);
   });
 
@@ -105,12 +169,18 @@ program
   .alias('ls')
   .description('📋 List servers, clients, or available packages')
   .argument('[type]', 'What to list: servers, clients, available, installed', 'servers')
-  .option('-c, --client <client>', 'Filter by client', 'claude')
+  .option('-c, --client <client>', 'Client whose direct-mode servers to list, or "all" for every detected client (default: defaults.client setting)')
+  .option('--clients', 'List supported clients and whether they are detected')
   .option('-m, --mode <mode>', 'Filter by mode: direct, bridge, all', 'all')
   .option('--format <format>', 'Output format: table, json, yaml', 'table')
   .option('--status', 'Include server status information')
+  .addHelpText('after', `
+Examples:
+  mcpl list                       # Bridge servers and Claude Desktop servers
+  mcpl list --client all          # Servers of every detected client
+  mcpl list --clients             # Which clients are installed and where their configs live`)
   .action(async (type, options) => {
-    const listCmd = new ListCommand(getBridge());
+    const listCmd = new ListCommand(await getBridge(), await getConfig());
     await listCmd.execute(type, options);
   });
 
@@ -132,7 +202,7 @@ Examples:
   mcpl search --category productivity
   mcpl search "I need to manage files" --smart`)
   .action(async (query, options) => {
-    const searchCmd = new SearchCommand(getBridge());
+    const searchCmd = new SearchCommand(await getBridge(), await getConfig());
     await searchCmd.execute(query, options);
   });
 
@@ -146,7 +216,7 @@ program
   .option('--health', 'Check server health')
   .option('--interactive', 'Interactive tool testing')
   .action(async (server, options) => {
-    const inspectCmd = new InspectCommand(getBridge());
+    const inspectCmd = new InspectCommand(await getBridge(), await getConfig());
     await inspectCmd.execute(server, options);
   });
 
@@ -160,7 +230,7 @@ program
   .option('--port <port>', 'Port for HTTP servers')
   .option('--detach', 'Run in background')
   .action(async (server, options) => {
-    const runCmd = new RunCommand(getBridge());
+    const runCmd = new RunCommand(await getBridge(), await getConfig());
     await runCmd.execute(server, options);
   });
 
@@ -173,18 +243,28 @@ program
   .option('--watch', 'Watch status in real-time')
   .option('--format <format>', 'Output format: table, json', 'table')
   .action(async (options) => {
-    const statusCmd = new StatusCommand(getBridge());
+    const statusCmd = new StatusCommand(await getBridge(), await getConfig());
     await statusCmd.execute(options);
   });
 
 // Login Command (Smithery parity)
 program
   .command('login')
-  .description('🔑 Login and set MCPLookup API key')
+  .description('🔑 Login and set MCPLookup API key, or authorize with a remote server')
+  .argument('[server]', 'Remote server URL or bridge server name to authorize with (OAuth)')
   .option('--key <apikey>', 'Provide API key directly')
-  .action(async (options) => {
-    const loginCmd = new LoginCommand(getBridge());
-    await loginCmd.execute(options);
+  .option('--scope <scope>', 'OAuth scope to request from the server')
+  .option('--no-browser', 'Print the authorization URL instead of opening a browser')
+  .option('--logout', 'Forget the stored tokens for the server')
+  .addHelpText('after', `
+Examples:
+  mcpl login --key <apikey>              # Save the MCPLookup API key
+  mcpl login https://mcp.example.com/mcp # Authorize in the browser, tokens go to ~/.mcpl/oauth.json
+  mcpl login github --scope repo         # A remote bridge server, by name
+  mcpl login github --logout`)
+  .action(async (server, options) => {
+    const loginCmd = new LoginCommand(await getBridge(), await getConfig());
+    await loginCmd.execute(server, options);
   });
 
 // Development Command (Smithery parity + enhancements)
@@ -193,14 +273,121 @@ program
   .description('🛠️ Development tools for MCP servers')
   .argument('[entryFile]', 'Entry file for development server')
   .option('--port <port>', 'Development server port', '8181')
-  .option('--no-open', 'Don\'t open browser automatically')
-  .option('--hot-reload', 'Enable hot reload', true)
+  .option('--transport <type>', 'How the server under development is reached (stdio|http)', 'stdio')
+  .option('--server-url <url>', 'MCP URL the entry serves on (http transport)')
+  .option('--watch <paths...>', 'Files or directories to watch (default: entry directory)')
+  .option('--no-hot-reload', 'Disable restarting on file changes')
   .option('--tunnel', 'Create public tunnel')
+  .addHelpText('after', `
+Examples:
+  mcpl dev src/index.ts                # Run with tsx, restart on changes under src/
+  mcpl dev dist/index.js --watch dist  # Pair with "tsc --watch"
+  mcpl dev server.py --transport http --server-url http://localhost:8000/mcp`)
   .action(async (entryFile, options) => {
-    const devCmd = new DevCommand(getBridge());
+    const devCmd = new DevCommand(await getBridge(), await getConfig());
     await devCmd.execute(entryFile, options);
   });
 
+// Validate Command
+program
+  .command('validate')
+  .description('📐 Validate a .mcplookup.yaml file before publishing')
+  .argument('[file]', 'File to validate (default: .mcplookup.yaml in the current directory)')
+  .option('--fix', 'Apply safe fixes, add missing optional sections and normalise formatting')
+  .option('--drop-comments', 'Let --fix rewrite a file that has comments (the original is kept as <file>.bak)')
+  .option('--strict', 'Exit with an error on warnings too')
+  .option('--json', 'Output the issues as JSON')
+  .addHelpText('after', `
+Checks the file against the mcplookup.yaml schema: required fields, categories,
+installation types, install commands that do not match their type, environment
+variables without descriptions and unknown fields. Issues are reported with
+their line and column. --fix rewrites the file; as that drops comments, files
+with comments are only rewritten with --drop-comments.
+
+Examples:
+  mcpl validate
+  mcpl validate path/to/.mcplookup.yaml --strict
+  mcpl validate --fix
+  mcpl validate --fix --drop-comments`)
+  .action(async (file, options) => {
+    const validateCmd = new ValidateCommand(await getBridge(), await getConfig());
+    await validateCmd.execute(file, options);
+  });
+
+// Test Command
+program
+  .command('test')
+  .description('🧪 Run conformance checks against a server and its .mcplookup.yaml')
+  .argument('[target]', 'Directory or .mcplookup.yaml file, or the name of an installed bridge server', '.')
+  .option('--config <file>', 'Declarations to check an installed server against')
+  .option('--url <url>', 'MCP endpoint of an http or sse server you started yourself')
+  .option('--report <file>', 'Write a report (JUnit XML, or JSON for .json files)')
+  .option('--format <format>', 'Report format: junit, json')
+  .option('--timeout <seconds>', 'Timeout for each step', '30')
+  .option('--json', 'Print the report as JSON')
+  .addHelpText('after', `
+Starts the server, performs the MCP handshake and checks that the tools,
+resources and prompts declared under capabilities match what the server
+advertises and that every tool's inputSchema is valid JSON Schema. Then runs
+testing.test_commands and testing.health_check. Exits with code 1 on failure.
+
+Examples:
+  mcpl test                                   # .mcplookup.yaml in the current directory
+  mcpl test ./my-server --report junit.xml    # For CI
+  mcpl test github --config ./.mcplookup.yaml # An installed bridge server`)
+  .action(async (target, options) => {
+    const testCmd = new TestCommand(await getBridge(), await getConfig());
+    await testCmd.execute(target, options);
+  });
+
+// Record Command
+program
+  .command('record')
+  .description('⏺️ Record an MCP session with a bridge server into a cassette')
+  .argument('<server>', 'Bridge-managed server to record')
+  .option('-o, --output <file>', 'Cassette file (default: <server>.cassette.json)')
+  .option('--port <port>', 'Serve the recording proxy over HTTP instead of stdio')
+  .option('--host <host>', 'Interface for --port', 'localhost')
+  .option('--no-redact', 'Keep values of secret-looking fields (password, token, apiKey, ...) in the cassette')
+  .addHelpText('after', `
+Runs a proxy that forwards every JSON-RPC message to the server and writes
+them to the cassette when the session ends (stdin closes or Ctrl+C). Point
+your MCP client at "mcpl record <server>" as its command, or at the HTTP
+endpoint with --port. Values under keys that name secrets are saved as
+[REDACTED], which matches any value on replay; other content is kept as sent.
+
+Examples:
+  mcpl record github -o test/fixtures/github.cassette.json
+  mcpl record github --port 8282`)
+  .action(async (server, options) => {
+    const recordCmd = new RecordCommand(await getBridge(), await getConfig());
+    await recordCmd.execute(server, options);
+  });
+
+// Replay Command
+program
+  .command('replay')
+  .description('⏯️ Serve a recorded cassette as a fake MCP server')
+  .argument('<cassette>', 'Cassette file written by mcpl record')
+  .option('--port <port>', 'Serve over HTTP instead of stdio')
+  .option('--host <host>', 'Interface for --port', 'localhost')
+  .option('--match-arguments <mode>', 'Compare tool and prompt arguments: exact, ignore', 'exact')
+  .option('--ignore <paths...>', 'Request params to leave out of matching (e.g. arguments.timestamp)')
+  .option('--no-repeat', 'Fail requests once every matching recording was replayed')
+  .addHelpText('after', `
+Each request is answered with the next unplayed recording of the same method
+and params; initialize and ping match on the method alone. Unmatched requests
+get a JSON-RPC error.
+
+Examples:
+  mcpl replay github.cassette.json
+  mcpl replay github.cassette.json --port 8282 --match-arguments ignore
+  mcpl replay github.cassette.json --ignore arguments.since arguments.page`)
+  .action(async (cassette, options) => {
+    const replayCmd = new ReplayCommand(await getBridge(), await getConfig());
+    await replayCmd.execute(cassette, options);
+  });
+
 // Playground Command (Smithery parity + enhancements)
 program
   .command('playground')
@@ -208,9 +395,14 @@ program
   .description('🎮 Open MCP playground for testing')
   .option('--port <port>', 'Playground port', '3000')
   .option('--server <server>', 'Pre-load specific server')
+  .option('--url <url>', 'Pre-load a remote MCP endpoint (streamable HTTP or SSE)')
   .option('--no-open', 'Don\'t open browser automatically')
+  .addHelpText('after', `
+Examples:
+  mcpl playground --server filesystem
+  mcpl playground --url http://localhost:8181/mcp   # e.g. a "mcpl dev" server`)
   .action(async (options) => {
-    const playgroundCmd = new PlaygroundCommand(getBridge());
+    const playgroundCmd = new PlaygroundCommand(await getBridge(), await getConfig());
     await playgroundCmd.execute(options);
   });
 
@@ -222,7 +414,7 @@ program
   .option('--fix', 'Attempt to fix issues automatically')
   .option('--report', 'Generate detailed health report')
   .action(async (options) => {
-    const healthCmd = new HealthCommand(getBridge());
+    const healthCmd = new HealthCommand(await getBridge(), await getConfig());
     await healthCmd.execute(options);
   });
 
@@ -231,23 +423,78 @@ program
   .command('config')
   .description('⚙️ Manage configuration and settings')
   .argument('[action]', 'Action: get, set, list, reset', 'list')
-  .argument('[key]', 'Configuration key')
+  .argument('[key]', 'Configuration key, e.g. defaults.client')
   .argument('[value]', 'Configuration value')
-  .option('--global', 'Use global configuration')
+  .option('--global', 'Write the global config instead of the project .mcpl.json')
+  .option('--show-origin', 'Show which layer (default, global, project, env, flag) set each value')
+  .option('--json', 'Output as JSON')
+  .option('--force', 'Reset without confirmation')
+  .addHelpText('after', `
+Settings are resolved in layers, later ones winning: built-in defaults,
+the global config (~/.config/mcpl/config.json), the nearest project .mcpl.json,
+environment variables (MCPLOOKUP_API_KEY, MCPL_DEFAULT_CLIENT, ...) and CLI flags.
+api.* and the docker image settings are never read from project files, so a
+cloned repository cannot redirect your API key or change what runs servers.
+
+Examples:
+  mcpl config list --show-origin
+  mcpl config get defaults.client
+  mcpl config set defaults.mode bridge             # project .mcpl.json
+  mcpl config set docker.memory 1g --global
+  mcpl config reset docker.memory --global`)
   .action(async (action, key, value, options) => {
-    const configCmd = new ConfigCommand(getBridge());
+    const configCmd = new ConfigCommand(await getBridge(), await getConfig());
     await configCmd.execute(action, key, value, options);
   });
 
+// Sync Command (Beyond Smithery)
+program
+  .command('sync')
+  .description('🔁 Install, update and remove servers to match the project mcpl.json')
+  .option('--dry-run', 'Show the changes without applying them')
+  .option('--frozen', 'Use mcpl.lock as-is and fail if it is missing or out of date (for CI)')
+  .option('--update', 'Re-resolve version ranges instead of reusing mcpl.lock')
+  .addHelpText('after', `
+mcpl.json lists the servers a project needs; mcpl sync reconciles client configs
+and the bridge registry against it and records exact versions in mcpl.lock.
+
+Example mcpl.json:
+  {
+    "version": 1,
+    "servers": {
+      "filesystem": { "package": "@modelcontextprotocol/server-filesystem", "version": "^0.6.0", "clients": ["claude", "cursor"], "args": ["."] },
+      "github": { "package": "@modelcontextprotocol/server-github", "mode": "bridge", "env": ["GITHUB_TOKEN"] }
+    }
+  }
+
+Examples:
+  mcpl sync                        # Apply the manifest and write mcpl.lock
+  mcpl sync --dry-run              # Show what would change
+  mcpl sync --frozen               # CI: install exactly what mcpl.lock says
+  mcpl sync --update               # Move to the newest versions the ranges allow`)
+  .action(async (options) => {
+    const syncCmd = new SyncCommand(await getBridge(), await getConfig());
+    await syncCmd.execute(options);
+  });
+
 // Update Command (Beyond Smithery)
 program
   .command('update')
   .description('🔄 Update servers and CLI tool')
   .argument('[server]', 'Specific server to update (or "all")')
-  .option('--check', 'Check for updates without installing')
-  .option('--force', 'Force update even if up to date')
+  .option('--check', 'Check for updates without installing (exits non-zero when updates are pending)')
+  .option('--force', 'Also pin unpinned servers and reinstall servers that are up to date')
+  .option('--rollback <server>', 'Revert a server to the version it had before its last update')
+  .option('-m, --mode <mode>', 'With --rollback: the installation to revert (bridge or direct) when the server is installed in both')
+  .addHelpText('after', `
+Examples:
+  mcpl update                      # Update every installed server
+  mcpl update filesystem           # Update one server
+  mcpl update --check              # CI gate: exit 1 when updates are pending
+  mcpl update --force              # Also pin servers that run whatever version is latest
+  mcpl update --rollback filesystem`)
   .action(async (server, options) => {
-    const updateCmd = new UpdateCommand(getBridge());
+    const updateCmd = new UpdateCommand(await getBridge(), await getConfig());
     await updateCmd.execute(server, options);
   });
 
@@ -257,12 +504,150 @@ program
   .description('💾 Backup and restore configurations')
   .argument('[action]', 'Action: create, restore, list', 'create')
   .argument('[file]', 'Backup file path')
-  .option('--include-data', 'Include server data in backup')
+  .option('--include-data', 'Include Docker volume data of MCP servers (saved in a .volumes directory next to the archive)')
+  .option('--force', 'Restore without confirmation')
+  .addHelpText('after', `
+Examples:
+  mcpl backup                          # Snapshot client configs and bridge state
+  mcpl backup create --include-data    # Also export volumes bridge servers mount
+  mcpl backup list
+  mcpl backup restore ~/.mcpl/backups/mcpl-backup-<timestamp>.json`)
   .action(async (action, file, options) => {
-    const backupCmd = new BackupCommand(getBridge());
+    const backupCmd = new BackupCommand(await getBridge(), await getConfig());
     await backupCmd.execute(action, file, options);
   });
 
+// Images Command
+program
+  .command('images')
+  .description('🐳 Manage the prebuilt Docker images npm and Python servers run in')
+  .argument('[action]', 'Action: list, prune, rebuild', 'list')
+  .argument('[server]', 'Server whose image to rebuild')
+  .option('--all', 'prune: also remove images in use; rebuild: rebuild every server image')
+  .option('--force', 'Prune without confirmation')
+  .option('--json', 'Output the list as JSON')
+  .addHelpText('after', `
+Bridge-mode npm and Python servers run from a local image per package version
+(mcpl/<type>-<package>:<version>), built once as a non-root user and reused on
+every start. Base images come from the docker.image and docker.pythonImage settings.
+
+Examples:
+  mcpl images                      # List built images and the servers using them
+  mcpl images prune                # Remove images no installed server uses
+  mcpl images rebuild github       # Rebuild one server's image with a fresh base image
+  mcpl images rebuild --all`)
+  .action(async (action, server, options) => {
+    const imagesCmd = new ImagesCommand(await getBridge(), await getConfig());
+    await imagesCmd.execute(action, server, options);
+  });
+
+// Sandbox Command
+program
+  .command('sandbox')
+  .description('🛡️ List the sandbox profiles bridge servers can run with')
+  .argument('[action]', 'Action: list, show', 'list')
+  .argument('[profile]', 'Profile to show')
+  .option('--json', 'Output as JSON')
+  .addHelpText('after', `
+Profiles are chosen per server with "mcpl install --sandbox <profile>" and
+applied to the server's container every time it starts. Add custom profiles to
+~/.mcpl/sandbox-profiles.json as {"version": 1, "profiles": {"<name>": {...}}}.
+
+Examples:
+  mcpl sandbox                     # List built-in and custom profiles
+  mcpl sandbox show workspace-rw`)
+  .action(async (action, profile, options) => {
+    const sandboxCmd = new SandboxCommand(await getBridge(), await getConfig());
+    await sandboxCmd.execute(action, profile, options);
+  });
+
+// Policy Command
+program
+  .command('policy')
+  .description('🛡️ Manage tool allow/deny and sampling policies for bridged servers')
+  .argument('[action]', 'Action: list, show, allow, deny, confirm, constrain, unset, reset, edit, check, sampling', 'list')
+  .argument('[server]', 'Server name')
+  .argument('[values...]', 'Tool name patterns (glob), <tool> <argument> for constrain, or allow|deny for sampling')
+  .option('--path-prefix <paths...>', 'Allowed path prefixes for a constrained argument')
+  .option('--base-dir <path>', 'Directory relative values of a constrained path argument resolve against (default: refuse them)')
+  .option('--pattern <regex>', 'Regular expression a constrained argument must match')
+  .option('--args <json>', 'Tool arguments to evaluate with check')
+  .option('--max-tokens <n>', 'Largest maxTokens a sampling request may ask for')
+  .option('--budget <n>', 'Sampling tokens a server may request during one tool call')
+  .option('--force', 'Reset without confirmation')
+  .addHelpText('after', `
+Examples:
+  mcpl policy deny filesystem "delete_*"            # Hide and block destructive tools
+  mcpl policy allow github "get_*" "list_*"          # Only expose read-only tools
+  mcpl policy confirm filesystem write_file          # Ask the user before each call
+  mcpl policy constrain filesystem "*_file" path --path-prefix ~/projects
+  mcpl policy check filesystem read_file --args '{"path":"/etc/passwd"}'
+  mcpl policy sampling agent allow --max-tokens 1000 --budget 5000
+  mcpl policy sampling crawler deny                  # Never let it use the client's model
+  mcpl policy edit filesystem                        # Open the policy in $EDITOR`)
+  .action(async (action, server, values, options) => {
+    const policyCmd = new PolicyCommand(await getBridge(), await getConfig());
+    await policyCmd.execute(action, server, values, options);
+  });
+
+// Secrets Command
+program
+  .command('secrets')
+  .description('🔐 Manage encrypted secrets referenced from server configs')
+  .argument('[action]', 'Action: list, set, get, rm', 'list')
+  .argument('[name]', 'Secret name')
+  .argument('[value]', 'Secret value for set (prompted for, or read from stdin, when omitted)')
+  .option('--json', 'Output the list as JSON')
+  .option('--force', 'Remove without confirmation')
+  .addHelpText('after', `
+Secrets are encrypted with a key derived from your passphrase and stored in
+~/.mcpl/secrets.json. Server configs hold only references such as
+secret://github-token, resolved when the bridge or mcpl-launch starts the server.
+
+Servers started by clients cannot prompt, so they read the passphrase from
+MCPL_SECRETS_PASSPHRASE, the file named by MCPL_SECRETS_PASSPHRASE_FILE, or
+~/.mcpl/secrets.passphrase (keep it chmod 600).
+
+Examples:
+  mcpl secrets set github-token                    # Prompt for the value
+  echo "$TOKEN" | mcpl secrets set github-token    # Read the value from stdin
+  mcpl secrets list
+  mcpl install @modelcontextprotocol/server-github --env '{"GITHUB_TOKEN":"secret://github-token"}'
+  mcpl secrets rm github-token --force`)
+  .action(async (action, name, value, options) => {
+    const secretsCmd = new SecretsCommand(await getBridge(), await getConfig());
+    await secretsCmd.execute(action, name, value, options);
+  });
+
+// Logs Command
+program
+  .command('logs')
+  .description('🧾 View bridge logs (server stderr logs, tool call audit log)')
+  .argument('[server]', 'Bridge server whose stderr and lifecycle log to show')
+  .option('--tool-calls', 'Show the audit log of tool calls forwarded by the bridge')
+  .option('--server <server>', 'Only calls to this server (or invoke_tool endpoint)')
+  .option('--tool <tool>', 'Only calls to this tool')
+  .option('--since <time>', 'Only entries after an ISO date or a duration ago (30m, 2h, 7d)')
+  .option('--until <time>', 'Only entries before an ISO date or a duration ago')
+  .option('--errors', 'Only failed or blocked calls')
+  .option('-f, --follow', 'Keep printing new server log lines')
+  .option('--grep <pattern>', 'Only server log lines matching a regular expression')
+  .option('--limit <number>', 'Maximum number of entries (most recent)', '50')
+  .option('--json', 'Print raw JSONL entries')
+  .addHelpText('after', `
+Examples:
+  mcpl logs filesystem                            # Last 50 lines of a server's stderr
+  mcpl logs filesystem --follow --grep "ERROR|WARN"
+  mcpl logs github --since 30m
+  mcpl logs --tool-calls                          # Last 50 tool calls
+  mcpl logs --tool-calls --server filesystem --since 2h
+  mcpl logs --tool-calls --tool write_file --errors
+  mcpl logs --tool-calls --since 2025-01-01 --until 2025-02-01 --json`)
+  .action(async (serverName, options) => {
+    const logsCmd = new LogsCommand(await getBridge(), await getConfig());
+    await logsCmd.execute(serverName, options);
+  });
+
 // Help improvements
 program.on('--help', () => {
   console.log('');
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+// mcpl-launch - Start a direct-mode MCP server with its secret:// references resolved
+// Client configs run `mcpl-launch <command> [args...]` with references in args and env,
+// so secret values only ever exist in the server process.
+
+import { spawn } from 'node:child_process';
+import { SecretVault, readSecretPassphrase } from '@mcplookup-org/mcp-sdk';
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  if (!command) {
+    console.error('Usage: mcpl-launch <command> [args...]');
+    process.exit(2);
+  }
+
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+
+  let resolved: { args: string[]; env: Record<string, string> };
+  try {
+    const vault = new SecretVault({ passphrase: await readSecretPassphrase() });
+    resolved = await vault.resolve({ args, env });
+  } catch (error) {
+    // stdout belongs to the MCP protocol; report on stderr where clients log it
+    console.error(`mcpl-launch: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  // The server has no use for the vault passphrase
+  delete resolved.env.MCPL_SECRETS_PASSPHRASE;
+
+  const child = spawn(command, resolved.args, {
+    env: resolved.env,
+    stdio: 'inherit',
+    shell: process.platform === 'win32'
+  });
+
+  for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+    process.on(signal, () => child.kill(signal));
+  }
+
+  child.on('error', (error) => {
+    console.error(`mcpl-launch: failed to start ${command}: ${error.message}`);
+    process.exit(1);
+  });
+
+  child.on('exit', (code, signal) => {
+    if (signal) {
+      process.kill(process.pid, signal);
+    } else {
+      process.exit(code ?? 1);
+    }
+  });
+}
+
+main();